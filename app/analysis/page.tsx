@@ -11,6 +11,10 @@ import { AnalysisHashScroll } from '@/components/analysis/analysis-hash-scroll'
 import { ForecastEvolutionSection } from '@/components/analysis/forecast-evolution-section'
 import { MonthlyCategoryTrendsSection } from '@/components/analysis/monthly-category-trends-section'
 import { AddTransactionDialog } from '@/components/transactions/add-transaction-dialog'
+import { ImportCsvDialog } from '@/components/transactions/import-csv-dialog'
+import { ImportOfxDialog } from '@/components/transactions/import-ofx-dialog'
+import { DuplicateReviewQueue } from '@/components/transactions/duplicate-review-queue'
+import { TransferReviewQueue } from '@/components/transactions/transfer-review-queue'
 
 type SearchParams = Promise<{ [key: string]: string | string[] | undefined }>
 
@@ -34,6 +38,7 @@ export default async function AnalysisPage({
   const yearParam = typeof params?.year === 'string' ? params.year : undefined
   const monthParam = typeof params?.month === 'string' ? params.month : undefined
   const category = typeof params?.category === 'string' ? params.category : undefined
+  const tag = typeof params?.tag === 'string' ? params.tag : undefined
 
   return (
     <div className="space-y-4 md:space-y-6">
@@ -45,7 +50,11 @@ export default async function AnalysisPage({
             Deep dive into spending patterns and year-over-year changes
           </p>
         </div>
-        <AddTransactionDialog />
+        <div className="flex items-center gap-2">
+          <ImportCsvDialog />
+          <ImportOfxDialog />
+          <AddTransactionDialog />
+        </div>
       </div>
       <AnalysisNavigation />
       <div id="cash-runway" className="scroll-mt-24">
@@ -58,8 +67,11 @@ export default async function AnalysisPage({
           initialYear={yearParam ? parseInt(yearParam, 10) : undefined}
           initialMonth={monthParam ? parseInt(monthParam, 10) : undefined}
           initialCategory={category || undefined}
+          initialTag={tag || undefined}
         />
       </div>
+      <DuplicateReviewQueue />
+      <TransferReviewQueue />
       <div id="forecast-evolution" className="scroll-mt-24">
         <ForecastEvolutionSection />
       </div>
@@ -6,7 +6,7 @@ const UpdateAccountSchema = z.object({
   institution: z.string().min(1).optional(),
   account_name: z.string().min(1).optional(),
   category: z.string().min(1).optional(),
-  currency: z.enum(['USD', 'GBP', 'EUR']).optional(),
+  currency: z.string().regex(/^[A-Z]{3}$/, 'Expected an ISO currency code').optional(),
   balance_total_local: z.number().optional(),
   balance_personal_local: z.number().optional(),
   balance_family_local: z.number().optional(),
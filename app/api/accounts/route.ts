@@ -6,7 +6,7 @@ const CreateAccountSchema = z.object({
   institution: z.string().min(1),
   account_name: z.string().min(1),
   category: z.string().min(1),
-  currency: z.enum(['USD', 'GBP', 'EUR']),
+  currency: z.string().regex(/^[A-Z]{3}$/, 'Expected an ISO currency code'),
   balance_total_local: z.number(),
   balance_personal_local: z.number().default(0),
   balance_family_local: z.number().default(0),
@@ -0,0 +1,83 @@
+import { createClient } from '@/lib/supabase/server'
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+
+const UpdateAlertRuleSchema = z.object({
+  category: z.string().trim().min(1).nullable().optional(),
+  threshold: z.number().positive().optional(),
+  lookback_days: z.number().int().min(1).max(365).optional(),
+  is_active: z.boolean().optional(),
+})
+
+export async function PATCH(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const parsed = UpdateAlertRuleSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid input', details: parsed.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const { data, error } = await supabase
+      .from('alert_rules')
+      .update(parsed.data)
+      .eq('id', id)
+      .select()
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error updating alert rule:', error)
+      return NextResponse.json({ success: false, error: error.message }, { status: 500 })
+    }
+    if (!data) {
+      return NextResponse.json({ success: false, error: 'Rule not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true, data })
+  } catch (error: any) {
+    console.error('Alert rule PATCH error:', error)
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to update alert rule' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // Notifications it raised stay in the inbox (alert_rule_id is cleared)
+    const { error } = await supabase.from('alert_rules').delete().eq('id', id)
+
+    if (error) {
+      console.error('Error deleting alert rule:', error)
+      return NextResponse.json({ success: false, error: error.message }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    console.error('Alert rule DELETE error:', error)
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to delete alert rule' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,72 @@
+import { createClient } from '@/lib/supabase/server'
+import { NextResponse } from 'next/server'
+import { AlertRuleInputSchema } from '@/lib/utils/alert-rules'
+
+export async function GET() {
+  try {
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data, error } = await supabase
+      .from('alert_rules')
+      .select('*')
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      console.error('Error fetching alert rules:', error)
+      return NextResponse.json({ success: false, error: error.message }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true, data })
+  } catch (error: any) {
+    console.error('Alert rules GET error:', error)
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to fetch alert rules' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const parsed = AlertRuleInputSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid input', details: parsed.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const { data, error } = await supabase
+      .from('alert_rules')
+      .insert({ ...parsed.data, user_id: user.id })
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error creating alert rule:', error)
+      return NextResponse.json({ success: false, error: error.message }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true, data })
+  } catch (error: any) {
+    console.error('Alert rules API error:', error)
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to create alert rule' },
+      { status: 500 }
+    )
+  }
+}
@@ -27,9 +27,15 @@ export async function PATCH(request: Request, { params }: { params: Promise<{ id
       )
     }
 
+    const updates: Record<string, any> = { ...parsed.data }
+    if (updates.annual_budget_gbp !== undefined) {
+      updates.annual_budget = updates.annual_budget_gbp
+      updates.currency = 'GBP'
+    }
+
     const { data, error } = await supabase
       .from('budget_targets')
-      .update(parsed.data)
+      .update(updates)
       .eq('id', id)
       .select()
       .single()
@@ -0,0 +1,166 @@
+import { createClient } from '@/lib/supabase/server'
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { computeBudgetEnvelopes, profileEnvelopeAllocations } from '@/lib/compute-budget-envelopes'
+
+const YearSchema = z.coerce.number().int().min(2000).max(2100)
+
+const UpdateEnvelopeSchema = z
+  .object({
+    category: z.string().min(1),
+    year: YearSchema,
+    /** 12 amounts to spend (GBP), January first; or a profile to generate them from. */
+    monthly_gbp: z.array(z.number().min(0)).length(12).optional(),
+    profile: z.enum(['even', 'seasonal']).optional(),
+    rollover: z.boolean().optional(),
+  })
+  .refine((v) => !(v.monthly_gbp && v.profile), { message: 'Send monthly_gbp or profile, not both' })
+
+/**
+ * GET /api/budgets/envelopes?year=YYYY
+ * Monthly allocation, spend, carry-over and available amount per expense budget. year defaults
+ * to the current year.
+ */
+export async function GET(request: Request) {
+  try {
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const yearParam = new URL(request.url).searchParams.get('year')
+    const parsed = YearSchema.safeParse(yearParam ?? new Date().getFullYear())
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid year', details: parsed.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const envelopes = await computeBudgetEnvelopes(supabase, user.id, parsed.data)
+    return NextResponse.json({ success: true, data: { year: parsed.data, envelopes } })
+  } catch (error: any) {
+    console.error('Budget envelopes GET error:', error)
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to load budget envelopes' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PUT /api/budgets/envelopes
+ * Save one category's allocations and rollover for a year. With profile instead of monthly_gbp the
+ * allocations are generated (even split, or last year's pattern); with neither they are kept.
+ */
+export async function PUT(request: Request) {
+  try {
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const parsed = UpdateEnvelopeSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid input', details: parsed.error.flatten() },
+        { status: 400 }
+      )
+    }
+    const { category, year, profile, rollover } = parsed.data
+
+    const { data: existing, error: existingError } = await supabase
+      .from('budget_envelopes')
+      .select('monthly_gbp, rollover')
+      .eq('user_id', user.id)
+      .eq('category', category)
+      .eq('year', year)
+      .maybeSingle()
+    if (existingError) {
+      console.error('Error loading budget envelope:', existingError)
+      return NextResponse.json({ success: false, error: existingError.message }, { status: 500 })
+    }
+
+    const monthly_gbp =
+      parsed.data.monthly_gbp ??
+      (profile || !existing
+        ? await profileEnvelopeAllocations(supabase, user.id, category, year, profile ?? 'even')
+        : existing.monthly_gbp)
+
+    const { data, error } = await supabase
+      .from('budget_envelopes')
+      .upsert(
+        {
+          user_id: user.id,
+          category,
+          year,
+          monthly_gbp,
+          rollover: rollover ?? existing?.rollover ?? false,
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: 'user_id,category,year' }
+      )
+      .select('category, year, monthly_gbp, rollover')
+      .single()
+
+    if (error) {
+      console.error('Error saving budget envelope:', error)
+      return NextResponse.json({ success: false, error: error.message }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true, data })
+  } catch (error: any) {
+    console.error('Budget envelopes PUT error:', error)
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to save budget envelope' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/budgets/envelopes?category=...&year=YYYY
+ * Back to an even split without rollover.
+ */
+export async function DELETE(request: Request) {
+  try {
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const category = searchParams.get('category')
+    const year = YearSchema.safeParse(searchParams.get('year'))
+    if (!category || !year.success) {
+      return NextResponse.json({ success: false, error: 'category and year are required' }, { status: 400 })
+    }
+
+    const { error } = await supabase
+      .from('budget_envelopes')
+      .delete()
+      .eq('user_id', user.id)
+      .eq('category', category)
+      .eq('year', year.data)
+
+    if (error) {
+      console.error('Error deleting budget envelope:', error)
+      return NextResponse.json({ success: false, error: error.message }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    console.error('Budget envelopes DELETE error:', error)
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to reset budget envelope' },
+      { status: 500 }
+    )
+  }
+}
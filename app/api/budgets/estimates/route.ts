@@ -0,0 +1,35 @@
+import { createClient } from '@/lib/supabase/server'
+import { NextResponse } from 'next/server'
+import { computeBudgetEstimates } from '@/lib/compute-budget-estimates'
+import { isBudgetForecastMethod } from '@/lib/utils/budget-forecast'
+
+/**
+ * GET /api/budgets/estimates?method=run_rate|seasonal|recurring
+ * Budget targets with YTD and full-year tracking computed from transaction_log. method
+ * defaults to the user's profile setting.
+ */
+export async function GET(request: Request) {
+  try {
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const param = new URL(request.url).searchParams.get('method')
+    const method = isBudgetForecastMethod(param) ? param : undefined
+    if (param !== null && !method) {
+      return NextResponse.json({ success: false, error: `Unknown forecast method "${param}"` }, { status: 400 })
+    }
+
+    const data = await computeBudgetEstimates(supabase, user.id, { method })
+    return NextResponse.json({ success: true, data })
+  } catch (error: any) {
+    console.error('Budget estimates GET error:', error)
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to compute budget estimates' },
+      { status: 500 }
+    )
+  }
+}
@@ -59,6 +59,9 @@ export async function POST(request: Request) {
     const { data, error } = await supabase.from('budget_targets').insert({
       user_id: user.id,
       category: parsed.data.category,
+      // Budgets are kept in GBP; the native columns mirror the GBP amount
+      annual_budget: parsed.data.annual_budget_gbp,
+      currency: 'GBP',
       annual_budget_gbp: parsed.data.annual_budget_gbp,
       annual_budget_usd: parsed.data.annual_budget_usd,
       tracking_est_gbp: 0,
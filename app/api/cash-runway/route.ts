@@ -4,7 +4,8 @@ import { NextResponse } from 'next/server'
 /**
  * GET /api/cash-runway
  * Returns net burn (expenses + refunds) for last 3 full calendar months (UTC), aggregated in DB (no row limit).
- * Same filters as SQL: category NOT IN ('Income', 'Excluded', 'Gift Money'); USD = currency IS NULL OR 'USD'; GBP = 'GBP'.
+ * Same filters as SQL: category NOT IN ('Income', 'Excluded', 'Gift Money'). netByCurrency has one entry per
+ * transaction currency in its native amount (NULL currency = USD); gbpNet / usdNet / eurNet are kept for older callers.
  */
 export async function GET() {
   const supabase = await createClient()
@@ -38,14 +39,17 @@ export async function GET() {
     return NextResponse.json({ error: rpcError.message }, { status: 500 })
   }
 
-  const row = Array.isArray(rpcData) ? rpcData[0] : rpcData
-  const gbpNet = row?.gbp_net != null ? Number(row.gbp_net) : 0
-  const usdNet = row?.usd_net != null ? Number(row.usd_net) : 0
+  const netByCurrency: Record<string, number> = {}
+  for (const row of (rpcData ?? []) as { currency: string; net: number | string | null }[]) {
+    netByCurrency[row.currency] = Number(row.net ?? 0)
+  }
 
   return NextResponse.json({
     startDate: startDateStr,
     endDate: endDateStr,
-    gbpNet,
-    usdNet,
+    netByCurrency,
+    gbpNet: netByCurrency.GBP ?? 0,
+    usdNet: netByCurrency.USD ?? 0,
+    eurNet: netByCurrency.EUR ?? 0,
   })
 }
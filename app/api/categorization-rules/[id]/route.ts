@@ -0,0 +1,100 @@
+import { createClient } from '@/lib/supabase/server'
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { compileRulePattern } from '@/lib/utils/categorization-rules'
+
+const UpdateRuleSchema = z.object({
+  priority: z.number().int().optional(),
+  counterparty_pattern: z.string().trim().min(1).nullable().optional(),
+  match_type: z.enum(['contains', 'regex']).optional(),
+  min_amount: z.number().min(0).nullable().optional(),
+  max_amount: z.number().min(0).nullable().optional(),
+  currency: z.string().regex(/^[A-Z]{3}$/, 'Expected an ISO currency code').nullable().optional(),
+  category: z.string().trim().min(1).optional(),
+  is_active: z.boolean().optional(),
+})
+
+export async function PATCH(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const parsed = UpdateRuleSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid input', details: parsed.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const { data: existing } = await supabase
+      .from('categorization_rules')
+      .select('counterparty_pattern, match_type')
+      .eq('id', id)
+      .single()
+
+    if (!existing) {
+      return NextResponse.json({ success: false, error: 'Rule not found' }, { status: 404 })
+    }
+
+    try {
+      compileRulePattern({ ...existing, ...parsed.data })
+    } catch {
+      return NextResponse.json({ success: false, error: 'Invalid regular expression' }, { status: 400 })
+    }
+
+    const { data, error } = await supabase
+      .from('categorization_rules')
+      .update(parsed.data)
+      .eq('id', id)
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error updating categorization rule:', error)
+      return NextResponse.json({ success: false, error: error.message }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true, data })
+  } catch (error: any) {
+    console.error('Categorization rule PATCH error:', error)
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to update rule' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { error } = await supabase.from('categorization_rules').delete().eq('id', id)
+
+    if (error) {
+      console.error('Error deleting categorization rule:', error)
+      return NextResponse.json({ success: false, error: error.message }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    console.error('Categorization rule DELETE error:', error)
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to delete rule' },
+      { status: 500 }
+    )
+  }
+}
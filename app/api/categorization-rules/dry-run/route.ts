@@ -0,0 +1,81 @@
+import { createClient } from '@/lib/supabase/server'
+import { NextResponse } from 'next/server'
+import { CategorizationRuleInputSchema, dryRunRule } from '@/lib/utils/categorization-rules'
+
+const PAGE_SIZE = 1000
+/** Rows returned for display; `total` always reflects every match. */
+const MAX_ROWS = 200
+
+type HistoryRow = {
+  id: string
+  date: string
+  category: string
+  counterparty: string | null
+  amount_usd: number | null
+  amount_gbp: number | null
+  amount_eur: number | null
+  currency: string | null
+  data_source: string
+}
+
+/**
+ * Dry-run a rule on the full transaction history: which past rows it would recategorize.
+ * Nothing is written.
+ */
+export async function POST(request: Request) {
+  try {
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const parsed = CategorizationRuleInputSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid input', details: parsed.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const history: HistoryRow[] = []
+    for (let page = 0; ; page++) {
+      const { data, error } = await supabase
+        .from('transaction_log')
+        .select('id, date, category, counterparty, amount_usd, amount_gbp, amount_eur, currency, data_source')
+        .order('date', { ascending: false })
+        .range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1)
+      if (error) {
+        console.error('Error fetching history for rule dry-run:', error)
+        return NextResponse.json({ success: false, error: error.message }, { status: 500 })
+      }
+      history.push(...((data ?? []) as HistoryRow[]))
+      if (!data || data.length < PAGE_SIZE) break
+    }
+
+    const matches = dryRunRule(parsed.data, history)
+    const byCategory: Record<string, number> = {}
+    matches.forEach((tx) => {
+      byCategory[tx.category] = (byCategory[tx.category] ?? 0) + 1
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        total: matches.length,
+        scanned: history.length,
+        fromCategories: byCategory,
+        rows: matches.slice(0, MAX_ROWS),
+      },
+    })
+  } catch (error: any) {
+    console.error('Categorization rule dry-run error:', error)
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to run rule on history' },
+      { status: 500 }
+    )
+  }
+}
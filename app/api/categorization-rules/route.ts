@@ -0,0 +1,81 @@
+import { createClient } from '@/lib/supabase/server'
+import { NextResponse } from 'next/server'
+import { CategorizationRuleInputSchema } from '@/lib/utils/categorization-rules'
+
+export async function GET() {
+  try {
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data, error } = await supabase
+      .from('categorization_rules')
+      .select('*')
+      .order('priority', { ascending: true })
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      console.error('Error fetching categorization rules:', error)
+      return NextResponse.json({ success: false, error: error.message }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true, data })
+  } catch (error: any) {
+    console.error('Categorization rules GET error:', error)
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to fetch rules' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const parsed = CategorizationRuleInputSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid input', details: parsed.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    // New rules go to the end of the list
+    const { data: last } = await supabase
+      .from('categorization_rules')
+      .select('priority')
+      .order('priority', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    const { data, error } = await supabase.from('categorization_rules').insert({
+      ...parsed.data,
+      user_id: user.id,
+      priority: (last?.priority ?? -1) + 1,
+    }).select().single()
+
+    if (error) {
+      console.error('Error creating categorization rule:', error)
+      return NextResponse.json({ success: false, error: error.message }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true, data })
+  } catch (error: any) {
+    console.error('Categorization rules API error:', error)
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to create rule' },
+      { status: 500 }
+    )
+  }
+}
@@ -2,6 +2,10 @@ import { createClient } from '@/lib/supabase/server'
 import { google } from '@ai-sdk/google'
 import { streamText } from 'ai'
 import { z } from 'zod'
+import { buildMerchantResolver, merchantGroup } from '@/lib/utils/merchants'
+import { buildGetRateForDate, fetchCurrentFxRates, fetchFxRatesUpTo } from '@/lib/utils/fx-rates'
+import { amountFromGbpUsd, convertCurrency, getCurrencySymbol, type FxRates } from '@/lib/utils/currency'
+import { computeNetWorthHistory, unconvertedCurrencies, type NetWorthPoint } from '@/lib/utils/net-worth-history'
 
 export async function POST(req: Request) {
   const supabase = await createClient()
@@ -98,7 +102,7 @@ YOUR CAPABILITIES:
    - Monthly trend insights and comparisons
    This tool provides detailed monthly breakdowns, identifies the top transaction counterparty, and compares current month spending to 3-month average, 12-month average, and same period last year.
 
-6. **Net worth trends and cash runway**: Use get_net_worth_trend when the user asks how their net worth has changed over time or for a trend over a date range. Use get_cash_runway when the user asks about runway, burn, or how long their cash will last.
+6. **Net worth trends and cash runway**: Use get_net_worth_trend when the user asks how their net worth has changed over time or for a trend over a date range. It can break the trend down by entity, account category or account currency. Use get_cash_runway when the user asks about runway, burn, or how long their cash will last.
 
 7. **Web Search for Comparative Data**: Use search_web when the user asks for comparisons with external benchmarks, averages, or market data. Examples:
    - "How does my spending on X compare to average in Y location?"
@@ -106,6 +110,8 @@ YOUR CAPABILITIES:
    - "How does my budget compare to others?"
    When using search_web, first get the user's data using appropriate financial tools (e.g., analyze_spending), then search for external benchmarks, and finally synthesize a comparison. Always include disclaimers about external data sources and their limitations.
 
+8. **Tags**: Transactions can carry free-form tags for trips, events or reimbursables (e.g. "Trip: Lisbon 2026", "Wedding"). Use get_tag_totals when the user asks what something tagged cost in total ("How much did the Lisbon trip cost?"); it reports totals in both GBP and USD.
+
 DATA CONTEXT:
 - The user has accounts in multiple currencies (primarily GBP and USD)
 - Accounts are categorized by type (Cash, Brokerage, Alt Inv, Retirement, Taconic, House, Trust, etc.)
@@ -281,7 +287,7 @@ If the user asks something you cannot answer with the available data (e.g., "How
               
               const summary = Object.entries(totalsByCurrency)
                 .map(([currency, totals]) => {
-                  const symbol = currency === 'USD' ? '$' : '£'
+                  const symbol = getCurrencySymbol(currency)
                   const amount = currency === 'USD' ? totals.usd : totals.gbp
                   return `${symbol}${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} ${currency}`
                 })
@@ -421,7 +427,7 @@ If the user asks something you cannot answer with the available data (e.g., "How
               
               const summary = Object.values(grouped)
                 .map((group: any) => {
-                  const symbol = group.currency === 'USD' ? '$' : group.currency === 'EUR' ? '€' : '£'
+                  const symbol = getCurrencySymbol(group.currency)
                   const amount = group.total
                   const label = group.currency || group.category || group.entity || 'Total'
                   return `${symbol}${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} ${label}`
@@ -455,11 +461,11 @@ If the user asks something you cannot answer with the available data (e.g., "How
         inputSchema: z.object({
           startDate: z.string().optional().describe('Start date for analysis (YYYY-MM-DD). For "last month" use the range from CURRENT DATE CONTEXT. Defaults to start of current year if not specified.'),
           endDate: z.string().optional().describe('End date for analysis (YYYY-MM-DD). For "last month" use the range from CURRENT DATE CONTEXT. Defaults to today if not specified.'),
-          merchant: z.string().optional().describe('Search for specific merchant/counterparty (fuzzy search, case-insensitive)'),
+          merchant: z.string().optional().describe('Search for specific merchant/counterparty (case-insensitive). Matches canonical merchant names and their aliases, so "Amazon" also finds "AMZN Mktp".'),
           category: z.string().optional().describe('Filter by specific category'),
           transactionType: z.enum(['expenses', 'income', 'all']).optional().default('expenses').describe('Filter by transaction type: expenses (negative amounts), income (positive amounts), or all'),
           includeExcluded: z.boolean().optional().default(false).describe('Include excluded categories (Excluded, Income, Gift Money, Other Income). Default is false.'),
-          groupBy: z.enum(['category', 'merchant', 'month']).optional().describe('Group results by category, merchant, or month'),
+          groupBy: z.enum(['category', 'merchant', 'month']).optional().describe('Group results by category, merchant (canonical merchant name), or month'),
           limit: z.number().optional().default(100).describe('Maximum number of transactions to return (for detailed lists)'),
         }),
         execute: async ({ 
@@ -492,7 +498,7 @@ If the user asks something you cannot answer with the available data (e.g., "How
             const queryLimit = 10000
             let queryBuilder = supabase
               .from('transaction_log')
-              .select('*')
+              .select('*, merchant:merchants(name)')
               .eq('user_id', user.id)
               .gte('date', start.toISOString().split('T')[0])
               .lte('date', end.toISOString().split('T')[0])
@@ -504,7 +510,20 @@ If the user asks something you cannot answer with the available data (e.g., "How
             }
             
             if (merchant) {
-              queryBuilder = queryBuilder.ilike('counterparty', `%${merchant}%`)
+              // Match merchants by canonical name or alias, plus raw counterparty for unresolved rows
+              const term = merchant.replace(/[,()*%]/g, ' ').trim()
+              const { data: merchants } = await supabase
+                .from('merchants')
+                .select('id, name, alias_patterns')
+                .eq('user_id', user.id)
+              const lowerTerm = term.toLowerCase()
+              const resolveTerm = buildMerchantResolver(merchants ?? [])
+              const merchantIds = (merchants ?? [])
+                .filter((m) => m.name.toLowerCase().includes(lowerTerm) || resolveTerm(term) === m.id)
+                .map((m) => m.id)
+              queryBuilder = merchantIds.length > 0
+                ? queryBuilder.or(`merchant_id.in.(${merchantIds.join(',')}),counterparty.ilike.*${term}*`)
+                : queryBuilder.ilike('counterparty', `%${term}%`)
             }
             
             const { data: transactions, error } = await queryBuilder
@@ -578,7 +597,7 @@ If the user asks something you cannot answer with the available data (e.g., "How
                 grouped[cat].totalUSD += usdAmount
                 grouped[cat].count += 1
               } else if (groupBy === 'merchant') {
-                const merch = tx.counterparty || 'Unknown'
+                const merch = tx.merchant?.name ?? tx.counterparty ?? 'Unknown'
                 if (!grouped[merch]) {
                   grouped[merch] = { merchant: merch, totalGBP: 0, totalUSD: 0, count: 0 }
                 }
@@ -619,6 +638,7 @@ If the user asks something you cannot answer with the available data (e.g., "How
                   date: tx.date,
                   category: tx.category,
                   counterparty: tx.counterparty || 'Unknown',
+                  merchant: tx.merchant?.name ?? null,
                   amount_gbp: tx.amount_gbp,
                   amount_usd: tx.amount_usd,
                 })) : null,
@@ -704,12 +724,14 @@ If the user asks something you cannot answer with the available data (e.g., "How
                 }
               })
             } else {
-              // For YTD period, use actual transactions
+              // For YTD period, use actual transactions (split transactions count under each split's category;
+              // internal transfers are not spending)
               // Get transactions for the period
               let transactionQuery = supabase
-                .from('transaction_log')
+                .from('transaction_log_allocated')
                 .select('*')
                 .eq('user_id', user.id)
+                .eq('is_transfer', false)
                 .gte('date', startOfYear.toISOString().split('T')[0])
                 .lte('date', endDate.toISOString().split('T')[0])
               
@@ -832,15 +854,14 @@ If the user asks something you cannot answer with the available data (e.g., "How
         description: `Get an overall financial health snapshot in one call: net worth, allocation, budget status (net income under/over), and top spending categories. Use when the user asks for an overall picture of their financial health, a summary of where they stand, or how they're doing (accounts, allocation, budget, spending trends).`,
         inputSchema: z.object({
           asOfDate: z.string().optional().describe('Specific date for snapshot (YYYY-MM-DD). Omit for current.'),
-          currency: z.enum(['GBP', 'USD']).optional().default('GBP').describe('Currency for summary display.'),
+          currency: z.enum(['GBP', 'USD', 'EUR']).optional().default('GBP').describe('Currency for summary display.'),
         }),
         execute: async ({ asOfDate, currency = 'GBP' }) => {
           try {
             console.log('[chat] get_financial_health_summary: Starting', { asOfDate, currency })
 
             const isHistorical = asOfDate && asOfDate !== 'null'
-            const fxRes = await supabase.from('fx_rate_current').select('gbpusd_rate').order('date', { ascending: false }).limit(1).single()
-            const fxRate = fxRes.data?.gbpusd_rate ?? 1.27
+            const rates = await fetchCurrentFxRates(supabase)
 
             // 1) Net worth
             let totalGbp = 0
@@ -868,8 +889,8 @@ If the user asks something you cannot answer with the available data (e.g., "How
                     totalUsd += usd
                   }
                 })
-                allocationByCurrency.push({ currency: 'GBP', totalGbp: totalGbpInclTrust, totalUsd: totalGbpInclTrust * fxRate })
-                allocationByCurrency.push({ currency: 'USD', totalGbp: totalUsdInclTrust / fxRate, totalUsd: totalUsdInclTrust })
+                allocationByCurrency.push({ currency: 'GBP', totalGbp: totalGbpInclTrust, totalUsd: convertCurrency(totalGbpInclTrust, 'GBP', 'USD', rates) })
+                allocationByCurrency.push({ currency: 'USD', totalGbp: convertCurrency(totalUsdInclTrust, 'USD', 'GBP', rates), totalUsd: totalUsdInclTrust })
               }
             } else {
               const { data: balances, error: balErr } = await supabase.from('account_balances').select('*').eq('user_id', user.id).order('date_updated', { ascending: false })
@@ -891,22 +912,15 @@ If the user asks something you cannot answer with the available data (e.g., "How
               byAccount.forEach(({ balance_total_local, currency: curr, category: cat }) => {
                 const isTrust = (cat || '').toLowerCase().includes('trust')
                 if (!byCurr[curr]) byCurr[curr] = { gbp: 0, usd: 0 }
-                if (curr === 'GBP') {
-                  byCurr[curr].gbp += balance_total_local
-                  totalGbpInclTrust += balance_total_local
-                  totalUsdInclTrust += balance_total_local * fxRate
-                  if (!isTrust) {
-                    totalGbp += balance_total_local
-                    totalUsd += balance_total_local * fxRate
-                  }
-                } else {
-                  byCurr[curr].usd += balance_total_local
-                  totalUsdInclTrust += balance_total_local
-                  totalGbpInclTrust += balance_total_local / fxRate
-                  if (!isTrust) {
-                    totalUsd += balance_total_local
-                    totalGbp += balance_total_local / fxRate
-                  }
+                const gbp = convertCurrency(balance_total_local, curr, 'GBP', rates)
+                const usd = convertCurrency(balance_total_local, curr, 'USD', rates)
+                byCurr[curr].gbp += gbp
+                byCurr[curr].usd += usd
+                totalGbpInclTrust += gbp
+                totalUsdInclTrust += usd
+                if (!isTrust) {
+                  totalGbp += gbp
+                  totalUsd += usd
                 }
               })
               Object.entries(byCurr).forEach(([curr, { gbp, usd }]) => {
@@ -914,24 +928,17 @@ If the user asks something you cannot answer with the available data (e.g., "How
               })
             }
 
-            const fmtGbp = (n: number) => `£${n.toLocaleString('en-GB', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`
-            const fmtUsd = (n: number) => `$${n.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`
-            const netWorthSummary = currency === 'USD'
-              ? `Net worth (excl. Trust): ${fmtUsd(totalUsd)} USD`
-              : `Net worth (excl. Trust): ${fmtGbp(totalGbp)} GBP`
+            // Amounts are held as GBP and USD; fmtIn shows a GBP/USD pair in any currency
+            const fmtIn = (gbp: number, usd: number, curr: string) => {
+              const amount = curr === 'GBP' ? gbp : convertCurrency(usd, 'USD', curr, rates)
+              return `${getCurrencySymbol(curr)}${amount.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 })} ${curr}`
+            }
+            const netWorthSummary = `Net worth (excl. Trust): ${fmtIn(totalGbp, totalUsd, currency)}`
             const netWorthIncludingTrust = (totalGbpInclTrust !== totalGbp || totalUsdInclTrust !== totalUsd)
-              ? currency === 'USD'
-                ? `Incl. Trust: ${fmtUsd(totalUsdInclTrust)} USD`
-                : `Incl. Trust: ${fmtGbp(totalGbpInclTrust)} GBP`
+              ? `Incl. Trust: ${fmtIn(totalGbpInclTrust, totalUsdInclTrust, currency)}`
               : null
             const allocationSummary = allocationByCurrency.length
-              ? allocationByCurrency
-                  .map((a) =>
-                    a.currency === 'USD'
-                      ? `$${(a.totalUsd || a.totalGbp * fxRate).toLocaleString('en-US', { maximumFractionDigits: 0 })} USD`
-                      : `£${(a.totalGbp || a.totalUsd / fxRate).toLocaleString('en-GB', { maximumFractionDigits: 0 })} GBP`
-                  )
-                  .join(', ')
+              ? allocationByCurrency.map((a) => fmtIn(a.totalGbp, a.totalUsd, a.currency)).join(', ')
               : 'No allocation data'
 
             // 2) Budget (net income: income - expenses from budget_targets)
@@ -962,10 +969,10 @@ If the user asks something you cannot answer with the available data (e.g., "How
             const netIncomeTracking = incomeTracking - expensesTracking
             const budgetGap = netIncomeTracking - netIncomeBudget
             const budgetStatus = budgetGap >= 0 ? 'under' : 'over'
-            const gapDisplay = currency === 'USD' ? Math.abs(budgetGap) * fxRate : Math.abs(budgetGap)
+            const gapDisplay = convertCurrency(Math.abs(budgetGap), 'GBP', currency, rates)
             const budgetStatusSummary = budgetGap >= 0
-              ? `Net income budget: Under by ${currency === 'USD' ? '$' : '£'}${gapDisplay.toLocaleString('en-US', { maximumFractionDigits: 0 })}`
-              : `Net income budget: Over by ${currency === 'USD' ? '$' : '£'}${gapDisplay.toLocaleString('en-US', { maximumFractionDigits: 0 })}`
+              ? `Net income budget: Under by ${getCurrencySymbol(currency)}${gapDisplay.toLocaleString('en-US', { maximumFractionDigits: 0 })}`
+              : `Net income budget: Over by ${getCurrencySymbol(currency)}${gapDisplay.toLocaleString('en-US', { maximumFractionDigits: 0 })}`
 
             expenseCategories.sort((a, b) => b.trackingGbp - a.trackingGbp)
             const topSpend = expenseCategories.slice(0, 5)
@@ -1005,7 +1012,7 @@ If the user asks something you cannot answer with the available data (e.g., "How
         inputSchema: z.object({
           startDate: z.string().describe('Start date for comparison (YYYY-MM-DD). Use CURRENT DATE CONTEXT for "last month", "last week", etc.'),
           endDate: z.string().optional().describe('End date for comparison (YYYY-MM-DD). Defaults to today if omitted.'),
-          currency: z.enum(['GBP', 'USD']).optional().default('GBP').describe('Currency for summary display. All evolution data is in GBP; summary is converted if USD.'),
+          currency: z.enum(['GBP', 'USD', 'EUR']).optional().default('GBP').describe('Currency for summary display. All evolution data is in GBP; summary is converted if USD or EUR.'),
         }),
         execute: async ({ startDate, endDate, currency = 'GBP' }) => {
           try {
@@ -1131,33 +1138,17 @@ If the user asks something you cannot answer with the available data (e.g., "How
             const gapImpactDirection: 'Positive' | 'Negative' | 'Neutral' =
               totalGapChangeGBP > 0 ? 'Positive' : totalGapChangeGBP < 0 ? 'Negative' : 'Neutral'
 
-            let summary: string
-            const fmtGbp = (n: number) => `£${Math.round(n).toLocaleString('en-GB')}`
-            if (currency === 'USD') {
-              const { data: fxRow } = await supabase
-                .from('fx_rate_current')
-                .select('gbpusd_rate')
-                .order('date', { ascending: false })
-                .limit(1)
-                .single()
-              const fxRate = fxRow?.gbpusd_rate ?? 1.27
-              const fmtUsd = (n: number) => `$${Math.round(n * fxRate).toLocaleString('en-US')}`
-              const direction =
-                totalGapChangeGBP > 0 ? 'improved' : totalGapChangeGBP < 0 ? 'worsened' : 'stayed flat'
-              const topDrivers = drivers.slice(0, 5)
-              const driverParts = topDrivers
-                .filter((d) => d.change_gbp !== 0)
-                .map((d) => `${d.category} (${d.change_gbp >= 0 ? '+' : ''}${fmtUsd(d.change_gbp)})`)
-              summary = `The expenses gap to budget ${direction} by ${fmtUsd(Math.abs(totalGapChangeGBP))} between ${startDateUsed}${startDateUsed !== startDate ? ` (closest available date to ${startDate})` : ''} and ${endDateUsed}. ${driverParts.length ? 'Main drivers: ' + driverParts.join(', ') + '.' : ''}`
-            } else {
-              const direction =
-                totalGapChangeGBP > 0 ? 'improved' : totalGapChangeGBP < 0 ? 'worsened' : 'stayed flat'
-              const topDrivers = drivers.slice(0, 5)
-              const driverParts = topDrivers
-                .filter((d) => d.change_gbp !== 0)
-                .map((d) => `${d.category} (${d.change_gbp >= 0 ? '+' : ''}${fmtGbp(d.change_gbp)})`)
-              summary = `The expenses gap to budget ${direction} by ${fmtGbp(Math.abs(totalGapChangeGBP))} between ${startDateUsed}${startDateUsed !== startDate ? ` (closest available date to ${startDate})` : ''} and ${endDateUsed}. ${driverParts.length ? 'Main drivers: ' + driverParts.join(', ') + '.' : ''}`
-            }
+            // Evolution data is in GBP; other currencies convert at the current rate
+            const rates = currency === 'GBP' ? null : await fetchCurrentFxRates(supabase)
+            const fmt = (n: number) =>
+              `${getCurrencySymbol(currency)}${Math.round(rates ? convertCurrency(n, 'GBP', currency, rates) : n).toLocaleString(currency === 'GBP' ? 'en-GB' : 'en-US')}`
+            const direction =
+              totalGapChangeGBP > 0 ? 'improved' : totalGapChangeGBP < 0 ? 'worsened' : 'stayed flat'
+            const topDrivers = drivers.slice(0, 5)
+            const driverParts = topDrivers
+              .filter((d) => d.change_gbp !== 0)
+              .map((d) => `${d.category} (${d.change_gbp >= 0 ? '+' : ''}${fmt(d.change_gbp)})`)
+            const summary = `The expenses gap to budget ${direction} by ${fmt(Math.abs(totalGapChangeGBP))} between ${startDateUsed}${startDateUsed !== startDate ? ` (closest available date to ${startDate})` : ''} and ${endDateUsed}. ${driverParts.length ? 'Main drivers: ' + driverParts.join(', ') + '.' : ''}`
 
             return {
               evolution: {
@@ -1180,12 +1171,72 @@ If the user asks something you cannot answer with the available data (e.g., "How
         inputSchema: z.object({
           startDate: z.string().describe('Start date (YYYY-MM-DD). Use CURRENT DATE CONTEXT for "last year", "this year", etc.'),
           endDate: z.string().optional().describe('End date (YYYY-MM-DD). Defaults to today if omitted.'),
-          groupBy: z.enum(['total', 'entity']).optional().default('total').describe('Return total only or breakdown by entity (category in historical_net_worth).'),
+          groupBy: z.enum(['total', 'entity', 'category', 'currency']).optional().default('total').describe('Return total only, or a breakdown by entity (Personal/Family/Trust), account category or account currency (native amounts). Category and currency breakdowns are computed from account balance snapshots.'),
+          interval: z.enum(['daily', 'monthly']).optional().default('monthly').describe('Spacing of the points when the series is computed from account balance snapshots.'),
         }),
-        execute: async ({ startDate, endDate, groupBy = 'total' }) => {
+        execute: async ({ startDate, endDate, groupBy = 'total', interval = 'monthly' }) => {
           try {
             const end = endDate || todayISO
-            console.log('[chat] get_net_worth_trend: Starting', { startDate, endDate: end, groupBy })
+            console.log('[chat] get_net_worth_trend: Starting', { startDate, endDate: end, groupBy, interval })
+
+            const describeChange = (startGbp: number, endGbp: number, firstDate: string, lastDate: string) => {
+              const fmt = (v: number) => v.toLocaleString('en-GB', { maximumFractionDigits: 0 })
+              const changeGbp = endGbp - startGbp
+              return changeGbp >= 0
+                ? `Net worth increased from £${fmt(startGbp)} to £${fmt(endGbp)} GBP between ${firstDate} and ${lastDate} (+£${fmt(Math.abs(changeGbp))}).`
+                : `Net worth decreased from £${fmt(startGbp)} to £${fmt(endGbp)} GBP between ${firstDate} and ${lastDate} (-£${fmt(Math.abs(changeGbp))}).`
+            }
+
+            // Users without a Historical Net Worth tab (and category/currency breakdowns) use the series
+            // rebuilt from account_balances, each account carried forward at its last known balance
+            const { count: historicalCount } = await supabase
+              .from('historical_net_worth')
+              .select('id', { count: 'exact', head: true })
+              .eq('user_id', user.id)
+            if (groupBy === 'category' || groupBy === 'currency' || !historicalCount) {
+              const points = await computeNetWorthHistory(supabase, { userId: user.id, start: startDate, end, interval })
+              if (points.length === 0) {
+                return {
+                  trend: null,
+                  summary: `No net worth history or account balances found between ${startDate} and ${end}.`,
+                }
+              }
+              const first = points[0]
+              const last = points[points.length - 1]
+              const leftOut = unconvertedCurrencies(points)
+              const breakdown = (p: NetWorthPoint) =>
+                groupBy === 'entity'
+                  ? { byEntity: p.byEntity }
+                  : groupBy === 'category'
+                    ? { byCategory: p.byCategory }
+                    : groupBy === 'currency'
+                      ? { byCurrency: p.byCurrency }
+                      : {}
+              return {
+                trend: {
+                  source: 'account_balances',
+                  startDate: first.date,
+                  endDate: last.date,
+                  startGbp: first.total.gbp,
+                  endGbp: last.total.gbp,
+                  startUsd: first.total.usd,
+                  endUsd: last.total.usd,
+                  changeGbp: last.total.gbp - first.total.gbp,
+                  changeUsd: last.total.usd - first.total.usd,
+                  unconvertedCurrencies: leftOut,
+                  series: points.map((p) => ({
+                    date: p.date,
+                    totalGbp: p.total.gbp,
+                    totalUsd: p.total.usd,
+                    ...breakdown(p),
+                    ...(Object.keys(p.unconverted).length > 0 ? { unconverted: p.unconverted } : {}),
+                  })),
+                },
+                summary: `${describeChange(first.total.gbp, last.total.gbp, first.date, last.date)} Computed from account balance snapshots, carrying each account's last known balance forward.${
+                  leftOut.length > 0 ? ` ${leftOut.join(', ')} balances are left out of the totals: no exchange rate is stored for them.` : ''
+                }`,
+              }
+            }
 
             const { data: rows, error } = await supabase
               .from('historical_net_worth')
@@ -1238,13 +1289,11 @@ If the user asks something you cannot answer with the available data (e.g., "How
             const changeGbp = endGbp - startGbp
             const changeUsd = endUsd - startUsd
 
-            const summary =
-              changeGbp >= 0
-                ? `Net worth increased from £${startGbp.toLocaleString('en-GB', { maximumFractionDigits: 0 })} to £${endGbp.toLocaleString('en-GB', { maximumFractionDigits: 0 })} GBP between ${firstDate} and ${lastDate} (+£${Math.abs(changeGbp).toLocaleString('en-GB', { maximumFractionDigits: 0 })}).`
-                : `Net worth decreased from £${startGbp.toLocaleString('en-GB', { maximumFractionDigits: 0 })} to £${endGbp.toLocaleString('en-GB', { maximumFractionDigits: 0 })} GBP between ${firstDate} and ${lastDate} (-£${Math.abs(changeGbp).toLocaleString('en-GB', { maximumFractionDigits: 0 })}).`
+            const summary = describeChange(startGbp, endGbp, firstDate, lastDate)
 
             return {
               trend: {
+                source: 'historical_net_worth',
                 startDate: firstDate,
                 endDate: lastDate,
                 startGbp,
@@ -1277,7 +1326,7 @@ If the user asks something you cannot answer with the available data (e.g., "How
         Returns monthly breakdowns, comparisons to averages, and identifies the top transaction counterparty.`,
         inputSchema: z.object({
           category: z.string().describe('Category to analyze (e.g., "Bills", "Food", "Transport")'),
-          currency: z.enum(['GBP', 'USD']).optional().default('GBP').describe('Currency for display. Data is stored in both GBP and USD.'),
+          currency: z.enum(['GBP', 'USD', 'EUR']).optional().default('GBP').describe('Currency for display. Data is stored in GBP and USD (and EUR for EUR transactions).'),
         }),
         execute: async ({ category, currency = 'GBP' }) => {
           try {
@@ -1318,7 +1367,7 @@ If the user asks something you cannot answer with the available data (e.g., "How
               
               const transactionsResult = await supabase
                 .from('transaction_log')
-                .select('*', { count: 'exact' })
+                .select('*, merchant:merchants(name)', { count: 'exact' })
                 .eq('user_id', user.id)
                 .eq('category', category)
                 .gte('date', startDateStr)
@@ -1348,32 +1397,32 @@ If the user asks something you cannot answer with the available data (e.g., "How
             // Get FX rates for the date range
             const { data: fxRates } = await supabase
               .from('fx_rates')
-              .select('date, gbpusd_rate')
+              .select('date, gbpusd_rate, eurusd_rate')
               .lte('date', endDateStr)
               .order('date', { ascending: false })
               .limit(500)
             
             const ratesByDate = new Map<string, number>()
-            fxRates?.forEach((rate: { date: string; gbpusd_rate: number | null }) => {
+            const eurRatesByDate = new Map<string, number>()
+            fxRates?.forEach((rate: { date: string; gbpusd_rate: number | null; eurusd_rate: number | null }) => {
               if (rate.gbpusd_rate) {
                 ratesByDate.set(rate.date, rate.gbpusd_rate)
               }
+              if (rate.eurusd_rate) {
+                eurRatesByDate.set(rate.date, rate.eurusd_rate)
+              }
             })
             
-            // Get current FX rate as fallback
-            const { data: fxRateData } = await supabase
-              .from('fx_rate_current')
-              .select('gbpusd_rate')
-              .order('date', { ascending: false })
-              .limit(1)
-              .single()
+            // Get current FX rates as fallback
+            const currentRates = await fetchCurrentFxRates(supabase)
             
-            const currentFxRate = fxRateData?.gbpusd_rate || 1.27
-            
-            // Helper to get rate for a date
-            const getRateForDate = (dateStr: string): number => {
+            // Helper to get rates for a date
+            const getRatesForDate = (dateStr: string): FxRates => {
               const dateKey = dateStr.split('T')[0]
-              return ratesByDate.get(dateKey) || currentFxRate
+              return {
+                gbpusd: ratesByDate.get(dateKey) || currentRates.gbpusd,
+                eurusd: eurRatesByDate.get(dateKey) || currentRates.eurusd,
+              }
             }
             
             // Generate all 13 months
@@ -1412,26 +1461,22 @@ If the user asks something you cannot answer with the available data (e.g., "How
               monthlyGroups.get(monthKey)!.push(tx)
               
               // Track counterparty totals for top transaction identification
-              const rate = getRateForDate(dateStr)
-              const amount = currency === 'USD'
-                ? (tx.amount_usd ?? (tx.amount_gbp != null ? tx.amount_gbp * rate : 0))
-                : (tx.amount_gbp ?? (tx.amount_usd != null ? tx.amount_usd / rate : 0))
+              const amount = amountFromGbpUsd(tx.amount_gbp, tx.amount_usd, currency, getRatesForDate(dateStr), tx.amount_eur)
               
               if (amount < 0) {
                 const absAmount = Math.abs(amount)
-                const counterparty = tx.counterparty || 'Unknown'
-                const counterpartyKey = counterparty.substring(0, 7).trim()
+                const { key: counterpartyKey, name } = merchantGroup(tx)
                 
                 if (allCounterpartyTotals.has(counterpartyKey)) {
                   const existing = allCounterpartyTotals.get(counterpartyKey)!
                   existing.total += absAmount
-                  if (counterparty.length > existing.fullName.length) {
-                    existing.fullName = counterparty
+                  if (!tx.merchant_id && name.length > existing.fullName.length) {
+                    existing.fullName = name
                   }
                 } else {
                   allCounterpartyTotals.set(counterpartyKey, {
                     total: absAmount,
-                    fullName: counterparty,
+                    fullName: name,
                   })
                 }
               }
@@ -1467,19 +1512,13 @@ If the user asks something you cannot answer with the available data (e.g., "How
               
               monthTransactions.forEach((tx) => {
                 const dateStr = typeof tx.date === 'string' ? tx.date.split('T')[0] : new Date(tx.date).toISOString().split('T')[0]
-                const rate = getRateForDate(dateStr)
-                const amount = currency === 'USD'
-                  ? (tx.amount_usd ?? (tx.amount_gbp != null ? tx.amount_gbp * rate : 0))
-                  : (tx.amount_gbp ?? (tx.amount_usd != null ? tx.amount_usd / rate : 0))
+                const amount = amountFromGbpUsd(tx.amount_gbp, tx.amount_usd, currency, getRatesForDate(dateStr), tx.amount_eur)
                 
                 if (amount < 0) {
                   const absAmount = Math.abs(amount)
                   totalAmount += absAmount
                   
-                  const counterparty = tx.counterparty || 'Unknown'
-                  const counterpartyKey = counterparty.substring(0, 7).trim()
-                  
-                  if (counterpartyKey === topCounterpartyKey) {
+                  if (merchantGroup(tx).key === topCounterpartyKey) {
                     topTransactionAmount += absAmount
                   }
                 }
@@ -1544,7 +1583,7 @@ If the user asks something you cannot answer with the available data (e.g., "How
               ? ((mostRecentMonth.total - lyData.total) / lyData.total) * 100 
               : null
             
-            const symbol = currency === 'USD' ? '$' : '£'
+            const symbol = getCurrencySymbol(currency)
             const formatAmount = (amount: number) => 
               `${symbol}${Math.round(amount).toLocaleString('en-US', { maximumFractionDigits: 0 })}`
             
@@ -1619,8 +1658,113 @@ If the user asks something you cannot answer with the available data (e.g., "How
           }
         },
       },
+      get_tag_totals: {
+        description: `Total the transactions carrying a tag (e.g. "Trip: Lisbon 2026", "Wedding", "Reimbursable"), in both GBP and USD. Use for questions like "How much did the Lisbon trip cost in total?". The tag is matched case-insensitively by partial name. Each transaction converts at the FX rate for its date. Returns net totals (refunds offset spend), a category breakdown and the largest transactions.`,
+        inputSchema: z.object({
+          tag: z.string().describe('Tag name or part of it (e.g. "Lisbon")'),
+          startDate: z.string().optional().describe('Optional start date YYYY-MM-DD'),
+          endDate: z.string().optional().describe('Optional end date YYYY-MM-DD'),
+        }),
+        execute: async ({ tag, startDate, endDate }) => {
+          try {
+            console.log('[chat] get_tag_totals: Starting', { tag, startDate, endDate })
+
+            const { data: tags, error: tagsError } = await supabase
+              .from('tags')
+              .select('id, name')
+              .eq('user_id', user.id)
+            if (tagsError) return { error: tagsError.message }
+
+            const term = tag.trim().toLowerCase()
+            const matched = (tags ?? []).filter((t) => t.name.toLowerCase().includes(term))
+            if (matched.length === 0) {
+              const names = (tags ?? []).map((t) => t.name)
+              return {
+                totals: null,
+                summary: names.length
+                  ? `No tag matches "${tag}". Existing tags: ${names.join(', ')}.`
+                  : 'No transactions have been tagged yet.',
+              }
+            }
+
+            const { data: links, error: linksError } = await supabase
+              .from('transaction_tags')
+              .select('transaction_id')
+              .in('tag_id', matched.map((t) => t.id))
+              .not('transaction_id', 'is', null)
+            if (linksError) return { error: linksError.message }
+
+            // Chunked so the id list stays within the request URL limit
+            const ids = Array.from(new Set((links ?? []).map((l) => l.transaction_id as string)))
+            const transactions: { date: string; category: string; counterparty: string | null; amount_usd: number | null; amount_gbp: number | null }[] = []
+            for (let i = 0; i < ids.length; i += 200) {
+              let query = supabase
+                .from('transaction_log')
+                .select('date, category, counterparty, amount_usd, amount_gbp')
+                .in('id', ids.slice(i, i + 200))
+              if (startDate) query = query.gte('date', startDate)
+              if (endDate) query = query.lte('date', endDate)
+              const { data, error } = await query
+              if (error) return { error: error.message }
+              transactions.push(...(data ?? []))
+            }
+
+            const tagNames = matched.map((t) => t.name).join(', ')
+            if (transactions.length === 0) {
+              return { totals: null, summary: `No transactions tagged ${tagNames} in the requested period.` }
+            }
+
+            const { data: fxRateData } = await supabase
+              .from('fx_rate_current')
+              .select('gbpusd_rate')
+              .order('date', { ascending: false })
+              .limit(1)
+              .single()
+            const dates = transactions.map((tx) => String(tx.date).split('T')[0]).sort()
+            const rates = await fetchFxRatesUpTo(supabase, dates[dates.length - 1])
+            const getRate = buildGetRateForDate(rates, fxRateData?.gbpusd_rate || 1.27)
+
+            let netGBP = 0
+            let netUSD = 0
+            const byCategory: Record<string, { gbp: number; usd: number; count: number }> = {}
+            const converted = transactions.map((tx) => {
+              const rate = getRate(String(tx.date))
+              const gbp = tx.amount_gbp ?? (tx.amount_usd != null ? tx.amount_usd / rate : 0)
+              const usd = tx.amount_usd ?? (tx.amount_gbp != null ? tx.amount_gbp * rate : 0)
+              netGBP += gbp
+              netUSD += usd
+              const cat = tx.category || 'Unknown'
+              byCategory[cat] = byCategory[cat] ?? { gbp: 0, usd: 0, count: 0 }
+              byCategory[cat].gbp += gbp
+              byCategory[cat].usd += usd
+              byCategory[cat].count += 1
+              return { date: String(tx.date).split('T')[0], category: cat, counterparty: tx.counterparty, gbp, usd }
+            })
+
+            const largest = [...converted].sort((a, b) => Math.abs(b.gbp) - Math.abs(a.gbp)).slice(0, 10)
+            const spentOrReceived = netGBP <= 0 ? 'cost' : 'net income'
+            const summary = `${tagNames}: ${transactions.length} transactions from ${dates[0]} to ${dates[dates.length - 1]}, ${spentOrReceived} £${Math.abs(netGBP).toLocaleString('en-GB', { maximumFractionDigits: 0 })} / $${Math.abs(netUSD).toLocaleString('en-US', { maximumFractionDigits: 0 })} (each transaction converted at its date's FX rate).`
+
+            return {
+              totals: {
+                tags: matched.map((t) => t.name),
+                transactionCount: transactions.length,
+                period: { startDate: dates[0], endDate: dates[dates.length - 1] },
+                netGBP,
+                netUSD,
+                byCategory,
+                largestTransactions: largest,
+              },
+              summary,
+            }
+          } catch (err) {
+            console.error('[chat] get_tag_totals: Execution error', err)
+            return { error: err instanceof Error ? err.message : 'Unknown error' }
+          }
+        },
+      },
       get_cash_runway: {
-        description: `Get cash runway: liquid cash (Cash/Checking/Savings accounts) and average monthly burn from the last 3 full calendar months. Use when the user asks about runway, burn, or how long their cash will last.`,
+        description: `Get cash runway per currency: liquid cash (Cash/Checking/Savings accounts) and average monthly burn from the last 3 full calendar months, each in its own currency (keys are lowercase ISO codes, e.g. gbp, usd, chf). Use when the user asks about runway, burn, or how long their cash will last.`,
         inputSchema: z.object({}),
         execute: async () => {
           try {
@@ -1647,11 +1791,10 @@ If the user asks something you cannot answer with the available data (e.g., "How
               console.error('[chat] get_cash_runway: RPC error', rpcError)
               return { error: rpcError.message }
             }
-            const row = Array.isArray(rpcData) ? rpcData[0] : rpcData
-            const gbpNet = row?.gbp_net != null ? Number(row.gbp_net) : 0
-            const usdNet = row?.usd_net != null ? Number(row.usd_net) : 0
-            const gbpAvgBurn = Math.max(0, -gbpNet) / 3
-            const usdAvgBurn = Math.max(0, -usdNet) / 3
+            const netByCurrency = new Map<string, number>()
+            for (const row of (rpcData ?? []) as { currency: string; net: number | string | null }[]) {
+              netByCurrency.set(row.currency, Number(row.net ?? 0))
+            }
 
             const CASH_CATEGORIES = ['Cash', 'Checking', 'Savings']
             const { data: balancesData, error: balErr } = await supabase
@@ -1673,33 +1816,34 @@ If the user asks something you cannot answer with the available data (e.g., "How
                 })
               }
             })
-            let cashGbp = 0
-            let cashUsd = 0
+            const cashByCurrency = new Map<string, number>()
             byAccount.forEach(({ balance_total_local, currency, category }) => {
               if (CASH_CATEGORIES.includes(category)) {
-                if (currency === 'GBP') cashGbp += balance_total_local
-                else cashUsd += balance_total_local
+                cashByCurrency.set(currency, (cashByCurrency.get(currency) ?? 0) + balance_total_local)
               }
             })
 
-            const gbpMonths = gbpAvgBurn > 0 ? cashGbp / gbpAvgBurn : (cashGbp > 0 ? Number.POSITIVE_INFINITY : 0)
-            const usdMonths = usdAvgBurn > 0 ? cashUsd / usdAvgBurn : (cashUsd > 0 ? Number.POSITIVE_INFINITY : 0)
-
+            // One runway per currency with cash or spend; each is in its own currency, never converted
+            const runway: Record<string, { totalCash: number; avgMonthlyBurn: number; monthsOnHand: number | null }> = {}
             const summaryParts: string[] = []
-            if (cashGbp > 0) {
-              const monthsStr = gbpMonths === Infinity ? 'no burn' : `~${Math.round(gbpMonths)} months`
-              summaryParts.push(`GBP cash: £${cashGbp.toLocaleString('en-GB', { maximumFractionDigits: 0 })} (runway ${monthsStr} at £${Math.round(gbpAvgBurn).toLocaleString('en-GB')}/mo burn)`)
-            }
-            if (cashUsd > 0) {
-              const monthsStr = usdMonths === Infinity ? 'no burn' : `~${Math.round(usdMonths)} months`
-              summaryParts.push(`USD cash: $${cashUsd.toLocaleString('en-US', { maximumFractionDigits: 0 })} (runway ${monthsStr} at $${Math.round(usdAvgBurn).toLocaleString('en-US')}/mo burn)`)
+            const currencies = Array.from(new Set([...Array.from(cashByCurrency.keys()), ...Array.from(netByCurrency.keys())])).sort()
+            for (const currency of currencies) {
+              const cash = cashByCurrency.get(currency) ?? 0
+              const avgBurn = Math.max(0, -(netByCurrency.get(currency) ?? 0)) / 3
+              const months = avgBurn > 0 ? cash / avgBurn : (cash > 0 ? Number.POSITIVE_INFINITY : 0)
+              runway[currency.toLowerCase()] = { totalCash: cash, avgMonthlyBurn: avgBurn, monthsOnHand: months === Infinity ? null : months }
+              if (cash > 0) {
+                const format = (value: number) =>
+                  new Intl.NumberFormat('en-GB', { style: 'currency', currency, maximumFractionDigits: 0 }).format(value)
+                const monthsStr = months === Infinity ? 'no burn' : `~${Math.round(months)} months`
+                summaryParts.push(`${currency} cash: ${format(cash)} (runway ${monthsStr} at ${format(avgBurn)}/mo burn)`)
+              }
             }
             const summary = summaryParts.length ? summaryParts.join('. ') : 'No cash accounts (Cash/Checking/Savings) found.'
 
             return {
               runway: {
-                gbp: { totalCash: cashGbp, avgMonthlyBurn: gbpAvgBurn, monthsOnHand: gbpMonths === Infinity ? null : gbpMonths },
-                usd: { totalCash: cashUsd, avgMonthlyBurn: usdAvgBurn, monthsOnHand: usdMonths === Infinity ? null : usdMonths },
+                ...runway,
                 period: { startDate: startDateStr, endDate: endDateStr },
               },
               summary,
@@ -0,0 +1,30 @@
+import { createClient } from '@/lib/supabase/server'
+import { NextResponse } from 'next/server'
+
+/** Disconnect an item. Balances and transactions it already imported are kept. */
+export async function DELETE(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { error } = await supabase.from('aggregator_connections').delete().eq('id', id)
+
+    if (error) {
+      console.error('Error deleting connection:', error)
+      return NextResponse.json({ success: false, error: error.message }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    console.error('Connection DELETE error:', error)
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to disconnect' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,40 @@
+import { createClient } from '@/lib/supabase/server'
+import { NextResponse } from 'next/server'
+import { syncAggregatorConnection } from '@/lib/sync-aggregator-connection'
+import { evaluateAlertRules } from '@/lib/evaluate-alert-rules'
+
+/** Fetch balances and new transactions for one connection. */
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: connection } = await supabase
+      .from('aggregator_connections')
+      .select('id')
+      .eq('id', id)
+      .maybeSingle()
+    if (!connection) {
+      return NextResponse.json({ success: false, error: 'Connection not found' }, { status: 404 })
+    }
+
+    const data = await syncAggregatorConnection(supabase, user.id, id)
+    try {
+      await evaluateAlertRules(supabase, user.id)
+    } catch (alertError) {
+      console.warn('Warning: Could not evaluate alert rules:', alertError)
+    }
+    return NextResponse.json({ success: true, data })
+  } catch (error: any) {
+    console.error('Connection sync error:', error)
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to sync connection' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,117 @@
+import { createClient } from '@/lib/supabase/server'
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getAggregatorProvider, listAggregatorProviders } from '@/lib/aggregators'
+import { syncAggregatorConnection } from '@/lib/sync-aggregator-connection'
+
+const LinkConnectionSchema = z.object({
+  provider: z.string().min(1),
+  /** Token from the provider's link flow, exchanged here for an access token. */
+  publicToken: z.string().min(1),
+})
+
+const CONNECTION_COLUMNS = 'id, provider, institution, status, last_error, last_synced_at, created_at'
+
+/** The user's connections (never the access token) and the providers that can be linked. */
+export async function GET() {
+  try {
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data, error } = await supabase
+      .from('aggregator_connections')
+      .select(CONNECTION_COLUMNS)
+      .order('created_at')
+
+    if (error) {
+      console.error('Error fetching connections:', error)
+      return NextResponse.json({ success: false, error: error.message }, { status: 500 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        connections: data ?? [],
+        providers: listAggregatorProviders().map((p) => ({ id: p.id, name: p.name })),
+      },
+    })
+  } catch (error: any) {
+    console.error('Connections GET error:', error)
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to fetch connections' },
+      { status: 500 }
+    )
+  }
+}
+
+/** Link an item and run its first sync. A failed first sync still keeps the connection. */
+export async function POST(request: Request) {
+  try {
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const parsed = LinkConnectionSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid input', details: parsed.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const provider = getAggregatorProvider(parsed.data.provider)
+    if (!provider) {
+      return NextResponse.json({ success: false, error: 'Unknown provider' }, { status: 400 })
+    }
+
+    const link = await provider.linkAccount(parsed.data.publicToken)
+    const { data: connection, error } = await supabase
+      .from('aggregator_connections')
+      .insert({
+        user_id: user.id,
+        provider: provider.id,
+        item_id: link.itemId,
+        institution: link.institution,
+        access_token: link.accessToken,
+      })
+      .select(CONNECTION_COLUMNS)
+      .single()
+
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json(
+          { success: false, error: `${link.institution} is already connected` },
+          { status: 409 }
+        )
+      }
+      console.error('Error creating connection:', error)
+      return NextResponse.json({ success: false, error: error.message }, { status: 500 })
+    }
+
+    try {
+      const result = await syncAggregatorConnection(supabase, user.id, connection.id)
+      return NextResponse.json({ success: true, data: { connection, sync: result } })
+    } catch (syncError: any) {
+      console.error('Initial connection sync failed:', syncError)
+      return NextResponse.json({
+        success: true,
+        data: { connection: { ...connection, status: 'error', last_error: syncError.message }, sync: null },
+      })
+    }
+  } catch (error: any) {
+    console.error('Connections POST error:', error)
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to link account' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,11 +1,16 @@
 import { syncGoogleSheet } from '@/lib/sync-google-sheet'
 import { snapshotBudgetHistory } from '@/lib/snapshot-budget-history'
-import { recordLastSync } from '@/lib/sync-metadata'
+import { evaluateAlertRules } from '@/lib/evaluate-alert-rules'
+import { fillFxRateGaps, type FxGapFillResult } from '@/lib/fill-fx-rate-gaps'
+import { getFxProvider } from '@/lib/fx-providers'
+import { recordLastSync, recordSyncRun } from '@/lib/sync-metadata'
 import { createAdminClient } from '@/lib/supabase/admin'
 import { NextResponse } from 'next/server'
+import type { SheetSyncResult } from '@/lib/types'
 
 /**
- * Cron endpoint: run data sync per user (each user's sheet) and snapshot budget_history.
+ * Cron endpoint: fill missing days in the global fx_rates from the configured FX provider, then run
+ * data sync per user (each user's sheet), snapshot budget_history and evaluate alert rules.
  * Secured by CRON_SECRET. Loops over user_profiles with non-null google_spreadsheet_id.
  */
 export async function GET(request: Request) {
@@ -31,17 +36,35 @@ export async function GET(request: Request) {
     }
 
     const today = new Date().toISOString().split('T')[0]
-    const allResults: { sheet: string; success: boolean; error?: string; rowsProcessed: number }[] = []
+
+    // FX tables are global, so gaps are filled once per run, before the per-user
+    // budget snapshots and alerts read them; the sheet provider reads the first user's sheet
+    let fx: FxGapFillResult | null = null
+    try {
+      const provider = getFxProvider({ spreadsheetId: profiles?.[0]?.google_spreadsheet_id })
+      if (provider) fx = await fillFxRateGaps(admin, provider, today)
+    } catch (fxError) {
+      console.warn('Cron: could not fill FX rate gaps', fxError)
+    }
+
+    const allResults: SheetSyncResult[] = []
     let anySuccess = true
 
     for (const profile of profiles ?? []) {
+      const startedAt = new Date()
       const result = await syncGoogleSheet(admin, {
         spreadsheetId: profile.google_spreadsheet_id,
         userId: profile.id,
       })
+      await recordSyncRun(admin, profile.id, { trigger: 'cron', startedAt, result })
       allResults.push(...(result.results ?? []))
       if (!result.success) anySuccess = false
       await snapshotBudgetHistory(today, admin, profile.id)
+      try {
+        await evaluateAlertRules(admin, profile.id)
+      } catch (alertError) {
+        console.warn(`Cron: could not evaluate alert rules for ${profile.id}`, alertError)
+      }
       if (result.success) {
         await recordLastSync(admin, profile.id)
       }
@@ -50,6 +73,7 @@ export async function GET(request: Request) {
     return NextResponse.json({
       success: anySuccess,
       results: allResults,
+      fx,
       error: null,
     })
   } catch (error: unknown) {
@@ -1,5 +1,6 @@
 import { createClient } from '@/lib/supabase/server'
 import { NextResponse } from 'next/server'
+import { computeBudgetEstimates } from '@/lib/compute-budget-estimates'
 
 const EXCLUDED_CATEGORIES = ['Income', 'Gift Money', 'Other Income', 'Excluded']
 
@@ -24,7 +25,8 @@ export type ForecastBridgeResponse = {
 
 /**
  * GET /api/forecast-bridge?startDate=YYYY-MM-DD&endDate=YYYY-MM-DD
- * Fetches budget_history for start and end dates (expense categories only).
+ * Fetches budget_history for start and end dates (expense categories only); when endDate is today
+ * the end side is the live in-app estimate rather than today's snapshot.
  * Computes gap = annual_budget - forecast_spend per category; returns top 6 drivers by absolute change + Other.
  * endDate defaults to today.
  */
@@ -40,8 +42,9 @@ export async function GET(request: Request) {
     )
   }
 
+  const today = new Date().toISOString().split('T')[0]
   if (!endDate) {
-    endDate = new Date().toISOString().split('T')[0]
+    endDate = today
   }
 
   const supabase = await createClient()
@@ -59,11 +62,24 @@ export async function GET(request: Request) {
       .select('category, annual_budget, forecast_spend')
       .eq('user_id', user.id)
       .eq('date', startDate),
-    supabase
-      .from('budget_history')
-      .select('category, annual_budget, forecast_spend')
-      .eq('user_id', user.id)
-      .eq('date', endDate),
+    // Today's side is computed live, so the bridge reflects transactions since the last snapshot
+    endDate === today
+      ? computeBudgetEstimates(supabase, user.id).then(
+          ({ budgets }) => ({
+            data: budgets.map((b) => ({
+              category: b.category,
+              annual_budget: b.annual_budget_gbp,
+              forecast_spend: b.tracking_est_gbp,
+            })),
+            error: null,
+          }),
+          (error) => ({ data: null, error: { message: error.message || 'Failed to compute budget estimates' } })
+        )
+      : supabase
+          .from('budget_history')
+          .select('category, annual_budget, forecast_spend')
+          .eq('user_id', user.id)
+          .eq('date', endDate),
   ])
 
   if (startRes.error) {
@@ -0,0 +1,173 @@
+import { createClient } from '@/lib/supabase/server'
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { parseCsvText, parseCsvTransactions } from '@/lib/utils/csv-import'
+import { categorizeTransaction, fetchCategorizationRules } from '@/lib/utils/categorization-rules'
+import { fillMoneyColumns } from '@/lib/utils/fx-rates'
+import { resolveTransactionMerchants } from '@/lib/resolve-merchants'
+import { pairInternalTransfers } from '@/lib/pair-internal-transfers'
+import { matchRefunds } from '@/lib/match-refunds'
+
+const BATCH_SIZE = 1000
+
+const ColumnIndex = z.number().int().min(0).nullable()
+
+const CsvColumnMappingSchema = z.object({
+  date: ColumnIndex,
+  category: ColumnIndex,
+  counterparty: ColumnIndex,
+  amount: ColumnIndex,
+  debit: ColumnIndex,
+  credit: ColumnIndex,
+  currency: ColumnIndex,
+  dateFormat: z.enum(['auto', 'YYYY-MM-DD', 'DD/MM/YYYY', 'MM/DD/YYYY']),
+  decimalSeparator: z.enum(['auto', '.', ',']).default('auto'),
+  signConvention: z.enum(['signed', 'inverted', 'debit_credit']),
+  defaultCurrency: z.enum(['USD', 'GBP', 'EUR']),
+  defaultCategory: z.string().min(1),
+  skipRows: z.number().int().min(0),
+})
+
+const ImportCsvSchema = z.object({
+  csv: z.string().min(1),
+  mapping: CsvColumnMappingSchema,
+  /** When set, the mapping is saved (upserted) under this bank name for one-click re-imports. */
+  bankName: z.string().trim().min(1).optional(),
+})
+
+export async function GET() {
+  try {
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data, error } = await supabase
+      .from('csv_import_mappings')
+      .select('id, bank_name, mapping, created_at, updated_at')
+      .order('bank_name')
+
+    if (error) {
+      console.error('Error fetching CSV mappings:', error)
+      return NextResponse.json({ success: false, error: error.message }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true, data })
+  } catch (error: any) {
+    console.error('CSV import GET error:', error)
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to fetch CSV mappings' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const parsed = ImportCsvSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid input', details: parsed.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const { csv, mapping, bankName } = parsed.data
+    const { transactions, errors } = parseCsvTransactions(parseCsvText(csv), mapping)
+
+    if (transactions.length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'No valid transactions found in file', details: { errors } },
+        { status: 400 }
+      )
+    }
+
+    // Rules only fill in rows the file itself left on the default category
+    const rules = await fetchCategorizationRules(supabase, user.id)
+    let categorized = 0
+    const parsedRows = transactions.map((tx) => {
+      const amount_usd = tx.currency === 'USD' ? tx.amount : null
+      const amount_gbp = tx.currency === 'GBP' ? tx.amount : null
+      const amount_eur = tx.currency === 'EUR' ? tx.amount : null
+      const ruleCategory = tx.category === mapping.defaultCategory
+        ? categorizeTransaction(rules, { counterparty: tx.counterparty, amount_usd, amount_gbp, amount_eur, amount: tx.amount, currency: tx.currency })
+        : null
+      if (ruleCategory) categorized++
+      return {
+        user_id: user.id,
+        date: tx.date,
+        category: ruleCategory ?? tx.category,
+        counterparty: tx.counterparty,
+        counterparty_dedup: (tx.counterparty ?? '').toLowerCase().trim(),
+        amount_usd,
+        amount_gbp,
+        amount_eur,
+        amount: tx.amount,
+        currency: tx.currency,
+        data_source: 'csv',
+      }
+    })
+    const rows = await fillMoneyColumns(supabase, parsedRows)
+
+    let inserted = 0
+    for (let i = 0; i < rows.length; i += BATCH_SIZE) {
+      const chunk = rows.slice(i, i + BATCH_SIZE)
+      const { error } = await supabase.from('transaction_log').insert(chunk)
+      if (error) {
+        console.error('Error inserting CSV transactions:', error)
+        return NextResponse.json(
+          { success: false, error: error.message, data: { inserted } },
+          { status: 500 }
+        )
+      }
+      inserted += chunk.length
+    }
+
+    try {
+      await resolveTransactionMerchants(supabase, user.id)
+    } catch (merchantError) {
+      // Rows are saved; they will be picked up by the next sync or import
+      console.warn('Warning: Could not resolve merchants:', merchantError)
+    }
+
+    try {
+      await pairInternalTransfers(supabase, user.id)
+      await matchRefunds(supabase, user.id)
+    } catch (pairingError) {
+      // Transfers can still be paired from the analysis page; refunds are matched on the next sync or import
+      console.warn('Warning: Could not pair transfers or refunds:', pairingError)
+    }
+
+    if (bankName) {
+      const { error: mappingError } = await supabase
+        .from('csv_import_mappings')
+        .upsert(
+          { user_id: user.id, bank_name: bankName, mapping, updated_at: new Date().toISOString() },
+          { onConflict: 'user_id,bank_name' }
+        )
+      if (mappingError) {
+        // The import itself succeeded; a failed mapping save should not report failure.
+        console.warn('Warning: Could not save CSV mapping:', mappingError)
+      }
+    }
+
+    return NextResponse.json({ success: true, data: { inserted, categorized, skipped: errors.length, errors } })
+  } catch (error: any) {
+    console.error('CSV import API error:', error)
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to import CSV' },
+      { status: 500 }
+    )
+  }
+}
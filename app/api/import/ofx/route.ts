@@ -0,0 +1,253 @@
+import { createClient } from '@/lib/supabase/server'
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { parseOfx, ofxAccountLabel, type OfxStatement } from '@/lib/utils/ofx-parser'
+import { categorizeTransaction, fetchCategorizationRules, UNCATEGORIZED } from '@/lib/utils/categorization-rules'
+import { resolveTransactionMerchants } from '@/lib/resolve-merchants'
+import { pairInternalTransfers } from '@/lib/pair-internal-transfers'
+import { matchRefunds } from '@/lib/match-refunds'
+import { parseCurrencyCode, type CurrencyCode } from '@/lib/utils/currency'
+import { fillMoneyColumns } from '@/lib/utils/fx-rates'
+
+const BATCH_SIZE = 1000
+
+const ImportOfxSchema = z.object({
+  ofx: z.string().min(1),
+  defaultCategory: z.string().min(1).default(UNCATEGORIZED),
+  /** Explicit account for a statement (by OFX ACCTID); otherwise matched against existing accounts. */
+  accounts: z
+    .array(
+      z.object({
+        accountId: z.string().min(1),
+        institution: z.string().min(1),
+        account_name: z.string().min(1),
+      })
+    )
+    .optional(),
+})
+
+type OfxTransactionRow = {
+  user_id: string
+  date: string
+  category: string
+  counterparty: string | null
+  counterparty_dedup: string
+  amount_usd: number | null
+  amount_gbp: number | null
+  amount_eur: number | null
+  amount: number
+  currency: CurrencyCode
+  data_source: 'ofx'
+  external_id: string
+}
+
+type ExistingAccount = {
+  institution: string
+  account_name: string
+  category: string
+  balance_total_local: number
+  balance_personal_local: number
+  liquidity_profile: string | null
+  risk_profile: string | null
+  horizon_profile: string | null
+}
+
+/**
+ * Match a statement to an existing account: account_name containing the last 4 digits of
+ * ACCTID, preferring one whose institution matches the OFX <ORG>.
+ */
+function matchAccount(statement: OfxStatement, accounts: ExistingAccount[]): ExistingAccount | null {
+  const last4 = statement.accountId.slice(-4)
+  const candidates = accounts.filter((a) => a.account_name.includes(last4))
+  if (candidates.length === 0) return null
+  const org = statement.org?.toLowerCase()
+  return (org && candidates.find((a) => a.institution.toLowerCase().includes(org))) || candidates[0]
+}
+
+export async function POST(request: Request) {
+  try {
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const parsed = ImportOfxSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid input', details: parsed.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    let statements: OfxStatement[]
+    try {
+      statements = parseOfx(parsed.data.ofx)
+    } catch (err) {
+      return NextResponse.json(
+        { success: false, error: err instanceof Error ? err.message : 'Invalid OFX file' },
+        { status: 400 }
+      )
+    }
+
+    // Latest row per institution|account_name, used for matching and to carry over category/profiles
+    const { data: balanceRows, error: accountsError } = await supabase
+      .from('account_balances')
+      .select('institution, account_name, category, balance_total_local, balance_personal_local, liquidity_profile, risk_profile, horizon_profile, date_updated')
+      .order('date_updated', { ascending: false })
+
+    if (accountsError) {
+      console.error('Error fetching accounts for OFX import:', accountsError)
+      return NextResponse.json({ success: false, error: accountsError.message }, { status: 500 })
+    }
+
+    const latestAccounts = new Map<string, ExistingAccount>()
+    for (const row of balanceRows ?? []) {
+      const key = `${row.institution}|${row.account_name}`
+      if (!latestAccounts.has(key)) latestAccounts.set(key, row)
+    }
+    const existingAccounts = Array.from(latestAccounts.values())
+    const rules = await fetchCategorizationRules(supabase, user.id)
+
+    const results: {
+      account: string
+      institution: string
+      account_name: string
+      inserted: number
+      duplicates: number
+      balanceRecorded: boolean
+      error?: string
+    }[] = []
+
+    for (const statement of statements) {
+      const override = parsed.data.accounts?.find((a) => a.accountId === statement.accountId)
+      const matched = override
+        ? latestAccounts.get(`${override.institution}|${override.account_name}`) ?? null
+        : matchAccount(statement, existingAccounts)
+      const institution = override?.institution ?? matched?.institution ?? statement.org ?? 'Unknown'
+      const accountName = override?.account_name ?? matched?.account_name ?? ofxAccountLabel(statement)
+      const result: (typeof results)[number] = {
+        account: ofxAccountLabel(statement),
+        institution,
+        account_name: accountName,
+        inserted: 0,
+        duplicates: 0,
+        balanceRecorded: false,
+      }
+
+      const currency = parseCurrencyCode(statement.currency)
+      if (currency) {
+        // FITID is only unique per account, so the external id is scoped by ACCTID
+        const byExternalId = new Map<string, OfxTransactionRow>()
+        for (const tx of statement.transactions) {
+          const counterparty = tx.name ?? tx.memo
+          const amount_usd = currency === 'USD' ? tx.amount : null
+          const amount_gbp = currency === 'GBP' ? tx.amount : null
+          const amount_eur = currency === 'EUR' ? tx.amount : null
+          byExternalId.set(`${statement.accountId}:${tx.fitId}`, {
+            user_id: user.id,
+            date: tx.date,
+            category:
+              categorizeTransaction(rules, { counterparty, amount_usd, amount_gbp, amount_eur, amount: tx.amount, currency }) ??
+              parsed.data.defaultCategory,
+            counterparty,
+            counterparty_dedup: (counterparty ?? '').toLowerCase().trim(),
+            amount_usd,
+            amount_gbp,
+            amount_eur,
+            amount: tx.amount,
+            currency,
+            data_source: 'ofx',
+            external_id: `${statement.accountId}:${tx.fitId}`,
+          })
+        }
+        const rows = await fillMoneyColumns(supabase, Array.from(byExternalId.values()))
+
+        for (let i = 0; i < rows.length; i += BATCH_SIZE) {
+          const chunk = rows.slice(i, i + BATCH_SIZE)
+          const { data, error } = await supabase
+            .from('transaction_log')
+            .upsert(chunk, { onConflict: 'user_id,external_id', ignoreDuplicates: true })
+            .select('id')
+          if (error) {
+            console.error('Error inserting OFX transactions:', error)
+            result.error = error.message
+            break
+          }
+          result.inserted += data?.length ?? 0
+        }
+        result.duplicates = rows.length - result.inserted
+      } else if (statement.transactions.length > 0) {
+        result.error = `Unrecognised statement currency "${statement.currency}"`
+      }
+
+      if (statement.ledgerBalance && currency) {
+        const total = statement.ledgerBalance.amount
+        // Keep the account's personal/family split when we have a previous balance to copy it from
+        const personalShare = matched && matched.balance_total_local
+          ? matched.balance_personal_local / matched.balance_total_local
+          : 1
+        const { error: balanceError } = await supabase.from('account_balances').upsert(
+          {
+            user_id: user.id,
+            date_updated: statement.ledgerBalance.asOf,
+            institution,
+            account_name: accountName,
+            category: matched?.category ?? 'Cash',
+            currency,
+            balance_total_local: total,
+            balance_personal_local: Math.round(total * personalShare * 100) / 100,
+            balance_family_local: Math.round(total * (1 - personalShare) * 100) / 100,
+            liquidity_profile: matched?.liquidity_profile ?? null,
+            risk_profile: matched?.risk_profile ?? null,
+            horizon_profile: matched?.horizon_profile ?? null,
+            data_source: 'ofx',
+          },
+          { onConflict: 'user_id,institution,account_name,date_updated' }
+        )
+        if (balanceError) {
+          console.error('Error recording OFX ledger balance:', balanceError)
+          result.error = result.error ?? balanceError.message
+        } else {
+          result.balanceRecorded = true
+        }
+      }
+
+      results.push(result)
+    }
+
+    try {
+      await resolveTransactionMerchants(supabase, user.id)
+    } catch (merchantError) {
+      // Rows are saved; they will be picked up by the next sync or import
+      console.warn('Warning: Could not resolve merchants:', merchantError)
+    }
+
+    try {
+      await pairInternalTransfers(supabase, user.id)
+      await matchRefunds(supabase, user.id)
+    } catch (pairingError) {
+      // Transfers can still be paired from the analysis page; refunds are matched on the next sync or import
+      console.warn('Warning: Could not pair transfers or refunds:', pairingError)
+    }
+
+    return NextResponse.json({
+      success: results.every((r) => !r.error),
+      data: {
+        statements: results,
+        inserted: results.reduce((sum, r) => sum + r.inserted, 0),
+        duplicates: results.reduce((sum, r) => sum + r.duplicates, 0),
+      },
+      error: results.find((r) => r.error)?.error ?? null,
+    })
+  } catch (error: any) {
+    console.error('OFX import API error:', error)
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to import OFX file' },
+      { status: 500 }
+    )
+  }
+}
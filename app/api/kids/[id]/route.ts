@@ -1,10 +1,13 @@
 import { createClient } from '@/lib/supabase/server'
 import { NextResponse } from 'next/server'
 import { z } from 'zod'
+import { usdValueOn } from '@/lib/utils/fx-rates'
 
 const UpdateKidsAccountSchema = z.object({
   child_name: z.string().min(1).optional(),
   account_type: z.string().min(1).optional(),
+  balance: z.number().optional(),
+  currency: z.string().regex(/^[A-Z]{3}$/, 'Expected an ISO currency code').optional(),
   balance_usd: z.number().optional(),
   notes: z.string().nullable().optional(),
   purpose: z.string().nullable().optional(),
@@ -25,7 +28,7 @@ export async function PATCH(
 
     const { data: existing } = await supabase
       .from('kids_accounts')
-      .select('data_source')
+      .select('data_source, currency')
       .eq('id', id)
       .single()
 
@@ -52,6 +55,14 @@ export async function PATCH(
 
     const updates: Record<string, any> = { ...parsed.data }
     updates.date_updated = new Date().toISOString().split('T')[0]
+    if (updates.balance !== undefined) {
+      // A native balance re-derives the USD column unless the client sent both
+      const currency = updates.currency ?? existing.currency ?? 'USD'
+      updates.balance_usd ??= await usdValueOn(supabase, updates.balance, currency, updates.date_updated)
+    } else if (updates.balance_usd !== undefined) {
+      updates.balance = updates.balance_usd
+      updates.currency = 'USD'
+    }
 
     const { data, error } = await supabase
       .from('kids_accounts')
@@ -1,11 +1,15 @@
 import { createClient } from '@/lib/supabase/server'
 import { NextResponse } from 'next/server'
 import { z } from 'zod'
+import { usdValueOn } from '@/lib/utils/fx-rates'
 
 const CreateKidsAccountSchema = z.object({
   child_name: z.string().min(1),
   account_type: z.string().min(1),
-  balance_usd: z.number(),
+  /** Balance in `currency`; older clients send balance_usd only. */
+  balance: z.number().optional(),
+  currency: z.string().regex(/^[A-Z]{3}$/, 'Expected an ISO currency code').default('USD'),
+  balance_usd: z.number().optional(),
   notes: z.string().nullable().optional(),
   purpose: z.string().nullable().optional(),
 })
@@ -30,12 +34,20 @@ export async function POST(request: Request) {
     }
 
     const today = new Date().toISOString().split('T')[0]
+    const { currency } = parsed.data
+    const balance = parsed.data.balance ?? parsed.data.balance_usd
+    if (balance == null) {
+      return NextResponse.json({ success: false, error: 'A balance is required' }, { status: 400 })
+    }
+    const balanceUsd = parsed.data.balance_usd ?? (await usdValueOn(supabase, balance, currency, today))
 
     const { data, error } = await supabase.from('kids_accounts').insert({
       user_id: user.id,
       child_name: parsed.data.child_name,
       account_type: parsed.data.account_type,
-      balance_usd: parsed.data.balance_usd,
+      balance,
+      currency,
+      balance_usd: balanceUsd,
       date_updated: today,
       notes: parsed.data.notes ?? null,
       purpose: parsed.data.purpose ?? null,
@@ -0,0 +1,88 @@
+import { createClient } from '@/lib/supabase/server'
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { resolveTransactionMerchants } from '@/lib/resolve-merchants'
+import { isValidAlias } from '@/lib/utils/merchants'
+
+const UpdateMerchantSchema = z.object({
+  name: z.string().trim().min(1).optional(),
+  alias_patterns: z.array(z.string().trim().min(1).refine(isValidAlias, 'Invalid alias pattern')).min(1).optional(),
+})
+
+export async function PATCH(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const parsed = UpdateMerchantSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid input', details: parsed.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    // Any edit makes the merchant user-owned
+    const { data, error } = await supabase
+      .from('merchants')
+      .update({ ...parsed.data, is_auto: false, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error updating merchant:', error)
+      const message = error.code === '23505' ? 'A merchant with this name already exists' : error.message
+      return NextResponse.json({ success: false, error: message }, { status: error.code === '23505' ? 409 : 500 })
+    }
+
+    const resolved = parsed.data.alias_patterns
+      ? await resolveTransactionMerchants(supabase, user.id, { all: true })
+      : null
+
+    return NextResponse.json({ success: true, data, resolved })
+  } catch (error: any) {
+    console.error('Merchant PATCH error:', error)
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to update merchant' },
+      { status: 500 }
+    )
+  }
+}
+
+/** Delete a merchant. Its transactions are re-resolved (an auto merchant is recreated if nothing else matches). */
+export async function DELETE(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { error } = await supabase.from('merchants').delete().eq('id', id)
+
+    if (error) {
+      console.error('Error deleting merchant:', error)
+      return NextResponse.json({ success: false, error: error.message }, { status: 500 })
+    }
+
+    await resolveTransactionMerchants(supabase, user.id)
+
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    console.error('Merchant DELETE error:', error)
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to delete merchant' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,92 @@
+import { createClient } from '@/lib/supabase/server'
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+
+const MergeMerchantsSchema = z.object({
+  targetId: z.string().uuid(),
+  sourceIds: z.array(z.string().uuid()).min(1),
+})
+
+/**
+ * Merge merchants into a target: the target takes over the sources' aliases and
+ * transactions, then the sources are deleted.
+ */
+export async function POST(request: Request) {
+  try {
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const parsed = MergeMerchantsSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid input', details: parsed.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const { targetId } = parsed.data
+    const sourceIds = parsed.data.sourceIds.filter((id) => id !== targetId)
+    if (sourceIds.length === 0) {
+      return NextResponse.json({ success: false, error: 'Nothing to merge' }, { status: 400 })
+    }
+
+    const { data: merchants, error: fetchError } = await supabase
+      .from('merchants')
+      .select('id, alias_patterns')
+      .in('id', [targetId, ...sourceIds])
+
+    if (fetchError) {
+      console.error('Error fetching merchants to merge:', fetchError)
+      return NextResponse.json({ success: false, error: fetchError.message }, { status: 500 })
+    }
+
+    const target = merchants?.find((m) => m.id === targetId)
+    if (!target || (merchants?.length ?? 0) !== sourceIds.length + 1) {
+      return NextResponse.json({ success: false, error: 'Merchant not found' }, { status: 404 })
+    }
+
+    const aliases = Array.from(new Set((merchants ?? []).flatMap((m) => m.alias_patterns as string[])))
+    const { data, error: updateError } = await supabase
+      .from('merchants')
+      .update({ alias_patterns: aliases, is_auto: false, updated_at: new Date().toISOString() })
+      .eq('id', targetId)
+      .select()
+      .single()
+
+    if (updateError) {
+      console.error('Error updating merge target:', updateError)
+      return NextResponse.json({ success: false, error: updateError.message }, { status: 500 })
+    }
+
+    const { error: moveError } = await supabase
+      .from('transaction_log')
+      .update({ merchant_id: targetId })
+      .in('merchant_id', sourceIds)
+
+    if (moveError) {
+      console.error('Error moving transactions to merge target:', moveError)
+      return NextResponse.json({ success: false, error: moveError.message }, { status: 500 })
+    }
+
+    const { error: deleteError } = await supabase.from('merchants').delete().in('id', sourceIds)
+
+    if (deleteError) {
+      console.error('Error deleting merged merchants:', deleteError)
+      return NextResponse.json({ success: false, error: deleteError.message }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true, data })
+  } catch (error: any) {
+    console.error('Merchant merge error:', error)
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to merge merchants' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,106 @@
+import { createClient } from '@/lib/supabase/server'
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { resolveTransactionMerchants } from '@/lib/resolve-merchants'
+import { isValidAlias } from '@/lib/utils/merchants'
+
+const PAGE_SIZE = 1000
+
+const CreateMerchantSchema = z.object({
+  name: z.string().trim().min(1),
+  alias_patterns: z.array(z.string().trim().min(1).refine(isValidAlias, 'Invalid alias pattern')).min(1),
+})
+
+/** Merchants with how many transactions resolve to each, most used first. */
+export async function GET() {
+  try {
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: merchants, error } = await supabase
+      .from('merchants')
+      .select('*')
+      .order('name')
+
+    if (error) {
+      console.error('Error fetching merchants:', error)
+      return NextResponse.json({ success: false, error: error.message }, { status: 500 })
+    }
+
+    const counts = new Map<string, number>()
+    for (let page = 0; ; page++) {
+      const { data, error: countError } = await supabase
+        .from('transaction_log')
+        .select('merchant_id')
+        .not('merchant_id', 'is', null)
+        .order('id')
+        .range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1)
+      if (countError) {
+        console.error('Error counting merchant transactions:', countError)
+        return NextResponse.json({ success: false, error: countError.message }, { status: 500 })
+      }
+      for (const row of data ?? []) counts.set(row.merchant_id, (counts.get(row.merchant_id) ?? 0) + 1)
+      if (!data || data.length < PAGE_SIZE) break
+    }
+
+    const data = (merchants ?? [])
+      .map((m) => ({ ...m, transaction_count: counts.get(m.id) ?? 0 }))
+      .sort((a, b) => b.transaction_count - a.transaction_count)
+
+    return NextResponse.json({ success: true, data })
+  } catch (error: any) {
+    console.error('Merchants GET error:', error)
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to fetch merchants' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const parsed = CreateMerchantSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid input', details: parsed.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const { data, error } = await supabase.from('merchants').insert({
+      ...parsed.data,
+      user_id: user.id,
+      is_auto: false,
+    }).select().single()
+
+    if (error) {
+      console.error('Error creating merchant:', error)
+      const message = error.code === '23505' ? 'A merchant with this name already exists' : error.message
+      return NextResponse.json({ success: false, error: message }, { status: error.code === '23505' ? 409 : 500 })
+    }
+
+    // New aliases may claim rows from other merchants
+    const resolved = await resolveTransactionMerchants(supabase, user.id, { all: true })
+
+    return NextResponse.json({ success: true, data, resolved })
+  } catch (error: any) {
+    console.error('Merchants API error:', error)
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to create merchant' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,92 @@
+import { createClient } from '@/lib/supabase/server'
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+
+/** The inbox shows this many of the most recent notifications. */
+const INBOX_LIMIT = 50
+
+const MarkReadSchema = z.union([
+  z.object({ ids: z.array(z.string().uuid()).min(1) }),
+  z.object({ all: z.literal(true) }),
+])
+
+/** GET /api/notifications: most recent notifications and the number still unread. */
+export async function GET() {
+  try {
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const [listRes, unreadRes] = await Promise.all([
+      supabase
+        .from('notifications')
+        .select('id, alert_rule_id, title, body, link, read_at, created_at')
+        .order('created_at', { ascending: false })
+        .limit(INBOX_LIMIT),
+      supabase.from('notifications').select('id', { count: 'exact', head: true }).is('read_at', null),
+    ])
+
+    if (listRes.error || unreadRes.error) {
+      const error = listRes.error ?? unreadRes.error
+      console.error('Error fetching notifications:', error)
+      return NextResponse.json({ success: false, error: error?.message }, { status: 500 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { notifications: listRes.data ?? [], unread: unreadRes.count ?? 0 },
+    })
+  } catch (error: any) {
+    console.error('Notifications GET error:', error)
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to fetch notifications' },
+      { status: 500 }
+    )
+  }
+}
+
+/** PATCH /api/notifications: mark `ids` (or `all: true`) as read. */
+export async function PATCH(request: Request) {
+  try {
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const parsed = MarkReadSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid input', details: parsed.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    let query = supabase
+      .from('notifications')
+      .update({ read_at: new Date().toISOString() })
+      .eq('user_id', user.id)
+      .is('read_at', null)
+    if ('ids' in parsed.data) query = query.in('id', parsed.data.ids)
+
+    const { error } = await query
+    if (error) {
+      console.error('Error marking notifications read:', error)
+      return NextResponse.json({ success: false, error: error.message }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    console.error('Notifications PATCH error:', error)
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to update notifications' },
+      { status: 500 }
+    )
+  }
+}
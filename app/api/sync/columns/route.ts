@@ -0,0 +1,149 @@
+import { detectSheetLayouts, getSheetColumns } from '@/lib/sync-google-sheet'
+import { createClient } from '@/lib/supabase/server'
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+
+const SheetColumnMappingSchema = z.object({
+  sheet_name: z.string().min(1),
+  tab_name: z.string().trim().nullable(),
+  /** Database field → header text; blank headers fall back to the template column. */
+  columns: z.record(z.string(), z.string().trim()),
+})
+
+/** Every tab's header row with its saved and auto-detected column mapping. */
+export async function GET() {
+  try {
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: profile } = await supabase
+      .from('user_profiles')
+      .select('google_spreadsheet_id')
+      .eq('id', user.id)
+      .single()
+
+    if (!profile?.google_spreadsheet_id) {
+      return NextResponse.json(
+        { success: false, error: 'Connect your sheet first. Set your Google Spreadsheet ID in settings.' },
+        { status: 400 }
+      )
+    }
+
+    const data = await detectSheetLayouts(supabase, {
+      spreadsheetId: profile.google_spreadsheet_id,
+      userId: user.id,
+    })
+
+    return NextResponse.json({ success: true, data })
+  } catch (error: any) {
+    console.error('Sheet columns GET error:', error)
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to read sheet headers' },
+      { status: 500 }
+    )
+  }
+}
+
+/** Save one tab's name override and header mapping. */
+export async function PUT(request: Request) {
+  try {
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const parsed = SheetColumnMappingSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid input', details: parsed.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const columns = getSheetColumns(parsed.data.sheet_name)
+    if (!columns) {
+      return NextResponse.json({ success: false, error: `Unknown sheet "${parsed.data.sheet_name}"` }, { status: 400 })
+    }
+    const fields = new Set(columns.map((c) => c.field))
+    const unknown = Object.keys(parsed.data.columns).filter((f) => !fields.has(f))
+    if (unknown.length > 0) {
+      return NextResponse.json(
+        { success: false, error: `Unknown fields for ${parsed.data.sheet_name}: ${unknown.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const mapped = Object.fromEntries(Object.entries(parsed.data.columns).filter(([, header]) => header !== ''))
+    const { data, error } = await supabase
+      .from('sheet_column_mappings')
+      .upsert(
+        {
+          user_id: user.id,
+          sheet_name: parsed.data.sheet_name,
+          tab_name: parsed.data.tab_name || null,
+          columns: mapped,
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: 'user_id,sheet_name' }
+      )
+      .select('sheet_name, tab_name, columns')
+      .single()
+
+    if (error) {
+      console.error('Error saving sheet column mapping:', error)
+      return NextResponse.json({ success: false, error: error.message }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true, data })
+  } catch (error: any) {
+    console.error('Sheet columns PUT error:', error)
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to save column mapping' },
+      { status: 500 }
+    )
+  }
+}
+
+/** Go back to the template layout for one tab (?sheet=Budget%20Targets). */
+export async function DELETE(request: Request) {
+  try {
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const sheetName = new URL(request.url).searchParams.get('sheet')
+    if (!sheetName) {
+      return NextResponse.json({ success: false, error: 'sheet is required' }, { status: 400 })
+    }
+
+    const { error } = await supabase
+      .from('sheet_column_mappings')
+      .delete()
+      .eq('user_id', user.id)
+      .eq('sheet_name', sheetName)
+
+    if (error) {
+      console.error('Error deleting sheet column mapping:', error)
+      return NextResponse.json({ success: false, error: error.message }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    console.error('Sheet columns DELETE error:', error)
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to reset column mapping' },
+      { status: 500 }
+    )
+  }
+}
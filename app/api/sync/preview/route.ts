@@ -0,0 +1,52 @@
+import { previewGoogleSheetSync } from '@/lib/sync-google-sheet'
+import { createClient } from '@/lib/supabase/server'
+import { NextResponse } from 'next/server'
+
+/**
+ * Dry-run sync: fetch and transform the sheet and return per-table adds, removes and changes
+ * against stored data, plus a fingerprint per tab. Nothing is written; POST /api/sync with those
+ * fingerprints applies the sync, and refuses it if the sheet has changed since.
+ */
+export async function POST() {
+  try {
+    const supabase = await createClient()
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: profile } = await supabase
+      .from('user_profiles')
+      .select('google_spreadsheet_id')
+      .eq('id', user.id)
+      .single()
+
+    if (!profile?.google_spreadsheet_id) {
+      return NextResponse.json(
+        { success: false, error: 'Connect your sheet first. Set your Google Spreadsheet ID in settings.' },
+        { status: 400 }
+      )
+    }
+
+    const result = await previewGoogleSheetSync(supabase, {
+      spreadsheetId: profile.google_spreadsheet_id,
+      userId: user.id,
+    })
+
+    return NextResponse.json({
+      success: result.success,
+      data: result.tables,
+      fingerprints: result.fingerprints,
+      error: result.error || null,
+    })
+  } catch (error: any) {
+    console.error('Sync preview API error:', error)
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to preview sync', data: [] },
+      { status: 500 }
+    )
+  }
+}
@@ -1,10 +1,16 @@
 import { syncGoogleSheet } from '@/lib/sync-google-sheet'
 import { snapshotBudgetHistory } from '@/lib/snapshot-budget-history'
-import { recordLastSync } from '@/lib/sync-metadata'
+import { evaluateAlertRules } from '@/lib/evaluate-alert-rules'
+import { recordLastSync, recordSyncRun } from '@/lib/sync-metadata'
 import { createClient } from '@/lib/supabase/server'
 import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import type { SyncTrigger } from '@/lib/types'
 
-export async function POST() {
+/** Fingerprints from POST /api/sync/preview, sent when the user approves a preview. */
+const FingerprintsSchema = z.record(z.string(), z.string()).optional()
+
+export async function POST(request: Request) {
   try {
     const supabase = await createClient()
     const {
@@ -29,17 +35,39 @@ export async function POST() {
       )
     }
 
+    // Onboarding flows say so in the body; everything else is a manual refresh
+    const body = await request.json().catch(() => ({}))
+    const trigger: SyncTrigger = body?.trigger === 'onboarding' ? 'onboarding' : 'manual'
+    const fingerprints = FingerprintsSchema.safeParse(body?.fingerprints)
+    if (!fingerprints.success) {
+      return NextResponse.json({ success: false, error: 'Invalid preview fingerprints' }, { status: 400 })
+    }
+
     console.log('Sync API: Starting sync for user:', user.email)
+    const startedAt = new Date()
     const result = await syncGoogleSheet(supabase, {
       spreadsheetId: profile.google_spreadsheet_id,
       userId: user.id,
+      expectedFingerprints: fingerprints.data,
     })
+    // Nothing was written: the sheet no longer matches the approved preview
+    if ('stale' in result && result.stale) {
+      return NextResponse.json({ success: false, stale: true, error: result.error, results: [] }, { status: 409 })
+    }
+    await recordSyncRun(supabase, user.id, { trigger, startedAt, result })
     console.log('Sync API: Sync completed', { success: result.success, resultsCount: result.results?.length })
 
     const today = new Date().toISOString().split('T')[0]
     await snapshotBudgetHistory(today, supabase, user.id)
     console.log('Sync API: budget_history snapshot for', today, 'completed')
 
+    try {
+      await evaluateAlertRules(supabase, user.id)
+    } catch (alertError) {
+      // Data is synced; alerts are picked up after the next sync
+      console.warn('Warning: Could not evaluate alert rules:', alertError)
+    }
+
     if (result.success) {
       await recordLastSync(supabase, user.id)
     }
@@ -48,6 +76,8 @@ export async function POST() {
     return NextResponse.json({
       success: result.success,
       results: result.results || [],
+      issues: result.issues || [],
+      writtenBack: result.writtenBack || [],
       error: result.error || null,
     })
   } catch (error: any) {
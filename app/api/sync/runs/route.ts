@@ -0,0 +1,38 @@
+import { createClient } from '@/lib/supabase/server'
+import { NextResponse } from 'next/server'
+
+const DEFAULT_LIMIT = 30
+const MAX_LIMIT = 200
+
+/** Recent sync runs, newest first. `?limit=` caps the count (default 30). */
+export async function GET(request: Request) {
+  try {
+    const supabase = await createClient()
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const requested = Number(new URL(request.url).searchParams.get('limit'))
+    const limit = Number.isInteger(requested) && requested > 0 ? Math.min(requested, MAX_LIMIT) : DEFAULT_LIMIT
+
+    const { data, error } = await supabase
+      .from('sync_runs')
+      .select('id, trigger, started_at, duration_ms, success, error, rows_processed, rows_skipped, results, issue_count')
+      .order('started_at', { ascending: false })
+      .limit(limit)
+
+    if (error) {
+      console.error('Error fetching sync runs:', error)
+      return NextResponse.json({ success: false, error: error.message }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true, data: data ?? [] })
+  } catch (error: any) {
+    console.error('Sync runs API error:', error)
+    return NextResponse.json({ success: false, error: error.message || 'Failed to load sync history' }, { status: 500 })
+  }
+}
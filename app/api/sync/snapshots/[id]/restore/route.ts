@@ -0,0 +1,42 @@
+import { createClient } from '@/lib/supabase/server'
+import { NextResponse } from 'next/server'
+
+/**
+ * Restore budgets, debt, trends, investment returns, YoY net worth and recurring payments from a
+ * snapshot in one transaction. The state being replaced is snapshotted first; its id is returned.
+ */
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: snapshot } = await supabase
+      .from('sync_snapshots')
+      .select('id')
+      .eq('id', id)
+      .maybeSingle()
+    if (!snapshot) {
+      return NextResponse.json({ success: false, error: 'Snapshot not found' }, { status: 404 })
+    }
+
+    const { data: backupId, error } = await supabase.rpc('restore_sync_snapshot', { p_snapshot_id: id })
+
+    if (error) {
+      console.error('Error restoring sync snapshot:', error)
+      return NextResponse.json({ success: false, error: error.message }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true, data: { backupId } })
+  } catch (error: any) {
+    console.error('Snapshot restore error:', error)
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to restore snapshot' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,32 @@
+import { createClient } from '@/lib/supabase/server'
+import { NextResponse } from 'next/server'
+
+/** Sync snapshots, newest first, without their table data. */
+export async function GET() {
+  try {
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data, error } = await supabase
+      .from('sync_snapshots')
+      .select('id, reason, taken_at, row_count, restored_at')
+      .order('taken_at', { ascending: false })
+
+    if (error) {
+      console.error('Error fetching sync snapshots:', error)
+      return NextResponse.json({ success: false, error: error.message }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true, data: data ?? [] })
+  } catch (error: any) {
+    console.error('Sync snapshots API error:', error)
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to load sync snapshots' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,6 +1,9 @@
 import { createClient } from '@/lib/supabase/server'
 import { NextResponse } from 'next/server'
 import { z } from 'zod'
+import { resolveTransactionMerchants } from '@/lib/resolve-merchants'
+import { transactionFingerprint } from '@/lib/utils/detect-duplicate-transactions'
+import { fillMoneyColumns } from '@/lib/utils/fx-rates'
 
 const UpdateTransactionSchema = z.object({
   date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
@@ -8,9 +11,13 @@ const UpdateTransactionSchema = z.object({
   counterparty: z.string().nullable().optional(),
   amount_usd: z.number().nullable().optional(),
   amount_gbp: z.number().nullable().optional(),
-  currency: z.enum(['USD', 'GBP']).optional(),
+  amount_eur: z.number().nullable().optional(),
+  amount: z.number().nullable().optional(),
+  currency: z.string().regex(/^[A-Z]{3}$/, 'Expected an ISO currency code').optional(),
 })
 
+const MONEY_FIELDS = ['amount', 'amount_usd', 'amount_gbp', 'amount_eur', 'currency']
+
 export async function PATCH(request: Request, { params }: { params: Promise<{ id: string }> }) {
   try {
     const { id } = await params
@@ -23,7 +30,7 @@ export async function PATCH(request: Request, { params }: { params: Promise<{ id
 
     const { data: existing } = await supabase
       .from('transaction_log')
-      .select('data_source')
+      .select('data_source, date, currency')
       .eq('id', id)
       .single()
 
@@ -51,6 +58,24 @@ export async function PATCH(request: Request, { params }: { params: Promise<{ id
     const updates: Record<string, any> = { ...parsed.data }
     if (updates.counterparty !== undefined) {
       updates.counterparty_dedup = (updates.counterparty ?? '').toLowerCase().trim()
+      updates.merchant_id = null
+    }
+    // Splits must sum to the amount, so an amount change drops them; other edits re-key them
+    const amountChanged = MONEY_FIELDS.some((k) => updates[k] !== undefined)
+    if (amountChanged) {
+      // Re-derive the native amount (and USD for non-USD rows) from the amounts in this edit
+      const [row] = await fillMoneyColumns(supabase, [
+        {
+          date: updates.date ?? existing.date,
+          currency: updates.currency ?? existing.currency ?? null,
+          amount: updates.amount ?? null,
+          amount_usd: updates.amount_usd ?? null,
+          amount_gbp: updates.amount_gbp ?? null,
+          amount_eur: updates.amount_eur ?? null,
+        },
+      ])
+      if (row.amount != null) updates.amount = row.amount
+      if (updates.amount_usd === undefined && row.amount_usd != null) updates.amount_usd = row.amount_usd
     }
 
     const { data, error } = await supabase
@@ -65,6 +90,28 @@ export async function PATCH(request: Request, { params }: { params: Promise<{ id
       return NextResponse.json({ success: false, error: error.message }, { status: 500 })
     }
 
+    const { error: splitError } = amountChanged
+      ? await supabase.from('transaction_splits').delete().eq('transaction_id', id)
+      : await supabase.from('transaction_splits').update({ parent_key: transactionFingerprint(data) }).eq('transaction_id', id)
+    if (splitError) {
+      console.warn('Warning: Could not update splits for edited transaction:', splitError)
+    }
+    const { error: tagError } = await supabase
+      .from('transaction_tags')
+      .update({ parent_key: transactionFingerprint(data) })
+      .eq('transaction_id', id)
+    if (tagError) {
+      console.warn('Warning: Could not update tags for edited transaction:', tagError)
+    }
+
+    if (updates.counterparty !== undefined) {
+      try {
+        await resolveTransactionMerchants(supabase, user.id)
+      } catch (merchantError) {
+        console.warn('Warning: Could not resolve merchant for updated transaction:', merchantError)
+      }
+    }
+
     return NextResponse.json({ success: true, data })
   } catch (error: any) {
     console.error('Transaction PATCH error:', error)
@@ -102,6 +149,10 @@ export async function DELETE(request: Request, { params }: { params: Promise<{ i
       )
     }
 
+    // Splits and tags would otherwise be kept (detached) for re-linking, which only sheet rows need
+    await supabase.from('transaction_splits').delete().eq('transaction_id', id)
+    await supabase.from('transaction_tags').delete().eq('transaction_id', id)
+
     const { error } = await supabase.from('transaction_log').delete().eq('id', id)
 
     if (error) {
@@ -0,0 +1,135 @@
+import { createClient } from '@/lib/supabase/server'
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { transactionFingerprint } from '@/lib/utils/detect-duplicate-transactions'
+import { validateSplits } from '@/lib/utils/transaction-splits'
+import type { TransactionLog } from '@/lib/types'
+
+const ReplaceSplitsSchema = z.object({
+  /** Replaces all splits; an empty array removes the split. */
+  splits: z.array(
+    z.object({
+      category: z.string().trim().min(1),
+      amount: z.number(),
+      note: z.string().trim().nullable().optional(),
+    })
+  ),
+})
+
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data, error } = await supabase
+      .from('transaction_splits')
+      .select('*')
+      .eq('transaction_id', id)
+      .order('position')
+
+    if (error) {
+      console.error('Error fetching splits:', error)
+      return NextResponse.json({ success: false, error: error.message }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true, data })
+  } catch (error: any) {
+    console.error('Transaction splits GET error:', error)
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to fetch splits' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Replace a transaction's splits. Works for rows from any source: splits live in their own
+ * table and are re-linked by content fingerprint after sheet sync.
+ */
+export async function PUT(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const parsed = ReplaceSplitsSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid input', details: parsed.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const { data: parent } = await supabase
+      .from('transaction_log')
+      .select('id, date, counterparty, amount_usd, amount_gbp, amount_eur, amount, currency, data_source')
+      .eq('id', id)
+      .single()
+
+    if (!parent) {
+      return NextResponse.json({ success: false, error: 'Transaction not found' }, { status: 404 })
+    }
+
+    const { splits } = parsed.data
+    if (splits.length > 0) {
+      const validationError = validateSplits(parent, splits)
+      if (validationError) {
+        return NextResponse.json({ success: false, error: validationError }, { status: 400 })
+      }
+    }
+
+    const { error: deleteError } = await supabase
+      .from('transaction_splits')
+      .delete()
+      .eq('transaction_id', id)
+
+    if (deleteError) {
+      console.error('Error clearing splits:', deleteError)
+      return NextResponse.json({ success: false, error: deleteError.message }, { status: 500 })
+    }
+
+    if (splits.length === 0) {
+      return NextResponse.json({ success: true, data: [] })
+    }
+
+    const parentKey = transactionFingerprint(parent as TransactionLog)
+    const { data, error } = await supabase
+      .from('transaction_splits')
+      .insert(
+        splits.map((s, position) => ({
+          user_id: user.id,
+          transaction_id: id,
+          parent_key: parentKey,
+          position,
+          category: s.category,
+          amount: s.amount,
+          note: s.note || null,
+        }))
+      )
+      .select()
+
+    if (error) {
+      console.error('Error saving splits:', error)
+      return NextResponse.json({ success: false, error: error.message }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true, data })
+  } catch (error: any) {
+    console.error('Transaction splits PUT error:', error)
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to save splits' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,114 @@
+import { createClient } from '@/lib/supabase/server'
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { transactionFingerprint } from '@/lib/utils/detect-duplicate-transactions'
+import type { Tag, TransactionLog } from '@/lib/types'
+
+const ReplaceTagsSchema = z.object({
+  /** Tag names; replaces the transaction's tags. Unknown names create a tag. */
+  tags: z.array(z.string().trim().min(1).max(60)).max(20),
+})
+
+/**
+ * Replace a transaction's tags. Names match existing tags case-insensitively so "wedding" reuses
+ * "Wedding". Tags left on no transaction are deleted.
+ */
+export async function PUT(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const parsed = ReplaceTagsSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid input', details: parsed.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const { data: transaction } = await supabase
+      .from('transaction_log')
+      .select('id, date, counterparty, amount_usd, amount_gbp, data_source')
+      .eq('id', id)
+      .single()
+
+    if (!transaction) {
+      return NextResponse.json({ success: false, error: 'Transaction not found' }, { status: 404 })
+    }
+
+    const { data: existingTags, error: tagsError } = await supabase.from('tags').select('*')
+    if (tagsError) {
+      console.error('Error fetching tags:', tagsError)
+      return NextResponse.json({ success: false, error: tagsError.message }, { status: 500 })
+    }
+
+    const byName = new Map((existingTags as Tag[]).map((t) => [t.name.toLowerCase(), t]))
+    const names: string[] = []
+    for (const raw of parsed.data.tags) {
+      const name = raw.replace(/\s+/g, ' ')
+      if (!names.some((n) => n.toLowerCase() === name.toLowerCase())) names.push(name)
+    }
+    const missing = names.filter((n) => !byName.has(n.toLowerCase()))
+
+    if (missing.length > 0) {
+      const { data: created, error: createError } = await supabase
+        .from('tags')
+        .insert(missing.map((name) => ({ user_id: user.id, name })))
+        .select()
+      if (createError) {
+        console.error('Error creating tags:', createError)
+        return NextResponse.json({ success: false, error: createError.message }, { status: 500 })
+      }
+      for (const t of (created ?? []) as Tag[]) byName.set(t.name.toLowerCase(), t)
+    }
+
+    const { data: previous } = await supabase
+      .from('transaction_tags')
+      .select('tag_id')
+      .eq('transaction_id', id)
+
+    const { error: deleteError } = await supabase.from('transaction_tags').delete().eq('transaction_id', id)
+    if (deleteError) {
+      console.error('Error clearing tags:', deleteError)
+      return NextResponse.json({ success: false, error: deleteError.message }, { status: 500 })
+    }
+
+    const tags = names.map((n) => byName.get(n.toLowerCase())!)
+    if (tags.length > 0) {
+      const parentKey = transactionFingerprint(transaction as TransactionLog)
+      const { error: insertError } = await supabase
+        .from('transaction_tags')
+        .insert(tags.map((t) => ({ user_id: user.id, tag_id: t.id, transaction_id: id, parent_key: parentKey })))
+      if (insertError) {
+        console.error('Error saving tags:', insertError)
+        return NextResponse.json({ success: false, error: insertError.message }, { status: 500 })
+      }
+    }
+
+    // Drop tags this edit left unused (detached links still count as uses)
+    const keptIds = new Set(tags.map((t) => t.id))
+    for (const tagId of Array.from(new Set((previous ?? []).map((p) => p.tag_id)))) {
+      if (keptIds.has(tagId)) continue
+      const { count } = await supabase
+        .from('transaction_tags')
+        .select('id', { count: 'exact', head: true })
+        .eq('tag_id', tagId)
+      if (count === 0) await supabase.from('tags').delete().eq('id', tagId)
+    }
+
+    return NextResponse.json({ success: true, data: tags })
+  } catch (error: any) {
+    console.error('Transaction tags PUT error:', error)
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to save tags' },
+      { status: 500 }
+    )
+  }
+}
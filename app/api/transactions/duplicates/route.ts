@@ -0,0 +1,174 @@
+import { createClient } from '@/lib/supabase/server'
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { TransactionLog } from '@/lib/types'
+import { detectDuplicateTransactions } from '@/lib/utils/detect-duplicate-transactions'
+
+const PAGE_SIZE = 1000
+const MAX_CANDIDATES = 100
+
+const DuplicateActionSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('dismiss'),
+    pairKey: z.string().min(1),
+  }),
+  z.object({
+    action: z.literal('merge'),
+    keepId: z.string().uuid(),
+    removeId: z.string().uuid(),
+  }),
+])
+
+export async function GET(request: Request) {
+  try {
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const months = Math.min(Math.max(parseInt(searchParams.get('months') ?? '12', 10) || 12, 1), 60)
+    const since = new Date()
+    since.setMonth(since.getMonth() - months)
+    const sinceStr = since.toISOString().split('T')[0]
+
+    // Fetch all rows in the window with pagination (Supabase defaults to 1,000 rows)
+    const transactions: TransactionLog[] = []
+    for (let page = 0; ; page++) {
+      const { data, error } = await supabase
+        .from('transaction_log')
+        .select('id, date, category, counterparty, amount_usd, amount_gbp, amount_eur, currency, data_source')
+        .gte('date', sinceStr)
+        .order('date', { ascending: true })
+        .range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1)
+      if (error) {
+        console.error('Error fetching transactions for duplicate detection:', error)
+        return NextResponse.json({ success: false, error: error.message }, { status: 500 })
+      }
+      transactions.push(...((data ?? []) as TransactionLog[]))
+      if (!data || data.length < PAGE_SIZE) break
+    }
+
+    const { data: dismissals, error: dismissError } = await supabase
+      .from('transaction_duplicate_dismissals')
+      .select('pair_key')
+
+    if (dismissError) {
+      console.error('Error fetching duplicate dismissals:', dismissError)
+      return NextResponse.json({ success: false, error: dismissError.message }, { status: 500 })
+    }
+
+    const candidates = detectDuplicateTransactions(transactions, {
+      dismissedPairKeys: new Set((dismissals ?? []).map((d) => d.pair_key)),
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: candidates.slice(0, MAX_CANDIDATES),
+      total: candidates.length,
+    })
+  } catch (error: any) {
+    console.error('Duplicates GET error:', error)
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to detect duplicates' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const parsed = DuplicateActionSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid input', details: parsed.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    if (parsed.data.action === 'dismiss') {
+      const { error } = await supabase
+        .from('transaction_duplicate_dismissals')
+        .upsert(
+          { user_id: user.id, pair_key: parsed.data.pairKey },
+          { onConflict: 'user_id,pair_key', ignoreDuplicates: true }
+        )
+      if (error) {
+        console.error('Error dismissing duplicate pair:', error)
+        return NextResponse.json({ success: false, error: error.message }, { status: 500 })
+      }
+      return NextResponse.json({ success: true })
+    }
+
+    const { keepId, removeId } = parsed.data
+    if (keepId === removeId) {
+      return NextResponse.json({ success: false, error: 'Cannot merge a transaction with itself' }, { status: 400 })
+    }
+
+    const { data: rows } = await supabase
+      .from('transaction_log')
+      .select('id, category, counterparty, data_source')
+      .in('id', [keepId, removeId])
+
+    const keep = rows?.find((r) => r.id === keepId)
+    const remove = rows?.find((r) => r.id === removeId)
+    if (!keep || !remove) {
+      return NextResponse.json({ success: false, error: 'Transaction not found' }, { status: 404 })
+    }
+
+    if (remove.data_source === 'google_sheet') {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Sheet rows are re-created on every sync. Keep the sheet row, or delete the row in your Google Sheet.',
+        },
+        { status: 403 }
+      )
+    }
+
+    // Fill gaps on the kept row from the removed one (sheet rows are overwritten by sync, so leave them)
+    if (keep.data_source !== 'google_sheet') {
+      const updates: Record<string, any> = {}
+      if (!keep.counterparty && remove.counterparty) {
+        updates.counterparty = remove.counterparty
+        updates.counterparty_dedup = remove.counterparty.toLowerCase().trim()
+      }
+      if (keep.category === 'Uncategorized' && remove.category !== 'Uncategorized') {
+        updates.category = remove.category
+      }
+      if (Object.keys(updates).length > 0) {
+        const { error: updateError } = await supabase.from('transaction_log').update(updates).eq('id', keepId)
+        if (updateError) {
+          console.error('Error updating kept transaction:', updateError)
+          return NextResponse.json({ success: false, error: updateError.message }, { status: 500 })
+        }
+      }
+    }
+
+    const { error } = await supabase.from('transaction_log').delete().eq('id', removeId)
+
+    if (error) {
+      console.error('Error removing duplicate transaction:', error)
+      return NextResponse.json({ success: false, error: error.message }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    console.error('Duplicates POST error:', error)
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to update duplicate' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,37 @@
+import { createClient } from '@/lib/supabase/server'
+import { NextResponse } from 'next/server'
+
+/** Unlink a refund from its purchase. The pair is kept as 'rejected' so detection leaves it alone. */
+export async function DELETE(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data, error } = await supabase
+      .from('transaction_refunds')
+      .update({ status: 'rejected', updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select('id')
+
+    if (error) {
+      console.error('Error unlinking refund:', error)
+      return NextResponse.json({ success: false, error: error.message }, { status: 500 })
+    }
+    if (!data?.length) {
+      return NextResponse.json({ success: false, error: 'Refund not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    console.error('Refund DELETE error:', error)
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to unlink refund' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,49 @@
+import { createClient } from '@/lib/supabase/server'
+import { NextResponse } from 'next/server'
+import type { TransactionRefund } from '@/lib/types'
+
+const LEG_COLUMNS = 'id, date, amount_usd, amount_gbp, amount_eur, amount, currency'
+
+/**
+ * Refund links whose purchase and refund rows are both present. Optional `from`/`to`
+ * (YYYY-MM-DD) keep links with either row dated in that range.
+ */
+export async function GET(request: Request) {
+  try {
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const from = searchParams.get('from')
+    const to = searchParams.get('to')
+
+    const { data, error } = await supabase
+      .from('transaction_refunds')
+      .select(
+        `id, purchase:transaction_log!purchase_transaction_id(${LEG_COLUMNS}), refund:transaction_log!refund_transaction_id(${LEG_COLUMNS})`
+      )
+      .eq('status', 'auto')
+
+    if (error) {
+      console.error('Error fetching refunds:', error)
+      return NextResponse.json({ success: false, error: error.message }, { status: 500 })
+    }
+
+    const inRange = (date: string) => (!from || date >= from) && (!to || date <= to)
+    const refunds = ((data ?? []) as unknown as TransactionRefund[]).filter(
+      (r) => r.purchase && r.refund && (inRange(r.purchase.date) || inRange(r.refund.date))
+    )
+
+    return NextResponse.json({ success: true, data: refunds })
+  } catch (error: any) {
+    console.error('Refunds GET error:', error)
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to fetch refunds' },
+      { status: 500 }
+    )
+  }
+}
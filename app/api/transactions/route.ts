@@ -1,14 +1,21 @@
 import { createClient } from '@/lib/supabase/server'
 import { NextResponse } from 'next/server'
 import { z } from 'zod'
+import { categorizeTransaction, fetchCategorizationRules, UNCATEGORIZED } from '@/lib/utils/categorization-rules'
+import { resolveTransactionMerchants } from '@/lib/resolve-merchants'
+import { fillMoneyColumns } from '@/lib/utils/fx-rates'
 
 const CreateTransactionSchema = z.object({
   date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
-  category: z.string().min(1),
+  /** Optional: when blank, the user's categorization rules pick one. */
+  category: z.string().trim().optional(),
   counterparty: z.string().nullable().optional(),
   amount_usd: z.number().nullable().optional(),
   amount_gbp: z.number().nullable().optional(),
-  currency: z.enum(['USD', 'GBP']),
+  amount_eur: z.number().nullable().optional(),
+  /** Amount in `currency`; required for currencies without a legacy column (CHF, CAD, ...). */
+  amount: z.number().nullable().optional(),
+  currency: z.string().regex(/^[A-Z]{3}$/, 'Expected an ISO currency code'),
 })
 
 export async function POST(request: Request) {
@@ -30,7 +37,31 @@ export async function POST(request: Request) {
       )
     }
 
-    const { date, category, counterparty, amount_usd, amount_gbp, currency } = parsed.data
+    const { date, counterparty, amount_gbp, amount_eur, currency } = parsed.data
+    // Record the native amount; non-USD entries get a USD amount at that day's rate so they count in totals
+    const [{ amount_usd, amount }] = await fillMoneyColumns(supabase, [
+      {
+        date,
+        currency,
+        amount: parsed.data.amount ?? null,
+        amount_usd: parsed.data.amount_usd ?? null,
+        amount_gbp: amount_gbp ?? null,
+        amount_eur: amount_eur ?? null,
+      },
+    ])
+
+    let category = parsed.data.category
+    if (!category) {
+      const rules = await fetchCategorizationRules(supabase, user.id)
+      category = categorizeTransaction(rules, {
+        counterparty: counterparty ?? null,
+        amount_usd: amount_usd ?? null,
+        amount_gbp: amount_gbp ?? null,
+        amount_eur: amount_eur ?? null,
+        amount,
+        currency,
+      }) ?? UNCATEGORIZED
+    }
 
     const { data, error } = await supabase.from('transaction_log').insert({
       user_id: user.id,
@@ -38,8 +69,10 @@ export async function POST(request: Request) {
       category,
       counterparty: counterparty ?? null,
       counterparty_dedup: (counterparty ?? '').toLowerCase().trim(),
-      amount_usd: amount_usd ?? null,
+      amount_usd,
       amount_gbp: amount_gbp ?? null,
+      amount_eur: amount_eur ?? null,
+      amount,
       currency,
       data_source: 'manual',
     }).select().single()
@@ -49,6 +82,12 @@ export async function POST(request: Request) {
       return NextResponse.json({ success: false, error: error.message }, { status: 500 })
     }
 
+    try {
+      await resolveTransactionMerchants(supabase, user.id)
+    } catch (merchantError) {
+      console.warn('Warning: Could not resolve merchant for new transaction:', merchantError)
+    }
+
     return NextResponse.json({ success: true, data })
   } catch (error: any) {
     console.error('Transaction API error:', error)
@@ -0,0 +1,104 @@
+import { createClient } from '@/lib/supabase/server'
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { pairInternalTransfers } from '@/lib/pair-internal-transfers'
+import type { TransactionTransfer } from '@/lib/types'
+
+const LEG_COLUMNS = 'id, date, category, counterparty, amount_usd, amount_gbp, amount_eur, amount, currency, data_source'
+
+const TransferActionSchema = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('confirm'), id: z.string().uuid() }),
+  z.object({ action: z.literal('unpair'), id: z.string().uuid() }),
+  z.object({ action: z.literal('detect') }),
+])
+
+/** Review order: suggestions (not yet counted) first, then auto pairs, then confirmed ones. */
+const STATUS_ORDER: Record<TransactionTransfer['status'], number> = { suggested: 0, auto: 1, confirmed: 2 }
+
+/** Suggested, auto and confirmed transfer pairs whose legs are both present, unconfirmed first. */
+export async function GET() {
+  try {
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data, error } = await supabase
+      .from('transaction_transfers')
+      .select(
+        `id, status, implied_rate, created_at, out:transaction_log!out_transaction_id(${LEG_COLUMNS}), in:transaction_log!in_transaction_id(${LEG_COLUMNS})`
+      )
+      .neq('status', 'rejected')
+
+    if (error) {
+      console.error('Error fetching transfers:', error)
+      return NextResponse.json({ success: false, error: error.message }, { status: 500 })
+    }
+
+    const transfers = ((data ?? []) as unknown as TransactionTransfer[])
+      .filter((t) => t.out && t.in)
+      .sort((a, b) => STATUS_ORDER[a.status] - STATUS_ORDER[b.status] || b.out.date.localeCompare(a.out.date))
+
+    return NextResponse.json({ success: true, data: transfers })
+  } catch (error: any) {
+    console.error('Transfers GET error:', error)
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to fetch transfers' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const parsed = TransferActionSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid input', details: parsed.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    if (parsed.data.action === 'detect') {
+      const result = await pairInternalTransfers(supabase, user.id)
+      return NextResponse.json({ success: true, data: result })
+    }
+
+    // Unpaired transfers are kept as 'rejected' so detection leaves the pair alone
+    const { data, error } = await supabase
+      .from('transaction_transfers')
+      .update({
+        status: parsed.data.action === 'confirm' ? 'confirmed' : 'rejected',
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', parsed.data.id)
+      .select('id')
+
+    if (error) {
+      console.error('Error updating transfer:', error)
+      return NextResponse.json({ success: false, error: error.message }, { status: 500 })
+    }
+    if (!data?.length) {
+      return NextResponse.json({ success: false, error: 'Transfer not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    console.error('Transfers POST error:', error)
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to update transfer' },
+      { status: 500 }
+    )
+  }
+}
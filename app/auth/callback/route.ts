@@ -3,7 +3,7 @@ import { cookies } from 'next/headers'
 import { NextResponse } from 'next/server'
 import { syncGoogleSheet } from '@/lib/sync-google-sheet'
 import { snapshotBudgetHistory } from '@/lib/snapshot-budget-history'
-import { recordLastSync } from '@/lib/sync-metadata'
+import { recordLastSync, recordSyncRun } from '@/lib/sync-metadata'
 
 const POST_LOGIN_REDIRECT = '/insights'
 const DUMMY_SHEET_ID = '1BxVuJ-DViN5nqpLc-8tGXex_pYiPY8dfL8UV5czCrHY'
@@ -66,11 +66,13 @@ export async function GET(request: Request) {
       // For new users, trigger sync in background (don't block redirect)
       if (isNewUser) {
         // Start sync immediately but don't await - redirect happens right away
+        const startedAt = new Date()
         syncGoogleSheet(supabase, {
           spreadsheetId: DUMMY_SHEET_ID,
           userId: data.user.id,
         })
           .then(async (result) => {
+            await recordSyncRun(supabase, data.user.id, { trigger: 'onboarding', startedAt, result })
             if (result.success) {
               const today = new Date().toISOString().split('T')[0]
               await snapshotBudgetHistory(today, supabase, data.user.id)
@@ -0,0 +1,63 @@
+import { createClient } from '@/lib/supabase/server'
+import { redirect } from 'next/navigation'
+import { CheckCircle2 } from 'lucide-react'
+import { DataIssuesTable } from '@/components/data-issues/data-issues-table'
+import { EmptyState } from '@/components/ui/empty-state'
+import type { SheetValidationIssue } from '@/lib/utils/sheet-validation'
+
+export default async function DataIssuesPage() {
+  const supabase = await createClient()
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    redirect('/login')
+  }
+
+  // Issues from the most recent sync: fixing a cell in the sheet clears it on the next sync
+  const { data: lastRun } = await supabase
+    .from('sync_runs')
+    .select('started_at, issue_count, issues')
+    .order('started_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  const issues = (lastRun?.issues ?? []) as SheetValidationIssue[]
+  const issueCount: number = lastRun?.issue_count ?? 0
+
+  return (
+    <div className="space-y-4 md:space-y-6">
+      <div>
+        <h1 className="text-2xl md:text-3xl font-bold">Data Issues</h1>
+        <p className="text-sm md:text-base text-muted-foreground">
+          {lastRun
+            ? `Cells your last sync (${new Date(lastRun.started_at).toLocaleString('en-GB', {
+                day: '2-digit',
+                month: 'short',
+                year: 'numeric',
+                hour: '2-digit',
+                minute: '2-digit',
+              })}) could not read. Fix them in your Google Sheet and sync again.`
+            : 'Cells your Google Sheet sync could not read will be listed here.'}
+        </p>
+      </div>
+      {issues.length === 0 ? (
+        <EmptyState
+          icon={CheckCircle2}
+          title={lastRun ? 'No data issues' : 'No syncs yet'}
+          description={lastRun ? 'Every non-blank row in your sheet was read cleanly.' : undefined}
+        />
+      ) : (
+        <>
+          {issueCount > issues.length && (
+            <p className="text-sm text-muted-foreground">
+              Showing the first {issues.length} of {issueCount} issues.
+            </p>
+          )}
+          <DataIssuesTable issues={issues} />
+        </>
+      )}
+    </div>
+  )
+}
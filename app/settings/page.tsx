@@ -2,6 +2,18 @@ import { createClient } from '@/lib/supabase/server'
 import { redirect } from 'next/navigation'
 import { SettingsForm } from '@/components/settings/settings-form'
 import { AppearanceForm } from '@/components/settings/appearance-form'
+import { CategorizationRulesForm } from '@/components/settings/categorization-rules-form'
+import { MerchantDirectory } from '@/components/settings/merchant-directory'
+import { SyncPreview } from '@/components/settings/sync-preview'
+import { SyncHistory } from '@/components/settings/sync-history'
+import { SyncSnapshots } from '@/components/settings/sync-snapshots'
+import { SheetWriteBackForm } from '@/components/settings/sheet-write-back-form'
+import { SheetColumnMappingForm } from '@/components/settings/sheet-column-mapping-form'
+import { BankConnections } from '@/components/settings/bank-connections'
+import { BudgetForecastForm } from '@/components/settings/budget-forecast-form'
+import { AlertRulesForm } from '@/components/settings/alert-rules-form'
+import { DEFAULT_BUDGET_FORECAST_METHOD, isBudgetForecastMethod } from '@/lib/utils/budget-forecast'
+import { isDisplayCurrency } from '@/lib/utils/currency'
 
 export default async function SettingsPage() {
   const supabase = await createClient()
@@ -15,11 +27,14 @@ export default async function SettingsPage() {
 
   const { data: profile } = await supabase
     .from('user_profiles')
-    .select('google_spreadsheet_id, display_name, default_currency')
+    .select('google_spreadsheet_id, display_name, default_currency, apply_rules_on_sync, snapshot_retention_days, sheet_write_back, budget_forecast_method')
     .eq('id', user.id)
     .single()
 
-  const defaultCurrency = profile?.default_currency === 'GBP' ? 'GBP' : 'USD'
+  const defaultCurrency = isDisplayCurrency(profile?.default_currency) ? profile.default_currency : 'USD'
+  const forecastMethod = isBudgetForecastMethod(profile?.budget_forecast_method)
+    ? profile.budget_forecast_method
+    : DEFAULT_BUDGET_FORECAST_METHOD
 
   return (
     <div className="space-y-4 md:space-y-6">
@@ -35,6 +50,16 @@ export default async function SettingsPage() {
         initialDefaultCurrency={defaultCurrency}
         serviceAccountEmail={process.env.GOOGLE_SERVICE_ACCOUNT_EMAIL ?? ''}
       />
+      {profile?.google_spreadsheet_id && <SyncPreview />}
+      {profile?.google_spreadsheet_id && <SheetColumnMappingForm />}
+      {profile?.google_spreadsheet_id && <SheetWriteBackForm initialEnabled={profile?.sheet_write_back ?? false} />}
+      <SyncHistory />
+      <SyncSnapshots initialRetentionDays={profile?.snapshot_retention_days ?? 30} />
+      <BankConnections />
+      <BudgetForecastForm initialMethod={forecastMethod} />
+      <AlertRulesForm />
+      <CategorizationRulesForm initialApplyOnSync={profile?.apply_rules_on_sync ?? false} />
+      <MerchantDirectory />
       <AppearanceForm />
     </div>
   )
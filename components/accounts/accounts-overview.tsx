@@ -135,6 +135,15 @@ export function AccountsOverview() {
     }).format(value)
   }
 
+  const formatEUR = (value: number) => {
+    return new Intl.NumberFormat('en-IE', {
+      style: 'currency',
+      currency: 'EUR',
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0,
+    }).format(value)
+  }
+
   const formatUSD = (value: number) => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
@@ -166,6 +175,8 @@ export function AccountsOverview() {
     return currencies.size > 1
   }, [accounts])
 
+  const hasEurAccounts = useMemo(() => accounts.some((acc) => acc.currency === 'EUR'), [accounts])
+
   // Check if dataset has any family data
   const hasPersonalAndFamily = useMemo(() => {
     return accounts.some((acc) => Math.abs(acc.balance_family_local) > 0)
@@ -212,11 +223,15 @@ export function AccountsOverview() {
         .filter((acc) => acc.currency === 'USD')
         .reduce((sum, acc) => sum + acc.balance_total_local, 0)
 
+      const eur = categoryAccounts
+        .filter((acc) => acc.currency === 'EUR')
+        .reduce((sum, acc) => sum + acc.balance_total_local, 0)
+
       const total = categoryAccounts.reduce((sum, acc) => {
         return sum + convertAmount(acc.balance_total_local, acc.currency, fxRate)
       }, 0)
 
-      return { category, personal, family, gbp, usd, total }
+      return { category, personal, family, gbp, usd, eur, total }
     }).filter((item) => item.total !== 0)
   }, [accounts, fxRate, convertAmount, visibleCategories])
 
@@ -228,9 +243,10 @@ export function AccountsOverview() {
         family: acc.family + item.family,
         gbp: acc.gbp + item.gbp,
         usd: acc.usd + item.usd,
+        eur: acc.eur + item.eur,
         total: acc.total + item.total,
       }),
-      { personal: 0, family: 0, gbp: 0, usd: 0, total: 0 }
+      { personal: 0, family: 0, gbp: 0, usd: 0, eur: 0, total: 0 }
     )
   }, [categorySummary])
 
@@ -358,6 +374,12 @@ export function AccountsOverview() {
                   <span className="text-sm">USD</span>
                   <span className="font-medium tabular-nums">{formatUSD(grandTotals.usd)}</span>
                 </div>
+                {hasEurAccounts && (
+                  <div className="flex justify-between items-baseline gap-2 mb-1">
+                    <span className="text-sm">EUR</span>
+                    <span className="font-medium tabular-nums">{formatEUR(grandTotals.eur)}</span>
+                  </div>
+                )}
               </>
             )}
             <div className="flex justify-between items-baseline gap-2 pt-2 border-t">
@@ -401,6 +423,12 @@ export function AccountsOverview() {
                     <span className="text-emerald-700">USD</span>
                     <span className="tabular-nums">{item.usd === 0 ? '–' : formatUSD(item.usd)}</span>
                   </div>
+                  {hasEurAccounts && (
+                    <div className="flex justify-between items-baseline gap-2 text-sm mb-1">
+                      <span className="text-emerald-700">EUR</span>
+                      <span className="tabular-nums">{item.eur === 0 ? '–' : formatEUR(item.eur)}</span>
+                    </div>
+                  )}
                 </>
               )}
               <div className="flex justify-between items-baseline gap-2 text-sm pt-2 border-t mt-1">
@@ -449,6 +477,11 @@ export function AccountsOverview() {
                       <TableHead className="text-right font-bold text-foreground">
                         {formatUSD(grandTotals.usd)}
                       </TableHead>
+                      {hasEurAccounts && (
+                        <TableHead className="text-right font-bold text-foreground">
+                          {formatEUR(grandTotals.eur)}
+                        </TableHead>
+                      )}
                     </>
                   )}
                   <TableHead className="text-right !font-extrabold !text-sm text-foreground">
@@ -468,6 +501,7 @@ export function AccountsOverview() {
                     <>
                       <TableHead className={cn("text-right text-emerald-700", hasPersonalAndFamily && "border-l-2 border-border")}>GBP</TableHead>
                       <TableHead className="text-right text-emerald-700">USD</TableHead>
+                      {hasEurAccounts && <TableHead className="text-right text-emerald-700">EUR</TableHead>}
                     </>
                   )}
                   <TableHead className="text-right font-bold">Balance</TableHead>
@@ -498,6 +532,11 @@ export function AccountsOverview() {
                         <TableCell className="text-right">
                           {item.usd === 0 ? '-' : formatUSD(item.usd)}
                         </TableCell>
+                        {hasEurAccounts && (
+                          <TableCell className="text-right">
+                            {item.eur === 0 ? '-' : formatEUR(item.eur)}
+                          </TableCell>
+                        )}
                       </>
                     )}
                     <TableCell className="text-right font-semibold">
@@ -7,6 +7,7 @@ import { EmptyState } from '@/components/ui/empty-state'
 import { Checkbox } from '@/components/ui/checkbox'
 import { Label } from '@/components/ui/label'
 import { useCurrency } from '@/lib/contexts/currency-context'
+import { getCurrencySymbol } from '@/lib/utils/currency'
 import { useIsMobile } from '@/lib/hooks/use-is-mobile'
 import { useChartTheme } from '@/lib/hooks/use-chart-theme'
 import { getChartFontSizes } from '@/lib/chart-styles'
@@ -28,7 +29,7 @@ import {
 const EXCLUDED_CATEGORIES = ['Income', 'Gift Money', 'Other Income', 'Excluded']
 
 export function AnnualCumulativeSpendChart() {
-  const { currency, fxRate } = useCurrency()
+  const { currency, fxRate, convertAmount, convertAmountAt, fromGbpUsd } = useCurrency()
   const isMobile = useIsMobile()
   const chartTheme = useChartTheme()
   const [transactions, setTransactions] = useState<TransactionLog[]>([])
@@ -181,7 +182,7 @@ export function AnnualCumulativeSpendChart() {
     const totalAnnualBudget = budgetData
       .filter((b) => !EXCLUDED_CATEGORIES.includes(b.category))
       .reduce((sum, b) => {
-        const budget = currency === 'USD' ? (b.annual_budget_gbp ?? 0) * fxRate : (b.annual_budget_gbp ?? 0)
+        const budget = convertAmount(b.annual_budget_gbp ?? 0, 'GBP')
         return sum + Math.abs(budget) // Budgets are stored as negative for expenses
       }, 0)
 
@@ -189,7 +190,7 @@ export function AnnualCumulativeSpendChart() {
     const estimatedTotalSpend2026 = budgetData
       .filter((b) => !EXCLUDED_CATEGORIES.includes(b.category))
       .reduce((sum, b) => {
-        const tracking = currency === 'USD' ? (b.tracking_est_gbp ?? 0) * fxRate : (b.tracking_est_gbp ?? 0)
+        const tracking = convertAmount(b.tracking_est_gbp ?? 0, 'GBP')
         return sum + Math.abs(tracking) // Tracking values are stored as negative for expenses
       }, 0)
 
@@ -268,20 +269,7 @@ export function AnnualCumulativeSpendChart() {
       }
       
       // Get amount in selected currency (expenses are negative)
-      let amount = 0
-      if (currency === 'USD') {
-        if (tx.amount_usd != null && tx.amount_usd < 0) {
-          amount = tx.amount_usd
-        } else if (tx.amount_gbp != null && tx.amount_gbp < 0) {
-          amount = tx.amount_gbp * fxRate
-        }
-      } else {
-        if (tx.amount_gbp != null && tx.amount_gbp < 0) {
-          amount = tx.amount_gbp
-        } else if (tx.amount_usd != null && tx.amount_usd < 0) {
-          amount = tx.amount_usd / fxRate
-        }
-      }
+      const amount = fromGbpUsd(tx.amount_gbp, tx.amount_usd, tx.amount_eur, dateStr)
       
       if (amount < 0) {
         const yearMap = yearData.get(year)!
@@ -315,7 +303,8 @@ export function AnnualCumulativeSpendChart() {
         const authoritativeTotal = annualTrends
           .filter((row) => !EXCLUDED_CATEGORIES.includes(row.category))
           .reduce((sum, row) => sum + Math.abs((row[col] as number) ?? 0), 0)
-        const inDisplayCurrency = currency === 'USD' ? authoritativeTotal * fxRate : authoritativeTotal
+        // At that year's closing rates, like its transactions, not today's
+        const inDisplayCurrency = convertAmountAt(authoritativeTotal, 'GBP', `${year}-12-31`)
         const yearMap = yearData.get(year)!
         const transactionTotal = Array.from(yearMap.values()).reduce((s, v) => s + v, 0)
         if (transactionTotal > 0 && inDisplayCurrency >= 0) {
@@ -457,7 +446,7 @@ export function AnnualCumulativeSpendChart() {
     })
 
     return chartDataPoints
-  }, [transactions, budgetData, annualTrends, currency, fxRate])
+  }, [transactions, budgetData, annualTrends, currency, fxRate, convertAmount, convertAmountAt, fromGbpUsd])
 
   const formatCurrency = (value: number) => {
     return new Intl.NumberFormat('en-US', {
@@ -470,7 +459,7 @@ export function AnnualCumulativeSpendChart() {
 
   const formatCurrencyCompact = (value: number) => {
     const valueInK = value / 1000
-    const currencySymbol = currency === 'USD' ? '$' : '£'
+    const currencySymbol = getCurrencySymbol(currency)
     return `${currencySymbol}${valueInK.toFixed(0)}k`
   }
 
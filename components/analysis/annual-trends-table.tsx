@@ -14,9 +14,10 @@ import {
   TableRow,
 } from '@/components/ui/table'
 import { useCurrency } from '@/lib/contexts/currency-context'
+import { convertCurrency, getCurrencySymbol } from '@/lib/utils/currency'
 import { createClient } from '@/lib/supabase/client'
 import { AnnualTrend } from '@/lib/types'
-import { endOfYear, type RatesByYear } from '@/lib/utils/fx-rates'
+import { buildGetRateForDate, endOfYear, type RatesByYear } from '@/lib/utils/fx-rates'
 import { buildTransactionAnalysisUrl } from '@/lib/analysis-url'
 import { FullTableViewToggle } from '@/components/dashboard/full-table-view-toggle'
 import { FullTableViewWrapper } from '@/components/dashboard/full-table-view-wrapper'
@@ -31,14 +32,22 @@ interface AnnualTrendsTableProps {
   initialData?: AnnualTrend[]
   initialFxRate?: number
   initialRatesByYear?: RatesByYear
+  /** Year -> EURUSD rate at end of that year */
+  initialEurRatesByYear?: RatesByYear
 }
 
-export function AnnualTrendsTable({ initialData, initialFxRate, initialRatesByYear }: AnnualTrendsTableProps = {}) {
-  const { currency, fxRate: contextFxRate } = useCurrency()
+export function AnnualTrendsTable({
+  initialData,
+  initialFxRate,
+  initialRatesByYear,
+  initialEurRatesByYear,
+}: AnnualTrendsTableProps = {}) {
+  const { currency, fxRate: contextFxRate, eurUsdRate } = useCurrency()
   const currentYear = new Date().getFullYear()
   const [data, setData] = useState<AnnualTrend[]>(initialData || [])
   const [fxRate, setFxRate] = useState<number>(initialFxRate ?? contextFxRate)
   const [ratesByYear, setRatesByYear] = useState<RatesByYear>(initialRatesByYear || {})
+  const [eurRatesByYear, setEurRatesByYear] = useState<RatesByYear>(initialEurRatesByYear || {})
   const [loading, setLoading] = useState(!initialData)
   const [error, setError] = useState<string | null>(null)
   const [sortField, setSortField] = useState<SortField>('cur_yr_est_vs_4yr_avg')
@@ -51,6 +60,7 @@ export function AnnualTrendsTable({ initialData, initialFxRate, initialRatesByYe
       setLoading(false)
       if (initialFxRate) setFxRate(initialFxRate)
       if (initialRatesByYear) setRatesByYear(initialRatesByYear)
+      if (initialEurRatesByYear) setEurRatesByYear(initialEurRatesByYear)
       return
     }
 
@@ -61,7 +71,7 @@ export function AnnualTrendsTable({ initialData, initialFxRate, initialRatesByYe
         supabase.from('annual_trends').select('*').order('category'),
         supabase
           .from('fx_rates')
-          .select('date, gbpusd_rate')
+          .select('date, gbpusd_rate, eurusd_rate')
           .gte('date', endOfYear(currentYear - 4))
           .lte('date', endOfYear(currentYear))
           .order('date', { ascending: true }),
@@ -75,7 +85,7 @@ export function AnnualTrendsTable({ initialData, initialFxRate, initialRatesByYe
       }
       setError(null)
 
-      const rows = (fxRatesResult.data || []) as { date: string; gbpusd_rate: number | null }[]
+      const rows = (fxRatesResult.data || []) as { date: string; gbpusd_rate: number | null; eurusd_rate: number | null }[]
       const dateToRate = new Map<string, number>()
       rows.forEach((r) => {
         const d = (r.date || '').split('T')[0]
@@ -92,17 +102,26 @@ export function AnnualTrendsTable({ initialData, initialFxRate, initialRatesByYe
         for (let y = currentYear - 4; y <= currentYear; y++) byYear[y] = contextFxRate
       }
       setRatesByYear(byYear)
+
+      const eurDateToRate = new Map<string, number>()
+      rows.forEach((r) => {
+        if (r.eurusd_rate != null && r.eurusd_rate > 0) eurDateToRate.set((r.date || '').split('T')[0], r.eurusd_rate)
+      })
+      const eurRateFor = buildGetRateForDate(eurDateToRate, eurUsdRate)
+      const eurByYear: RatesByYear = {}
+      for (let y = currentYear - 4; y <= currentYear; y++) eurByYear[y] = eurRateFor(endOfYear(y))
+      setEurRatesByYear(eurByYear)
       setData(trendsResult.data as AnnualTrend[])
       setLoading(false)
     }
 
     fetchData()
-  }, [currency, initialData, initialFxRate, initialRatesByYear, currentYear, contextFxRate])
+  }, [currency, initialData, initialFxRate, initialRatesByYear, initialEurRatesByYear, currentYear, contextFxRate, eurUsdRate])
 
   // Format currency as £0.0k
   const formatCurrency = (value: number) => {
     const valueInK = value / 1000
-    const currencySymbol = currency === 'USD' ? '$' : '£'
+    const currencySymbol = getCurrencySymbol(currency)
     return `${currencySymbol}${valueInK.toFixed(1)}k`
   }
 
@@ -111,14 +130,14 @@ export function AnnualTrendsTable({ initialData, initialFxRate, initialRatesByYe
     if (value === 0) return '-'
     const absValue = Math.abs(value)
     const valueInK = absValue / 1000
-    const currencySymbol = currency === 'USD' ? '$' : '£'
+    const currencySymbol = getCurrencySymbol(currency)
     return `(${currencySymbol}${valueInK.toFixed(1)}k)`
   }
 
   // Format currency for large values (M for millions, k for thousands)
   const formatCurrencyLarge = (value: number) => {
     const valueInM = Math.abs(value) / 1000000
-    const currencySymbol = currency === 'USD' ? '$' : '£'
+    const currencySymbol = getCurrencySymbol(currency)
     if (valueInM >= 1) {
       return `${currencySymbol}${valueInM.toFixed(1)}M`
     }
@@ -143,13 +162,18 @@ export function AnnualTrendsTable({ initialData, initialFxRate, initialRatesByYe
     return `${absValue.toFixed(1)}%`
   }
 
-  // Data in annual_trends is stored in GBP. When GBP selected show as-is (×1); when USD selected convert GBP → USD (× EoY rate).
+  // Data in annual_trends is stored in GBP. When GBP selected show as-is (×1); otherwise convert at that year's EoY rates.
   const processedData = useMemo(() => {
-    const r4 = currency === 'USD' ? (ratesByYear[currentYear - 4] ?? fxRate) : 1
-    const r3 = currency === 'USD' ? (ratesByYear[currentYear - 3] ?? fxRate) : 1
-    const r2 = currency === 'USD' ? (ratesByYear[currentYear - 2] ?? fxRate) : 1
-    const r1 = currency === 'USD' ? (ratesByYear[currentYear - 1] ?? fxRate) : 1
-    const r0 = currency === 'USD' ? (ratesByYear[currentYear] ?? fxRate) : 1
+    const rateFor = (year: number) =>
+      convertCurrency(1, 'GBP', currency, {
+        gbpusd: ratesByYear[year] ?? fxRate,
+        eurusd: eurRatesByYear[year] ?? eurUsdRate,
+      })
+    const r4 = rateFor(currentYear - 4)
+    const r3 = rateFor(currentYear - 3)
+    const r2 = rateFor(currentYear - 2)
+    const r1 = rateFor(currentYear - 1)
+    const r0 = rateFor(currentYear)
     const converted = data.map((row) => ({
       ...row,
       cur_yr_minus_4: row.cur_yr_minus_4 * r4,
@@ -188,7 +212,7 @@ export function AnnualTrendsTable({ initialData, initialFxRate, initialRatesByYe
     })
 
     return sorted
-  }, [data, ratesByYear, fxRate, currency, sortField, sortDirection, currentYear])
+  }, [data, ratesByYear, eurRatesByYear, fxRate, eurUsdRate, currency, sortField, sortDirection, currentYear])
 
   // Calculate totals
   const totals = useMemo(() => {
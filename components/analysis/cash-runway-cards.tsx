@@ -7,19 +7,28 @@ import { EmptyState } from '@/components/ui/empty-state'
 import { createClient } from '@/lib/supabase/client'
 import { AccountBalance } from '@/lib/types'
 import { AlertCircle, Wallet } from 'lucide-react'
+import { getCurrencySymbol, isCurrencyCode, type CurrencyCode } from '@/lib/utils/currency'
 
 const CASH_CATEGORIES = ['Cash', 'Checking', 'Savings']
 
+/** Always shown; other currencies only when there is cash or spend in them. */
+const PRIMARY_CURRENCIES: CurrencyCode[] = ['GBP', 'USD']
+
+const ICON_CLASS: Record<CurrencyCode, string> = {
+  GBP: 'text-blue-600',
+  USD: 'text-green-600',
+  EUR: 'text-amber-600',
+}
+
 interface CashRunwayData {
-  currency: 'GBP' | 'USD'
+  currency: CurrencyCode
   totalCash: number
   avgMonthlyBurn: number
   monthsOnHand: number
 }
 
 export function CashRunwayCards() {
-  const [gbpData, setGbpData] = useState<CashRunwayData | null>(null)
-  const [usdData, setUsdData] = useState<CashRunwayData | null>(null)
+  const [runways, setRunways] = useState<CashRunwayData[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
 
@@ -52,13 +61,11 @@ export function CashRunwayCards() {
         const accounts = Array.from(accountsMap.values())
 
         // Filter to Cash/Checking/Savings accounts and sum by currency
-        const cashByCurrency = { GBP: 0, USD: 0 }
+        const cashByCurrency: Record<CurrencyCode, number> = {}
         accounts.forEach((account) => {
-          if (CASH_CATEGORIES.includes(account.category)) {
-            const currency = account.currency.toUpperCase() as 'GBP' | 'USD'
-            if (currency === 'GBP' || currency === 'USD') {
-              cashByCurrency[currency] += account.balance_total_local || 0
-            }
+          const currency = (account.currency || 'USD').toUpperCase()
+          if (CASH_CATEGORIES.includes(account.category) && isCurrencyCode(currency)) {
+            cashByCurrency[currency] = (cashByCurrency[currency] ?? 0) + (account.balance_total_local || 0)
           }
         })
 
@@ -78,30 +85,26 @@ export function CashRunwayCards() {
           throw new Error(errorMessage)
         }
         const burnJson = await burnRes.json()
-        const gbpNet = Number(burnJson.gbpNet ?? 0)
-        const usdNet = Number(burnJson.usdNet ?? 0)
-
-        // Net spend is negative when expenses > refunds. Burn = max(0, -net) / 3 so refunds offset expenses.
-        const gbpAvgBurn = Math.max(0, -gbpNet) / 3
-        const usdAvgBurn = Math.max(0, -usdNet) / 3
-
-        // Calculate months on hand (if no burn, set to Infinity or a large number)
-        const gbpMonthsOnHand = gbpAvgBurn > 0 ? cashByCurrency.GBP / gbpAvgBurn : (cashByCurrency.GBP > 0 ? Infinity : 0)
-        const usdMonthsOnHand = usdAvgBurn > 0 ? cashByCurrency.USD / usdAvgBurn : (cashByCurrency.USD > 0 ? Infinity : 0)
-
-        setGbpData({
-          currency: 'GBP',
-          totalCash: cashByCurrency.GBP,
-          avgMonthlyBurn: gbpAvgBurn,
-          monthsOnHand: gbpMonthsOnHand,
+        const netByCurrency: Record<CurrencyCode, number> = burnJson.netByCurrency ?? {}
+
+        const currencies = Array.from(
+          new Set([...PRIMARY_CURRENCIES, ...Object.keys(cashByCurrency), ...Object.keys(netByCurrency)])
+        )
+        const runwayData = currencies.map((currency) => {
+          const totalCash = cashByCurrency[currency] ?? 0
+          // Net spend is negative when expenses > refunds. Burn = max(0, -net) / 3 so refunds offset expenses.
+          const avgMonthlyBurn = Math.max(0, -Number(netByCurrency[currency] ?? 0)) / 3
+          // Calculate months on hand (if no burn, set to Infinity or a large number)
+          const monthsOnHand = avgMonthlyBurn > 0 ? totalCash / avgMonthlyBurn : (totalCash > 0 ? Infinity : 0)
+          return { currency, totalCash, avgMonthlyBurn, monthsOnHand }
         })
 
-        setUsdData({
-          currency: 'USD',
-          totalCash: cashByCurrency.USD,
-          avgMonthlyBurn: usdAvgBurn,
-          monthsOnHand: usdMonthsOnHand,
-        })
+        // GBP and USD always show; other currencies only when there is cash or spend in them
+        setRunways(
+          runwayData.filter(
+            (r) => PRIMARY_CURRENCIES.includes(r.currency) || r.totalCash !== 0 || r.avgMonthlyBurn > 0
+          )
+        )
 
         setError(null)
       } catch (err) {
@@ -115,8 +118,8 @@ export function CashRunwayCards() {
     fetchData()
   }, [])
 
-  const formatCurrency = (value: number, currency: 'GBP' | 'USD') => {
-    const currencySymbol = currency === 'USD' ? '$' : '£'
+  const formatCurrency = (value: number, currency: CurrencyCode) => {
+    const currencySymbol = getCurrencySymbol(currency)
     const valueInK = value / 1000
     if (valueInK >= 1) {
       return `${currencySymbol}${valueInK.toFixed(1)}k`
@@ -177,58 +180,31 @@ export function CashRunwayCards() {
         <p className="text-sm text-muted-foreground">Months of cash remaining based on average monthly spend</p>
       </CardHeader>
       <CardContent>
-        <div className="grid md:grid-cols-2 gap-6">
-          {/* GBP Runway Card */}
-          {gbpData && (
-            <div className="space-y-3 p-4 rounded-lg border bg-card">
-              <div className="flex items-center gap-2">
-                <Wallet className="h-5 w-5 text-blue-600" />
-                <h3 className="font-semibold text-sm uppercase tracking-wide">GBP Runway</h3>
-              </div>
-              <div className="space-y-2">
-                <div>
-                  <p className="text-xs text-muted-foreground mb-1">Months on Hand</p>
-                  <p className="text-2xl font-bold tabular-nums">{formatMonths(gbpData.monthsOnHand)}</p>
-                </div>
-                <div className="space-y-1 pt-2 border-t">
-                  <p className="text-sm">
-                    <span className="text-xs text-muted-foreground">Total Cash: </span>
-                    <span className="font-semibold">{formatCurrency(gbpData.totalCash, 'GBP')}</span>
-                  </p>
-                  <p className="text-sm">
-                    <span className="text-xs text-muted-foreground">Avg Burn: </span>
-                    <span className="font-semibold">{formatCurrency(gbpData.avgMonthlyBurn, 'GBP')}/mo</span>
-                  </p>
-                </div>
-              </div>
-            </div>
-          )}
-
-          {/* USD Runway Card */}
-          {usdData && (
-            <div className="space-y-3 p-4 rounded-lg border bg-card">
+        <div className={`grid gap-6 ${runways.length > 2 ? 'md:grid-cols-3' : 'md:grid-cols-2'}`}>
+          {runways.map((runway) => (
+            <div key={runway.currency} className="space-y-3 p-4 rounded-lg border bg-card">
               <div className="flex items-center gap-2">
-                <Wallet className="h-5 w-5 text-green-600" />
-                <h3 className="font-semibold text-sm uppercase tracking-wide">USD Runway</h3>
+                <Wallet className={`h-5 w-5 ${ICON_CLASS[runway.currency] ?? 'text-muted-foreground'}`} />
+                <h3 className="font-semibold text-sm uppercase tracking-wide">{runway.currency} Runway</h3>
               </div>
               <div className="space-y-2">
                 <div>
                   <p className="text-xs text-muted-foreground mb-1">Months on Hand</p>
-                  <p className="text-2xl font-bold tabular-nums">{formatMonths(usdData.monthsOnHand)}</p>
+                  <p className="text-2xl font-bold tabular-nums">{formatMonths(runway.monthsOnHand)}</p>
                 </div>
                 <div className="space-y-1 pt-2 border-t">
                   <p className="text-sm">
                     <span className="text-xs text-muted-foreground">Total Cash: </span>
-                    <span className="font-semibold">{formatCurrency(usdData.totalCash, 'USD')}</span>
+                    <span className="font-semibold">{formatCurrency(runway.totalCash, runway.currency)}</span>
                   </p>
                   <p className="text-sm">
                     <span className="text-xs text-muted-foreground">Avg Burn: </span>
-                    <span className="font-semibold">{formatCurrency(usdData.avgMonthlyBurn, 'USD')}/mo</span>
+                    <span className="font-semibold">{formatCurrency(runway.avgMonthlyBurn, runway.currency)}/mo</span>
                   </p>
                 </div>
               </div>
             </div>
-          )}
+          ))}
         </div>
       </CardContent>
     </Card>
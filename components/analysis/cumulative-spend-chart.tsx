@@ -25,7 +25,7 @@ import {
 const EXCLUDED_CATEGORIES = ['Income', 'Gift Money', 'Other Income', 'Excluded']
 
 export function CumulativeSpendChart() {
-  const { currency, fxRate } = useCurrency()
+  const { currency, fromGbpUsd } = useCurrency()
   const isMobile = useIsMobile()
   const chartTheme = useChartTheme()
   const [transactions, setTransactions] = useState<TransactionLog[]>([])
@@ -150,20 +150,7 @@ export function CumulativeSpendChart() {
       // Get amount in selected currency
       // Expenses are stored as negative values in transaction_log
       // Only include expenses (negative values), exclude income (positive values)
-      let amount = 0
-      if (currency === 'USD') {
-        if (tx.amount_usd != null && tx.amount_usd < 0) {
-          amount = tx.amount_usd
-        } else if (tx.amount_gbp != null && tx.amount_gbp < 0) {
-          amount = tx.amount_gbp * fxRate
-        }
-      } else {
-        if (tx.amount_gbp != null && tx.amount_gbp < 0) {
-          amount = tx.amount_gbp
-        } else if (tx.amount_usd != null && tx.amount_usd < 0) {
-          amount = tx.amount_usd / fxRate
-        }
-      }
+      const amount = fromGbpUsd(tx.amount_gbp, tx.amount_usd, tx.amount_eur, dateStr)
       
       // Use absolute value for expenses (they're stored as negative)
       // Only sum expenses (negative amounts), ignore income (positive amounts)
@@ -229,7 +216,7 @@ export function CumulativeSpendChart() {
     })
 
     return chartDataPoints
-  }, [transactions, selectedCategory, currency, fxRate])
+  }, [transactions, selectedCategory, currency, fromGbpUsd])
 
   const formatCurrency = (value: number) => {
     return new Intl.NumberFormat('en-US', {
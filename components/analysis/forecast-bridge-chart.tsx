@@ -5,6 +5,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Skeleton } from '@/components/ui/skeleton'
 import { EmptyState } from '@/components/ui/empty-state'
 import { useCurrency } from '@/lib/contexts/currency-context'
+import { getCurrencySymbol } from '@/lib/utils/currency'
 import { useIsMobile } from '@/lib/hooks/use-is-mobile'
 import { useChartTheme } from '@/lib/hooks/use-chart-theme'
 import { getChartFontSizes } from '@/lib/chart-styles'
@@ -128,7 +129,7 @@ export function ForecastBridgeChart({ startDate, endDate }: ForecastBridgeChartP
 
   // Compact format for call-out box: £12.7k, £1.2M (matches YoY Net Worth card)
   const formatCurrencyCallout = (value: number) => {
-    const symbol = currency === 'USD' ? '$' : '£'
+    const symbol = getCurrencySymbol(currency)
     const abs = Math.abs(value)
     if (abs >= 1_000_000) {
       return `${symbol}${(abs / 1_000_000).toFixed(1)}M`
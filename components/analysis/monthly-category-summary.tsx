@@ -6,7 +6,8 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { useCurrency } from '@/lib/contexts/currency-context'
 import { useIsMobile } from '@/lib/hooks/use-is-mobile'
 import { TransactionLog } from '@/lib/types'
-import { buildGetRateForDate } from '@/lib/utils/fx-rates'
+import { amountFromGbpUsd, type FxRates } from '@/lib/utils/currency'
+import { merchantGroup } from '@/lib/utils/merchants'
 import { cn } from '@/utils/cn'
 import { TrendingUp, TrendingDown, Calendar } from 'lucide-react'
 
@@ -17,7 +18,7 @@ interface MonthlyCategorySummaryProps {
   categories: string[]
   selectedCategory: string
   onCategoryChange: (category: string) => void
-  getRateForDate: (dateStr: string) => number
+  getRatesForDate: (dateStr: string) => FxRates
   hideCard?: boolean
 }
 
@@ -34,7 +35,7 @@ export function MonthlyCategorySummary({
   categories,
   selectedCategory,
   onCategoryChange,
-  getRateForDate,
+  getRatesForDate,
   hideCard = false,
 }: MonthlyCategorySummaryProps) {
   const { currency } = useCurrency()
@@ -56,30 +57,27 @@ export function MonthlyCategorySummary({
     const endDate = new Date(today.getFullYear(), today.getMonth(), 0)
     const startDate = new Date(lastFullMonth.getFullYear(), lastFullMonth.getMonth() - 12, 1)
 
-    // Find the top transaction across ALL months (first 7 letters)
+    // Find the top merchant across ALL months (first 7 letters for unresolved rows)
     const allCounterpartyTotals = new Map<string, { total: number; fullName: string }>()
 
     categoryTransactions.forEach((tx) => {
-      const rate = getRateForDate(typeof tx.date === 'string' ? tx.date.split('T')[0] : tx.date)
-      const amount = currency === 'USD'
-        ? (tx.amount_usd ?? (tx.amount_gbp != null ? tx.amount_gbp * rate : 0))
-        : (tx.amount_gbp ?? (tx.amount_usd != null ? tx.amount_usd / rate : 0))
+      const rates = getRatesForDate(typeof tx.date === 'string' ? tx.date.split('T')[0] : tx.date)
+      const amount = amountFromGbpUsd(tx.amount_gbp, tx.amount_usd, currency, rates, tx.amount_eur)
 
       if (amount < 0) {
         const absAmount = Math.abs(amount)
-        const counterparty = tx.counterparty || 'Unknown'
-        const counterpartyKey = counterparty.substring(0, 7).trim()
+        const { key: counterpartyKey, name } = merchantGroup(tx)
 
         if (allCounterpartyTotals.has(counterpartyKey)) {
           const existing = allCounterpartyTotals.get(counterpartyKey)!
           existing.total += absAmount
-          if (counterparty.length > existing.fullName.length) {
-            existing.fullName = counterparty
+          if (!tx.merchant_id && name.length > existing.fullName.length) {
+            existing.fullName = name
           }
         } else {
           allCounterpartyTotals.set(counterpartyKey, {
             total: absAmount,
-            fullName: counterparty,
+            fullName: name,
           })
         }
       }
@@ -133,19 +131,14 @@ export function MonthlyCategorySummary({
         const txMonthKey = `${year}-${String(month).padStart(2, '0')}`
 
         if (txMonthKey === monthKey) {
-          const rate = getRateForDate(dateStr)
-          const amount = currency === 'USD'
-            ? (tx.amount_usd ?? (tx.amount_gbp != null ? tx.amount_gbp * rate : 0))
-            : (tx.amount_gbp ?? (tx.amount_usd != null ? tx.amount_usd / rate : 0))
+          const rates = getRatesForDate(dateStr)
+          const amount = amountFromGbpUsd(tx.amount_gbp, tx.amount_usd, currency, rates, tx.amount_eur)
 
           if (amount < 0) {
             const absAmount = Math.abs(amount)
             totalAmount += absAmount
 
-            const counterparty = tx.counterparty || 'Unknown'
-            const counterpartyKey = counterparty.substring(0, 7).trim()
-
-            if (counterpartyKey === topCounterpartyKey) {
+            if (merchantGroup(tx).key === topCounterpartyKey) {
               topAmount += absAmount
             }
           }
@@ -285,7 +278,7 @@ export function MonthlyCategorySummary({
         },
       },
     }
-  }, [transactions, selectedCategory, currency, getRateForDate])
+  }, [transactions, selectedCategory, currency, getRatesForDate])
 
   const formatCurrency = (value: number) => {
     return new Intl.NumberFormat('en-US', {
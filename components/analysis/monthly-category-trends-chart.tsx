@@ -8,6 +8,8 @@ import { useIsMobile } from '@/lib/hooks/use-is-mobile'
 import { useChartTheme } from '@/lib/hooks/use-chart-theme'
 import { getChartFontSizes } from '@/lib/chart-styles'
 import { TransactionLog } from '@/lib/types'
+import { amountFromGbpUsd, type FxRates } from '@/lib/utils/currency'
+import { merchantGroup } from '@/lib/utils/merchants'
 import { AlertCircle } from 'lucide-react'
 import {
   ComposedChart,
@@ -45,14 +47,14 @@ interface MonthlyData {
 interface MonthlyCategoryTrendsChartProps {
   transactions: TransactionLog[]
   selectedCategory: string
-  getRateForDate: (dateStr: string) => number
+  getRatesForDate: (dateStr: string) => FxRates
   hideCard?: boolean
 }
 
 export function MonthlyCategoryTrendsChart({
   transactions,
   selectedCategory,
-  getRateForDate,
+  getRatesForDate,
   hideCard = false,
 }: MonthlyCategoryTrendsChartProps) {
   const { currency } = useCurrency()
@@ -142,33 +144,30 @@ export function MonthlyCategoryTrendsChart({
       transactionCountsByMonth: Array.from(monthlyGroups.entries()).map(([month, txs]) => ({ month, count: txs.length })),
     })
 
-    // First, find the top transaction across ALL months by aggregating all transactions
-    // Group by first 7 letters of counterparty name
+    // First, find the top merchant across ALL months by aggregating all transactions
+    // (rows without a resolved merchant group by the first 7 letters of counterparty)
     const allCounterpartyTotals = new Map<string, { total: number; fullName: string }>()
     
     categoryTransactions.forEach((tx) => {
-      const rate = getRateForDate(typeof tx.date === 'string' ? tx.date.split('T')[0] : tx.date)
-      const amount = currency === 'USD'
-        ? (tx.amount_usd ?? (tx.amount_gbp != null ? tx.amount_gbp * rate : 0))
-        : (tx.amount_gbp ?? (tx.amount_usd != null ? tx.amount_usd / rate : 0))
+      const rates = getRatesForDate(typeof tx.date === 'string' ? tx.date.split('T')[0] : tx.date)
+      const amount = amountFromGbpUsd(tx.amount_gbp, tx.amount_usd, currency, rates, tx.amount_eur)
       
       // Expenses are stored as negative values, only include negative amounts (expenses)
       if (amount < 0) {
         const absAmount = Math.abs(amount)
-        const counterparty = tx.counterparty || 'Unknown'
-        const counterpartyKey = counterparty.substring(0, 7).trim() // First 7 letters
+        const { key: counterpartyKey, name } = merchantGroup(tx)
         
         if (allCounterpartyTotals.has(counterpartyKey)) {
           const existing = allCounterpartyTotals.get(counterpartyKey)!
           existing.total += absAmount
-          // Keep the full name from the first occurrence (or longest)
-          if (counterparty.length > existing.fullName.length) {
-            existing.fullName = counterparty
+          // Unresolved rows: keep the longest counterparty seen for the prefix
+          if (!tx.merchant_id && name.length > existing.fullName.length) {
+            existing.fullName = name
           }
         } else {
           allCounterpartyTotals.set(counterpartyKey, {
             total: absAmount,
-            fullName: counterparty,
+            fullName: name,
           })
         }
       }
@@ -198,21 +197,16 @@ export function MonthlyCategoryTrendsChart({
       let totalAmount = 0
       
       monthTransactions.forEach((tx) => {
-        const rate = getRateForDate(typeof tx.date === 'string' ? tx.date.split('T')[0] : tx.date)
-        const amount = currency === 'USD'
-          ? (tx.amount_usd ?? (tx.amount_gbp != null ? tx.amount_gbp * rate : 0))
-          : (tx.amount_gbp ?? (tx.amount_usd != null ? tx.amount_usd / rate : 0))
+        const rates = getRatesForDate(typeof tx.date === 'string' ? tx.date.split('T')[0] : tx.date)
+        const amount = amountFromGbpUsd(tx.amount_gbp, tx.amount_usd, currency, rates, tx.amount_eur)
         
         // Expenses are stored as negative values, only include negative amounts (expenses)
         if (amount < 0) {
           const absAmount = Math.abs(amount)
           totalAmount += absAmount
           
-          // Check if this transaction matches the top counterparty pattern (first 7 letters)
-          const counterparty = tx.counterparty || 'Unknown'
-          const counterpartyKey = counterparty.substring(0, 7).trim()
-          
-          if (counterpartyKey === topCounterpartyKey) {
+          // Check if this transaction belongs to the top merchant
+          if (merchantGroup(tx).key === topCounterpartyKey) {
             topTransactionAmount += absAmount
           }
         }
@@ -262,7 +256,7 @@ export function MonthlyCategoryTrendsChart({
     })
 
     return monthlyData
-  }, [transactions, selectedCategory, currency, getRateForDate])
+  }, [transactions, selectedCategory, currency, getRatesForDate])
 
   const formatCurrency = (value: number) => {
     return new Intl.NumberFormat('en-US', {
@@ -532,9 +526,9 @@ export function MonthlyCategoryTrendsChart({
       </ResponsiveContainer>
       {topCounterpartyName && (
         <p className="text-xs text-muted-foreground text-center px-2 leading-relaxed">
-          <span className="font-semibold" style={{ color: TOP_TRANSACTION_FILL_HIGHLIGHT }}>Largest transaction pattern:</span> The blue segment shows spending with{' '}
-          <span className="font-medium">{topCounterpartyName}</span> (merchants matching the first 7 characters), 
-          which is the highest-spending counterparty pattern across all 13 months. The red segment shows all other spending.
+          <span className="font-semibold" style={{ color: TOP_TRANSACTION_FILL_HIGHLIGHT }}>Top merchant:</span> The blue segment shows spending with{' '}
+          <span className="font-medium">{topCounterpartyName}</span> (all of its name variants in the merchant directory), 
+          which is the highest-spending merchant across all 13 months. The red segment shows all other spending.
         </p>
       )}
     </div>
@@ -2,25 +2,34 @@
 
 import { useEffect, useState, useMemo } from 'react'
 import { createClient } from '@/lib/supabase/client'
-import { TransactionLog } from '@/lib/types'
-import { fetchFxRatesUpTo, buildGetRateForDate } from '@/lib/utils/fx-rates'
+import { TransactionLog, TransactionRefund } from '@/lib/types'
+import { fetchFxRatesUpTo, buildGetRatesForDate } from '@/lib/utils/fx-rates'
+import { attributeRefundsToPurchaseDate } from '@/lib/utils/detect-refunds'
 import { useCurrency } from '@/lib/contexts/currency-context'
 import { MonthlyCategoryTrendsChart } from './monthly-category-trends-chart'
 import { MonthlyCategorySummary } from './monthly-category-summary'
 import { Skeleton } from '@/components/ui/skeleton'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Label } from '@/components/ui/label'
 
 const EXCLUDED_CATEGORIES = ['Income', 'Gift Money', 'Other Income', 'Excluded']
 const STORAGE_KEY = 'monthly-category-trends-selected-category'
+const ATTRIBUTE_REFUNDS_STORAGE_KEY = 'monthly-category-trends-attribute-refunds'
 
 export function MonthlyCategoryTrendsSection() {
-  const { currency, fxRate } = useCurrency()
+  const { currency, fxRate, eurUsdRate } = useCurrency()
   const [transactions, setTransactions] = useState<TransactionLog[]>([])
   const [categories, setCategories] = useState<string[]>([])
   const [selectedCategory, setSelectedCategory] = useState<string>('')
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [ratesByDate, setRatesByDate] = useState<Map<string, number>>(new Map())
+  const [eurRatesByDate, setEurRatesByDate] = useState<Map<string, number>>(new Map())
+  const [attributeRefunds, setAttributeRefunds] = useState(false)
+  const [purchaseDateByRefundId, setPurchaseDateByRefundId] = useState<Map<string, string>>(new Map())
+  // Refunds dated after the range whose purchase is inside it; only shown when attributing
+  const [lateRefunds, setLateRefunds] = useState<TransactionLog[]>([])
 
   // Fetch available categories and transactions
   useEffect(() => {
@@ -64,8 +73,8 @@ export function MonthlyCategoryTrendsSection() {
         const to = from + pageSize - 1
 
         const transactionsResult = await supabase
-          .from('transaction_log')
-          .select('*', { count: 'exact' })
+          .from('transaction_log_allocated')
+          .select('*, merchant:merchants(name)', { count: 'exact' })
           .gte('date', startDateStr)
           .lte('date', endDateStr)
           .order('date', { ascending: true })
@@ -85,9 +94,37 @@ export function MonthlyCategoryTrendsSection() {
         page++
       }
 
+      // Refund links for purchases in the range, so refunds can be moved to the purchase month
+      const purchaseDates = new Map<string, string>()
+      let late: TransactionLog[] = []
+      try {
+        const res = await fetch(`/api/transactions/refunds?from=${startDateStr}`)
+        const result = await res.json()
+        const links = (result.success ? result.data : []) as TransactionRefund[]
+        links.forEach((link) => purchaseDates.set(link.refund.id, link.purchase.date.split('T')[0]))
+        const lateIds = links
+          .filter((link) => link.refund.date > endDateStr && link.purchase.date <= endDateStr)
+          .map((link) => link.refund.id)
+        for (let i = 0; i < lateIds.length; i += 200) {
+          const { data } = await supabase
+            .from('transaction_log_allocated')
+            .select('*, merchant:merchants(name)')
+            .in('id', lateIds.slice(i, i + 200))
+          late = [...late, ...((data ?? []) as TransactionLog[])]
+        }
+      } catch {
+        /* charts still work without refund attribution */
+      }
+      setPurchaseDateByRefundId(purchaseDates)
+      setLateRefunds(late.filter((tx) => !EXCLUDED_CATEGORIES.includes(tx.category || '')))
+
       // Fetch FX rates for the date range
-      const rates = await fetchFxRatesUpTo(supabase, endDateStr)
+      const [rates, eurRates] = await Promise.all([
+        fetchFxRatesUpTo(supabase, endDateStr),
+        fetchFxRatesUpTo(supabase, endDateStr, 'eurusd_rate'),
+      ])
       setRatesByDate(rates)
+      setEurRatesByDate(eurRates)
 
       setError(null)
 
@@ -125,6 +162,24 @@ export function MonthlyCategoryTrendsSection() {
     }
   }, [categories, selectedCategory])
 
+  useEffect(() => {
+    setAttributeRefunds(localStorage.getItem(ATTRIBUTE_REFUNDS_STORAGE_KEY) === 'true')
+  }, [])
+
+  const handleAttributeRefundsChange = (checked: boolean) => {
+    setAttributeRefunds(checked)
+    localStorage.setItem(ATTRIBUTE_REFUNDS_STORAGE_KEY, String(checked))
+  }
+
+  // With attribution on, each matched refund counts in its purchase's month instead of its own
+  const displayedTransactions = useMemo(
+    () =>
+      attributeRefunds
+        ? attributeRefundsToPurchaseDate([...transactions, ...lateRefunds], purchaseDateByRefundId)
+        : transactions,
+    [attributeRefunds, transactions, lateRefunds, purchaseDateByRefundId]
+  )
+
   // Save selection to localStorage when it changes
   useEffect(() => {
     if (selectedCategory && typeof window !== 'undefined') {
@@ -132,10 +187,10 @@ export function MonthlyCategoryTrendsSection() {
     }
   }, [selectedCategory])
 
-  // Rate for a given date
-  const getRateForDate = useMemo(
-    () => buildGetRateForDate(ratesByDate, fxRate),
-    [ratesByDate, fxRate]
+  // Rates for a given date
+  const getRatesForDate = useMemo(
+    () => buildGetRatesForDate(ratesByDate, eurRatesByDate, { gbpusd: fxRate, eurusd: eurUsdRate }),
+    [ratesByDate, eurRatesByDate, fxRate, eurUsdRate]
   )
 
   if (loading) {
@@ -158,22 +213,34 @@ export function MonthlyCategoryTrendsSection() {
         <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
           <CardTitle className="text-base">Monthly Trends by Category</CardTitle>
           {categories.length > 0 && (
-            <div className="flex items-center gap-2">
-              <label htmlFor="category-select-combined" className="text-sm font-medium text-muted-foreground whitespace-nowrap">
-                Category:
-              </label>
-              <select
-                id="category-select-combined"
-                value={selectedCategory}
-                onChange={(e) => setSelectedCategory(e.target.value)}
-                className="flex h-10 w-full md:w-64 rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
-              >
-                {categories.map((cat) => (
-                  <option key={cat} value={cat}>
-                    {cat}
-                  </option>
-                ))}
-              </select>
+            <div className="flex flex-col md:flex-row md:items-center gap-4">
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="attribute-refunds"
+                  checked={attributeRefunds}
+                  onCheckedChange={(checked) => handleAttributeRefundsChange(checked === true)}
+                />
+                <Label htmlFor="attribute-refunds" className="text-sm font-normal text-muted-foreground whitespace-nowrap">
+                  Count refunds in purchase month
+                </Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <label htmlFor="category-select-combined" className="text-sm font-medium text-muted-foreground whitespace-nowrap">
+                  Category:
+                </label>
+                <select
+                  id="category-select-combined"
+                  value={selectedCategory}
+                  onChange={(e) => setSelectedCategory(e.target.value)}
+                  className="flex h-10 w-full md:w-64 rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+                >
+                  {categories.map((cat) => (
+                    <option key={cat} value={cat}>
+                      {cat}
+                    </option>
+                  ))}
+                </select>
+              </div>
             </div>
           )}
         </div>
@@ -181,18 +248,18 @@ export function MonthlyCategoryTrendsSection() {
       <CardContent className="space-y-6">
         {selectedCategory && (
           <MonthlyCategorySummary
-            transactions={transactions}
+            transactions={displayedTransactions}
             categories={categories}
             selectedCategory={selectedCategory}
             onCategoryChange={setSelectedCategory}
-            getRateForDate={getRateForDate}
+            getRatesForDate={getRatesForDate}
             hideCard={true}
           />
         )}
         <MonthlyCategoryTrendsChart
-          transactions={transactions}
+          transactions={displayedTransactions}
           selectedCategory={selectedCategory}
-          getRateForDate={getRateForDate}
+          getRatesForDate={getRatesForDate}
           hideCard={true}
         />
       </CardContent>
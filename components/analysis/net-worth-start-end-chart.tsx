@@ -5,6 +5,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Skeleton } from '@/components/ui/skeleton'
 import { EmptyState } from '@/components/ui/empty-state'
 import { useCurrency } from '@/lib/contexts/currency-context'
+import { getCurrencySymbol } from '@/lib/utils/currency'
 import { useIsMobile } from '@/lib/hooks/use-is-mobile'
 import { useChartTheme } from '@/lib/hooks/use-chart-theme'
 import { getChartFontSizes } from '@/lib/chart-styles'
@@ -27,7 +28,7 @@ const YEAR_START = 'Year Start'
 const YEAR_END = 'Year End'
 
 export function NetWorthStartEndChart() {
-  const { currency } = useCurrency()
+  const { currency, fromGbpUsd } = useCurrency()
   const isMobile = useIsMobile()
   const chartTheme = useChartTheme()
   const [data, setData] = useState<YoYNetWorth[]>([])
@@ -68,7 +69,7 @@ export function NetWorthStartEndChart() {
 
     const getAmount = (item: YoYNetWorth | undefined) => {
       if (!item) return 0
-      return currency === 'USD' ? (item.amount_usd ?? 0) : (item.amount_gbp ?? 0)
+      return fromGbpUsd(item.amount_gbp, item.amount_usd)
     }
 
     const rows: { name: string; value: number; label: string }[] = []
@@ -91,7 +92,7 @@ export function NetWorthStartEndChart() {
     return rows
   }, [data, currency])
 
-  const symbol = currency === 'USD' ? '$' : '£'
+  const symbol = getCurrencySymbol(currency)
   const formatAsMillions = (value: number) => {
     const abs = Math.abs(value)
     const m = abs / 1_000_000
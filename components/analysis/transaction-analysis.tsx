@@ -1,8 +1,9 @@
 'use client'
 
-import { useEffect, useState, useMemo, useRef } from 'react'
+import { Fragment, useCallback, useEffect, useState, useMemo, useRef } from 'react'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Skeleton } from '@/components/ui/skeleton'
+import { Button } from '@/components/ui/button'
 import { EmptyState } from '@/components/ui/empty-state'
 import {
   Table,
@@ -13,27 +14,36 @@ import {
   TableRow,
 } from '@/components/ui/table'
 import { useCurrency } from '@/lib/contexts/currency-context'
+import { amountFromGbpUsd, getCurrencySymbol } from '@/lib/utils/currency'
 import { createClient } from '@/lib/supabase/client'
-import { TransactionLog } from '@/lib/types'
-import { fetchFxRatesUpTo, buildGetRateForDate } from '@/lib/utils/fx-rates'
-import { Receipt, AlertCircle } from 'lucide-react'
+import { AllocatedTransaction, TransactionLog, TransactionRefund } from '@/lib/types'
+import { fetchFxRatesUpTo, buildGetRatesForDate } from '@/lib/utils/fx-rates'
+import { Receipt, AlertCircle, ChevronDown, ChevronRight, Split } from 'lucide-react'
 import { cn } from '@/utils/cn'
+import { toast } from 'sonner'
 import { FullTableViewWrapper } from '@/components/dashboard/full-table-view-wrapper'
 import { FullTableViewToggle } from '@/components/dashboard/full-table-view-toggle'
+import { SplitTransactionDialog } from '@/components/transactions/split-transaction-dialog'
+import { TransactionTagsEditor } from '@/components/transactions/transaction-tags-editor'
 
 interface AggregatedTransaction {
   counterpartyKey: string
   counterparty: string
   amount: number
   transactionCount: number
+  transactions: AllocatedTransaction[]
 }
 
+/** Category select value that lifts the category filter (useful with a tag filter). */
+const ALL_CATEGORIES = '__all__'
+
 interface TransactionAnalysisProps {
   initialSection?: string
   initialPeriod?: 'YTD' | 'MTD'
   initialYear?: number
   initialMonth?: number
   initialCategory?: string
+  initialTag?: string
 }
 
 export function TransactionAnalysis({
@@ -42,8 +52,9 @@ export function TransactionAnalysis({
   initialYear,
   initialMonth,
   initialCategory,
+  initialTag,
 }: TransactionAnalysisProps = {}) {
-  const { currency, convertAmount, fxRate } = useCurrency()
+  const { currency, convertAmount, fxRate, eurUsdRate } = useCurrency()
   const cardRef = useRef<HTMLDivElement>(null)
   const now = new Date()
   const [periodType, setPeriodType] = useState<'YTD' | 'MTD'>(
@@ -59,11 +70,24 @@ export function TransactionAnalysis({
   const [selectedCategory, setSelectedCategory] = useState<string>(
     initialCategory ?? ''
   )
-  const [transactions, setTransactions] = useState<TransactionLog[]>([])
+  const [transactions, setTransactions] = useState<AllocatedTransaction[]>([])
+  const [tagsByTransaction, setTagsByTransaction] = useState<Map<string, string[]>>(new Map())
+  const [selectedTag, setSelectedTag] = useState<string>(initialTag ?? '')
+  const [tagsReloadCount, setTagsReloadCount] = useState(0)
+  const [refunds, setRefunds] = useState<TransactionRefund[]>([])
+  const [refundsReloadCount, setRefundsReloadCount] = useState(0)
   const [ratesByDate, setRatesByDate] = useState<Map<string, number>>(new Map())
+  const [eurRatesByDate, setEurRatesByDate] = useState<Map<string, number>>(new Map())
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [fullView, setFullView] = useState(false)
+  const [expandedKey, setExpandedKey] = useState<string | null>(null)
+  const [splitTransactionId, setSplitTransactionId] = useState<string | null>(null)
+  // Bumped after a split is saved so both queries re-run
+  const [reloadCount, setReloadCount] = useState(0)
+  const handleSplitDialogOpenChange = useCallback((open: boolean) => {
+    if (!open) setSplitTransactionId(null)
+  }, [])
 
   // Scroll to Transaction Analysis section when opened via URL (e.g. from Dashboard trends)
   useEffect(() => {
@@ -95,10 +119,10 @@ export function TransactionAnalysis({
         ? new Date(selectedYear, 11, 31, 23, 59, 59)
         : new Date(selectedYear, selectedMonth, 0, 23, 59, 59)
 
-      // Fetch unique categories for the selected period
+      // Fetch unique categories for the selected period (split transactions count under each split's category)
       // Fetch all rows to ensure we get all categories (Supabase may paginate by default)
       const categoriesResult = await supabase
-        .from('transaction_log')
+        .from('transaction_log_allocated')
         .select('category')
         .gte('date', startDate.toISOString().split('T')[0])
         .lte('date', endDate.toISOString().split('T')[0])
@@ -127,7 +151,7 @@ export function TransactionAnalysis({
         
         // Reset selected category if it's not in the new list
         if (uniqueCategories.length > 0) {
-          if (!selectedCategory || !uniqueCategories.includes(selectedCategory)) {
+          if (!selectedCategory || (selectedCategory !== ALL_CATEGORIES && !uniqueCategories.includes(selectedCategory))) {
             setSelectedCategory(uniqueCategories[0])
           }
         } else {
@@ -142,7 +166,7 @@ export function TransactionAnalysis({
     }
 
     fetchCategories()
-  }, [periodType, selectedYear, selectedMonth])
+  }, [periodType, selectedYear, selectedMonth, reloadCount])
 
   // Fetch transactions based on filters
   useEffect(() => {
@@ -163,7 +187,7 @@ export function TransactionAnalysis({
         : new Date(selectedYear, selectedMonth, 0, 23, 59, 59)
 
       // Fetch all matching transactions with pagination (Supabase defaults to 1,000 rows)
-      let allTransactions: TransactionLog[] = []
+      let allTransactions: AllocatedTransaction[] = []
       let page = 0
       const pageSize = 1000
       let hasMore = true
@@ -173,12 +197,15 @@ export function TransactionAnalysis({
       while (hasMore) {
         const from = page * pageSize
         const to = from + pageSize - 1
-        const { data: pageData, error: pageError } = await supabase
-          .from('transaction_log')
+        let query = supabase
+          .from('transaction_log_allocated')
           .select('*')
-          .eq('category', selectedCategory)
           .gte('date', startDateStr)
           .lte('date', endDateStr)
+        if (selectedCategory !== ALL_CATEGORIES) {
+          query = query.eq('category', selectedCategory)
+        }
+        const { data: pageData, error: pageError } = await query
           .order('date', { ascending: false })
           .range(from, to)
 
@@ -206,40 +233,121 @@ export function TransactionAnalysis({
           return d > max ? d : max
         }, '')
         const supabaseFx = createClient()
-        const rates = await fetchFxRatesUpTo(supabaseFx, maxDate)
+        const [rates, eurRates] = await Promise.all([
+          fetchFxRatesUpTo(supabaseFx, maxDate),
+          fetchFxRatesUpTo(supabaseFx, maxDate, 'eurusd_rate'),
+        ])
         setRatesByDate(rates)
+        setEurRatesByDate(eurRates)
       } else {
         setRatesByDate(new Map())
+        setEurRatesByDate(new Map())
       }
     }
 
     fetchTransactions()
-  }, [periodType, selectedYear, selectedMonth, selectedCategory])
+  }, [periodType, selectedYear, selectedMonth, selectedCategory, reloadCount])
+
+  // Tags for every tagged transaction (detached links excluded); used for badges and the tag filter
+  useEffect(() => {
+    async function fetchTags() {
+      const supabase = createClient()
+      const { data, error: tagsError } = await supabase
+        .from('transaction_tags')
+        .select('transaction_id, tag:tags(name)')
+        .not('transaction_id', 'is', null)
+
+      if (tagsError) {
+        console.error('Error fetching tags:', tagsError)
+        return
+      }
+
+      const map = new Map<string, string[]>()
+      ;((data ?? []) as unknown as { transaction_id: string; tag: { name: string } | null }[]).forEach((row) => {
+        if (!row.tag) return
+        map.set(row.transaction_id, [...(map.get(row.transaction_id) ?? []), row.tag.name].sort())
+      })
+      setTagsByTransaction(map)
+    }
+
+    fetchTags()
+  }, [reloadCount, tagsReloadCount])
+
+  // Refund links touching the period, for net cost per purchase
+  useEffect(() => {
+    async function fetchRefunds() {
+      const from = periodType === 'YTD' ? `${selectedYear}-01-01` : `${selectedYear}-${String(selectedMonth).padStart(2, '0')}-01`
+      const to = periodType === 'YTD'
+        ? `${selectedYear}-12-31`
+        : new Date(selectedYear, selectedMonth, 0, 12).toISOString().split('T')[0]
+      try {
+        const res = await fetch(`/api/transactions/refunds?from=${from}&to=${to}`)
+        const result = await res.json()
+        if (result.success) setRefunds(result.data ?? [])
+      } catch {
+        /* refund annotations are optional */
+      }
+    }
+
+    fetchRefunds()
+  }, [periodType, selectedYear, selectedMonth, reloadCount, refundsReloadCount])
+
+  const refundsByTransaction = useMemo(() => {
+    const map = new Map<string, TransactionRefund>()
+    refunds.forEach((r) => {
+      map.set(r.purchase.id, r)
+      map.set(r.refund.id, r)
+    })
+    return map
+  }, [refunds])
+
+  const handleUnlinkRefund = async (id: string) => {
+    try {
+      const res = await fetch(`/api/transactions/refunds/${id}`, { method: 'DELETE' })
+      const result = await res.json()
+      if (!result.success) {
+        toast.error(result.error || 'Failed to unlink refund')
+        return
+      }
+      setRefundsReloadCount((n) => n + 1)
+    } catch {
+      toast.error('Failed to unlink refund')
+    }
+  }
+
+  const availableTags = useMemo(
+    () => Array.from(new Set(Array.from(tagsByTransaction.values()).flat())).sort(),
+    [tagsByTransaction]
+  )
+
+  const filteredTransactions = useMemo(
+    () => (selectedTag ? transactions.filter((tx) => tagsByTransaction.get(tx.id)?.includes(selectedTag)) : transactions),
+    [transactions, tagsByTransaction, selectedTag]
+  )
 
   // Rate for a given date (transaction date when one of amount_usd/amount_gbp is null)
-  const getRateForDate = useMemo(
-    () => buildGetRateForDate(ratesByDate, fxRate),
-    [ratesByDate, fxRate]
+  const getRatesForDate = useMemo(
+    () => buildGetRatesForDate(ratesByDate, eurRatesByDate, { gbpusd: fxRate, eurusd: eurUsdRate }),
+    [ratesByDate, eurRatesByDate, fxRate, eurUsdRate]
   )
 
   // Aggregate transactions by first 9 letters of counterparty (case-insensitive)
   const aggregatedTransactions = useMemo(() => {
     const grouped = new Map<string, AggregatedTransaction>()
 
-    transactions.forEach((tx) => {
+    filteredTransactions.forEach((tx) => {
       const counterparty = tx.counterparty || 'Unknown'
       // Use case-insensitive key to prevent duplicates like "OURARING" vs "Ouraring"
       const counterpartyKey = counterparty.substring(0, 9).trim().toUpperCase()
-      const rate = getRateForDate(typeof tx.date === 'string' ? tx.date : tx.date)
+      const rates = getRatesForDate(typeof tx.date === 'string' ? tx.date : tx.date)
       // Use FX rate for transaction date when one side is null
-      const amount = currency === 'USD'
-        ? (tx.amount_usd ?? (tx.amount_gbp != null ? tx.amount_gbp * rate : 0))
-        : (tx.amount_gbp ?? (tx.amount_usd != null ? tx.amount_usd / rate : 0))
+      const amount = amountFromGbpUsd(tx.amount_gbp, tx.amount_usd, currency, rates, tx.amount_eur)
 
       if (grouped.has(counterpartyKey)) {
         const existing = grouped.get(counterpartyKey)!
         existing.amount += amount
         existing.transactionCount += 1
+        existing.transactions.push(tx)
         // Keep the most common casing (prefer title case over all caps if available)
         // For now, keep the first encountered counterparty name
       } else {
@@ -248,13 +356,14 @@ export function TransactionAnalysis({
           counterparty,
           amount,
           transactionCount: 1,
+          transactions: [tx],
         })
       }
     })
 
     return Array.from(grouped.values())
       .sort((a, b) => Math.abs(b.amount) - Math.abs(a.amount)) // Sort descending by absolute amount
-  }, [transactions, currency, getRateForDate])
+  }, [filteredTransactions, currency, getRatesForDate])
 
   // Calculate total spend and 80% threshold
   const { totalSpend, threshold80Percent } = useMemo(() => {
@@ -298,25 +407,60 @@ export function TransactionAnalysis({
 
   const formatCurrencyCompact = (value: number) => {
     const valueInK = value / 1000
-    const currencySymbol = currency === 'USD' ? '$' : '£'
+    const currencySymbol = getCurrencySymbol(currency)
     return `${currencySymbol}${valueInK.toFixed(1)}k`
   }
 
+  const transactionAmount = (tx: Pick<TransactionLog, 'date' | 'amount_usd' | 'amount_gbp' | 'amount_eur'>) => {
+    const rates = getRatesForDate(tx.date)
+    return amountFromGbpUsd(tx.amount_gbp, tx.amount_usd, currency, rates, tx.amount_eur)
+  }
+
+  const formatCurrencyExact = (value: number) =>
+    new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(value)
+
+  // Net cost for a purchase with a linked refund; a pointer back to the purchase on the refund
+  const renderRefundNote = (transactionId: string) => {
+    const link = refundsByTransaction.get(transactionId)
+    if (!link) return null
+    const refundAmount = transactionAmount(link.refund)
+    return (
+      <span className="ml-2 text-xs">
+        {link.purchase.id === transactionId
+          ? `Refunded ${formatCurrencyExact(refundAmount)} on ${link.refund.date.split('T')[0]} · net ${formatCurrencyExact(transactionAmount(link.purchase) + refundAmount)}`
+          : `Refund of ${link.purchase.date.split('T')[0]} purchase`}
+        <button
+          type="button"
+          className="ml-1 underline underline-offset-2 hover:text-foreground"
+          onClick={() => handleUnlinkRefund(link.id)}
+        >
+          Not a refund
+        </button>
+      </span>
+    )
+  }
+
   // Calculate category totals for the selected period
   const categoryTotals = useMemo(() => {
     const totals = new Map<string, number>()
     
-    transactions.forEach((tx) => {
-      const rate = getRateForDate(typeof tx.date === 'string' ? tx.date : tx.date)
-      const amount = currency === 'USD'
-        ? (tx.amount_usd ?? (tx.amount_gbp != null ? tx.amount_gbp * rate : 0))
-        : (tx.amount_gbp ?? (tx.amount_usd != null ? tx.amount_usd / rate : 0))
+    filteredTransactions.forEach((tx) => {
+      const rates = getRatesForDate(typeof tx.date === 'string' ? tx.date : tx.date)
+      const amount = amountFromGbpUsd(tx.amount_gbp, tx.amount_usd, currency, rates, tx.amount_eur)
       
       totals.set(tx.category, (totals.get(tx.category) || 0) + Math.abs(amount))
     })
 
     return totals
-  }, [transactions, currency, getRateForDate])
+  }, [filteredTransactions, currency, getRatesForDate])
+
+  const selectedTotal = selectedCategory === ALL_CATEGORIES
+    ? (categoryTotals.size > 0 ? Array.from(categoryTotals.values()).reduce((sum, v) => sum + v, 0) : undefined)
+    : categoryTotals.get(selectedCategory)
+  const selectionLabel = [
+    selectedCategory === ALL_CATEGORIES ? 'All categories' : selectedCategory,
+    selectedTag && `tagged "${selectedTag}"`,
+  ].filter(Boolean).join(', ')
 
   if (loading) {
     return (
@@ -436,6 +580,7 @@ export function TransactionAnalysis({
               onChange={(e) => setSelectedCategory(e.target.value)}
               className="rounded-md border border-input bg-background px-3 py-2 text-sm min-w-[200px]"
             >
+              <option value={ALL_CATEGORIES}>All categories</option>
               {categories.map((cat) => (
                 <option key={cat} value={cat}>
                   {cat}
@@ -443,14 +588,30 @@ export function TransactionAnalysis({
               ))}
             </select>
           </div>
+
+          <div className="flex flex-col gap-2">
+            <label className="text-sm font-medium">Tag</label>
+            <select
+              value={selectedTag}
+              onChange={(e) => setSelectedTag(e.target.value)}
+              className="rounded-md border border-input bg-background px-3 py-2 text-sm min-w-[160px]"
+            >
+              <option value="">Any tag</option>
+              {availableTags.map((tag) => (
+                <option key={tag} value={tag}>
+                  {tag}
+                </option>
+              ))}
+            </select>
+          </div>
         </div>
 
         {/* Category Totals Summary */}
-        {selectedCategory && categoryTotals.has(selectedCategory) && (
+        {selectedCategory && selectedTotal !== undefined && (
           <div className="p-4 bg-muted/50 rounded-md">
             <p className="text-sm font-semibold">
-              {selectedCategory} Total ({periodType === 'YTD' ? `${selectedYear} YTD` : `${new Date(selectedYear, selectedMonth - 1).toLocaleString('default', { month: 'long' })} ${selectedYear}`}):{' '}
-              <span className="font-bold">{formatCurrency(categoryTotals.get(selectedCategory)!)}</span>
+              {selectionLabel} Total ({periodType === 'YTD' ? `${selectedYear} YTD` : `${new Date(selectedYear, selectedMonth - 1).toLocaleString('default', { month: 'long' })} ${selectedYear}`}):{' '}
+              <span className="font-bold">{formatCurrency(selectedTotal)}</span>
             </p>
           </div>
         )}
@@ -517,14 +678,23 @@ export function TransactionAnalysis({
                     const percentage = (Math.abs(tx.amount) / totalSpend) * 100
                     const cumulativePercentage = (tx.cumulative / totalSpend) * 100
                     
+                    const expanded = expandedKey === tx.counterpartyKey
+
                     return (
+                      <Fragment key={`${tx.counterpartyKey}-${index}`}>
                       <TableRow
-                        key={`${tx.counterpartyKey}-${index}`}
                         className={cn(
+                          'cursor-pointer',
                           tx.isTop80Percent && 'bg-yellow-50 dark:bg-yellow-950/20'
                         )}
+                        onClick={() => setExpandedKey(expanded ? null : tx.counterpartyKey)}
                       >
                         <TableCell className="font-medium">
+                          {expanded ? (
+                            <ChevronDown className="inline h-3.5 w-3.5 mr-1 text-muted-foreground" />
+                          ) : (
+                            <ChevronRight className="inline h-3.5 w-3.5 mr-1 text-muted-foreground" />
+                          )}
                           {tx.counterparty}
                           {tx.isTop80Percent && (
                             <span className="ml-2 text-xs text-yellow-600 dark:text-yellow-400 font-semibold">
@@ -545,6 +715,43 @@ export function TransactionAnalysis({
                           {cumulativePercentage.toFixed(1)}%
                         </TableCell>
                       </TableRow>
+                      {expanded &&
+                        tx.transactions.map((item) => (
+                          <TableRow key={item.split_id ?? item.id} className="bg-muted/30 text-muted-foreground">
+                            <TableCell className="pl-8">
+                              {String(item.date).split('T')[0]}
+                              {item.split_id && (
+                                <span className="ml-2 text-xs">
+                                  Split from {item.parent_category}
+                                  {item.split_note ? ` · ${item.split_note}` : ''}
+                                </span>
+                              )}
+                              {renderRefundNote(item.id)}
+                            </TableCell>
+                            <TableCell className="text-right tabular-nums">
+                              {formatCurrencyExact(transactionAmount(item))}
+                            </TableCell>
+                            <TableCell colSpan={3}>
+                              <div className="flex items-center justify-end gap-2">
+                                <TransactionTagsEditor
+                                  transactionId={item.id}
+                                  tags={tagsByTransaction.get(item.id) ?? []}
+                                  onSaved={() => setTagsReloadCount((n) => n + 1)}
+                                />
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  className="h-7"
+                                  onClick={() => setSplitTransactionId(item.id)}
+                                >
+                                  <Split className="h-3.5 w-3.5 mr-1" />
+                                  {item.split_id ? 'Edit split' : 'Split'}
+                                </Button>
+                              </div>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </Fragment>
                     )
                   })}
                 </TableBody>
@@ -555,9 +762,16 @@ export function TransactionAnalysis({
           <EmptyState
             icon={Receipt}
             title="No transactions found"
-            description={`No transactions found for ${selectedCategory} in ${periodType === 'YTD' ? selectedYear : `${new Date(selectedYear, selectedMonth - 1).toLocaleString('default', { month: 'long' })} ${selectedYear}`}.`}
+            description={`No transactions found for ${selectionLabel} in ${periodType === 'YTD' ? selectedYear : `${new Date(selectedYear, selectedMonth - 1).toLocaleString('default', { month: 'long' })} ${selectedYear}`}.`}
           />
         )}
+
+        <SplitTransactionDialog
+          transactionId={splitTransactionId}
+          categories={categories}
+          onOpenChange={handleSplitDialogOpenChange}
+          onSaved={() => setReloadCount((n) => n + 1)}
+        />
       </CardContent>
     </Card>
   )
@@ -5,11 +5,20 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Skeleton } from '@/components/ui/skeleton'
 import { EmptyState } from '@/components/ui/empty-state'
 import { useCurrency } from '@/lib/contexts/currency-context'
+import { getCurrencySymbol } from '@/lib/utils/currency'
 import { useIsMobile } from '@/lib/hooks/use-is-mobile'
 import { useChartTheme } from '@/lib/hooks/use-chart-theme'
 import { getChartFontSizes } from '@/lib/chart-styles'
 import { createClient } from '@/lib/supabase/client'
-import { YoYNetWorth } from '@/lib/types'
+import { AccountBalance, YoYNetWorth } from '@/lib/types'
+import {
+  YOY_YEAR_END,
+  YOY_YEAR_START,
+  balancesByCurrencyAsOf,
+  computeFxEffect,
+  scaleHoldingsToTotal,
+  yearStartDate,
+} from '@/lib/utils/fx-effect'
 import { cn } from '@/utils/cn'
 import { TrendingUp, AlertCircle } from 'lucide-react'
 import {
@@ -24,22 +33,30 @@ import {
   LabelList,
 } from 'recharts'
 
+const FX_EFFECT = 'FX Effect'
+const INVESTMENT_RETURN = 'Investment Return YTD'
+
 export function YoYNetWorthWaterfall() {
-  const { currency } = useCurrency()
+  const { currency, fromGbpUsd, ratesOn, fxRates } = useCurrency()
   const isMobile = useIsMobile()
   const chartTheme = useChartTheme()
   const fontSizes = getChartFontSizes(isMobile)
   const [data, setData] = useState<YoYNetWorth[]>([])
+  const [balances, setBalances] = useState<AccountBalance[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
 
   useEffect(() => {
     async function fetchData() {
       const supabase = createClient()
-      const { data: netWorthData, error } = await supabase
-        .from('yoy_net_worth')
-        .select('*')
-        .order('category')
+      const [{ data: netWorthData, error }, { data: balanceData }] = await Promise.all([
+        supabase.from('yoy_net_worth').select('*').order('category'),
+        // Currency mix of net worth, for splitting the change into FX effect and real growth
+        supabase
+          .from('account_balances')
+          .select('institution, account_name, currency, balance_total_local, date_updated')
+          .order('date_updated', { ascending: false }),
+      ])
 
       if (error) {
         console.error('Error fetching YoY Net Worth:', error)
@@ -51,23 +68,50 @@ export function YoYNetWorthWaterfall() {
       setError(null)
 
       setData((netWorthData as YoYNetWorth[]) || [])
+      setBalances((balanceData as AccountBalance[]) || [])
       setLoading(false)
     }
 
     fetchData()
   }, [currency])
 
-  // Extract Year Start and Year End values for summary
+  // Extract Year Start and Year End values for summary. Both convert at current rates like the flows
+  // between them (and like the YoY table), so the bars add up to Net Change.
   const summaryValues = useMemo(() => {
-    const yearStart = data.find((item) => item.category === 'Year Start')
-    const yearEnd = data.find((item) => item.category === 'Year End')
+    const yearStart = data.find((item) => item.category === YOY_YEAR_START)
+    const yearEnd = data.find((item) => item.category === YOY_YEAR_END)
     
     return {
-      yearStart: yearStart ? (currency === 'USD' ? yearStart.amount_usd : yearStart.amount_gbp) : null,
-      yearEnd: yearEnd ? (currency === 'USD' ? yearEnd.amount_usd : yearEnd.amount_gbp) : null,
+      yearStart: yearStart ? fromGbpUsd(yearStart.amount_gbp, yearStart.amount_usd) : null,
+      yearEnd: yearEnd ? fromGbpUsd(yearEnd.amount_gbp, yearEnd.amount_usd) : null,
     }
   }, [data, currency])
 
+  // Part of the net change due to exchange rates moving since the start of the year. Opening holdings
+  // come from balances on or before Year Start; without any, today's currency mix is scaled to Year
+  // Start at the prior year's closing rates.
+  const fxBreakdown = useMemo(() => {
+    const yearStart = data.find((item) => item.category === YOY_YEAR_START)
+    if (!yearStart || balances.length === 0) return null
+    const startRates = ratesOn(yearStartDate())
+    let opening = balancesByCurrencyAsOf(balances, yearStartDate())
+    const estimated = Object.keys(opening).length === 0
+    if (estimated) {
+      const latest = balancesByCurrencyAsOf(balances, '9999-12-31')
+      const openingTotal = fromGbpUsd(yearStart.amount_gbp, yearStart.amount_usd, null, yearStartDate())
+      opening = scaleHoldingsToTotal(latest, openingTotal, startRates, currency)
+    }
+    const breakdown = computeFxEffect(opening, startRates, fxRates, currency)
+    return { ...breakdown, estimated }
+  }, [data, balances, ratesOn, fxRates, currency])
+
+  // The sheet's investment return already includes currency revaluation, so the FX effect is shown
+  // as a slice of it rather than on top of the flows; without that row there is nothing to split.
+  const fxEffect = useMemo(() => {
+    if (!fxBreakdown || Math.round(fxBreakdown.fxEffect) === 0) return null
+    return data.some((item) => item.category === INVESTMENT_RETURN) ? fxBreakdown.fxEffect : null
+  }, [data, fxBreakdown])
+
   // Transform data into waterfall format showing cumulative progression
   const waterfallData = useMemo(() => {
     if (data.length === 0) return []
@@ -78,7 +122,7 @@ export function YoYNetWorthWaterfall() {
       'Other Income',
       'Gift Money',
       'Expenses',
-      'Investment Return YTD',
+      INVESTMENT_RETURN,
       'Transfer to Kiran',
       'Transfer to HMRC',
       'Year End',
@@ -98,13 +142,17 @@ export function YoYNetWorthWaterfall() {
     const changes: { name: string; value: number; type: string }[] = []
 
     orderedData.forEach((item) => {
-      const amount = currency === 'USD' ? item.amount_usd : item.amount_gbp
-      const isStart = item.category === 'Year Start'
-      const isEnd = item.category === 'Year End'
+      const amount = fromGbpUsd(item.amount_gbp, item.amount_usd)
+      const isStart = item.category === YOY_YEAR_START
+      const isEnd = item.category === YOY_YEAR_END
 
       if (isStart || isEnd) return
 
-      const change = amount || 0
+      let change = amount || 0
+      if (item.category === INVESTMENT_RETURN && fxEffect !== null) {
+        changes.push({ name: FX_EFFECT, value: fxEffect, type: fxEffect >= 0 ? 'fx-positive' : 'fx-negative' })
+        change -= fxEffect
+      }
       if (change === 0) return
 
       changes.push({
@@ -159,13 +207,13 @@ export function YoYNetWorthWaterfall() {
     }
 
     return waterfall
-  }, [data, currency, summaryValues])
+  }, [data, currency, summaryValues, fxEffect])
 
   // Intelligent large-number format: £0.0M when |value| >= 1M, else £0.0k (for YoY change chart)
   const formatCurrencyLarge = (value: number | null) => {
     if (value === null || value === undefined) return '-'
     const abs = Math.abs(value)
-    const currencySymbol = currency === 'USD' ? '$' : '£'
+    const currencySymbol = getCurrencySymbol(currency)
     if (abs >= 1_000_000) {
       return `${currencySymbol}${(abs / 1_000_000).toFixed(1)}M`
     }
@@ -179,7 +227,7 @@ export function YoYNetWorthWaterfall() {
 
   // Format currency for call-out box (full format, not compact)
   const formatCurrencyFull = (value: number) => {
-    const currencySymbol = currency === 'USD' ? '$' : '£'
+    const currencySymbol = getCurrencySymbol(currency)
     const abs = Math.abs(value)
     if (abs >= 1_000_000) {
       return `${currencySymbol}${(abs / 1_000_000).toFixed(1)}M`
@@ -220,6 +268,27 @@ export function YoYNetWorthWaterfall() {
         <div style={{ color: chartTheme.tooltipText }}>
           {data.name}: {formattedValue}
         </div>
+        {data.name === FX_EFFECT && fxBreakdown && (
+          <div style={{ color: chartTheme.tooltipText, opacity: 0.8, marginTop: 4 }}>
+            {fxBreakdown.byCurrency
+              .filter((c) => c.currency !== currency)
+              .map((c) => (
+                <div key={c.currency}>
+                  {c.currency} holdings: {formatSignedLarge(c.effect)}
+                </div>
+              ))}
+            <div>
+              Year Start is shown at today&apos;s rates, like the other bars, so they add up to Net Change; this
+              bar is the part due to rates moving since the start of the year.
+            </div>
+            {fxBreakdown.estimated && <div>Estimated from today&apos;s currency mix</div>}
+          </div>
+        )}
+        {data.name === INVESTMENT_RETURN && fxEffect !== null && (
+          <div style={{ color: chartTheme.tooltipText, opacity: 0.8, marginTop: 4 }}>
+            Excludes the FX effect ({formatSignedLarge(fxEffect)})
+          </div>
+        )}
       </div>
     )
   }
@@ -235,6 +304,9 @@ export function YoYNetWorthWaterfall() {
         return '#16a34a' // Darker green for net positive
       case 'net-negative':
         return '#dc2626' // Darker red for net negative
+      case 'fx-positive':
+      case 'fx-negative':
+        return '#3b82f6' // Blue: currency movement, not growth
       default:
         return '#6b7280'
     }
@@ -316,6 +388,8 @@ export function YoYNetWorthWaterfall() {
     ? (netChange / summaryValues.yearStart) * 100
     : null
 
+  const realGrowth = netChange !== null && fxEffect !== null ? netChange - fxEffect : null
+
   const formatPercent = (value: number) => {
     const sign = value >= 0 ? '+' : ''
     return `${sign}${value.toFixed(1)}%`
@@ -380,6 +454,24 @@ export function YoYNetWorthWaterfall() {
                   </>
                 )}
               </span>
+              {fxEffect !== null && realGrowth !== null && (
+                <div className="mt-1 text-xs text-muted-foreground tabular-nums">
+                  Currency movements {fxEffect >= 0 ? 'added' : 'took off'}{' '}
+                  <span className="font-semibold text-blue-600 dark:text-blue-400">
+                    {formatCurrencyFull(Math.abs(fxEffect))}
+                  </span>
+                  ; real growth{' '}
+                  <span
+                    className={cn(
+                      'font-semibold',
+                      realGrowth >= 0 ? 'text-green-600 dark:text-green-500' : 'text-red-600 dark:text-red-500'
+                    )}
+                  >
+                    {formatSignedLarge(realGrowth)}
+                  </span>
+                  {fxBreakdown?.estimated && ' (estimated from today\'s currency mix)'}
+                </div>
+              )}
             </div>
           )}
         </div>
@@ -30,7 +30,7 @@ const GAINS_FILL = '#16a34a' // Green-600 (darker green for investment gains)
 const EXPENSES_FILL = '#ef4444' // Red-500 (matches app's negative color)
 
 export function YoYWaterfallChart() {
-  const { currency } = useCurrency()
+  const { currency, fromGbpUsd, ratesOn } = useCurrency()
   const isMobile = useIsMobile()
   const chartTheme = useChartTheme()
   const fontSizes = getChartFontSizes(isMobile)
@@ -95,26 +95,29 @@ export function YoYWaterfallChart() {
           return date.getMonth() === 0 && date.getDate() === 1
         })
         .reduce((sum: number, nw: HistoricalNetWorth) => {
-          const amount = currency === 'USD' ? nw.amount_usd : nw.amount_gbp
+          const amount = fromGbpUsd(nw.amount_gbp, nw.amount_usd, null, nw.date)
           return sum + (amount || 0)
         }, 0)
 
       // Calculate current net worth
       const currentNW = netWorthResult.data
         .slice(-1)[0]
-        ? (currency === 'USD' 
-            ? (netWorthResult.data.slice(-1)[0] as HistoricalNetWorth).amount_usd 
-            : (netWorthResult.data.slice(-1)[0] as HistoricalNetWorth).amount_gbp) || 0
+        ? fromGbpUsd(
+            (netWorthResult.data.slice(-1)[0] as HistoricalNetWorth).amount_gbp,
+            (netWorthResult.data.slice(-1)[0] as HistoricalNetWorth).amount_usd,
+            null,
+            (netWorthResult.data.slice(-1)[0] as HistoricalNetWorth).date
+          ) || 0
         : startNW
 
       // Calculate income (positive transactions)
       const income = allTransactions
         .filter((t: TransactionLog) => {
-          const amount = currency === 'USD' ? t.amount_usd : t.amount_gbp
+          const amount = fromGbpUsd(t.amount_gbp, t.amount_usd, t.amount_eur, t.date)
           return amount && amount > 0
         })
         .reduce((sum: number, t: TransactionLog) => {
-          const amount = currency === 'USD' ? t.amount_usd : t.amount_gbp
+          const amount = fromGbpUsd(t.amount_gbp, t.amount_usd, t.amount_eur, t.date)
           return sum + (amount || 0)
         }, 0)
 
@@ -122,11 +125,11 @@ export function YoYWaterfallChart() {
       const expenses = Math.abs(
         allTransactions
           .filter((t: TransactionLog) => {
-            const amount = currency === 'USD' ? t.amount_usd : t.amount_gbp
+            const amount = fromGbpUsd(t.amount_gbp, t.amount_usd, t.amount_eur, t.date)
             return amount && amount < 0
           })
           .reduce((sum: number, t: TransactionLog) => {
-            const amount = currency === 'USD' ? t.amount_usd : t.amount_gbp
+            const amount = fromGbpUsd(t.amount_gbp, t.amount_usd, t.amount_eur, t.date)
             return sum + (amount || 0)
           }, 0)
       )
@@ -148,7 +151,7 @@ export function YoYWaterfallChart() {
     }
 
     fetchData()
-  }, [currency])
+  }, [currency, ratesOn])
 
   const getBarColor = (type: string) => {
     switch (type) {
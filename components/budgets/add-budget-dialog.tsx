@@ -18,7 +18,7 @@ import { useCurrency } from '@/lib/contexts/currency-context'
 
 export function AddBudgetDialog() {
   const router = useRouter()
-  const { currency, fxRate } = useCurrency()
+  const { currency, fxRate, convertAmount } = useCurrency()
   const [open, setOpen] = useState(false)
   const [saving, setSaving] = useState(false)
 
@@ -50,9 +50,10 @@ export function AddBudgetDialog() {
       return
     }
 
-    // fxRate is GBP→USD: GBP * fxRate = USD
-    const gbp = currency === 'GBP' ? amount : fxRate ? amount / fxRate : amount
-    const usd = currency === 'USD' ? amount : fxRate ? amount * fxRate : amount
+    // perGbp is display units per GBP; fxRate is GBP→USD: GBP * fxRate = USD
+    const perGbp = convertAmount(1, 'GBP')
+    const gbp = perGbp ? amount / perGbp : amount
+    const usd = currency === 'USD' ? amount : gbp * fxRate
 
     setSaving(true)
     try {
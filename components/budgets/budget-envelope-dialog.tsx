@@ -0,0 +1,155 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { useCurrency } from '@/lib/contexts/currency-context'
+import type { BudgetEnvelope } from '@/lib/compute-budget-envelopes'
+import type { AllocationProfile } from '@/lib/utils/budget-envelopes'
+
+const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec']
+
+interface BudgetEnvelopeDialogProps {
+  envelope: BudgetEnvelope | null
+  year: number
+  onOpenChange: (open: boolean) => void
+  onSaved: () => void
+}
+
+/** Edit one category's monthly allocations and rollover. Amounts are entered in the display currency. */
+export function BudgetEnvelopeDialog({ envelope, year, onOpenChange, onSaved }: BudgetEnvelopeDialogProps) {
+  const { currency, convertAmount } = useCurrency()
+  const [values, setValues] = useState<string[]>([])
+  const [rollover, setRollover] = useState(false)
+  const [saving, setSaving] = useState(false)
+
+  // Display currency per 1 GBP (1 when showing GBP)
+  const perGbp = convertAmount(1, 'GBP')
+  const toDisplay = (gbp: number) => gbp * perGbp
+  const toGbp = (display: number) => (perGbp ? display / perGbp : display)
+
+  useEffect(() => {
+    if (!envelope) return
+    setValues(envelope.months.map((m) => String(Math.round(m.allocated * perGbp * 100) / 100)))
+    setRollover(envelope.rollover)
+  }, [envelope, perGbp])
+
+  if (!envelope) return null
+
+  const total = values.reduce((s, v) => s + (parseFloat(v) || 0), 0)
+
+  const save = async (body: { monthly_gbp?: number[]; profile?: AllocationProfile }) => {
+    setSaving(true)
+    try {
+      const res = await fetch('/api/budgets/envelopes', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ category: envelope.category, year, rollover, ...body }),
+      })
+      const result = await res.json()
+      if (!result.success) {
+        toast.error(result.error || 'Failed to save allocations')
+        return
+      }
+      onSaved()
+      onOpenChange(false)
+    } catch {
+      toast.error('Failed to save allocations')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleSave = () => {
+    const amounts = values.map((v) => parseFloat(v))
+    if (amounts.some((a) => isNaN(a) || a < 0)) {
+      toast.error('Enter an amount of 0 or more for every month')
+      return
+    }
+    void save({ monthly_gbp: amounts.map((a) => Math.round(toGbp(a) * 100) / 100) })
+  }
+
+  const handleReset = async () => {
+    setSaving(true)
+    try {
+      const params = new URLSearchParams({ category: envelope.category, year: String(year) })
+      const res = await fetch(`/api/budgets/envelopes?${params}`, { method: 'DELETE' })
+      const result = await res.json()
+      if (!result.success) {
+        toast.error(result.error || 'Failed to reset allocations')
+        return
+      }
+      onSaved()
+      onOpenChange(false)
+    } catch {
+      toast.error('Failed to reset allocations')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const formatAmount = (value: number) =>
+    new Intl.NumberFormat('en-US', { style: 'currency', currency, maximumFractionDigits: 0 }).format(value)
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>
+            {envelope.category} · {year}
+          </DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+            {MONTH_LABELS.map((label, i) => (
+              <div key={label} className="space-y-1">
+                <Label htmlFor={`envelope-month-${i}`} className="text-xs">{label}</Label>
+                <Input
+                  id={`envelope-month-${i}`}
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={values[i] ?? ''}
+                  onChange={(e) => setValues((prev) => prev.map((v, j) => (j === i ? e.target.value : v)))}
+                  className="h-8"
+                />
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Allocated {formatAmount(total)} of {formatAmount(toDisplay(envelope.annualBudget))} annual budget
+          </p>
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" size="sm" disabled={saving} onClick={() => save({ profile: 'even' })}>
+              Even split
+            </Button>
+            <Button variant="outline" size="sm" disabled={saving} onClick={() => save({ profile: 'seasonal' })}>
+              Copy last year&apos;s pattern
+            </Button>
+          </div>
+          <div className="flex items-start gap-3">
+            <Checkbox id="envelope-rollover" checked={rollover} onCheckedChange={(v) => setRollover(v === true)} />
+            <div className="space-y-1">
+              <Label htmlFor="envelope-rollover">Roll over unspent money</Label>
+              <p className="text-xs text-muted-foreground">
+                What is left at the end of a month is added to the next one; overspending is taken from it.
+              </p>
+            </div>
+          </div>
+          <div className="flex justify-between gap-2">
+            <Button variant="ghost" disabled={saving || !envelope.customised} onClick={handleReset}>
+              Reset
+            </Button>
+            <Button disabled={saving} onClick={handleSave}>
+              {saving ? 'Saving…' : 'Save'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
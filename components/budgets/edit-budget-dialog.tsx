@@ -44,20 +44,20 @@ export function EditBudgetDialog() {
   const [newInvestmentAmount, setNewInvestmentAmount] = useState('')
   const [saving, setSaving] = useState(false)
 
+  // Display currency back to GBP; convertAmount(1, 'GBP') is display units per GBP
+  const toGbp = (amount: number) => {
+    const perGbp = convertAmount(1, 'GBP')
+    return perGbp ? amount / perGbp : amount
+  }
+
   // Match Dashboard logic: always read from GBP and convert to display currency
   const getDisplayAmount = (budget: BudgetTarget) => {
-    const raw = currency === 'USD'
-      ? convertAmount(budget.annual_budget_gbp, 'GBP', fxRate)
-      : budget.annual_budget_gbp
-    return Math.round(raw)
+    return Math.round(convertAmount(budget.annual_budget_gbp, 'GBP'))
   }
 
   // Convert investment return GBP amount to display currency
   const getInvestmentDisplayAmount = (ir: InvestmentReturn) => {
-    const raw = currency === 'USD'
-      ? convertAmount(ir.amount_gbp || 0, 'GBP', fxRate)
-      : (ir.amount_gbp || 0)
-    return Math.round(raw)
+    return Math.round(convertAmount(ir.amount_gbp || 0, 'GBP'))
   }
 
   const fetchData = useCallback(async () => {
@@ -139,8 +139,8 @@ export function EditBudgetDialog() {
     const signedAmount = isIncome ? Math.abs(amount) : -Math.abs(amount)
 
     // fxRate is GBP→USD
-    const gbp = currency === 'GBP' ? signedAmount : fxRate ? signedAmount / fxRate : signedAmount
-    const usd = currency === 'USD' ? signedAmount : fxRate ? signedAmount * fxRate : signedAmount
+    const gbp = toGbp(signedAmount)
+    const usd = currency === 'USD' ? signedAmount : gbp * fxRate
 
     setSaving(true)
     try {
@@ -177,7 +177,7 @@ export function EditBudgetDialog() {
     }
 
     // Convert display currency back to GBP for storage
-    const gbpAmount = currency === 'GBP' ? amount : fxRate ? amount / fxRate : amount
+    const gbpAmount = toGbp(amount)
 
     setSaving(true)
     try {
@@ -256,8 +256,8 @@ export function EditBudgetDialog() {
     const isIncome = newCategory === 'Income' || newCategory === 'Gift Money'
     const signedAmount = isIncome ? Math.abs(amount) : -Math.abs(amount)
 
-    const gbp = currency === 'GBP' ? signedAmount : fxRate ? signedAmount / fxRate : signedAmount
-    const usd = currency === 'USD' ? signedAmount : fxRate ? signedAmount * fxRate : signedAmount
+    const gbp = toGbp(signedAmount)
+    const usd = currency === 'USD' ? signedAmount : gbp * fxRate
 
     setSaving(true)
     try {
@@ -299,7 +299,7 @@ export function EditBudgetDialog() {
     }
 
     // Convert display currency back to GBP for storage
-    const gbpAmount = currency === 'GBP' ? amount : fxRate ? amount / fxRate : amount
+    const gbpAmount = toGbp(amount)
 
     setSaving(true)
     try {
@@ -3,6 +3,7 @@
 import { useState, useEffect } from 'react'
 import { useCurrency } from '@/lib/contexts/currency-context'
 import { Button } from '@/components/ui/button'
+import { DISPLAY_CURRENCIES } from '@/lib/utils/currency'
 
 export function CurrencyToggle() {
   const { currency, setCurrency } = useCurrency()
@@ -14,36 +15,24 @@ export function CurrencyToggle() {
 
   return (
     <div className="flex items-center gap-1 md:gap-2">
-      <Button
-        variant={currency === 'GBP' ? 'default' : 'outline'}
-        size="sm"
-        onClick={() => setCurrency('GBP')}
-        className="text-xs md:text-sm px-2 md:px-3"
-      >
-        {mounted ? (
-          <>
-            <span className="hidden sm:inline">£ GBP</span>
-            <span className="sm:hidden">£</span>
-          </>
-        ) : (
-          <span>£ GBP</span>
-        )}
-      </Button>
-      <Button
-        variant={currency === 'USD' ? 'default' : 'outline'}
-        size="sm"
-        onClick={() => setCurrency('USD')}
-        className="text-xs md:text-sm px-2 md:px-3"
-      >
-        {mounted ? (
-          <>
-            <span className="hidden sm:inline">$ USD</span>
-            <span className="sm:hidden">$</span>
-          </>
-        ) : (
-          <span>$ USD</span>
-        )}
-      </Button>
+      {DISPLAY_CURRENCIES.map((c) => (
+        <Button
+          key={c.id}
+          variant={currency === c.id ? 'default' : 'outline'}
+          size="sm"
+          onClick={() => setCurrency(c.id)}
+          className="text-xs md:text-sm px-2 md:px-3"
+        >
+          {mounted ? (
+            <>
+              <span className="hidden sm:inline">{c.label}</span>
+              <span className="sm:hidden">{c.symbol}</span>
+            </>
+          ) : (
+            <span>{c.label}</span>
+          )}
+        </Button>
+      ))}
     </div>
   )
 }
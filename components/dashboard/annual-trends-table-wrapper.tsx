@@ -1,7 +1,7 @@
 import { createClient } from '@/lib/supabase/server'
 import { AnnualTrendsTable } from '@/components/analysis/annual-trends-table'
 import { AnnualTrend } from '@/lib/types'
-import { endOfYear, type RatesByYear } from '@/lib/utils/fx-rates'
+import { buildGetRateForDate, endOfYear, fetchCurrentFxRates, type RatesByYear } from '@/lib/utils/fx-rates'
 
 async function fetchAnnualTrendsData() {
   const supabase = await createClient()
@@ -11,7 +11,7 @@ async function fetchAnnualTrendsData() {
     supabase.from('annual_trends').select('*').order('category'),
     supabase
       .from('fx_rates')
-      .select('date, gbpusd_rate')
+      .select('date, gbpusd_rate, eurusd_rate')
       .gte('date', endOfYear(currentYear - 4))
       .lte('date', endOfYear(currentYear))
       .order('date', { ascending: true }),
@@ -24,7 +24,7 @@ async function fetchAnnualTrendsData() {
 
   // Build year -> rate (rate at end of that year: EoY date or most recent prior)
   const ratesByYear: RatesByYear = {}
-  const rows = (fxRatesResult.data || []) as { date: string; gbpusd_rate: number | null }[]
+  const rows = (fxRatesResult.data || []) as { date: string; gbpusd_rate: number | null; eurusd_rate: number | null }[]
   const dateToRate = new Map<string, number>()
   rows.forEach((r) => {
     const d = (r.date || '').split('T')[0]
@@ -42,16 +42,32 @@ async function fetchAnnualTrendsData() {
     for (let y = currentYear - 4; y <= currentYear; y++) ratesByYear[y] = r
   }
 
+  // Same for EURUSD, falling back to the current rate
+  const eurDateToRate = new Map<string, number>()
+  rows.forEach((r) => {
+    if (r.eurusd_rate != null && r.eurusd_rate > 0) eurDateToRate.set((r.date || '').split('T')[0], r.eurusd_rate)
+  })
+  const eurRateFor = buildGetRateForDate(eurDateToRate, (await fetchCurrentFxRates(supabase)).eurusd)
+  const eurRatesByYear: RatesByYear = {}
+  for (let y = currentYear - 4; y <= currentYear; y++) eurRatesByYear[y] = eurRateFor(endOfYear(y))
+
   return {
     trends: trendsResult.data as AnnualTrend[],
     ratesByYear,
+    eurRatesByYear,
   }
 }
 
 export async function AnnualTrendsTableWrapper() {
   try {
-    const { trends, ratesByYear } = await fetchAnnualTrendsData()
-    return <AnnualTrendsTable initialData={trends} initialRatesByYear={ratesByYear} />
+    const { trends, ratesByYear, eurRatesByYear } = await fetchAnnualTrendsData()
+    return (
+      <AnnualTrendsTable
+        initialData={trends}
+        initialRatesByYear={ratesByYear}
+        initialEurRatesByYear={eurRatesByYear}
+      />
+    )
   } catch (error) {
     return (
       <div className="text-sm text-destructive p-4">
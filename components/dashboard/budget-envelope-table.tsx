@@ -0,0 +1,225 @@
+'use client'
+
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Skeleton } from '@/components/ui/skeleton'
+import { EmptyState } from '@/components/ui/empty-state'
+import { Button } from '@/components/ui/button'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { useCurrency } from '@/lib/contexts/currency-context'
+import { cn } from '@/utils/cn'
+import { AlertCircle, ChevronLeft, ChevronRight, Pencil, Repeat } from 'lucide-react'
+import { BudgetEnvelopeDialog } from '@/components/budgets/budget-envelope-dialog'
+import type { BudgetEnvelope } from '@/lib/compute-budget-envelopes'
+
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+]
+
+const compactTableClass = '[&_th]:h-8 [&_th]:px-2 [&_th]:py-1 [&_th]:text-xs [&_th]:uppercase [&_th]:tracking-wider [&_th]:font-medium [&_td]:h-8 [&_td]:px-2 [&_td]:py-1 [&_td]:text-[13px] [&_td]:tabular-nums'
+
+/**
+ * Monthly (envelope) view of expense budgets: per category the month's allocation, what was
+ * carried over from the month before, what was spent and what is still available.
+ */
+export function BudgetEnvelopeTable() {
+  const { currency, convertAmount } = useCurrency()
+  const today = new Date()
+  const year = today.getFullYear()
+  const [month, setMonth] = useState(today.getMonth() + 1)
+  const [envelopes, setEnvelopes] = useState<BudgetEnvelope[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [editing, setEditing] = useState<BudgetEnvelope | null>(null)
+
+  const fetchEnvelopes = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/budgets/envelopes?year=${year}`)
+      const result = await res.json()
+      if (!result.success) throw new Error(result.error)
+      setEnvelopes(result.data.envelopes ?? [])
+      setError(null)
+    } catch (err) {
+      console.error('Error fetching budget envelopes:', err)
+      setError('Failed to load monthly budgets. Please try refreshing the page.')
+    } finally {
+      setLoading(false)
+    }
+  }, [year])
+
+  useEffect(() => {
+    void fetchEnvelopes()
+  }, [fetchEnvelopes])
+
+  // Envelopes are in GBP
+  const toDisplay = (gbp: number) => convertAmount(gbp, 'GBP')
+
+  const rows = useMemo(
+    () =>
+      envelopes
+        .map((e) => ({ envelope: e, ...e.months[month - 1] }))
+        .filter((r) => r.allocated !== 0 || r.spent !== 0 || r.carriedOver !== 0),
+    [envelopes, month]
+  )
+
+  const totals = useMemo(
+    () =>
+      rows.reduce(
+        (acc, r) => ({
+          allocated: acc.allocated + r.allocated,
+          carriedOver: acc.carriedOver + r.carriedOver,
+          spent: acc.spent + r.spent,
+          available: acc.available + r.available,
+        }),
+        { allocated: 0, carriedOver: 0, spent: 0, available: 0 }
+      ),
+    [rows]
+  )
+
+  const formatAmount = (gbp: number) =>
+    new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency,
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0,
+    }).format(toDisplay(gbp))
+
+  if (loading) {
+    return (
+      <Card>
+        <CardHeader className="bg-muted/50">
+          <Skeleton className="h-6 w-40" />
+        </CardHeader>
+        <CardContent className="pt-6 space-y-2">
+          {[1, 2, 3, 4, 5].map((i) => (
+            <Skeleton key={i} className="h-4 w-full" />
+          ))}
+        </CardContent>
+      </Card>
+    )
+  }
+
+  if (error) {
+    return (
+      <Card>
+        <CardContent className="pt-6">
+          <EmptyState icon={AlertCircle} title="Error loading monthly budgets" description={error} />
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <Card>
+      <CardHeader className="bg-muted/50 px-4 py-3 pb-4">
+        <div className="flex items-center justify-between gap-2 flex-wrap">
+          <CardTitle className="text-base">Monthly Envelopes</CardTitle>
+          <div className="flex items-center gap-1">
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 w-7 p-0"
+              disabled={month === 1}
+              onClick={() => setMonth((m) => m - 1)}
+              aria-label="Previous month"
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span className="text-sm font-medium w-32 text-center">
+              {MONTH_NAMES[month - 1]} {year}
+            </span>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 w-7 p-0"
+              disabled={month === 12}
+              onClick={() => setMonth((m) => m + 1)}
+              aria-label="Next month"
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="pt-2">
+        {rows.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">No expense budgets for this month.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table className={compactTableClass}>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Category</TableHead>
+                  <TableHead className="text-right">Allocated</TableHead>
+                  <TableHead className="text-right">Carried over</TableHead>
+                  <TableHead className="text-right">Spent</TableHead>
+                  <TableHead className="text-right">Available</TableHead>
+                  <TableHead className="w-8" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map((r) => (
+                  <TableRow key={r.envelope.category}>
+                    <TableCell className="font-medium">
+                      <span className="inline-flex items-center gap-1.5">
+                        {r.envelope.category}
+                        {r.envelope.rollover && (
+                          <Repeat className="h-3 w-3 text-muted-foreground" aria-label="Rollover on" />
+                        )}
+                      </span>
+                    </TableCell>
+                    <TableCell className="text-right">{formatAmount(r.allocated)}</TableCell>
+                    <TableCell className="text-right text-muted-foreground">
+                      {r.envelope.rollover ? formatAmount(r.carriedOver) : '-'}
+                    </TableCell>
+                    <TableCell className="text-right">{formatAmount(r.spent)}</TableCell>
+                    <TableCell
+                      className={cn('text-right font-medium', r.available >= 0 ? 'text-green-600' : 'text-red-600')}
+                    >
+                      {formatAmount(r.available)}
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 w-6 p-0"
+                        onClick={() => setEditing(r.envelope)}
+                        aria-label={`Edit ${r.envelope.category} allocations`}
+                      >
+                        <Pencil className="h-3 w-3" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+                <TableRow className="font-semibold border-t-2">
+                  <TableCell>Total</TableCell>
+                  <TableCell className="text-right">{formatAmount(totals.allocated)}</TableCell>
+                  <TableCell className="text-right">{formatAmount(totals.carriedOver)}</TableCell>
+                  <TableCell className="text-right">{formatAmount(totals.spent)}</TableCell>
+                  <TableCell className={cn('text-right', totals.available >= 0 ? 'text-green-600' : 'text-red-600')}>
+                    {formatAmount(totals.available)}
+                  </TableCell>
+                  <TableCell />
+                </TableRow>
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+      <BudgetEnvelopeDialog
+        envelope={editing}
+        year={year}
+        onOpenChange={(open) => !open && setEditing(null)}
+        onSaved={fetchEnvelopes}
+      />
+    </Card>
+  )
+}
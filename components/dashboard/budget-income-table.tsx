@@ -11,6 +11,7 @@ import {
   TableRow,
 } from '@/components/ui/table'
 import { useCurrency } from '@/lib/contexts/currency-context'
+import { getCurrencySymbol } from '@/lib/utils/currency'
 import { cn } from '@/utils/cn'
 import { ArrowUpDown, ArrowUp, ArrowDown, DollarSign, CheckCircle2, XCircle, TrendingUp, TrendingDown } from 'lucide-react'
 
@@ -94,13 +95,13 @@ export function BudgetIncomeTable({
   const formatCurrency = (value: number) => {
     // Always format as £0.0k (divide by 1000, show 1 decimal place)
     const valueInK = value / 1000
-    const currencySymbol = currency === 'USD' ? '$' : '£'
+    const currencySymbol = getCurrencySymbol(currency)
     return `${currencySymbol}${valueInK.toFixed(1)}k`
   }
 
   const formatCurrencyLarge = (value: number) => {
     const valueInM = Math.abs(value) / 1000000
-    const currencySymbol = currency === 'USD' ? '$' : '£'
+    const currencySymbol = getCurrencySymbol(currency)
     if (valueInM >= 1) {
       return `${currencySymbol}${valueInM.toFixed(1)}M`
     }
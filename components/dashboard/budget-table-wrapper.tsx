@@ -1,18 +1,19 @@
 import { createClient } from '@/lib/supabase/server'
 import { BudgetTable } from './budget-table'
-import { BudgetTarget } from '@/lib/types'
+import { computeBudgetEstimates } from '@/lib/compute-budget-estimates'
 
 async function fetchBudgetData() {
   const supabase = await createClient()
-  
-  const { data, error } = await supabase.from('budget_targets').select('*')
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) throw new Error('Not signed in')
 
-  if (error) {
+  try {
+    // YTD and tracking come from transaction_log with the user's forecast method, not the sheet
+    return (await computeBudgetEstimates(supabase, user.id)).budgets
+  } catch (error) {
     console.error('Error fetching budget data:', error)
     throw new Error('Failed to load budget data')
   }
-
-  return data as BudgetTarget[]
 }
 
 export async function BudgetTableWrapper() {
@@ -13,6 +13,7 @@ import {
   TableRow,
 } from '@/components/ui/table'
 import { useCurrency } from '@/lib/contexts/currency-context'
+import { getCurrencySymbol } from '@/lib/utils/currency'
 import { createClient } from '@/lib/supabase/client'
 import { BudgetTarget } from '@/lib/types'
 import { cn } from '@/utils/cn'
@@ -22,6 +23,7 @@ import { ArrowUpDown, ArrowUp, ArrowDown, AlertCircle, Receipt, CheckCircle2, XC
 import { Button } from '@/components/ui/button'
 import { BudgetSummaryTable } from './budget-summary-table'
 import { BudgetIncomeTable } from './budget-income-table'
+import { BudgetEnvelopeTable } from './budget-envelope-table'
 import { EditBudgetDialog } from '@/components/budgets/edit-budget-dialog'
 
 type SortField = 'category' | 'annualBudget' | 'tracking' | 'ytd' | 'gap'
@@ -32,7 +34,7 @@ interface BudgetTableProps {
 }
 
 export function BudgetTable({ initialData }: BudgetTableProps = {}) {
-  const { currency, fxRate, convertAmount } = useCurrency()
+  const { currency, convertAmount } = useCurrency()
   const [data, setData] = useState<any[]>([])
   const [loading, setLoading] = useState(!initialData)
   const [error, setError] = useState<string | null>(null)
@@ -42,28 +44,21 @@ export function BudgetTable({ initialData }: BudgetTableProps = {}) {
   const [incomeSortDirection, setIncomeSortDirection] = useState<SortDirection>('asc')
   const [expensesExpanded, setExpensesExpanded] = useState(false)
   const [expenseFullView, setExpenseFullView] = useState(false)
+  // Monthly shows envelopes (allocation, carry-over, spent, available) instead of the annual tables
+  const [view, setView] = useState<'annual' | 'monthly'>('annual')
   const [historyForecastSpend, setHistoryForecastSpend] = useState<{
     dayAgo: Record<string, number>
     weekAgo: Record<string, number>
     monthAgo: Record<string, number>
   }>({ dayAgo: {}, weekAgo: {}, monthAgo: {} })
 
-  // Process data: always use GBP from data; convert to USD with current FX when currency is USD (matches Key Insights)
+  // Process data: always use GBP from data; convert to the display currency with current FX (matches Key Insights)
   const processData = useCallback(
     (budgets: BudgetTarget[]) => {
       return budgets.map((budget) => {
-        const annualBudget =
-          currency === 'USD'
-            ? convertAmount(budget.annual_budget_gbp, 'GBP', fxRate)
-            : budget.annual_budget_gbp
-        const tracking =
-          currency === 'USD'
-            ? convertAmount(budget.tracking_est_gbp, 'GBP', fxRate)
-            : budget.tracking_est_gbp
-        const ytd =
-          currency === 'USD'
-            ? convertAmount(budget.ytd_gbp, 'GBP', fxRate)
-            : budget.ytd_gbp
+        const annualBudget = convertAmount(budget.annual_budget_gbp, 'GBP')
+        const tracking = convertAmount(budget.tracking_est_gbp, 'GBP')
+        const ytd = convertAmount(budget.ytd_gbp, 'GBP')
 
         // Gap = Tracking - Budget (for all categories)
         const gap = tracking - annualBudget
@@ -77,7 +72,7 @@ export function BudgetTable({ initialData }: BudgetTableProps = {}) {
         }
       })
     },
-    [currency, fxRate, convertAmount]
+    [convertAmount]
   )
 
   useEffect(() => {
@@ -92,23 +87,18 @@ export function BudgetTable({ initialData }: BudgetTableProps = {}) {
     // Otherwise fetch fresh data
     async function fetchData() {
       setLoading(true)
-      const supabase = createClient()
-      
-      const budgetsResult = await supabase.from('budget_targets').select('*')
-
-      if (budgetsResult.error) {
-        console.error('Error fetching budget data:', budgetsResult.error)
+      try {
+        const res = await fetch('/api/budgets/estimates')
+        const result = await res.json()
+        if (!result.success) throw new Error(result.error)
+        setError(null)
+        setData(processData(result.data.budgets as BudgetTarget[]))
+      } catch (err) {
+        console.error('Error fetching budget data:', err)
         setError('Failed to load budget data. Please try refreshing the page.')
+      } finally {
         setLoading(false)
-        return
       }
-      
-      setError(null)
-
-      const budgets = budgetsResult.data as BudgetTarget[]
-      const joined = processData(budgets)
-      setData(joined)
-      setLoading(false)
     }
 
     fetchData()
@@ -337,13 +327,13 @@ export function BudgetTable({ initialData }: BudgetTableProps = {}) {
   const formatCurrencyCompact = (value: number) => {
     // Always format as £0.0k (divide by 1000, show 1 decimal place)
     const valueInK = value / 1000
-    const currencySymbol = currency === 'USD' ? '$' : '£'
+    const currencySymbol = getCurrencySymbol(currency)
     return `${currencySymbol}${valueInK.toFixed(1)}k`
   }
 
   const formatCurrencyLarge = (value: number) => {
     const valueInM = Math.abs(value) / 1000000
-    const currencySymbol = currency === 'USD' ? '$' : '£'
+    const currencySymbol = getCurrencySymbol(currency)
     if (valueInM >= 1) {
       return `${currencySymbol}${valueInM.toFixed(1)}M`
     }
@@ -468,12 +458,35 @@ export function BudgetTable({ initialData }: BudgetTableProps = {}) {
     )
   }
 
-  return (
-    <div className="space-y-3">
-      <div className="flex items-center justify-between">
-        <h2 className="text-lg font-semibold">Budget Tracker</h2>
+  const header = (
+    <div className="flex items-center justify-between gap-2 flex-wrap">
+      <h2 className="text-lg font-semibold">Budget Tracker</h2>
+      <div className="flex items-center gap-2">
+        <div className="flex items-center gap-1">
+          <Button variant={view === 'annual' ? 'default' : 'outline'} size="sm" onClick={() => setView('annual')}>
+            Annual
+          </Button>
+          <Button variant={view === 'monthly' ? 'default' : 'outline'} size="sm" onClick={() => setView('monthly')}>
+            Monthly
+          </Button>
+        </div>
         <EditBudgetDialog />
       </div>
+    </div>
+  )
+
+  if (view === 'monthly') {
+    return (
+      <div className="space-y-3">
+        {header}
+        <BudgetEnvelopeTable />
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-3">
+      {header}
       {/* Summary Table */}
       <BudgetSummaryTable incomeData={incomeData} expenseData={expenseData} />
 
@@ -825,7 +838,7 @@ export function BudgetTable({ initialData }: BudgetTableProps = {}) {
                       const forecastMonth = historyForecastSpend.monthAgo[row.category]
                       const changeInGap = (historicalForecastGbp: number | undefined) => {
                         if (historicalForecastGbp === undefined) return undefined
-                        const historicalInDisplayCurrency = currency === 'USD' ? convertAmount(historicalForecastGbp, 'GBP', fxRate) : historicalForecastGbp
+                        const historicalInDisplayCurrency = convertAmount(historicalForecastGbp, 'GBP')
                         return row.tracking - historicalInDisplayCurrency
                       }
                       const renderChangeInGap = (delta: number | undefined) => {
@@ -3,6 +3,7 @@
 import { useEffect, useState } from 'react'
 import { createClient } from '@/lib/supabase/client'
 import { useCurrency } from '@/lib/contexts/currency-context'
+import { getCurrencySymbol } from '@/lib/utils/currency'
 import { LineChart, Receipt, Calendar, CalendarDays, ChevronRight } from 'lucide-react'
 import { Skeleton } from '@/components/ui/skeleton'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
@@ -38,7 +39,7 @@ const SECTIONS_BASE: Section[] = [
 ]
 
 export function DashboardAtAGlance() {
-  const { currency, fxRate, convertAmount } = useCurrency()
+  const { currency, fromGbpUsd, fxRate, convertAmount } = useCurrency()
   const [loading, setLoading] = useState(true)
   const [data, setData] = useState<{
     netWorth: number | null
@@ -63,7 +64,7 @@ export function DashboardAtAGlance() {
       if (nwRes.data?.length) {
         const byYear = (nwRes.data as HistoricalNetWorth[]).reduce<Record<number, number>>((acc, item) => {
           const year = new Date(item.date).getFullYear()
-          const amt = currency === 'USD' ? (item.amount_usd ?? 0) : (item.amount_gbp ?? 0)
+          const amt = fromGbpUsd(item.amount_gbp, item.amount_usd, null, item.date)
           acc[year] = (acc[year] ?? 0) + amt
           return acc
         }, {})
@@ -72,7 +73,7 @@ export function DashboardAtAGlance() {
         
         // Check if there's any Trust data
         hasTrustData = (nwRes.data as HistoricalNetWorth[]).some(
-          (item) => item.category === 'Trust' && Math.abs(currency === 'USD' ? (item.amount_usd ?? 0) : (item.amount_gbp ?? 0)) > 0
+          (item) => item.category === 'Trust' && Math.abs(fromGbpUsd(item.amount_gbp, item.amount_usd, null, item.date)) > 0
         )
       }
       let incomeTotal = 0
@@ -81,8 +82,8 @@ export function DashboardAtAGlance() {
       let expensesBudget = 0
       if (budgetRes.data?.length) {
         budgetRes.data.forEach((row: { category: string; annual_budget_gbp: number; tracking_est_gbp: number }) => {
-          const tracking = currency === 'USD' ? convertAmount(row.tracking_est_gbp, 'GBP', fxRate) : row.tracking_est_gbp
-          const budget = currency === 'USD' ? convertAmount(row.annual_budget_gbp, 'GBP', fxRate) : row.annual_budget_gbp
+          const tracking = convertAmount(row.tracking_est_gbp, 'GBP')
+          const budget = convertAmount(row.annual_budget_gbp, 'GBP')
           if (row.category === 'Income' || row.category === 'Gift Money') {
             incomeTotal += Math.abs(tracking)
             incomeBudget += Math.abs(budget)
@@ -116,7 +117,7 @@ export function DashboardAtAGlance() {
     if (abs >= 1_000) return `${(value / 1_000).toFixed(1)}k`
     return value.toFixed(0)
   }
-  const symbol = currency === 'USD' ? '$' : '£'
+  const symbol = getCurrencySymbol(currency)
 
   const getCardContent = (sectionId: string) => {
     if (sectionId === 'net-worth-chart') {
@@ -1,11 +1,13 @@
 import { createClient } from '@/lib/supabase/server'
 import { IncomeVsExpensesChart, type IncomeVsExpensesChartInitialData } from './income-vs-expenses-chart'
+import { applyBudgetYtdAdjustments, fetchBudgetYtdAdjustments } from '@/lib/utils/budget-adjustments'
 
 async function fetchIncomeVsExpensesData(): Promise<IncomeVsExpensesChartInitialData> {
   const supabase = await createClient()
-  const [budgetsRes, investmentRes] = await Promise.all([
+  const [budgetsRes, investmentRes, adjustments] = await Promise.all([
     supabase.from('budget_targets').select('*'),
     supabase.from('investment_return').select('*'),
+    fetchBudgetYtdAdjustments(supabase),
   ])
   if (budgetsRes.error) {
     throw new Error(budgetsRes.error.message)
@@ -14,7 +16,8 @@ async function fetchIncomeVsExpensesData(): Promise<IncomeVsExpensesChartInitial
     throw new Error(investmentRes.error.message)
   }
   return {
-    budgets: (budgetsRes.data ?? []) as IncomeVsExpensesChartInitialData['budgets'],
+    // Internal transfers are neither income nor expenses
+    budgets: applyBudgetYtdAdjustments((budgetsRes.data ?? []) as IncomeVsExpensesChartInitialData['budgets'], adjustments),
     investmentReturns: (investmentRes.data ?? []) as IncomeVsExpensesChartInitialData['investmentReturns'],
   }
 }
@@ -12,8 +12,11 @@ import { useChartTheme } from '@/lib/hooks/use-chart-theme'
 import { getChartFontSizes } from '@/lib/chart-styles'
 import { createClient } from '@/lib/supabase/client'
 import { BudgetTarget, InvestmentReturn } from '@/lib/types'
+import { applyBudgetYtdAdjustments, fetchBudgetYtdAdjustments } from '@/lib/utils/budget-adjustments'
 import { AlertCircle } from 'lucide-react'
 import { AddTransactionDialog } from '@/components/transactions/add-transaction-dialog'
+import { ImportCsvDialog } from '@/components/transactions/import-csv-dialog'
+import { ImportOfxDialog } from '@/components/transactions/import-ofx-dialog'
 import {
   BarChart,
   Bar,
@@ -42,7 +45,7 @@ interface IncomeVsExpensesChartProps {
 }
 
 export function IncomeVsExpensesChart({ initialData }: IncomeVsExpensesChartProps = {}) {
-  const { currency, fxRate } = useCurrency()
+  const { currency, convertAmount } = useCurrency()
   const hasInitial = Boolean(initialData)
   const [loading, setLoading] = useState(!hasInitial)
   const [error, setError] = useState<string | null>(null)
@@ -70,9 +73,10 @@ export function IncomeVsExpensesChart({ initialData }: IncomeVsExpensesChartProp
     async function fetchData() {
       setLoading(true)
       const supabase = createClient()
-      const [budgetsRes, investmentRes] = await Promise.all([
+      const [budgetsRes, investmentRes, adjustments] = await Promise.all([
         supabase.from('budget_targets').select('*'),
         supabase.from('investment_return').select('*'),
+        fetchBudgetYtdAdjustments(supabase),
       ])
       if (budgetsRes.error) {
         setError(budgetsRes.error.message)
@@ -84,7 +88,8 @@ export function IncomeVsExpensesChart({ initialData }: IncomeVsExpensesChartProp
         setLoading(false)
         return
       }
-      const budgetList = (budgetsRes.data as BudgetTarget[]) || []
+      // Internal transfers are neither income nor expenses
+      const budgetList = applyBudgetYtdAdjustments((budgetsRes.data as BudgetTarget[]) || [], adjustments)
       const investmentList = (investmentRes.data as InvestmentReturn[]) || []
       setBudgets(budgetList)
       setInvestmentReturns(investmentList)
@@ -100,7 +105,7 @@ export function IncomeVsExpensesChart({ initialData }: IncomeVsExpensesChartProp
   }, [hasInitial, retryCount, initialData])
 
   const chartData = useMemo(() => {
-    const toDisplay = (gbp: number) => (currency === 'USD' ? gbp * fxRate : gbp)
+    const toDisplay = (gbp: number) => convertAmount(gbp, 'GBP')
     let investmentIncome = 0
     if (includeInvestmentIncome) {
       investmentReturns.forEach((r) => {
@@ -111,7 +116,7 @@ export function IncomeVsExpensesChart({ initialData }: IncomeVsExpensesChartProp
     let giftMoney = 0
     let expenses = 0
     budgets.forEach((b) => {
-      const tracking = currency === 'USD' ? (b.tracking_est_gbp ?? 0) * fxRate : (b.tracking_est_gbp ?? 0)
+      const tracking = convertAmount(b.tracking_est_gbp ?? 0, 'GBP')
       if (b.category === 'Income') income += Math.abs(tracking)
       else if (b.category === 'Gift Money') giftMoney += Math.abs(tracking)
       else expenses += Math.abs(tracking)
@@ -132,7 +137,7 @@ export function IncomeVsExpensesChart({ initialData }: IncomeVsExpensesChartProp
         'Expenses': Math.round(expenses),
       },
     ]
-  }, [budgets, investmentReturns, currency, fxRate, includeInvestmentIncome])
+  }, [budgets, investmentReturns, currency, convertAmount, includeInvestmentIncome])
 
   if (loading) {
     return (
@@ -188,7 +193,11 @@ export function IncomeVsExpensesChart({ initialData }: IncomeVsExpensesChartProp
         <CardHeader className="bg-muted/50">
           <div className="flex items-center justify-between gap-2">
             <CardTitle className="text-xl">Est. Income & Expenses</CardTitle>
-            <AddTransactionDialog />
+            <div className="flex items-center gap-2">
+              <ImportCsvDialog />
+              <ImportOfxDialog />
+              <AddTransactionDialog />
+            </div>
           </div>
           <p className="text-sm text-muted-foreground mt-1">For {new Date().getFullYear()} (All amounts are after tax)</p>
         </CardHeader>
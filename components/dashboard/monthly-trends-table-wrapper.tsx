@@ -1,7 +1,7 @@
 import { createClient } from '@/lib/supabase/server'
 import { MonthlyTrendsTable } from './monthly-trends-table'
 import { MonthlyTrend } from '@/lib/types'
-import { endOfMonth, type RatesByMonthOffset } from '@/lib/utils/fx-rates'
+import { buildGetRateForDate, endOfMonth, fetchCurrentFxRates, type RatesByMonthOffset } from '@/lib/utils/fx-rates'
 
 async function fetchMonthlyTrendsData() {
   const supabase = await createClient()
@@ -27,7 +27,7 @@ async function fetchMonthlyTrendsData() {
     supabase.from('monthly_trends').select('*').order('category'),
     supabase
       .from('fx_rates')
-      .select('date, gbpusd_rate')
+      .select('date, gbpusd_rate, eurusd_rate')
       .gte('date', eom3)
       .lte('date', eom0)
       .order('date', { ascending: true }),
@@ -39,7 +39,7 @@ async function fetchMonthlyTrendsData() {
     throw new Error('Failed to load monthly trends data')
   }
 
-  const rows = (fxRatesResult.data || []) as { date: string; gbpusd_rate: number | null }[]
+  const rows = (fxRatesResult.data || []) as { date: string; gbpusd_rate: number | null; eurusd_rate: number | null }[]
   const dateToRate = new Map<string, number>()
   rows.forEach((r) => {
     const d = (r.date || '').split('T')[0]
@@ -58,16 +58,32 @@ async function fetchMonthlyTrendsData() {
     minus3: sortedDates.length ? getRate(eom3) : currentRate,
   }
 
+  // Same for EURUSD, falling back to the current rate
+  const eurDateToRate = new Map<string, number>()
+  rows.forEach((r) => {
+    if (r.eurusd_rate != null && r.eurusd_rate > 0) eurDateToRate.set((r.date || '').split('T')[0], r.eurusd_rate)
+  })
+  const eurRateFor = buildGetRateForDate(eurDateToRate, (await fetchCurrentFxRates(supabase)).eurusd)
+  const eurRatesByMonth: RatesByMonthOffset = {
+    current: eurRateFor(eom0),
+    minus1: eurRateFor(eom1),
+    minus2: eurRateFor(eom2),
+    minus3: eurRateFor(eom3),
+  }
+
   return {
     data: trendsResult.data as MonthlyTrend[],
     ratesByMonth,
+    eurRatesByMonth,
   }
 }
 
 export async function MonthlyTrendsTableWrapper() {
   try {
-    const { data, ratesByMonth } = await fetchMonthlyTrendsData()
-    return <MonthlyTrendsTable initialData={data} initialRatesByMonth={ratesByMonth} />
+    const { data, ratesByMonth, eurRatesByMonth } = await fetchMonthlyTrendsData()
+    return (
+      <MonthlyTrendsTable initialData={data} initialRatesByMonth={ratesByMonth} initialEurRatesByMonth={eurRatesByMonth} />
+    )
   } catch (error) {
     return (
       <div className="text-sm text-destructive p-4">
@@ -14,9 +14,10 @@ import {
   TableRow,
 } from '@/components/ui/table'
 import { useCurrency } from '@/lib/contexts/currency-context'
+import { convertCurrency, getCurrencySymbol } from '@/lib/utils/currency'
 import { createClient } from '@/lib/supabase/client'
 import { MonthlyTrend } from '@/lib/types'
-import { endOfMonth, type RatesByMonthOffset } from '@/lib/utils/fx-rates'
+import { buildGetRateForDate, endOfMonth, type RatesByMonthOffset } from '@/lib/utils/fx-rates'
 import { buildTransactionAnalysisUrl } from '@/lib/analysis-url'
 import { FullTableViewToggle } from '@/components/dashboard/full-table-view-toggle'
 import { FullTableViewWrapper } from '@/components/dashboard/full-table-view-wrapper'
@@ -30,12 +31,15 @@ type SortDirection = 'asc' | 'desc' | null
 interface MonthlyTrendsTableProps {
   initialData?: MonthlyTrend[]
   initialRatesByMonth?: RatesByMonthOffset
+  /** EURUSD at the same month ends */
+  initialEurRatesByMonth?: RatesByMonthOffset
 }
 
-export function MonthlyTrendsTable({ initialData, initialRatesByMonth }: MonthlyTrendsTableProps = {}) {
-  const { currency, fxRate: contextFxRate } = useCurrency()
+export function MonthlyTrendsTable({ initialData, initialRatesByMonth, initialEurRatesByMonth }: MonthlyTrendsTableProps = {}) {
+  const { currency, fxRate: contextFxRate, eurUsdRate } = useCurrency()
   const [data, setData] = useState<MonthlyTrend[]>(initialData || [])
   const [ratesByMonth, setRatesByMonth] = useState<RatesByMonthOffset | null>(initialRatesByMonth ?? null)
+  const [eurRatesByMonth, setEurRatesByMonth] = useState<RatesByMonthOffset | null>(initialEurRatesByMonth ?? null)
   const [currentFxRate, setCurrentFxRate] = useState<number>(contextFxRate)
   const [loading, setLoading] = useState(!initialData)
   const [error, setError] = useState<string | null>(null)
@@ -48,6 +52,7 @@ export function MonthlyTrendsTable({ initialData, initialRatesByMonth }: Monthly
       setData(initialData)
       setLoading(false)
       if (initialRatesByMonth) setRatesByMonth(initialRatesByMonth)
+      if (initialEurRatesByMonth) setEurRatesByMonth(initialEurRatesByMonth)
       return
     }
 
@@ -75,7 +80,7 @@ export function MonthlyTrendsTable({ initialData, initialRatesByMonth }: Monthly
         supabase.from('monthly_trends').select('*').order('category'),
         supabase
           .from('fx_rates')
-          .select('date, gbpusd_rate')
+          .select('date, gbpusd_rate, eurusd_rate')
           .gte('date', eom3)
           .lte('date', eom0)
           .order('date', { ascending: true }),
@@ -90,7 +95,7 @@ export function MonthlyTrendsTable({ initialData, initialRatesByMonth }: Monthly
       setError(null)
       setData(trendsRes.data as MonthlyTrend[])
 
-      const rows = (fxRes.data || []) as { date: string; gbpusd_rate: number | null }[]
+      const rows = (fxRes.data || []) as { date: string; gbpusd_rate: number | null; eurusd_rate: number | null }[]
       const dateToRate = new Map<string, number>()
       rows.forEach((r) => {
         const d = (r.date || '').split('T')[0]
@@ -108,11 +113,23 @@ export function MonthlyTrendsTable({ initialData, initialRatesByMonth }: Monthly
         minus2: sortedDates.length ? getRate(eom2) : contextFxRate,
         minus3: sortedDates.length ? getRate(eom3) : contextFxRate,
       })
+
+      const eurDateToRate = new Map<string, number>()
+      rows.forEach((r) => {
+        if (r.eurusd_rate != null && r.eurusd_rate > 0) eurDateToRate.set((r.date || '').split('T')[0], r.eurusd_rate)
+      })
+      const eurRateFor = buildGetRateForDate(eurDateToRate, eurUsdRate)
+      setEurRatesByMonth({
+        current: eurRateFor(eom0),
+        minus1: eurRateFor(eom1),
+        minus2: eurRateFor(eom2),
+        minus3: eurRateFor(eom3),
+      })
       setLoading(false)
     }
 
     fetchData()
-  }, [initialData, initialRatesByMonth, contextFxRate])
+  }, [initialData, initialRatesByMonth, initialEurRatesByMonth, contextFxRate, eurUsdRate])
 
   // When we have initialRatesByMonth, use it for current rate fallback
   useEffect(() => {
@@ -121,9 +138,9 @@ export function MonthlyTrendsTable({ initialData, initialRatesByMonth }: Monthly
     }
   }, [initialRatesByMonth])
 
-  // When USD selected but no EoM rates (e.g. table used without wrapper), use context FX rate
+  // When USD or EUR selected but no EoM rates (e.g. table used without wrapper), use context FX rate
   useEffect(() => {
-    if (currency === 'USD' && ratesByMonth == null) {
+    if (currency !== 'GBP' && ratesByMonth == null) {
       setCurrentFxRate(contextFxRate)
     }
   }, [currency, ratesByMonth, contextFxRate])
@@ -131,7 +148,7 @@ export function MonthlyTrendsTable({ initialData, initialRatesByMonth }: Monthly
   // Format currency as £0.0k
   const formatCurrency = (value: number) => {
     const valueInK = value / 1000
-    const currencySymbol = currency === 'USD' ? '$' : '£'
+    const currencySymbol = getCurrencySymbol(currency)
     return `${currencySymbol}${valueInK.toFixed(1)}k`
   }
 
@@ -140,14 +157,14 @@ export function MonthlyTrendsTable({ initialData, initialRatesByMonth }: Monthly
     if (value === 0) return '-'
     const absValue = Math.abs(value)
     const valueInK = absValue / 1000
-    const currencySymbol = currency === 'USD' ? '$' : '£'
+    const currencySymbol = getCurrencySymbol(currency)
     return `(${currencySymbol}${valueInK.toFixed(1)}k)`
   }
 
   // Format currency for large values (M for millions, k for thousands)
   const formatCurrencyLarge = (value: number) => {
     const valueInM = Math.abs(value) / 1000000
-    const currencySymbol = currency === 'USD' ? '$' : '£'
+    const currencySymbol = getCurrencySymbol(currency)
     if (valueInM >= 1) {
       return `${currencySymbol}${valueInM.toFixed(1)}M`
     }
@@ -172,25 +189,24 @@ export function MonthlyTrendsTable({ initialData, initialRatesByMonth }: Monthly
     return `${absValue.toFixed(1)}%`
   }
 
-  // Data in monthly_trends is stored in GBP. When GBP selected show as-is; when USD selected convert GBP → USD (multiply by rate).
+  // Data in monthly_trends is stored in GBP. When GBP selected show as-is; otherwise convert at that month's EoM rates.
   const processedData = useMemo(() => {
-    const r = currency === 'USD' ? ratesByMonth : null
-    const fallbackRate = currency === 'USD' ? currentFxRate : 1
-    const mult = (row: MonthlyTrend, key: keyof Pick<MonthlyTrend, 'cur_month_minus_3' | 'cur_month_minus_2' | 'cur_month_minus_1' | 'cur_month_est' | 'ttm_avg'>) => {
+    const offsetFor = {
+      cur_month_minus_3: 'minus3',
+      cur_month_minus_2: 'minus2',
+      cur_month_minus_1: 'minus1',
+      cur_month_est: 'current',
+      ttm_avg: 'minus1',
+    } as const
+    const mult = (row: MonthlyTrend, key: keyof typeof offsetFor) => {
       const gbpValue = row[key] as number
       if (currency === 'GBP') return gbpValue
-      // USD: convert GBP → USD using EoM rates when available, else current rate
-      if (r) {
-        switch (key) {
-          case 'cur_month_minus_3': return gbpValue * r.minus3
-          case 'cur_month_minus_2': return gbpValue * r.minus2
-          case 'cur_month_minus_1': return gbpValue * r.minus1
-          case 'cur_month_est': return gbpValue * r.current
-          case 'ttm_avg': return gbpValue * r.minus1
-          default: return gbpValue * fallbackRate
-        }
-      }
-      return gbpValue * fallbackRate
+      // Convert GBP using EoM rates when available, else current rates
+      const offset = offsetFor[key]
+      return convertCurrency(gbpValue, 'GBP', currency, {
+        gbpusd: ratesByMonth?.[offset] ?? currentFxRate,
+        eurusd: eurRatesByMonth?.[offset] ?? eurUsdRate,
+      })
     }
     return data.map((row) => {
       const c3 = mult(row, 'cur_month_minus_3')
@@ -211,7 +227,7 @@ export function MonthlyTrendsTable({ initialData, initialRatesByMonth }: Monthly
         delta_vs_l3m: c0 - l3m_avg,
       }
     })
-  }, [data, currency, ratesByMonth, currentFxRate])
+  }, [data, currency, ratesByMonth, eurRatesByMonth, currentFxRate, eurUsdRate])
 
   // Sort data
   const sortedData = useMemo(() => {
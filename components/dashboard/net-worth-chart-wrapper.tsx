@@ -1,6 +1,7 @@
 import { createClient } from '@/lib/supabase/server'
 import { NetWorthChart } from './net-worth-chart'
 import { HistoricalNetWorth } from '@/lib/types'
+import { computeNetWorthHistory, historicalNetWorthRows, unconvertedCurrencies } from '@/lib/utils/net-worth-history'
 
 async function fetchNetWorthData() {
   const supabase = await createClient()
@@ -15,13 +16,16 @@ async function fetchNetWorthData() {
     throw new Error('Failed to load net worth data')
   }
 
-  return data as HistoricalNetWorth[]
+  if (data.length > 0) return { data: data as HistoricalNetWorth[], computed: false, unconverted: [] }
+  // No Historical Net Worth tab synced: rebuild the series from account balance snapshots
+  const points = await computeNetWorthHistory(supabase)
+  return { data: historicalNetWorthRows(points), computed: true, unconverted: unconvertedCurrencies(points) }
 }
 
 export async function NetWorthChartWrapper() {
   try {
-    const data = await fetchNetWorthData()
-    return <NetWorthChart initialData={data} />
+    const { data, computed, unconverted } = await fetchNetWorthData()
+    return <NetWorthChart initialData={data} computed={computed} unconverted={unconverted} />
   } catch (error) {
     return (
       <div className="text-sm text-destructive p-4">
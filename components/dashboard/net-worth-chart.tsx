@@ -12,6 +12,7 @@ import { useChartTheme } from '@/lib/hooks/use-chart-theme'
 import { getChartFontSizes } from '@/lib/chart-styles'
 import { createClient } from '@/lib/supabase/client'
 import { HistoricalNetWorth } from '@/lib/types'
+import { computeNetWorthHistory, historicalNetWorthRows, unconvertedCurrencies } from '@/lib/utils/net-worth-history'
 import { TrendingUp, AlertCircle } from 'lucide-react'
 import {
   ComposedChart,
@@ -33,13 +34,23 @@ const TOTAL_LINE_STROKE = '#1e40af' // Blue-800 (darker blue for emphasis)
 
 interface NetWorthChartProps {
   initialData?: HistoricalNetWorth[]
+  /** initialData was computed from account_balances rather than read from historical_net_worth. */
+  computed?: boolean
+  /** Currencies whose balances were left out of the computed series for want of an exchange rate. */
+  unconverted?: string[]
 }
 
-export function NetWorthChart({ initialData }: NetWorthChartProps = {}) {
-  const { currency } = useCurrency()
+export function NetWorthChart({
+  initialData,
+  computed: initialComputed = false,
+  unconverted: initialUnconverted = [],
+}: NetWorthChartProps = {}) {
+  const { currency, fromGbpUsd, ratesOn } = useCurrency()
   const [data, setData] = useState<any[]>([])
   const [loading, setLoading] = useState(!initialData)
   const [error, setError] = useState<string | null>(null)
+  const [computed, setComputed] = useState(initialComputed)
+  const [unconverted, setUnconverted] = useState(initialUnconverted)
   const [showPersonal, setShowPersonal] = useState(true)
   const [showFamily, setShowFamily] = useState(true)
   const [showTrust, setShowTrust] = useState(true)
@@ -63,7 +74,7 @@ export function NetWorthChart({ initialData }: NetWorthChartProps = {}) {
         return acc
       }
       
-      const amount = currency === 'USD' ? item.amount_usd : item.amount_gbp
+      const amount = fromGbpUsd(item.amount_gbp, item.amount_usd, null, item.date)
 
       if (!acc[year]) {
         acc[year] = { year, Personal: 0, Family: 0, Trust: 0, Total: 0 }
@@ -84,7 +95,7 @@ export function NetWorthChart({ initialData }: NetWorthChartProps = {}) {
     return Object.values(grouped)
       .filter((item: any) => item.year != null && !isNaN(item.year) && isFinite(item.year) && item.Total > 0) // Only display years where total net worth > 0 (per PRD requirement)
       .sort((a: any, b: any) => a.year - b.year)
-  }, [currency])
+  }, [currency, ratesOn]) // ratesOn changes once the FX history has loaded
 
   // Use initial data if provided, or fetch when currency changes
   useEffect(() => {
@@ -112,8 +123,21 @@ export function NetWorthChart({ initialData }: NetWorthChartProps = {}) {
         return
       }
 
-      const chartData = processData(netWorthData)
-      setData(chartData)
+      let rows = netWorthData as HistoricalNetWorth[]
+      // No Historical Net Worth tab synced: rebuild the series from account balance snapshots
+      const fromBalances = rows.length === 0
+      if (fromBalances) {
+        try {
+          const points = await computeNetWorthHistory(supabase)
+          rows = historicalNetWorthRows(points)
+          setUnconverted(unconvertedCurrencies(points))
+        } catch (computeError) {
+          console.error('Error computing net worth from account balances:', computeError)
+        }
+      }
+
+      setComputed(fromBalances)
+      setData(processData(rows))
       setLoading(false)
     }
 
@@ -226,7 +250,7 @@ export function NetWorthChart({ initialData }: NetWorthChartProps = {}) {
           <EmptyState
             icon={TrendingUp}
             title="No net worth data available"
-            description="Historical net worth data has not been synced yet. Please refresh the data to load this information."
+            description="No historical net worth or account balances have been synced yet. Please refresh the data to load this information."
           />
         </CardContent>
       </Card>
@@ -269,6 +293,14 @@ export function NetWorthChart({ initialData }: NetWorthChartProps = {}) {
     <Card>
       <CardHeader className="bg-muted/50">
         <CardTitle className="text-xl">Net Worth Over Time</CardTitle>
+        {computed && (
+          <p className="text-sm text-muted-foreground mt-1">Computed from account balance snapshots (year-end or latest)</p>
+        )}
+        {computed && unconverted.length > 0 && (
+          <p className="text-sm text-amber-600 dark:text-amber-500 mt-1">
+            {unconverted.join(', ')} balances left out: no exchange rate
+          </p>
+        )}
       </CardHeader>
       <CardContent className="pt-8">
         {/* Category Filters — hidden on mobile to free space for chart */}
@@ -13,6 +13,7 @@ import {
   TableRow,
 } from '@/components/ui/table'
 import { useCurrency } from '@/lib/contexts/currency-context'
+import { getCurrencySymbol } from '@/lib/utils/currency'
 import { createClient } from '@/lib/supabase/client'
 import { YoYNetWorth } from '@/lib/types'
 import { AlertCircle, ArrowUpDown, TrendingUp } from 'lucide-react'
@@ -22,7 +23,7 @@ type SortField = 'category' | 'amount'
 type SortDirection = 'asc' | 'desc'
 
 export function YoYNetWorthTable() {
-  const { currency } = useCurrency()
+  const { currency, fromGbpUsd } = useCurrency()
   const [data, setData] = useState<YoYNetWorth[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
@@ -56,7 +57,7 @@ export function YoYNetWorthTable() {
   const formatCurrency = (value: number | null) => {
     if (value === null || value === undefined) return '-'
     const valueInK = Math.abs(value) / 1000
-    const currencySymbol = currency === 'USD' ? '$' : '£'
+    const currencySymbol = getCurrencySymbol(currency)
     if (valueInK < 10) {
       return `${currencySymbol}${valueInK.toFixed(1)}k`
     }
@@ -66,7 +67,7 @@ export function YoYNetWorthTable() {
   const formatCurrencyLarge = (value: number | null) => {
     if (value === null || value === undefined) return '-'
     const valueInM = Math.abs(value) / 1000000
-    const currencySymbol = currency === 'USD' ? '$' : '£'
+    const currencySymbol = getCurrencySymbol(currency)
     if (valueInM >= 1) {
       return `${currencySymbol}${valueInM.toFixed(1)}M`
     }
@@ -93,8 +94,8 @@ export function YoYNetWorthTable() {
           bValue = b.category
           break
         case 'amount':
-          aValue = currency === 'USD' ? (a.amount_usd || 0) : (a.amount_gbp || 0)
-          bValue = currency === 'USD' ? (b.amount_usd || 0) : (b.amount_gbp || 0)
+          aValue = fromGbpUsd(a.amount_gbp, a.amount_usd)
+          bValue = fromGbpUsd(b.amount_gbp, b.amount_usd)
           break
         default:
           return 0
@@ -116,7 +117,7 @@ export function YoYNetWorthTable() {
   const totals = useMemo(() => {
     return sortedData.reduce(
       (acc, item) => {
-        const amount = currency === 'USD' ? item.amount_usd : item.amount_gbp
+        const amount = fromGbpUsd(item.amount_gbp, item.amount_usd)
         return acc + (amount || 0)
       },
       0
@@ -199,7 +200,7 @@ export function YoYNetWorthTable() {
           </TableHeader>
           <TableBody>
             {sortedData.map((item) => {
-              const amount = currency === 'USD' ? item.amount_usd : item.amount_gbp
+              const amount = fromGbpUsd(item.amount_gbp, item.amount_usd)
               const isTotal = item.category === 'Year End' || item.category === 'Year Start'
               const isNegative = amount !== null && amount < 0
               
@@ -0,0 +1,71 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import type { SheetValidationIssue } from '@/lib/utils/sheet-validation'
+
+interface DataIssuesTableProps {
+  issues: SheetValidationIssue[]
+}
+
+/** Validation issues from a sync, one card per sheet tab, in sheet row order. */
+export function DataIssuesTable({ issues }: DataIssuesTableProps) {
+  const bySheet = new Map<string, SheetValidationIssue[]>()
+  for (const issue of issues) {
+    const list = bySheet.get(issue.sheet)
+    if (list) list.push(issue)
+    else bySheet.set(issue.sheet, [issue])
+  }
+
+  return (
+    <>
+      {Array.from(bySheet.entries()).map(([sheet, sheetIssues]) => {
+        const skippedRows = new Set(sheetIssues.filter((i) => i.rowSkipped).map((i) => i.row)).size
+        return (
+          <Card key={sheet}>
+            <CardHeader>
+              <CardTitle className="text-base">{sheet}</CardTitle>
+              <CardDescription>
+                {sheetIssues.length} {sheetIssues.length === 1 ? 'issue' : 'issues'}
+                {skippedRows > 0 && ` · ${skippedRows} ${skippedRows === 1 ? 'row' : 'rows'} left out of the sync`}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-16">Row</TableHead>
+                    <TableHead className="w-20">Column</TableHead>
+                    <TableHead>Value</TableHead>
+                    <TableHead>Problem</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {[...sheetIssues]
+                    .sort((a, b) => a.row - b.row || a.column.localeCompare(b.column))
+                    .map((issue, i) => (
+                      <TableRow key={`${issue.row}-${issue.column}-${i}`}>
+                        <TableCell className="tabular-nums">{issue.row}</TableCell>
+                        <TableCell>
+                          {issue.column}
+                          <span className="block text-xs text-muted-foreground">{issue.field}</span>
+                        </TableCell>
+                        <TableCell className="font-mono text-xs break-all">
+                          {issue.value ? issue.value : <span className="text-muted-foreground">(blank)</span>}
+                        </TableCell>
+                        <TableCell>
+                          {issue.reason}
+                          {issue.rowSkipped && (
+                            <Badge variant="destructive" className="ml-2">Row skipped</Badge>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )
+      })}
+    </>
+  )
+}
@@ -2,13 +2,15 @@
 
 import { useRouter } from 'next/navigation'
 import { CurrencyToggle } from './currency-toggle'
+import { NotificationInbox } from './notification-inbox'
 import { Button } from './ui/button'
-import { RefreshCw, LogOut, BarChart3 } from 'lucide-react'
+import { RefreshCw, LogOut, BarChart3, AlertTriangle } from 'lucide-react'
 import { useState, useEffect, useRef } from 'react'
 import { toast } from 'sonner'
 import { createClient } from '@/lib/supabase/client'
 import { useIsMobile } from '@/lib/hooks/use-is-mobile'
 import { useDailySummary } from '@/components/insights/daily-summary-context'
+import { useCurrency } from '@/lib/contexts/currency-context'
 import { cn } from '@/utils/cn'
 
 // Safe hook that returns null if context is not available
@@ -29,6 +31,7 @@ export function Header() {
   const router = useRouter()
   const isMobile = useIsMobile()
   const dailySummary = useDailySummarySafe()
+  const { fxRate, fxRateDate, fxRateStale } = useCurrency()
   const [syncing, setSyncing] = useState(false)
   const [mounted, setMounted] = useState(false)
   const [headerVisible, setHeaderVisible] = useState(true)
@@ -187,15 +190,34 @@ export function Header() {
       setSyncing(false)
       
       if (result.success) {
-        toast.success('Data Synced Successfully', {
-          description: 'All sheets have been synchronized with the database.',
-        })
+        const issueCount: number = result.issues?.length ?? 0
+        if (issueCount > 0) {
+          toast.warning('Data Synced with Issues', {
+            description: `${issueCount} ${issueCount === 1 ? 'cell' : 'cells'} in your sheet could not be read.`,
+            action: {
+              label: 'View issues',
+              onClick: () => {
+                window.location.href = '/data-issues'
+              },
+            },
+          })
+        } else {
+          toast.success('Data Synced Successfully', {
+            description: 'All sheets have been synchronized with the database.',
+          })
+        }
+        const failedWriteBacks = (result.writtenBack ?? []).filter((w: any) => w.error)
+        if (failedWriteBacks.length > 0) {
+          toast.warning('Some manual entries were not written to your sheet', {
+            description: failedWriteBacks.map((w: any) => `${w.sheet}: ${w.error}`).join(' '),
+          })
+        }
         // Refresh latest dates (including last_sync_at written by the server)
         await fetchLatestDates()
-        // Reload the page to show updated data
+        // Reload the page to show updated data (later when there are issues, so the toast can be used)
         setTimeout(() => {
           window.location.reload()
-        }, 1000)
+        }, issueCount > 0 ? 6000 : 1000)
       } else {
         const errorMsg = result.error || 'Some sheets failed to sync'
         const failedSheets = result.results?.filter((r: any) => !r.success).map((r: any) => r.sheet).join(', ')
@@ -298,10 +320,26 @@ export function Header() {
               <span className="font-medium">Latest Account:</span>{' '}
               <span className="text-foreground">{formatDate(maxAccountDate)}</span>
             </div>
+            {fxRateStale && (
+              <div
+                className="flex items-center gap-1 text-amber-600 dark:text-amber-500"
+                title={
+                  fxRateDate
+                    ? 'Conversions use the latest stored exchange rate. Refresh data or configure an FX provider to update it.'
+                    : 'No exchange rates are stored, so a default GBP/USD rate is used. Add an FX Rates tab or configure an FX provider.'
+                }
+              >
+                <AlertTriangle className="h-3 w-3" />
+                <span className="font-medium">
+                  {fxRateDate ? `FX rate from ${formatDate(fxRateDate)}` : `Default FX rate (${fxRate.toFixed(2)})`}
+                </span>
+              </div>
+            )}
           </div>
         )}
       </div>
       <div className="flex items-center gap-2">
+        <NotificationInbox />
         <Button
           variant="ghost"
           size="sm"
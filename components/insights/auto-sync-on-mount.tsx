@@ -39,7 +39,11 @@ export function AutoSyncOnMount() {
         // If no data exists yet, trigger sync
         if (!budgetData || budgetData.length === 0) {
           try {
-            const response = await fetch('/api/sync', { method: 'POST' })
+            const response = await fetch('/api/sync', {
+              method: 'POST',
+              headers: { 'Content-Type': 'application/json' },
+              body: JSON.stringify({ trigger: 'onboarding' }),
+            })
             const result = await response.json().catch(() => ({}))
 
             if (response.ok && result.success) {
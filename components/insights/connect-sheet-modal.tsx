@@ -58,7 +58,11 @@ export function ConnectSheetModal({ open }: ConnectSheetModalProps) {
         return
       }
       toast.info('Syncing data from your sheet…')
-      const response = await fetch('/api/sync', { method: 'POST' })
+      const response = await fetch('/api/sync', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ trigger: 'onboarding' }),
+      })
       const result = await response.json().catch(() => ({}))
       if (response.ok && result.success) {
         toast.success('Data synced successfully')
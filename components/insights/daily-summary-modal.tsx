@@ -5,6 +5,7 @@ import Link from 'next/link'
 import { useRouter } from 'next/navigation'
 import { createClient } from '@/lib/supabase/client'
 import { useCurrency } from '@/lib/contexts/currency-context'
+import { getCurrencySymbol } from '@/lib/utils/currency'
 import {
   Dialog,
   DialogContent,
@@ -123,7 +124,7 @@ export function DailySummaryModal({ open: controlledOpen, onOpenChange: controll
   const annualEstimatedSpend = useMemo(() => {
     const expenses = budgetData.filter((b) => !EXCLUDED_CATEGORIES.includes(b.category))
     const totalGBP = expenses.reduce((sum, b) => sum + Math.abs(b.tracking_est_gbp ?? 0), 0)
-    return currency === 'USD' ? convertAmount(totalGBP, 'GBP', fxRate) : totalGBP
+    return convertAmount(totalGBP, 'GBP')
   }, [budgetData, currency, fxRate, convertAmount])
 
   // Last year total spend (from annual_trends) for comparison
@@ -132,7 +133,7 @@ export function DailySummaryModal({ open: controlledOpen, onOpenChange: controll
     if (!expenses.length) return null
     const lastYearGBP = expenses.reduce((sum, a) => sum + Math.abs(a.cur_yr_minus_1 ?? 0), 0)
     if (lastYearGBP === 0) return null
-    const lastYearDisplay = currency === 'USD' ? convertAmount(lastYearGBP, 'GBP', fxRate) : lastYearGBP
+    const lastYearDisplay = convertAmount(lastYearGBP, 'GBP')
     const diff = annualEstimatedSpend - lastYearDisplay
     const percent = (diff / Math.abs(lastYearDisplay)) * 100
     return { lastYearDisplay, diff, percent }
@@ -144,14 +145,14 @@ export function DailySummaryModal({ open: controlledOpen, onOpenChange: controll
     const budgetTotalGBP = expenses.reduce((sum, b) => sum + Math.abs(b.annual_budget_gbp ?? 0), 0)
     const forecastTotalGBP = expenses.reduce((sum, b) => sum + Math.abs(b.tracking_est_gbp ?? 0), 0)
     const gapGBP = budgetTotalGBP - forecastTotalGBP // Positive = under budget, negative = over budget
-    return currency === 'USD' ? convertAmount(gapGBP, 'GBP', fxRate) : gapGBP
+    return convertAmount(gapGBP, 'GBP')
   }, [budgetData, currency, fxRate, convertAmount])
 
   // Change since yesterday (from forecast bridge)
   const yesterdayChange = useMemo(() => {
     if (!forecastBridge) return null
     const changeGBP = forecastBridge.totalEnd - forecastBridge.totalStart
-    return currency === 'USD' ? convertAmount(changeGBP, 'GBP', fxRate) : changeGBP
+    return convertAmount(changeGBP, 'GBP')
   }, [forecastBridge, currency, fxRate, convertAmount])
 
   // Top drivers of yesterday's change
@@ -162,7 +163,7 @@ export function DailySummaryModal({ open: controlledOpen, onOpenChange: controll
       .map((d) => ({
         category: d.category,
         deltaGBP: d.delta,
-        delta: currency === 'USD' ? convertAmount(d.delta, 'GBP', fxRate) : d.delta,
+        delta: convertAmount(d.delta, 'GBP'),
       }))
     
     // Split into under budget drivers (negative delta) and over budget drivers (positive delta)
@@ -184,14 +185,14 @@ export function DailySummaryModal({ open: controlledOpen, onOpenChange: controll
   const currentMonthlySpend = useMemo(() => {
     const expenses = monthlyTrends.filter((m) => !EXCLUDED_CATEGORIES.includes(m.category))
     const totalGBP = expenses.reduce((sum, m) => sum + Math.abs(m.cur_month_est ?? 0), 0)
-    return currency === 'USD' ? convertAmount(totalGBP, 'GBP', fxRate) : totalGBP
+    return convertAmount(totalGBP, 'GBP')
   }, [monthlyTrends, currency, fxRate, convertAmount])
 
   // 3-month average monthly spend
   const threeMonthAvg = useMemo(() => {
     const expenses = monthlyTrends.filter((m) => !EXCLUDED_CATEGORIES.includes(m.category))
     const totalGBP = expenses.reduce((sum, m) => sum + Math.abs(m.ttm_avg ?? 0), 0)
-    return currency === 'USD' ? convertAmount(totalGBP, 'GBP', fxRate) : totalGBP
+    return convertAmount(totalGBP, 'GBP')
   }, [monthlyTrends, currency, fxRate, convertAmount])
 
   // Monthly spend vs 3M average
@@ -216,7 +217,7 @@ export function DailySummaryModal({ open: controlledOpen, onOpenChange: controll
         return {
           category: m.category,
           diffGBP,
-          diff: currency === 'USD' ? convertAmount(diffGBP, 'GBP', fxRate) : diffGBP,
+          diff: convertAmount(diffGBP, 'GBP'),
         }
       })
       .filter((item) => Math.abs(item.diffGBP) > 50) // Filter small changes
@@ -230,7 +231,7 @@ export function DailySummaryModal({ open: controlledOpen, onOpenChange: controll
 
   const formatCurrency = (value: number) => {
     const abs = Math.abs(value)
-    const symbol = currency === 'USD' ? '$' : '£'
+    const symbol = getCurrencySymbol(currency)
     if (abs >= 1_000_000) {
       return `${symbol}${(value / 1_000_000).toFixed(1)}M`
     }
@@ -7,6 +7,7 @@ import { Skeleton } from '@/components/ui/skeleton'
 import { EmptyState } from '@/components/ui/empty-state'
 import { Progress } from '@/components/ui/progress'
 import { useCurrency } from '@/lib/contexts/currency-context'
+import { getCurrencySymbol } from '@/lib/utils/currency'
 import { useIsMobile } from '@/lib/hooks/use-is-mobile'
 import { useChartTheme } from '@/lib/hooks/use-chart-theme'
 import { getChartFontSizes } from '@/lib/chart-styles'
@@ -30,7 +31,7 @@ import {
 } from 'recharts'
 
 export function KeyInsights() {
-  const { currency, convertAmount, fxRate } = useCurrency()
+  const { currency, fromGbpUsd, convertAmount, fxRate } = useCurrency()
   const isMobile = useIsMobile()
   const chartTheme = useChartTheme()
   const previousYear = new Date().getFullYear() - 1
@@ -109,7 +110,7 @@ export function KeyInsights() {
     )
     // Check historical net worth for Trust category
     const hasTrustNetWorth = historicalNetWorth.some(
-      (item) => item.category === 'Trust' && Math.abs(currency === 'USD' ? (item.amount_usd ?? 0) : (item.amount_gbp ?? 0)) > 0
+      (item) => item.category === 'Trust' && Math.abs(fromGbpUsd(item.amount_gbp, item.amount_usd, null, item.date)) > 0
     )
     return hasTrustAccounts || hasTrustNetWorth
   }, [accountBalances, historicalNetWorth, currency])
@@ -162,7 +163,7 @@ export function KeyInsights() {
     
     const netWorthByYear = historicalNetWorth.reduce((acc: any, item: HistoricalNetWorth) => {
       const year = new Date(item.date).getFullYear()
-      const amount = currency === 'USD' ? item.amount_usd : item.amount_gbp
+      const amount = fromGbpUsd(item.amount_gbp, item.amount_usd, null, item.date)
       
       if (!acc[year]) {
         acc[year] = { Personal: 0, Family: 0, Total: 0, dates: [] }
@@ -192,7 +193,7 @@ export function KeyInsights() {
       )
     
     const lastYearPersonal = lastYearPersonalEntries.length > 0
-      ? (currency === 'USD' ? lastYearPersonalEntries[0].amount_usd : lastYearPersonalEntries[0].amount_gbp) || 0
+      ? fromGbpUsd(lastYearPersonalEntries[0].amount_gbp, lastYearPersonalEntries[0].amount_usd, null, lastYearPersonalEntries[0].date)
       : 0
     
     // Get the most recent Family value for last year (excluding Trust)
@@ -206,7 +207,7 @@ export function KeyInsights() {
       )
     
     const lastYearFamily = lastYearFamilyEntries.length > 0
-      ? (currency === 'USD' ? lastYearFamilyEntries[0].amount_usd : lastYearFamilyEntries[0].amount_gbp) || 0
+      ? fromGbpUsd(lastYearFamilyEntries[0].amount_gbp, lastYearFamilyEntries[0].amount_usd, null, lastYearFamilyEntries[0].date)
       : 0
     
     // Calculate last year's total (Personal + Family, excluding Trust) to match current calculation
@@ -227,7 +228,7 @@ export function KeyInsights() {
         )
       
       const yearPersonal = yearPersonalEntries.length > 0
-        ? (currency === 'USD' ? yearPersonalEntries[0].amount_usd : yearPersonalEntries[0].amount_gbp) || 0
+        ? fromGbpUsd(yearPersonalEntries[0].amount_gbp, yearPersonalEntries[0].amount_usd, null, yearPersonalEntries[0].date)
         : 0
       
       // Get most recent Family entry for this year (excluding Trust)
@@ -241,7 +242,7 @@ export function KeyInsights() {
         )
       
       const yearFamily = yearFamilyEntries.length > 0
-        ? (currency === 'USD' ? yearFamilyEntries[0].amount_usd : yearFamilyEntries[0].amount_gbp) || 0
+        ? fromGbpUsd(yearFamilyEntries[0].amount_gbp, yearFamilyEntries[0].amount_usd, null, yearFamilyEntries[0].date)
         : 0
       
       return sum + (yearPersonal + yearFamily)
@@ -278,7 +279,7 @@ export function KeyInsights() {
     const byMonth = historicalNetWorth.reduce<Record<string, { personal: number; family: number }>>((acc, item) => {
       const d = new Date(item.date)
       const key = `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`
-      const amount = currency === 'USD' ? (item.amount_usd || 0) : (item.amount_gbp || 0)
+      const amount = fromGbpUsd(item.amount_gbp, item.amount_usd, null, item.date)
       if (!acc[key]) acc[key] = { personal: 0, family: 0 }
       if (item.category === 'Personal') acc[key].personal += amount
       else if (item.category === 'Family') acc[key].family += amount
@@ -380,7 +381,7 @@ export function KeyInsights() {
 
   const formatCurrency = (value: number) => {
     const valueInK = Math.abs(value) / 1000
-    const currencySymbol = currency === 'USD' ? '$' : '£'
+    const currencySymbol = getCurrencySymbol(currency)
     // Round to nearest integer, but show at least 1 decimal if less than 10k
     if (valueInK < 10) {
       return `${currencySymbol}${valueInK.toFixed(1)}k`
@@ -390,7 +391,7 @@ export function KeyInsights() {
 
   const formatCurrencyLarge = (value: number) => {
     const valueInM = Math.abs(value) / 1000000
-    const currencySymbol = currency === 'USD' ? '$' : '£'
+    const currencySymbol = getCurrencySymbol(currency)
     if (valueInM >= 1) {
       return `${currencySymbol}${valueInM.toFixed(1)}M`
     }
@@ -429,19 +430,19 @@ export function KeyInsights() {
     main.scrollTo({ top: relativeTop - headerOffset, behavior: 'smooth' })
   }
 
-  // Annual Budget Insights — always use GBP from data; convert to USD with current FX when currency is USD
+  // Annual Budget Insights — always use GBP from data; convert to the display currency with current FX
   const annualBudgetInsights = useMemo(() => {
     const expenses = budgetData.filter((b) => !expenseCategories.includes(b.category))
 
     const totalBudget = expenses.reduce((sum, b) => {
       const budgetGbp = Math.abs(b.annual_budget_gbp)
-      const budget = currency === 'USD' ? convertAmount(budgetGbp, 'GBP', fxRate) : budgetGbp
+      const budget = convertAmount(budgetGbp, 'GBP')
       return sum + budget
     }, 0)
 
     const totalTracking = expenses.reduce((sum, b) => {
       const trackingGbp = Math.abs(b.tracking_est_gbp)
-      const tracking = currency === 'USD' ? convertAmount(trackingGbp, 'GBP', fxRate) : trackingGbp
+      const tracking = convertAmount(trackingGbp, 'GBP')
       return sum + tracking
     }, 0)
 
@@ -452,8 +453,8 @@ export function KeyInsights() {
       .map((b) => {
         const budgetGbp = Math.abs(b.annual_budget_gbp)
         const trackingGbp = Math.abs(b.tracking_est_gbp)
-        const budget = currency === 'USD' ? convertAmount(budgetGbp, 'GBP', fxRate) : budgetGbp
-        const tracking = currency === 'USD' ? convertAmount(trackingGbp, 'GBP', fxRate) : trackingGbp
+        const budget = convertAmount(budgetGbp, 'GBP')
+        const tracking = convertAmount(trackingGbp, 'GBP')
         const gap = tracking - budget
         return {
           category: b.category,
@@ -490,7 +491,7 @@ export function KeyInsights() {
 
   // Annual Spend Insights — use same source as Daily Summary: budget_targets.tracking_est_gbp (est. annual spend)
   const annualSpendInsights = useMemo(() => {
-    const mult = currency === 'USD' ? fxRate : 1
+    const mult = convertAmount(1, 'GBP')
 
     // This year: from budget forecast (same as Daily Summary modal) so both places show the same number
     const budgetExpenses = budgetData.filter((b) => !EXCLUDED_ANNUAL_SPEND.includes(b.category))
@@ -543,12 +544,12 @@ export function KeyInsights() {
       spendingLess,
       spendingMore,
     }
-  }, [annualTrends, budgetData, currency, fxRate])
+  }, [annualTrends, budgetData, convertAmount])
 
-  // Monthly Spend Insights — values in GBP from monthly_trends; convert to USD with current FX when currency is USD
+  // Monthly Spend Insights — values in GBP from monthly_trends; convert to the display currency with current FX
   const monthlySpendInsights = useMemo(() => {
     const expenses = monthlyTrends.filter((m) => !expenseCategories.includes(m.category))
-    const mult = currency === 'USD' ? fxRate : 1
+    const mult = convertAmount(1, 'GBP')
 
     // Values are negative for expenses
     const currentMonthEst = expenses.reduce((sum, m) => sum + m.cur_month_est, 0)
@@ -589,7 +590,7 @@ export function KeyInsights() {
       spendingMore,
       spendingLess,
     }
-  }, [monthlyTrends, expenseCategories, currency, fxRate])
+  }, [monthlyTrends, expenseCategories, convertAmount])
 
   if (loading) {
     return (
@@ -14,6 +14,7 @@ import {
 import { createClient } from '@/lib/supabase/client'
 import { KidsAccount } from '@/lib/types'
 import { useCurrency } from '@/lib/contexts/currency-context'
+import { getCurrencySymbol } from '@/lib/utils/currency'
 import { AlertCircle, Pencil } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { EditKidsAccountDialog } from '@/components/kids/edit-kids-account-dialog'
@@ -75,7 +76,7 @@ export function KidsAccountsOverview() {
 
   const formatCurrency = useCallback((value: number) => {
     const num = Number(value)
-    if (Number.isNaN(num)) return currency === 'USD' ? '$0' : '£0'
+    if (Number.isNaN(num)) return `${getCurrencySymbol(currency)}0`
     return new Intl.NumberFormat('en-GB', {
       style: 'currency',
       currency,
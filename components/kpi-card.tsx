@@ -2,6 +2,7 @@
 
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { useCurrency } from '@/lib/contexts/currency-context'
+import { getCurrencySymbol } from '@/lib/utils/currency'
 
 interface KPICardProps {
   title: string
@@ -15,7 +16,7 @@ interface KPICardProps {
 
 export function KPICard({ title, value, subtitle, trend }: KPICardProps) {
   const { currency } = useCurrency()
-  const symbol = currency === 'USD' ? '$' : '£'
+  const symbol = getCurrencySymbol(currency)
   
   const formatValue = (val: number) => {
     return new Intl.NumberFormat('en-US', {
@@ -20,7 +20,7 @@ import {
 } from 'recharts'
 
 export default function CommittedCapitalVsCash() {
-  const { currency, convertAmount, fxRate } = useCurrency()
+  const { currency, fromGbpUsd, convertAmount, fxRate } = useCurrency()
   const isMobile = useIsMobile()
   const chartTheme = useChartTheme()
   const [loading, setLoading] = useState(true)
@@ -41,7 +41,7 @@ export default function CommittedCapitalVsCash() {
 
       const totalCommitted =
         commitments?.reduce((sum, item: Debt) => {
-          const amount = (currency === 'USD' ? item.amount_usd : item.amount_gbp) ?? 0
+          const amount = fromGbpUsd(item.amount_gbp, item.amount_usd)
           return sum + amount
         }, 0) ?? 0
 
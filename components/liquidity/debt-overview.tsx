@@ -37,7 +37,7 @@ import {
 } from 'recharts'
 
 export default function DebtOverview() {
-  const { currency, convertAmount, fxRate } = useCurrency()
+  const { currency, fromGbpUsd, convertAmount, fxRate } = useCurrency()
   const isMobile = useIsMobile()
   const chartTheme = useChartTheme()
   const [loading, setLoading] = useState(true)
@@ -77,7 +77,7 @@ export default function DebtOverview() {
       let debt = 0
       debts.forEach((debtItem: Debt) => {
         const amount =
-          (currency === 'USD' ? debtItem.amount_usd : debtItem.amount_gbp) ?? 0
+          fromGbpUsd(debtItem.amount_gbp, debtItem.amount_usd)
         debt += amount
       })
 
@@ -224,10 +224,7 @@ export default function DebtOverview() {
                   </TableHeader>
                   <TableBody>
                     {debtItems.map((item, index) => {
-                      const amount =
-                        (currency === 'USD'
-                          ? item.amount_usd
-                          : item.amount_gbp) ?? 0
+                      const amount = fromGbpUsd(item.amount_gbp, item.amount_usd)
                       return (
                         <TableRow key={index}>
                           <TableCell className="font-medium">
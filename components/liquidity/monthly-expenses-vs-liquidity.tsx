@@ -37,10 +37,8 @@ export default function MonthlyExpensesVsLiquidity() {
       const burnRes = await fetch('/api/cash-runway', { credentials: 'include' })
       const burnJson = await burnRes.json()
 
-      const monthlyExpenses =
-        currency === 'USD'
-          ? Math.max(0, -Number(burnJson.usdNet ?? 0)) / 3
-          : Math.max(0, -Number(burnJson.gbpNet ?? 0)) / 3
+      const netBurn = burnJson.netByCurrency?.[currency]
+      const monthlyExpenses = Math.max(0, -Number(netBurn ?? 0)) / 3
 
       // Fetch account balances
       const { data: accounts } = await supabase
@@ -0,0 +1,147 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Bell } from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from './ui/button'
+import { cn } from '@/utils/cn'
+import type { AppNotification } from '@/lib/types'
+
+function formatWhen(iso: string) {
+  return new Date(iso).toLocaleDateString('en-GB', { day: '2-digit', month: 'short' })
+}
+
+/** Bell in the header with the alerts raised by the user's alert rules. */
+export function NotificationInbox() {
+  const router = useRouter()
+  const [open, setOpen] = useState(false)
+  const [notifications, setNotifications] = useState<AppNotification[]>([])
+  const [unread, setUnread] = useState(0)
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  const fetchNotifications = useCallback(async () => {
+    try {
+      const res = await fetch('/api/notifications')
+      const result = await res.json()
+      if (!result.success) return
+      setNotifications(result.data.notifications)
+      setUnread(result.data.unread)
+    } catch (error) {
+      console.error('Error fetching notifications:', error)
+    }
+  }, [])
+
+  useEffect(() => {
+    void fetchNotifications()
+  }, [fetchNotifications])
+
+  // Close when clicking anywhere outside the panel
+  useEffect(() => {
+    if (!open) return
+    const onPointerDown = (e: PointerEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setOpen(false)
+    }
+    document.addEventListener('pointerdown', onPointerDown)
+    return () => document.removeEventListener('pointerdown', onPointerDown)
+  }, [open])
+
+  const markRead = async (body: { ids: string[] } | { all: true }) => {
+    const res = await fetch('/api/notifications', {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    })
+    const result = await res.json()
+    if (!result.success) throw new Error(result.error || 'Failed to update notifications')
+  }
+
+  const handleOpen = (notification: AppNotification) => {
+    setOpen(false)
+    if (!notification.read_at) {
+      const readAt = new Date().toISOString()
+      setNotifications((prev) => prev.map((n) => (n.id === notification.id ? { ...n, read_at: readAt } : n)))
+      setUnread((n) => Math.max(0, n - 1))
+      markRead({ ids: [notification.id] }).catch(() => void fetchNotifications())
+    }
+    if (notification.link) router.push(notification.link)
+  }
+
+  const handleMarkAllRead = async () => {
+    try {
+      await markRead({ all: true })
+      const readAt = new Date().toISOString()
+      setNotifications((prev) => prev.map((n) => (n.read_at ? n : { ...n, read_at: readAt })))
+      setUnread(0)
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : 'Failed to update notifications')
+    }
+  }
+
+  return (
+    <div ref={containerRef} className="relative">
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => {
+          if (!open) void fetchNotifications()
+          setOpen((o) => !o)
+        }}
+        className="relative h-8 w-8 p-0"
+        aria-label={unread > 0 ? `Notifications (${unread} unread)` : 'Notifications'}
+      >
+        <Bell className="h-4 w-4" />
+        {unread > 0 && (
+          <span className="absolute -right-0.5 -top-0.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-red-600 px-1 text-[10px] font-semibold leading-none text-white">
+            {unread > 99 ? '99+' : unread}
+          </span>
+        )}
+      </Button>
+      {open && (
+        <div className="absolute right-0 top-full z-50 mt-2 w-80 max-w-[calc(100vw-2rem)] rounded-md border bg-background shadow-lg">
+          <div className="flex items-center justify-between border-b px-3 py-2">
+            <span className="text-sm font-medium">Notifications</span>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 px-2 text-xs"
+              disabled={unread === 0}
+              onClick={handleMarkAllRead}
+            >
+              Mark all read
+            </Button>
+          </div>
+          {notifications.length === 0 ? (
+            <p className="px-3 py-6 text-center text-sm text-muted-foreground">
+              No notifications. Add alerts in Settings.
+            </p>
+          ) : (
+            <ul className="max-h-96 divide-y overflow-y-auto">
+              {notifications.map((n) => (
+                <li key={n.id}>
+                  <button
+                    type="button"
+                    onClick={() => handleOpen(n)}
+                    className={cn(
+                      'flex w-full gap-2 px-3 py-2 text-left hover:bg-muted/50',
+                      n.read_at && 'text-muted-foreground'
+                    )}
+                  >
+                    <span
+                      className={cn('mt-1.5 h-2 w-2 shrink-0 rounded-full', n.read_at ? 'bg-transparent' : 'bg-primary')}
+                    />
+                    <span className="min-w-0 flex-1">
+                      <span className={cn('block text-sm', !n.read_at && 'font-medium')}>{n.title}</span>
+                      {n.body && <span className="block text-xs text-muted-foreground">{n.body}</span>}
+                    </span>
+                    <span className="shrink-0 text-xs text-muted-foreground tabular-nums">{formatWhen(n.created_at)}</span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
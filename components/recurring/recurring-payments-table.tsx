@@ -29,7 +29,7 @@ interface AggregatedRecurringPayment {
 }
 
 export function RecurringPaymentsTable() {
-  const { currency, fxRate } = useCurrency()
+  const { currency, fromGbpUsd } = useCurrency()
   const [payments, setPayments] = useState<RecurringPayment[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
@@ -71,14 +71,7 @@ export function RecurringPaymentsTable() {
       const normalizedName = (payment.name || '').toLowerCase().trim()
       
       // Get amount in selected currency: prefer native value, convert the other if missing
-      const amount =
-        currency === 'USD'
-          ? (payment.annualized_amount_usd != null
-              ? payment.annualized_amount_usd
-              : (payment.annualized_amount_gbp ?? 0) * fxRate)
-          : (payment.annualized_amount_gbp != null
-              ? payment.annualized_amount_gbp
-              : (payment.annualized_amount_usd ?? 0) / (fxRate || 1))
+      const amount = fromGbpUsd(payment.annualized_amount_gbp, payment.annualized_amount_usd)
       
       if (grouped.has(normalizedName)) {
         const existing = grouped.get(normalizedName)!
@@ -101,7 +94,7 @@ export function RecurringPaymentsTable() {
 
     return Array.from(grouped.values())
       .sort((a, b) => Math.abs(b.annualizedAmount) - Math.abs(a.annualizedAmount)) // Sort descending by amount
-  }, [payments, currency, fxRate])
+  }, [payments, fromGbpUsd])
 
   // Calculate total spend and 80% threshold
   const { totalSpend, threshold80Percent } = useMemo(() => {
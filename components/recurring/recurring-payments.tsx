@@ -15,7 +15,7 @@ import { cn } from '@/utils/cn'
 import { toast } from 'sonner'
 
 export function RecurringPayments() {
-  const { currency, fxRate } = useCurrency()
+  const { currency, fxRate, eurUsdRate } = useCurrency()
   const [transactions, setTransactions] = useState<TransactionLog[]>([])
   const [preferences, setPreferences] = useState<RecurringPreference[]>([])
   const [loading, setLoading] = useState(true)
@@ -45,7 +45,7 @@ export function RecurringPayments() {
 
           const transactionsResult = await supabase
             .from('transaction_log')
-            .select('*')
+            .select('*, merchant:merchants(name)')
             .gte('date', startDateStr)
             .order('date', { ascending: true })
             .range(from, to)
@@ -86,8 +86,8 @@ export function RecurringPayments() {
   // Detect recurring payments
   const detectedPayments = useMemo(() => {
     if (!transactions.length) return []
-    return detectRecurringPayments(transactions, currency, fxRate)
-  }, [transactions, currency, fxRate])
+    return detectRecurringPayments(transactions, currency, fxRate, eurUsdRate)
+  }, [transactions, currency, fxRate, eurUsdRate])
 
   // Filter out ignored payments and separate by frequency
   const { monthlyPayments, yearlyPayments } = useMemo(() => {
@@ -95,12 +95,11 @@ export function RecurringPayments() {
       preferences.filter((p) => p.is_ignored).map((p) => p.counterparty_pattern.toLowerCase())
     )
 
-    const active = detectedPayments.filter(
-      (payment) => !ignoredPatterns.has(payment.counterpartyPattern.toLowerCase())
-    )
-    const ignored = detectedPayments.filter(
-      (payment) => ignoredPatterns.has(payment.counterpartyPattern.toLowerCase())
-    )
+    const isPaymentIgnored = (payment: DetectedRecurringPayment) =>
+      ignoredPatterns.has(payment.counterpartyPattern.toLowerCase()) || ignoredPatterns.has(payment.legacyPattern)
+
+    const active = detectedPayments.filter((payment) => !isPaymentIgnored(payment))
+    const ignored = detectedPayments.filter(isPaymentIgnored)
 
     const activeMonthly = active.filter((p) => p.frequency === 'Monthly')
     const activeYearly = active.filter((p) => p.frequency === 'Yearly')
@@ -131,11 +130,21 @@ export function RecurringPayments() {
     })
   }
 
-  const toggleIgnore = async (pattern: string, currentlyIgnored: boolean) => {
+  const toggleIgnore = async (payment: DetectedRecurringPayment, currentlyIgnored: boolean) => {
     const supabase = createClient()
-    const normalizedPattern = pattern.toLowerCase()
+    const normalizedPattern = payment.counterpartyPattern.toLowerCase()
 
     try {
+      // Restoring must also clear an ignore saved under the pre-merchant pattern
+      if (currentlyIgnored && payment.legacyPattern !== normalizedPattern) {
+        const { error } = await supabase
+          .from('recurring_preferences')
+          .update({ is_ignored: false })
+          .eq('counterparty_pattern', payment.legacyPattern)
+
+        if (error) throw error
+      }
+
       // Check if preference exists
       const { data: existing } = await supabase
         .from('recurring_preferences')
@@ -183,14 +192,15 @@ export function RecurringPayments() {
     }
   }
 
-  const isIgnored = (pattern: string): boolean => {
+  const isIgnored = (payment: DetectedRecurringPayment): boolean => {
+    const patterns = [payment.counterpartyPattern.toLowerCase(), payment.legacyPattern]
     return preferences.some(
-      (p) => p.counterparty_pattern.toLowerCase() === pattern.toLowerCase() && p.is_ignored
+      (p) => patterns.includes(p.counterparty_pattern.toLowerCase()) && p.is_ignored
     )
   }
 
   const PaymentCard = ({ payment }: { payment: DetectedRecurringPayment }) => {
-    const ignored = isIgnored(payment.counterpartyPattern)
+    const ignored = isIgnored(payment)
     return (
       <div
         className={cn(
@@ -228,7 +238,7 @@ export function RecurringPayments() {
           <Button
             variant="ghost"
             size="sm"
-            onClick={() => toggleIgnore(payment.counterpartyPattern, ignored)}
+            onClick={() => toggleIgnore(payment, ignored)}
             className="shrink-0"
           >
             {ignored ? (
@@ -0,0 +1,222 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { toast } from 'sonner'
+import { Trash2 } from 'lucide-react'
+import { ALERT_RULE_TYPES, describeAlertRule } from '@/lib/utils/alert-rules'
+import type { AlertRule, AlertRuleType } from '@/lib/types'
+
+const SELECT_CLASS = 'flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm'
+
+type DraftAlert = {
+  rule_type: AlertRuleType
+  category: string
+  threshold: string
+  lookback_days: string
+}
+
+const EMPTY_DRAFT: DraftAlert = {
+  rule_type: 'budget_percent',
+  category: '',
+  threshold: '',
+  lookback_days: '7',
+}
+
+/** First validation message from a zod `flatten()` error response, if any. */
+function validationMessage(result: { details?: { formErrors?: string[]; fieldErrors?: Record<string, string[]> } }) {
+  return result.details?.formErrors?.[0] ?? Object.values(result.details?.fieldErrors ?? {})[0]?.[0]
+}
+
+export function AlertRulesForm() {
+  const [rules, setRules] = useState<AlertRule[]>([])
+  const [loading, setLoading] = useState(true)
+  const [draft, setDraft] = useState<DraftAlert>(EMPTY_DRAFT)
+  const [saving, setSaving] = useState(false)
+
+  const fetchRules = useCallback(async () => {
+    try {
+      const res = await fetch('/api/alert-rules')
+      const result = await res.json()
+      if (result.success) setRules(result.data ?? [])
+    } catch {
+      toast.error('Failed to load alerts')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    void fetchRules()
+  }, [fetchRules])
+
+  const updateDraft = <K extends keyof DraftAlert>(key: K, value: DraftAlert[K]) => {
+    setDraft((prev) => ({ ...prev, [key]: value }))
+  }
+
+  const handleAdd = async () => {
+    setSaving(true)
+    try {
+      const res = await fetch('/api/alert-rules', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          rule_type: draft.rule_type,
+          category: draft.category.trim() || null,
+          threshold: parseFloat(draft.threshold),
+          lookback_days: parseInt(draft.lookback_days, 10) || 7,
+        }),
+      })
+      const result = await res.json()
+      if (!result.success) {
+        toast.error(validationMessage(result) || result.error || 'Failed to add alert')
+        return
+      }
+      toast.success('Alert added', { description: 'It is checked after every sync.' })
+      setRules((prev) => [...prev, result.data])
+      setDraft(EMPTY_DRAFT)
+    } catch {
+      toast.error('Failed to add alert')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleToggle = async (rule: AlertRule) => {
+    try {
+      const res = await fetch(`/api/alert-rules/${rule.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ is_active: !rule.is_active }),
+      })
+      const result = await res.json()
+      if (!result.success) {
+        toast.error(result.error || 'Failed to update alert')
+        return
+      }
+      setRules((prev) => prev.map((r) => (r.id === rule.id ? result.data : r)))
+    } catch {
+      toast.error('Failed to update alert')
+    }
+  }
+
+  const handleDelete = async (id: string) => {
+    try {
+      const res = await fetch(`/api/alert-rules/${id}`, { method: 'DELETE' })
+      const result = await res.json()
+      if (!result.success) {
+        toast.error(result.error || 'Failed to delete alert')
+        return
+      }
+      setRules((prev) => prev.filter((r) => r.id !== id))
+    } catch {
+      toast.error('Failed to delete alert')
+    }
+  }
+
+  const threshold = parseFloat(draft.threshold)
+  const canSubmit = !isNaN(threshold) && threshold > 0
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Budget Alerts</CardTitle>
+        <CardDescription>
+          Checked after every sync. Anything that trips an alert shows up under the bell in the header, once per
+          budget year, snapshot, month or transaction.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          {loading ? (
+            <p className="text-sm text-muted-foreground">Loading alerts…</p>
+          ) : rules.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No alerts yet.</p>
+          ) : (
+            rules.map((rule) => (
+              <div key={rule.id} className="flex items-center gap-2 rounded-md border p-2">
+                <Checkbox
+                  checked={rule.is_active}
+                  onCheckedChange={() => handleToggle(rule)}
+                  aria-label={rule.is_active ? 'Disable alert' : 'Enable alert'}
+                />
+                <div className={`min-w-0 flex-1 text-sm ${rule.is_active ? '' : 'opacity-50'}`}>
+                  <span className="text-muted-foreground">{ALERT_RULE_TYPES[rule.rule_type].label}: </span>
+                  <span className="truncate">{describeAlertRule(rule)}</span>
+                </div>
+                <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => handleDelete(rule.id)} aria-label="Delete alert">
+                  <Trash2 className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+
+        <div className="space-y-4 rounded-md border p-4">
+          <p className="text-sm font-medium">New alert</p>
+          <div className="grid gap-4 sm:grid-cols-3">
+            <div className="space-y-2">
+              <Label htmlFor="alert-type">When</Label>
+              <select
+                id="alert-type"
+                className={SELECT_CLASS}
+                value={draft.rule_type}
+                onChange={(e) => updateDraft('rule_type', e.target.value as AlertRuleType)}
+              >
+                {(Object.keys(ALERT_RULE_TYPES) as AlertRuleType[]).map((type) => (
+                  <option key={type} value={type}>
+                    {ALERT_RULE_TYPES[type].label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="alert-category">Category</Label>
+              <Input
+                id="alert-category"
+                placeholder="All categories"
+                value={draft.category}
+                onChange={(e) => updateDraft('category', e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="alert-threshold">Threshold ({ALERT_RULE_TYPES[draft.rule_type].thresholdLabel})</Label>
+              <Input
+                id="alert-threshold"
+                type="number"
+                step="any"
+                min="0"
+                value={draft.threshold}
+                onChange={(e) => updateDraft('threshold', e.target.value)}
+              />
+            </div>
+            {draft.rule_type === 'forecast_gap' && (
+              <div className="space-y-2">
+                <Label htmlFor="alert-lookback">Over the last (days)</Label>
+                <Input
+                  id="alert-lookback"
+                  type="number"
+                  step="1"
+                  min="1"
+                  max="365"
+                  value={draft.lookback_days}
+                  onChange={(e) => updateDraft('lookback_days', e.target.value)}
+                />
+              </div>
+            )}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Leave the category blank to watch total expenses (budget and forecast alerts) or every expense category.
+          </p>
+          <Button onClick={handleAdd} disabled={!canSubmit || saving}>
+            {saving ? 'Adding…' : 'Add alert'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
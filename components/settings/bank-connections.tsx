@@ -0,0 +1,175 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { toast } from 'sonner'
+import { Landmark, RefreshCw, Trash2 } from 'lucide-react'
+import type { AggregatorConnection } from '@/lib/types'
+
+interface ProviderOption {
+  id: string
+  name: string
+}
+
+function formatSyncedAt(value: string): string {
+  return new Date(value).toLocaleString('en-GB', {
+    day: '2-digit',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+}
+
+/**
+ * Bank connections through an aggregator. Each connection brings in balances and new transactions
+ * on demand; its rows are tagged with the provider and sheet sync leaves them alone.
+ */
+export function BankConnections() {
+  const [connections, setConnections] = useState<AggregatorConnection[]>([])
+  const [providers, setProviders] = useState<ProviderOption[]>([])
+  const [loading, setLoading] = useState(true)
+  const [busyId, setBusyId] = useState<string | null>(null)
+
+  const fetchConnections = useCallback(async () => {
+    try {
+      const res = await fetch('/api/connections')
+      const result = await res.json()
+      if (result.success) {
+        setConnections(result.data.connections ?? [])
+        setProviders(result.data.providers ?? [])
+      }
+    } catch {
+      toast.error('Failed to load bank connections')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    void fetchConnections()
+  }, [fetchConnections])
+
+  const handleConnect = async (provider: ProviderOption) => {
+    setBusyId(provider.id)
+    try {
+      // The mock provider has no link widget; any public token links its fixture
+      const res = await fetch('/api/connections', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ provider: provider.id, publicToken: `${provider.id}-public-token` }),
+      })
+      const result = await res.json()
+      if (!result.success) {
+        toast.error(result.error || 'Failed to connect')
+        return
+      }
+      const sync = result.data.sync
+      if (sync) toast.success(`Connected. ${sync.inserted} transactions and ${sync.balances} balances imported.`)
+      else toast.warning('Connected, but the first sync failed. Try Sync now.')
+      await fetchConnections()
+    } catch {
+      toast.error('Failed to connect')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleSync = async (id: string) => {
+    setBusyId(id)
+    try {
+      const res = await fetch(`/api/connections/${id}/sync`, { method: 'POST' })
+      const result = await res.json()
+      if (!result.success) toast.error(result.error || 'Sync failed')
+      else toast.success(`${result.data.inserted} new transactions, ${result.data.balances} balances updated`)
+      await fetchConnections()
+    } catch {
+      toast.error('Sync failed')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleDisconnect = async (id: string) => {
+    setBusyId(id)
+    try {
+      const res = await fetch(`/api/connections/${id}`, { method: 'DELETE' })
+      const result = await res.json()
+      if (!result.success) {
+        toast.error(result.error || 'Failed to disconnect')
+        return
+      }
+      setConnections((prev) => prev.filter((c) => c.id !== id))
+    } catch {
+      toast.error('Failed to disconnect')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const providerName = (id: string) => providers.find((p) => p.id === id)?.name ?? id
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Bank Connections</CardTitle>
+        <CardDescription>
+          Import balances and transactions straight from your bank. Connected rows are kept separate from your sheet,
+          and disconnecting keeps what was already imported.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="rounded-md border divide-y">
+          {loading ? (
+            <p className="p-3 text-sm text-muted-foreground">Loading connections…</p>
+          ) : connections.length === 0 ? (
+            <p className="p-3 text-sm text-muted-foreground">No banks connected.</p>
+          ) : (
+            connections.map((c) => (
+              <div key={c.id} className="flex flex-wrap items-center gap-2 px-3 py-2">
+                <Landmark className="h-4 w-4 shrink-0 text-muted-foreground" />
+                <span className="text-sm font-medium">{c.institution}</span>
+                <Badge variant="outline" className="font-normal">{providerName(c.provider)}</Badge>
+                {c.status === 'error' && <Badge variant="destructive">Error</Badge>}
+                <span className="text-xs text-muted-foreground">
+                  {c.last_synced_at ? `Synced ${formatSyncedAt(c.last_synced_at)}` : 'Never synced'}
+                </span>
+                <div className="ml-auto flex items-center gap-1">
+                  <Button variant="ghost" size="sm" disabled={busyId !== null} onClick={() => handleSync(c.id)}>
+                    <RefreshCw className="mr-1 h-3.5 w-3.5" />
+                    {busyId === c.id ? 'Syncing…' : 'Sync now'}
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 w-7 p-0"
+                    disabled={busyId !== null}
+                    onClick={() => handleDisconnect(c.id)}
+                    aria-label="Disconnect"
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+                {c.status === 'error' && c.last_error && (
+                  <p className="w-full text-xs text-destructive break-words">{c.last_error}</p>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+
+        {providers.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {providers.map((p) => (
+              <Button key={p.id} variant="outline" disabled={busyId !== null} onClick={() => handleConnect(p)}>
+                {busyId === p.id ? 'Connecting…' : `Connect ${p.name}`}
+              </Button>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
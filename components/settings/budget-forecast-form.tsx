@@ -0,0 +1,66 @@
+'use client'
+
+import { useState } from 'react'
+import { createClient } from '@/lib/supabase/client'
+import { Label } from '@/components/ui/label'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { toast } from 'sonner'
+import { BUDGET_FORECAST_METHODS, type BudgetForecastMethod } from '@/lib/utils/budget-forecast'
+
+const SELECT_CLASS = 'flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm'
+
+interface BudgetForecastFormProps {
+  initialMethod: BudgetForecastMethod
+}
+
+/** How the budget table, snapshots and forecast bridge project full-year spend from transactions. */
+export function BudgetForecastForm({ initialMethod }: BudgetForecastFormProps) {
+  const [method, setMethod] = useState<BudgetForecastMethod>(initialMethod)
+
+  const handleChange = async (next: BudgetForecastMethod) => {
+    const previous = method
+    setMethod(next)
+    const supabase = createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      toast.error('Not signed in')
+      setMethod(previous)
+      return
+    }
+    const { error } = await supabase
+      .from('user_profiles')
+      .update({ budget_forecast_method: next, updated_at: new Date().toISOString() })
+      .eq('id', user.id)
+    if (error) {
+      toast.error(error.message)
+      setMethod(previous)
+    }
+  }
+
+  const selected = BUDGET_FORECAST_METHODS.find((m) => m.id === method)
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Budget Forecast</CardTitle>
+        <CardDescription>
+          Year-to-date spend comes from your transactions. Choose how it is projected to a full-year estimate.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <Label htmlFor="budget-forecast-method">Forecast method</Label>
+        <select
+          id="budget-forecast-method"
+          className={SELECT_CLASS}
+          value={method}
+          onChange={(e) => handleChange(e.target.value as BudgetForecastMethod)}
+        >
+          {BUDGET_FORECAST_METHODS.map((m) => (
+            <option key={m.id} value={m.id}>{m.label}</option>
+          ))}
+        </select>
+        {selected && <p className="text-xs text-muted-foreground">{selected.description}</p>}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,393 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { createClient } from '@/lib/supabase/client'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { toast } from 'sonner'
+import { ArrowDown, ArrowUp, Trash2 } from 'lucide-react'
+import type { CategorizationRule } from '@/lib/types'
+import { nativeAmount } from '@/lib/utils/currency'
+
+const SELECT_CLASS = 'flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm'
+
+type DraftRule = {
+  counterparty_pattern: string
+  match_type: 'contains' | 'regex'
+  min_amount: string
+  max_amount: string
+  currency: '' | 'USD' | 'GBP' | 'EUR'
+  category: string
+}
+
+const EMPTY_DRAFT: DraftRule = {
+  counterparty_pattern: '',
+  match_type: 'contains',
+  min_amount: '',
+  max_amount: '',
+  currency: '',
+  category: '',
+}
+
+type DryRunRow = {
+  id: string
+  date: string
+  category: string
+  counterparty: string | null
+  amount_usd: number | null
+  amount_gbp: number | null
+  amount_eur?: number | null
+  currency: string | null
+}
+
+type DryRunResult = { total: number; scanned: number; fromCategories: Record<string, number>; rows: DryRunRow[] }
+
+function toPayload(draft: DraftRule) {
+  const amount = (value: string) => (value.trim() === '' ? null : Math.abs(parseFloat(value)))
+  return {
+    counterparty_pattern: draft.counterparty_pattern.trim() || null,
+    match_type: draft.match_type,
+    min_amount: amount(draft.min_amount),
+    max_amount: amount(draft.max_amount),
+    currency: draft.currency || null,
+    category: draft.category.trim(),
+  }
+}
+
+/** First validation message from a zod `flatten()` error response, if any. */
+function validationMessage(result: { details?: { formErrors?: string[]; fieldErrors?: Record<string, string[]> } }) {
+  return result.details?.formErrors?.[0] ?? Object.values(result.details?.fieldErrors ?? {})[0]?.[0]
+}
+
+function describeRule(rule: CategorizationRule): string {
+  const parts: string[] = []
+  if (rule.counterparty_pattern) {
+    parts.push(rule.match_type === 'regex' ? `counterparty ~ /${rule.counterparty_pattern}/` : `counterparty contains "${rule.counterparty_pattern}"`)
+  }
+  if (rule.min_amount != null && rule.max_amount != null) parts.push(`amount ${rule.min_amount}–${rule.max_amount}`)
+  else if (rule.min_amount != null) parts.push(`amount ≥ ${rule.min_amount}`)
+  else if (rule.max_amount != null) parts.push(`amount ≤ ${rule.max_amount}`)
+  if (rule.currency) parts.push(`in ${rule.currency}`)
+  return parts.join(', ')
+}
+
+function formatRowAmount(row: DryRunRow): string {
+  const native = nativeAmount(row)
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency: native?.currency ?? 'USD' }).format(
+    native?.amount ?? 0
+  )
+}
+
+interface CategorizationRulesFormProps {
+  initialApplyOnSync: boolean
+}
+
+export function CategorizationRulesForm({ initialApplyOnSync }: CategorizationRulesFormProps) {
+  const [rules, setRules] = useState<CategorizationRule[]>([])
+  const [loading, setLoading] = useState(true)
+  const [draft, setDraft] = useState<DraftRule>(EMPTY_DRAFT)
+  const [saving, setSaving] = useState(false)
+  const [dryRun, setDryRun] = useState<DryRunResult | null>(null)
+  const [testing, setTesting] = useState(false)
+  const [applyOnSync, setApplyOnSync] = useState(initialApplyOnSync)
+
+  const fetchRules = useCallback(async () => {
+    try {
+      const res = await fetch('/api/categorization-rules')
+      const result = await res.json()
+      if (result.success) setRules(result.data ?? [])
+    } catch {
+      toast.error('Failed to load rules')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    void fetchRules()
+  }, [fetchRules])
+
+  const updateDraft = <K extends keyof DraftRule>(key: K, value: DraftRule[K]) => {
+    setDraft((prev) => ({ ...prev, [key]: value }))
+    setDryRun(null)
+  }
+
+  const handleDryRun = async () => {
+    setTesting(true)
+    try {
+      const res = await fetch('/api/categorization-rules/dry-run', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(toPayload(draft)),
+      })
+      const result = await res.json()
+      if (!result.success) {
+        toast.error(validationMessage(result) || result.error || 'Rule is not valid')
+        return
+      }
+      setDryRun(result.data)
+    } catch {
+      toast.error('Failed to test rule')
+    } finally {
+      setTesting(false)
+    }
+  }
+
+  const handleAdd = async () => {
+    setSaving(true)
+    try {
+      const res = await fetch('/api/categorization-rules', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(toPayload(draft)),
+      })
+      const result = await res.json()
+      if (!result.success) {
+        toast.error(validationMessage(result) || result.error || 'Failed to add rule')
+        return
+      }
+      toast.success('Rule added')
+      setRules((prev) => [...prev, result.data])
+      setDraft(EMPTY_DRAFT)
+      setDryRun(null)
+    } catch {
+      toast.error('Failed to add rule')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const patchRule = async (id: string, patch: Partial<CategorizationRule>) => {
+    const res = await fetch(`/api/categorization-rules/${id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(patch),
+    })
+    const result = await res.json()
+    if (!result.success) throw new Error(result.error || 'Failed to update rule')
+    return result.data as CategorizationRule
+  }
+
+  const handleToggle = async (rule: CategorizationRule) => {
+    try {
+      const updated = await patchRule(rule.id, { is_active: !rule.is_active })
+      setRules((prev) => prev.map((r) => (r.id === rule.id ? updated : r)))
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : 'Failed to update rule')
+    }
+  }
+
+  /** Swap with the neighbour; priorities are renumbered 0..n-1 so gaps and ties are cleaned up too. */
+  const handleMove = async (index: number, direction: -1 | 1) => {
+    const target = index + direction
+    if (target < 0 || target >= rules.length) return
+    const reordered = [...rules]
+    ;[reordered[index], reordered[target]] = [reordered[target], reordered[index]]
+    const renumbered = reordered.map((r, i) => ({ ...r, priority: i }))
+    setRules(renumbered)
+    try {
+      await Promise.all(
+        renumbered
+          .filter((r, i) => rules[i].id !== r.id || rules[i].priority !== i)
+          .map((r) => patchRule(r.id, { priority: r.priority }))
+      )
+    } catch {
+      toast.error('Failed to reorder rules')
+      void fetchRules()
+    }
+  }
+
+  const handleDelete = async (id: string) => {
+    try {
+      const res = await fetch(`/api/categorization-rules/${id}`, { method: 'DELETE' })
+      const result = await res.json()
+      if (!result.success) {
+        toast.error(result.error || 'Failed to delete rule')
+        return
+      }
+      setRules((prev) => prev.filter((r) => r.id !== id))
+    } catch {
+      toast.error('Failed to delete rule')
+    }
+  }
+
+  const handleApplyOnSyncChange = async (checked: boolean) => {
+    setApplyOnSync(checked)
+    const supabase = createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      toast.error('Not signed in')
+      return
+    }
+    const { error } = await supabase
+      .from('user_profiles')
+      .update({ apply_rules_on_sync: checked, updated_at: new Date().toISOString() })
+      .eq('id', user.id)
+    if (error) {
+      toast.error(error.message)
+      setApplyOnSync(!checked)
+    }
+  }
+
+  const canSubmit = draft.category.trim() !== '' &&
+    (draft.counterparty_pattern.trim() !== '' || draft.min_amount !== '' || draft.max_amount !== '' || draft.currency !== '')
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Categorization Rules</CardTitle>
+        <CardDescription>
+          Categorize new transactions automatically. Rules run top to bottom and the first match wins. They apply to
+          manual entries left without a category and to CSV/OFX imports.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex items-start gap-3">
+          <Checkbox
+            id="apply-rules-on-sync"
+            checked={applyOnSync}
+            onCheckedChange={(v) => handleApplyOnSyncChange(v === true)}
+          />
+          <div className="space-y-1">
+            <Label htmlFor="apply-rules-on-sync">Also apply to Google Sheet rows</Label>
+            <p className="text-xs text-muted-foreground">
+              During sync, sheet rows with a blank or &quot;Uncategorized&quot; category are categorized by your rules.
+            </p>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          {loading ? (
+            <p className="text-sm text-muted-foreground">Loading rules…</p>
+          ) : rules.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No rules yet.</p>
+          ) : (
+            rules.map((rule, index) => (
+              <div key={rule.id} className="flex items-center gap-2 rounded-md border p-2">
+                <Checkbox
+                  checked={rule.is_active}
+                  onCheckedChange={() => handleToggle(rule)}
+                  aria-label={rule.is_active ? 'Disable rule' : 'Enable rule'}
+                />
+                <div className={`min-w-0 flex-1 text-sm ${rule.is_active ? '' : 'opacity-50'}`}>
+                  <span className="truncate">{describeRule(rule)}</span>
+                  <span className="text-muted-foreground"> → </span>
+                  <Badge variant="secondary">{rule.category}</Badge>
+                </div>
+                <Button variant="ghost" size="sm" className="h-7 w-7 p-0" disabled={index === 0} onClick={() => handleMove(index, -1)} aria-label="Move up">
+                  <ArrowUp className="h-3.5 w-3.5" />
+                </Button>
+                <Button variant="ghost" size="sm" className="h-7 w-7 p-0" disabled={index === rules.length - 1} onClick={() => handleMove(index, 1)} aria-label="Move down">
+                  <ArrowDown className="h-3.5 w-3.5" />
+                </Button>
+                <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => handleDelete(rule.id)} aria-label="Delete rule">
+                  <Trash2 className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+
+        <div className="space-y-4 rounded-md border p-4">
+          <p className="text-sm font-medium">New rule</p>
+          <div className="grid gap-4 sm:grid-cols-3">
+            <div className="space-y-2 sm:col-span-2">
+              <Label htmlFor="rule-pattern">Counterparty</Label>
+              <Input
+                id="rule-pattern"
+                placeholder={draft.match_type === 'regex' ? 'e.g. ^(uber|lyft)' : 'e.g. Tesco'}
+                value={draft.counterparty_pattern}
+                onChange={(e) => updateDraft('counterparty_pattern', e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rule-match-type">Match</Label>
+              <select
+                id="rule-match-type"
+                className={SELECT_CLASS}
+                value={draft.match_type}
+                onChange={(e) => updateDraft('match_type', e.target.value as DraftRule['match_type'])}
+              >
+                <option value="contains">Contains</option>
+                <option value="regex">Regex</option>
+              </select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rule-min">Min amount</Label>
+              <Input id="rule-min" type="number" step="0.01" min="0" value={draft.min_amount} onChange={(e) => updateDraft('min_amount', e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rule-max">Max amount</Label>
+              <Input id="rule-max" type="number" step="0.01" min="0" value={draft.max_amount} onChange={(e) => updateDraft('max_amount', e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rule-currency">Currency</Label>
+              <select
+                id="rule-currency"
+                className={SELECT_CLASS}
+                value={draft.currency}
+                onChange={(e) => updateDraft('currency', e.target.value as DraftRule['currency'])}
+              >
+                <option value="">Any</option>
+                <option value="USD">USD</option>
+                <option value="GBP">GBP</option>
+                <option value="EUR">EUR</option>
+              </select>
+            </div>
+            <div className="space-y-2 sm:col-span-3">
+              <Label htmlFor="rule-category">Category</Label>
+              <Input
+                id="rule-category"
+                placeholder="e.g. Groceries"
+                value={draft.category}
+                onChange={(e) => updateDraft('category', e.target.value)}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">Amounts are compared without sign, in the transaction&apos;s own currency.</p>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={handleDryRun} disabled={!canSubmit || testing}>
+              {testing ? 'Testing…' : 'Test on history'}
+            </Button>
+            <Button onClick={handleAdd} disabled={!canSubmit || saving}>
+              {saving ? 'Adding…' : 'Add rule'}
+            </Button>
+          </div>
+
+          {dryRun && (
+            <div className="space-y-2 text-sm">
+              <p>
+                Would recategorize <strong>{dryRun.total}</strong> of {dryRun.scanned} past transactions
+                {Object.keys(dryRun.fromCategories).length > 0 && (
+                  <span className="text-muted-foreground">
+                    {' '}(from {Object.entries(dryRun.fromCategories).map(([c, n]) => `${c} ×${n}`).join(', ')})
+                  </span>
+                )}
+                . Existing transactions are not changed.
+              </p>
+              {dryRun.rows.length > 0 && (
+                <div className="max-h-64 overflow-y-auto rounded-md border divide-y">
+                  {dryRun.rows.map((row) => (
+                    <div key={row.id} className="flex items-center gap-3 px-3 py-1.5 text-xs">
+                      <span className="text-muted-foreground tabular-nums">{row.date.split('T')[0]}</span>
+                      <span className="flex-1 truncate">{row.counterparty || 'Unknown'}</span>
+                      <span className="text-muted-foreground truncate">{row.category}</span>
+                      <span className="tabular-nums">{formatRowAmount(row)}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+              {dryRun.total > dryRun.rows.length && (
+                <p className="text-xs text-muted-foreground">Showing the {dryRun.rows.length} most recent.</p>
+              )}
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
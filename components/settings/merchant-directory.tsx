@@ -0,0 +1,220 @@
+'use client'
+
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { toast } from 'sonner'
+import { Pencil, Trash2 } from 'lucide-react'
+import type { Merchant } from '@/lib/types'
+
+type MerchantRow = Merchant & { transaction_count: number }
+
+/** Aliases are edited as one comma-separated string. */
+function parseAliases(value: string): string[] {
+  return Array.from(new Set(value.split(',').map((a) => a.trim()).filter(Boolean)))
+}
+
+export function MerchantDirectory() {
+  const [merchants, setMerchants] = useState<MerchantRow[]>([])
+  const [loading, setLoading] = useState(true)
+  const [search, setSearch] = useState('')
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editName, setEditName] = useState('')
+  const [editAliases, setEditAliases] = useState('')
+  const [newName, setNewName] = useState('')
+  const [newAliases, setNewAliases] = useState('')
+  const [busy, setBusy] = useState(false)
+
+  const fetchMerchants = useCallback(async () => {
+    try {
+      const res = await fetch('/api/merchants')
+      const result = await res.json()
+      if (result.success) setMerchants(result.data ?? [])
+    } catch {
+      toast.error('Failed to load merchants')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    void fetchMerchants()
+  }, [fetchMerchants])
+
+  const filtered = useMemo(() => {
+    const term = search.trim().toLowerCase()
+    if (!term) return merchants
+    return merchants.filter(
+      (m) => m.name.toLowerCase().includes(term) || m.alias_patterns.some((a) => a.toLowerCase().includes(term))
+    )
+  }, [merchants, search])
+
+  const request = async (url: string, init: RequestInit, successMessage: string) => {
+    setBusy(true)
+    try {
+      const res = await fetch(url, { headers: { 'Content-Type': 'application/json' }, ...init })
+      const result = await res.json()
+      if (!result.success) {
+        toast.error(result.error || 'Request failed')
+        return false
+      }
+      toast.success(successMessage)
+      await fetchMerchants()
+      return true
+    } catch {
+      toast.error('Request failed')
+      return false
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleAdd = async () => {
+    const ok = await request(
+      '/api/merchants',
+      { method: 'POST', body: JSON.stringify({ name: newName.trim(), alias_patterns: parseAliases(newAliases) }) },
+      'Merchant added'
+    )
+    if (ok) {
+      setNewName('')
+      setNewAliases('')
+    }
+  }
+
+  const startEdit = (merchant: MerchantRow) => {
+    setEditingId(merchant.id)
+    setEditName(merchant.name)
+    setEditAliases(merchant.alias_patterns.join(', '))
+  }
+
+  const handleSaveEdit = async () => {
+    if (!editingId) return
+    const ok = await request(
+      `/api/merchants/${editingId}`,
+      { method: 'PATCH', body: JSON.stringify({ name: editName.trim(), alias_patterns: parseAliases(editAliases) }) },
+      'Merchant updated'
+    )
+    if (ok) setEditingId(null)
+  }
+
+  const handleDelete = (id: string) =>
+    request(`/api/merchants/${id}`, { method: 'DELETE' }, 'Merchant deleted')
+
+  /** Merge the selection into the merchant with the most transactions. */
+  const handleMerge = async () => {
+    const chosen = merchants.filter((m) => selected.has(m.id))
+    if (chosen.length < 2) return
+    const target = chosen.reduce((best, m) => (m.transaction_count > best.transaction_count ? m : best))
+    const ok = await request(
+      '/api/merchants/merge',
+      {
+        method: 'POST',
+        body: JSON.stringify({ targetId: target.id, sourceIds: chosen.filter((m) => m.id !== target.id).map((m) => m.id) }),
+      },
+      `Merged ${chosen.length} merchants into ${target.name}`
+    )
+    if (ok) setSelected(new Set())
+  }
+
+  const toggleSelected = (id: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev)
+      if (next.has(id)) next.delete(id)
+      else next.add(id)
+      return next
+    })
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Merchants</CardTitle>
+        <CardDescription>
+          Every transaction is matched to a merchant by its aliases, so name variants like &quot;AMZN Mktp UK&quot; and
+          &quot;Amazon.co.uk&quot; count as one. Aliases are words matched in the counterparty, or /regex/. Select
+          merchants to merge them.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col gap-2 sm:flex-row">
+          <Input placeholder="Search merchants or aliases" value={search} onChange={(e) => setSearch(e.target.value)} />
+          <Button variant="outline" disabled={selected.size < 2 || busy} onClick={handleMerge}>
+            Merge selected{selected.size > 1 ? ` (${selected.size})` : ''}
+          </Button>
+        </div>
+
+        <div className="max-h-96 overflow-y-auto rounded-md border divide-y">
+          {loading ? (
+            <p className="p-3 text-sm text-muted-foreground">Loading merchants…</p>
+          ) : filtered.length === 0 ? (
+            <p className="p-3 text-sm text-muted-foreground">
+              {merchants.length === 0 ? 'Merchants appear here after your next sync or import.' : 'No matching merchants.'}
+            </p>
+          ) : (
+            filtered.map((m) =>
+              editingId === m.id ? (
+                <div key={m.id} className="space-y-2 p-3">
+                  <Input value={editName} onChange={(e) => setEditName(e.target.value)} aria-label="Merchant name" />
+                  <Input value={editAliases} onChange={(e) => setEditAliases(e.target.value)} aria-label="Aliases" />
+                  <div className="flex gap-2">
+                    <Button size="sm" onClick={handleSaveEdit} disabled={busy || !editName.trim() || parseAliases(editAliases).length === 0}>
+                      Save
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => setEditingId(null)}>
+                      Cancel
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <div key={m.id} className="flex items-center gap-2 px-3 py-2">
+                  <Checkbox checked={selected.has(m.id)} onCheckedChange={() => toggleSelected(m.id)} aria-label={`Select ${m.name}`} />
+                  <div className="min-w-0 flex-1">
+                    <p className="text-sm font-medium truncate">
+                      {m.name}
+                      <span className="ml-2 text-xs font-normal text-muted-foreground">{m.transaction_count} txns</span>
+                    </p>
+                    <div className="flex flex-wrap gap-1 mt-1">
+                      {m.alias_patterns.map((alias) => (
+                        <Badge key={alias} variant="outline" className="text-xs font-normal">{alias}</Badge>
+                      ))}
+                    </div>
+                  </div>
+                  <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => startEdit(m)} aria-label="Edit merchant">
+                    <Pencil className="h-3.5 w-3.5" />
+                  </Button>
+                  <Button variant="ghost" size="sm" className="h-7 w-7 p-0" disabled={busy} onClick={() => handleDelete(m.id)} aria-label="Delete merchant">
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+              )
+            )
+          )}
+        </div>
+
+        <div className="grid gap-3 sm:grid-cols-[1fr_2fr_auto] sm:items-end">
+          <div className="space-y-2">
+            <Label htmlFor="merchant-name">New merchant</Label>
+            <Input id="merchant-name" placeholder="e.g. Amazon" value={newName} onChange={(e) => setNewName(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="merchant-aliases">Aliases (comma-separated)</Label>
+            <Input
+              id="merchant-aliases"
+              placeholder="e.g. amazon, amzn mktp, /^amzn/"
+              value={newAliases}
+              onChange={(e) => setNewAliases(e.target.value)}
+            />
+          </div>
+          <Button onClick={handleAdd} disabled={busy || !newName.trim() || parseAliases(newAliases).length === 0}>
+            Add
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
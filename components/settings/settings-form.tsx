@@ -8,12 +8,13 @@ import { Label } from '@/components/ui/label'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { toast } from 'sonner'
 import { useCurrency } from '@/lib/contexts/currency-context'
+import { DISPLAY_CURRENCIES, type DisplayCurrency } from '@/lib/utils/currency'
 import { ExternalLink, Copy } from 'lucide-react'
 
 const TEMPLATE_SHEET_ID = '1LsbT4ahDlq7Lyf04d5nyr4bsjqmkDq-kqQoA2t66Kgg'
 const TEMPLATE_COPY_URL = `https://docs.google.com/spreadsheets/d/${TEMPLATE_SHEET_ID}/copy`
 
-type CurrencyOption = 'USD' | 'GBP'
+type CurrencyOption = DisplayCurrency
 
 interface SettingsFormProps {
   initialSpreadsheetId: string
@@ -171,8 +172,11 @@ export function SettingsForm({ initialSpreadsheetId, initialDisplayName, initial
             onChange={(e) => setDefaultCurrency(e.target.value as CurrencyOption)}
             className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
           >
-            <option value="USD">$ USD</option>
-            <option value="GBP">£ GBP</option>
+            {DISPLAY_CURRENCIES.map((c) => (
+              <option key={c.id} value={c.id}>
+                {c.label}
+              </option>
+            ))}
           </select>
           <p className="text-xs text-muted-foreground">
             Currency the app opens with when you log in. New users default to USD.
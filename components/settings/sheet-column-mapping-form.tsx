@@ -0,0 +1,221 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { toast } from 'sonner'
+import { columnLetter } from '@/lib/utils/sheet-validation'
+import type { SheetLayoutInfo } from '@/lib/sync-google-sheet'
+
+const SELECT_CLASS = 'flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm'
+
+type Draft = { tabName: string; columns: Record<string, string> }
+
+function draftFor(layout: SheetLayoutInfo): Draft {
+  return {
+    tabName: layout.tabName === layout.sheet ? '' : layout.tabName,
+    columns: { ...(layout.mapping ?? {}) },
+  }
+}
+
+/**
+ * Per-tab column mapping for sheets whose layout differs from the template: read a differently
+ * named tab, and point each field at a header in the tab's first row instead of a fixed column.
+ */
+export function SheetColumnMappingForm() {
+  const [layouts, setLayouts] = useState<SheetLayoutInfo[] | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [selected, setSelected] = useState('')
+  const [draft, setDraft] = useState<Draft>({ tabName: '', columns: {} })
+
+  const selectLayout = (sheet: string, list: SheetLayoutInfo[]) => {
+    const layout = list.find((l) => l.sheet === sheet)
+    setSelected(sheet)
+    if (layout) setDraft(draftFor(layout))
+  }
+
+  const handleLoad = async () => {
+    setLoading(true)
+    try {
+      const res = await fetch('/api/sync/columns')
+      const result = await res.json()
+      if (!result.success) {
+        toast.error(result.error || 'Could not read sheet headers')
+        return
+      }
+      const list: SheetLayoutInfo[] = result.data ?? []
+      setLayouts(list)
+      selectLayout(selected || list[0]?.sheet || '', list)
+    } catch {
+      toast.error('Could not read sheet headers')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const layout = layouts?.find((l) => l.sheet === selected)
+
+  const handleSave = async () => {
+    if (!layout) return
+    setSaving(true)
+    try {
+      const res = await fetch('/api/sync/columns', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sheet_name: layout.sheet, tab_name: draft.tabName || null, columns: draft.columns }),
+      })
+      const result = await res.json()
+      if (!result.success) {
+        toast.error(result.error || 'Failed to save column mapping')
+        return
+      }
+      toast.success(`${layout.sheet} mapping saved. It applies from the next sync.`)
+      await handleLoad()
+    } catch {
+      toast.error('Failed to save column mapping')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleReset = async () => {
+    if (!layout) return
+    setSaving(true)
+    try {
+      const res = await fetch(`/api/sync/columns?sheet=${encodeURIComponent(layout.sheet)}`, { method: 'DELETE' })
+      const result = await res.json()
+      if (!result.success) {
+        toast.error(result.error || 'Failed to reset column mapping')
+        return
+      }
+      toast.success(`${layout.sheet} uses the template layout again`)
+      await handleLoad()
+    } catch {
+      toast.error('Failed to reset column mapping')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const setColumn = (field: string, header: string) => {
+    setDraft((prev) => ({ ...prev, columns: { ...prev.columns, [field]: header } }))
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Sheet Columns</CardTitle>
+        <CardDescription>
+          Sync reads each tab in the template&apos;s column order. If your tabs are named or laid out differently, map
+          each field to the header in your tab&apos;s first row.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {layouts === null ? (
+          <Button variant="outline" onClick={handleLoad} disabled={loading}>
+            {loading ? 'Reading headers…' : 'Check sheet columns'}
+          </Button>
+        ) : (
+          <>
+            <div className="space-y-2">
+              <Label htmlFor="mapping-sheet">Tab</Label>
+              <select
+                id="mapping-sheet"
+                className={SELECT_CLASS}
+                value={selected}
+                onChange={(e) => selectLayout(e.target.value, layouts)}
+              >
+                {layouts.map((l) => (
+                  <option key={l.sheet} value={l.sheet}>
+                    {l.sheet}
+                    {l.mapping || l.tabName !== l.sheet ? ' (custom)' : ''}
+                    {l.found ? '' : ' (not found)'}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {layout && (
+              <div className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="mapping-tab-name">Your tab name</Label>
+                  <Input
+                    id="mapping-tab-name"
+                    placeholder={layout.sheet}
+                    value={draft.tabName}
+                    onChange={(e) => setDraft((prev) => ({ ...prev, tabName: e.target.value }))}
+                  />
+                  {!layout.found && (
+                    <p className="text-xs text-destructive">
+                      No tab named &quot;{layout.tabName}&quot; in your spreadsheet, so this tab is not synced.
+                    </p>
+                  )}
+                </div>
+
+                <div className="rounded-md border divide-y">
+                  {layout.columns.map((column) => {
+                    const detected = layout.detected[column.field]
+                    return (
+                      <div key={column.field} className="grid gap-2 px-3 py-2 sm:grid-cols-2 sm:items-center">
+                        <div className="min-w-0">
+                          <p className="text-sm font-medium truncate">{column.field}</p>
+                          <p className="text-xs text-muted-foreground">
+                            Template: {column.header} (column {columnLetter(column.index)})
+                          </p>
+                        </div>
+                        <select
+                          className={SELECT_CLASS}
+                          aria-label={`Header for ${column.field}`}
+                          value={draft.columns[column.field] ?? ''}
+                          onChange={(e) => setColumn(column.field, e.target.value)}
+                        >
+                          <option value="">Template column {columnLetter(column.index)}</option>
+                          {layout.headers.filter(Boolean).map((h, i) => (
+                            <option key={`${h}-${i}`} value={h}>
+                              {h} (column {columnLetter(i)}){h === detected ? ' · detected' : ''}
+                            </option>
+                          ))}
+                          {/* Keep a saved header selectable even if it has left the header row */}
+                          {draft.columns[column.field] && !layout.headers.includes(draft.columns[column.field]) && (
+                            <option value={draft.columns[column.field]}>{draft.columns[column.field]} (not in row 1)</option>
+                          )}
+                        </select>
+                      </div>
+                    )
+                  })}
+                </div>
+
+                <div className="flex flex-wrap items-center gap-2">
+                  <Button onClick={handleSave} disabled={saving}>
+                    {saving ? 'Saving…' : 'Save mapping'}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    disabled={saving || Object.keys(layout.detected).length === 0}
+                    onClick={() => setDraft((prev) => ({ ...prev, columns: { ...layout.detected } }))}
+                  >
+                    Use detected headers
+                  </Button>
+                  {(layout.mapping || layout.tabName !== layout.sheet) && (
+                    <Button variant="ghost" disabled={saving} onClick={handleReset}>
+                      Reset to template
+                    </Button>
+                  )}
+                  {layout.mapping && <Badge variant="secondary">Custom mapping</Badge>}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Fields left on the template column are read from that column. If a mapped header is missing from
+                  row 1, the tab is not synced until the mapping is fixed.
+                </p>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
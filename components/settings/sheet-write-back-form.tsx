@@ -0,0 +1,61 @@
+'use client'
+
+import { useState } from 'react'
+import { createClient } from '@/lib/supabase/client'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Label } from '@/components/ui/label'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { toast } from 'sonner'
+
+interface SheetWriteBackFormProps {
+  initialEnabled: boolean
+}
+
+/**
+ * Opt-in two-way sync: manual transactions, accounts, budgets and kids accounts are appended to
+ * the matching sheet tab at the start of each sync, after which the sheet is their source.
+ */
+export function SheetWriteBackForm({ initialEnabled }: SheetWriteBackFormProps) {
+  const [enabled, setEnabled] = useState(initialEnabled)
+
+  const handleChange = async (checked: boolean) => {
+    setEnabled(checked)
+    const supabase = createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      toast.error('Not signed in')
+      return
+    }
+    const { error } = await supabase
+      .from('user_profiles')
+      .update({ sheet_write_back: checked, updated_at: new Date().toISOString() })
+      .eq('id', user.id)
+    if (error) {
+      toast.error(error.message)
+      setEnabled(!checked)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Write Manual Entries to Sheet</CardTitle>
+        <CardDescription>
+          Keep your Google Sheet complete when you add transactions, accounts, budgets or kids accounts in the app.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="flex items-start gap-3">
+          <Checkbox id="sheet-write-back" checked={enabled} onCheckedChange={(v) => handleChange(v === true)} />
+          <div className="space-y-1">
+            <Label htmlFor="sheet-write-back">Append manual entries to my sheet on sync</Label>
+            <p className="text-xs text-muted-foreground">
+              Each sync first adds new manual rows to the end of the matching tab. Once written, a row is managed from
+              the sheet like any other, so edit or delete it there. The service account needs Editor access.
+            </p>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,140 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { ChevronDown, ChevronRight, RefreshCw } from 'lucide-react'
+import type { SyncRun, SyncTrigger } from '@/lib/types'
+
+const TRIGGER_LABELS: Record<SyncTrigger, string> = {
+  manual: 'Manual',
+  cron: 'Daily refresh',
+  onboarding: 'Onboarding',
+}
+
+function formatStartedAt(value: string): string {
+  return new Date(value).toLocaleString('en-GB', {
+    day: '2-digit',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+}
+
+function formatDuration(ms: number): string {
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`
+}
+
+/**
+ * Recent Google Sheet sync runs with per-sheet rows processed, skipped rows and errors, so a tab
+ * that started failing, or a run that dropped rows, can be pinned to a date and trigger.
+ */
+export function SyncHistory() {
+  const [runs, setRuns] = useState<SyncRun[]>([])
+  const [loading, setLoading] = useState(true)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+
+  const fetchRuns = useCallback(async () => {
+    setLoading(true)
+    try {
+      const res = await fetch('/api/sync/runs')
+      const result = await res.json()
+      if (result.success) setRuns(result.data ?? [])
+    } catch {
+      /* history is informational; an empty list is fine */
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    void fetchRuns()
+  }, [fetchRuns])
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle>Sync History</CardTitle>
+          <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={fetchRuns} disabled={loading} aria-label="Reload sync history">
+            <RefreshCw className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+        <CardDescription>
+          Every sync from your Google Sheet: manual refreshes, the daily refresh and onboarding. Open a run to see rows
+          synced and skipped for each tab.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="max-h-96 overflow-y-auto rounded-md border divide-y">
+          {loading && runs.length === 0 ? (
+            <p className="p-3 text-sm text-muted-foreground">Loading sync history…</p>
+          ) : runs.length === 0 ? (
+            <p className="p-3 text-sm text-muted-foreground">No syncs recorded yet.</p>
+          ) : (
+            runs.map((run) => {
+              const open = expandedId === run.id
+              const failedSheets = run.results.filter((r) => !r.success)
+              return (
+                <div key={run.id} className="px-3 py-2">
+                  <button
+                    type="button"
+                    className="flex w-full items-center gap-2 text-left"
+                    onClick={() => setExpandedId(open ? null : run.id)}
+                  >
+                    {open ? <ChevronDown className="h-4 w-4 shrink-0" /> : <ChevronRight className="h-4 w-4 shrink-0" />}
+                    <span className="text-sm tabular-nums">{formatStartedAt(run.started_at)}</span>
+                    <Badge variant="outline" className="font-normal">{TRIGGER_LABELS[run.trigger]}</Badge>
+                    <span className="ml-auto flex items-center gap-2 text-xs text-muted-foreground">
+                      <span className="tabular-nums">{run.rows_processed} rows</span>
+                      {run.rows_skipped > 0 && <span className="tabular-nums">{run.rows_skipped} skipped</span>}
+                      {run.issue_count > 0 && <span className="tabular-nums">{run.issue_count} issues</span>}
+                      <span className="tabular-nums">{formatDuration(run.duration_ms)}</span>
+                      {run.success ? (
+                        <Badge variant="secondary">OK</Badge>
+                      ) : (
+                        <Badge variant="destructive">
+                          {failedSheets.length > 0 ? `${failedSheets.length} failed` : 'Failed'}
+                        </Badge>
+                      )}
+                    </span>
+                  </button>
+                  {open && (
+                    <div className="mt-2 space-y-1 pl-6 text-xs">
+                      {run.error && <p className="text-destructive">{run.error}</p>}
+                      {run.issue_count > 0 && (
+                        <p className="text-muted-foreground">
+                          {run.issue_count} {run.issue_count === 1 ? 'cell' : 'cells'} could not be read
+                          {run.id === runs[0].id && (
+                            <>
+                              {' · '}
+                              <Link href="/data-issues" className="underline underline-offset-2">
+                                View data issues
+                              </Link>
+                            </>
+                          )}
+                        </p>
+                      )}
+                      {run.results.map((r) => (
+                        <div key={r.sheet} className="flex flex-wrap items-baseline gap-x-2">
+                          <span className={r.success ? 'font-medium' : 'font-medium text-destructive'}>{r.sheet}</span>
+                          <span className="text-muted-foreground tabular-nums">
+                            {r.rowsProcessed} rows{r.rowsSkipped > 0 ? ` · ${r.rowsSkipped} skipped` : ''}
+                          </span>
+                          {r.error && <span className="text-destructive break-words">{r.error}</span>}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )
+            })
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
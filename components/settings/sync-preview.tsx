@@ -0,0 +1,180 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { toast } from 'sonner'
+import { AlertTriangle, ChevronDown, ChevronRight } from 'lucide-react'
+import type { SheetRow, SheetTableDiff } from '@/lib/utils/sheet-sync-diff'
+
+function formatRow(row: SheetRow, columns?: string[]): string {
+  return (columns ?? Object.keys(row)).map((c) => `${c}: ${row[c] ?? '—'}`).join(' · ')
+}
+
+/** A tab that would lose every stored row, or more rows than it adds back, is worth a second look. */
+function isRisky(t: SheetTableDiff): boolean {
+  return t.removed > 0 && (t.unchanged + t.changed === 0 || t.removed > t.added)
+}
+
+/**
+ * Dry run of the Google Sheet sync: shows what each table would gain, lose and change, so a
+ * bad sheet edit can be caught before sync deletes and re-inserts the data. Applying sends the
+ * preview's fingerprints, so the sync is refused if the sheet changed after it was previewed.
+ */
+export function SyncPreview() {
+  const [tables, setTables] = useState<SheetTableDiff[] | null>(null)
+  const [fingerprints, setFingerprints] = useState<Record<string, string> | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [applying, setApplying] = useState(false)
+  const [expanded, setExpanded] = useState<Set<string>>(new Set())
+
+  const handlePreview = async () => {
+    setLoading(true)
+    try {
+      const res = await fetch('/api/sync/preview', { method: 'POST' })
+      const result = await res.json().catch(() => ({}))
+      if (!res.ok || (!result.success && !result.data?.length)) {
+        toast.error(result.error || 'Preview failed')
+        return
+      }
+      setTables(result.data ?? [])
+      setFingerprints(result.fingerprints ?? null)
+      setExpanded(new Set())
+    } catch {
+      toast.error('Preview failed')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleApply = async () => {
+    setApplying(true)
+    try {
+      toast.info('Syncing data from your sheet…')
+      const response = await fetch('/api/sync', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ fingerprints: fingerprints ?? undefined }),
+      })
+      const result = await response.json().catch(() => ({}))
+      if (response.ok && result.success) {
+        toast.success('Data synced successfully')
+        window.location.reload()
+      } else if (result.stale) {
+        toast.warning(result.error || 'The sheet changed since the preview. Preview again before syncing.')
+        setTables(null)
+        setFingerprints(null)
+      } else if (!response.ok) {
+        toast.error(result.error || 'Sync failed')
+      } else {
+        toast.warning(result.error || 'Sync completed with errors')
+        setTables(null)
+      }
+    } catch {
+      toast.error('Sync failed')
+    } finally {
+      setApplying(false)
+    }
+  }
+
+  const toggle = (table: string) => {
+    setExpanded((prev) => {
+      const next = new Set(prev)
+      if (next.has(table)) next.delete(table)
+      else next.add(table)
+      return next
+    })
+  }
+
+  const withChanges = (tables ?? []).filter((t) => t.error || t.added + t.removed + t.changed > 0)
+  const unchangedCount = (tables?.length ?? 0) - withChanges.length
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Preview sync</CardTitle>
+        <CardDescription>
+          See what a sync would add, remove and change in each table before anything is written. Budgets, debts,
+          trends and recurring payments are replaced wholesale, so rows missing from the sheet are deleted.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {tables === null ? (
+          <Button variant="outline" onClick={handlePreview} disabled={loading}>
+            {loading ? 'Reading sheet…' : 'Preview changes'}
+          </Button>
+        ) : (
+          <>
+            {withChanges.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Your data already matches the sheet. Nothing would change.</p>
+            ) : (
+              <div className="rounded-md border divide-y">
+                {withChanges.map((t) => {
+                  const open = expanded.has(t.table)
+                  return (
+                    <div key={t.table} className="px-3 py-2">
+                      <button
+                        type="button"
+                        className="flex w-full items-center gap-2 text-left"
+                        onClick={() => toggle(t.table)}
+                        disabled={!!t.error}
+                      >
+                        {open ? <ChevronDown className="h-4 w-4 shrink-0" /> : <ChevronRight className="h-4 w-4 shrink-0" />}
+                        <span className="text-sm font-medium flex-1 truncate">{t.sheet}</span>
+                        {isRisky(t) && <AlertTriangle className="h-4 w-4 text-destructive shrink-0" aria-label="Large removal" />}
+                        {t.error ? (
+                          <Badge variant="destructive">Error</Badge>
+                        ) : (
+                          <span className="flex gap-1">
+                            {t.added > 0 && <Badge variant="secondary">+{t.added}</Badge>}
+                            {t.removed > 0 && <Badge variant="destructive">−{t.removed}</Badge>}
+                            {t.changed > 0 && <Badge variant="outline">~{t.changed}</Badge>}
+                          </span>
+                        )}
+                      </button>
+                      {t.error && <p className="mt-1 text-xs text-destructive">{t.error}</p>}
+                      {open && !t.error && (
+                        <div className="mt-2 space-y-2 text-xs">
+                          <p className="text-muted-foreground">{t.unchanged} rows unchanged</p>
+                          {t.samples.removed.map((row, i) => (
+                            <p key={`r${i}`} className="text-destructive break-words">− {formatRow(row)}</p>
+                          ))}
+                          {t.samples.added.map((row, i) => (
+                            <p key={`a${i}`} className="text-green-600 dark:text-green-400 break-words">+ {formatRow(row)}</p>
+                          ))}
+                          {t.samples.changed.map((c, i) => (
+                            <div key={`c${i}`} className="break-words">
+                              <p className="font-medium">~ {c.key}</p>
+                              <p className="text-muted-foreground pl-3">before: {formatRow(c.before, c.columns)}</p>
+                              <p className="pl-3">after: {formatRow(c.after, c.columns)}</p>
+                            </div>
+                          ))}
+                          {t.samples.removed.length + t.samples.added.length + t.samples.changed.length <
+                            t.removed + t.added + t.changed && (
+                            <p className="text-muted-foreground">Showing the first rows of each kind.</p>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  )
+                })}
+              </div>
+            )}
+            {unchangedCount > 0 && withChanges.length > 0 && (
+              <p className="text-xs text-muted-foreground">{unchangedCount} other tables are unchanged.</p>
+            )}
+            <div className="flex gap-2">
+              <Button onClick={handleApply} disabled={applying || withChanges.length === 0}>
+                {applying ? 'Syncing…' : 'Apply sync'}
+              </Button>
+              <Button variant="ghost" onClick={() => setTables(null)} disabled={applying}>
+                Cancel
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
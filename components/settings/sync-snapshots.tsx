@@ -0,0 +1,193 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { createClient } from '@/lib/supabase/client'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { toast } from 'sonner'
+import { History } from 'lucide-react'
+import type { SyncSnapshot } from '@/lib/types'
+
+interface SyncSnapshotsProps {
+  initialRetentionDays: number
+}
+
+function formatTakenAt(value: string): string {
+  return new Date(value).toLocaleString('en-GB', {
+    day: '2-digit',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+}
+
+/**
+ * Snapshots of budgets, debt, trends, investment returns, YoY net worth and recurring payments
+ * taken before each sync replaced them. Restoring one brings those tables back as they were;
+ * the state it replaces is snapshotted too, so a restore can be undone.
+ */
+export function SyncSnapshots({ initialRetentionDays }: SyncSnapshotsProps) {
+  const [snapshots, setSnapshots] = useState<SyncSnapshot[]>([])
+  const [loading, setLoading] = useState(true)
+  const [confirmId, setConfirmId] = useState<string | null>(null)
+  const [restoring, setRestoring] = useState(false)
+  const [retentionDays, setRetentionDays] = useState(String(initialRetentionDays))
+  const [savedRetentionDays, setSavedRetentionDays] = useState(initialRetentionDays)
+
+  const fetchSnapshots = useCallback(async () => {
+    try {
+      const res = await fetch('/api/sync/snapshots')
+      const result = await res.json()
+      if (result.success) setSnapshots(result.data ?? [])
+    } catch {
+      toast.error('Failed to load snapshots')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    void fetchSnapshots()
+  }, [fetchSnapshots])
+
+  const handleRestore = async (id: string) => {
+    setRestoring(true)
+    try {
+      const res = await fetch(`/api/sync/snapshots/${id}/restore`, { method: 'POST' })
+      const result = await res.json()
+      if (!result.success) {
+        toast.error(result.error || 'Restore failed')
+        return
+      }
+      toast.success('Data restored. Fix your sheet before the next sync, or it will be replaced again.')
+      setConfirmId(null)
+      window.location.reload()
+    } catch {
+      toast.error('Restore failed')
+    } finally {
+      setRestoring(false)
+    }
+  }
+
+  const handleRetentionSave = async () => {
+    const days = Number(retentionDays)
+    if (!Number.isInteger(days) || days < 1 || days > 365) {
+      toast.error('Keep snapshots for 1 to 365 days')
+      return
+    }
+    const supabase = createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      toast.error('Not signed in')
+      return
+    }
+    const { error } = await supabase
+      .from('user_profiles')
+      .update({ snapshot_retention_days: days, updated_at: new Date().toISOString() })
+      .eq('id', user.id)
+    if (error) {
+      toast.error(error.message)
+      return
+    }
+    setSavedRetentionDays(days)
+    toast.success('Snapshot retention saved')
+  }
+
+  // The snapshot taken before the most recent sync is the state "before the last sync"
+  const previousSync = snapshots.find((s) => s.reason === 'sync')
+
+  const renderConfirm = (id: string) => (
+    <div className="flex items-center gap-2">
+      <Button size="sm" variant="destructive" disabled={restoring} onClick={() => handleRestore(id)}>
+        {restoring ? 'Restoring…' : 'Confirm restore'}
+      </Button>
+      <Button size="sm" variant="ghost" disabled={restoring} onClick={() => setConfirmId(null)}>
+        Cancel
+      </Button>
+    </div>
+  )
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Restore a Previous Sync</CardTitle>
+        <CardDescription>
+          Budgets, debt, trends, investment returns, YoY net worth and recurring payments are replaced on every sync. A
+          snapshot is kept before each sync, so a bad sheet edit can be rolled back.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {previousSync && (
+          <div className="flex flex-wrap items-center gap-2">
+            {confirmId === previousSync.id ? (
+              renderConfirm(previousSync.id)
+            ) : (
+              <Button variant="outline" disabled={restoring} onClick={() => setConfirmId(previousSync.id)}>
+                <History className="mr-2 h-4 w-4" />
+                Restore previous sync
+              </Button>
+            )}
+            <span className="text-xs text-muted-foreground">
+              State before the sync on {formatTakenAt(previousSync.taken_at)}
+            </span>
+          </div>
+        )}
+
+        <div className="max-h-72 overflow-y-auto rounded-md border divide-y">
+          {loading ? (
+            <p className="p-3 text-sm text-muted-foreground">Loading snapshots…</p>
+          ) : snapshots.length === 0 ? (
+            <p className="p-3 text-sm text-muted-foreground">A snapshot is taken before your next sync.</p>
+          ) : (
+            snapshots.map((s) => (
+              <div key={s.id} className="flex flex-wrap items-center gap-2 px-3 py-2">
+                <span className="text-sm tabular-nums">{formatTakenAt(s.taken_at)}</span>
+                <Badge variant="outline" className="font-normal">
+                  {s.reason === 'sync' ? 'Before sync' : 'Before restore'}
+                </Badge>
+                <span className="text-xs text-muted-foreground tabular-nums">{s.row_count} rows</span>
+                {s.restored_at && (
+                  <span className="text-xs text-muted-foreground">restored {formatTakenAt(s.restored_at)}</span>
+                )}
+                <div className="ml-auto">
+                  {confirmId === s.id ? (
+                    renderConfirm(s.id)
+                  ) : (
+                    <Button size="sm" variant="ghost" disabled={restoring} onClick={() => setConfirmId(s.id)}>
+                      Restore
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+
+        <div className="flex flex-wrap items-end gap-2">
+          <div className="space-y-2">
+            <Label htmlFor="snapshot-retention">Keep snapshots for (days)</Label>
+            <Input
+              id="snapshot-retention"
+              type="number"
+              min={1}
+              max={365}
+              className="w-32"
+              value={retentionDays}
+              onChange={(e) => setRetentionDays(e.target.value)}
+            />
+          </div>
+          <Button variant="outline" onClick={handleRetentionSave} disabled={Number(retentionDays) === savedRetentionDays}>
+            Save
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Older snapshots are removed after each sync; the most recent one is always kept.
+        </p>
+      </CardContent>
+    </Card>
+  )
+}
@@ -25,7 +25,7 @@ export function AddTransactionDialog() {
   const [category, setCategory] = useState('')
   const [counterparty, setCounterparty] = useState('')
   const [amount, setAmount] = useState('')
-  const [currency, setCurrency] = useState<'USD' | 'GBP'>('USD')
+  const [currency, setCurrency] = useState<'USD' | 'GBP' | 'EUR'>('USD')
 
   const resetForm = () => {
     setDate(today)
@@ -38,8 +38,8 @@ export function AddTransactionDialog() {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
 
-    if (!date || !category || !amount) {
-      toast.error('Please fill in date, category, and amount')
+    if (!date || !amount) {
+      toast.error('Please fill in date and amount')
       return
     }
 
@@ -56,10 +56,11 @@ export function AddTransactionDialog() {
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           date,
-          category,
+          category: category.trim() || undefined,
           counterparty: counterparty || null,
           amount_usd: currency === 'USD' ? numAmount : null,
           amount_gbp: currency === 'GBP' ? numAmount : null,
+          amount_eur: currency === 'EUR' ? numAmount : null,
           currency,
         }),
       })
@@ -71,7 +72,9 @@ export function AddTransactionDialog() {
         return
       }
 
-      toast.success('Transaction added')
+      toast.success('Transaction added', {
+        description: category.trim() ? undefined : `Categorized as ${result.data.category}`,
+      })
       setOpen(false)
       resetForm()
       router.refresh()
@@ -109,10 +112,9 @@ export function AddTransactionDialog() {
             <Label htmlFor="txn-category">Category</Label>
             <Input
               id="txn-category"
-              placeholder="e.g. Food & Drink, Transport"
+              placeholder="Leave blank to apply your rules"
               value={category}
               onChange={(e) => setCategory(e.target.value)}
-              required
             />
           </div>
           <div className="space-y-2">
@@ -143,10 +145,11 @@ export function AddTransactionDialog() {
                 id="txn-currency"
                 className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
                 value={currency}
-                onChange={(e) => setCurrency(e.target.value as 'USD' | 'GBP')}
+                onChange={(e) => setCurrency(e.target.value as 'USD' | 'GBP' | 'EUR')}
               >
                 <option value="USD">USD</option>
                 <option value="GBP">GBP</option>
+                <option value="EUR">EUR</option>
               </select>
             </div>
           </div>
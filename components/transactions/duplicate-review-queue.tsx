@@ -0,0 +1,158 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { toast } from 'sonner'
+import { Copy } from 'lucide-react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { TransactionLog } from '@/lib/types'
+import type { DuplicateCandidate } from '@/lib/utils/detect-duplicate-transactions'
+
+const SOURCE_LABELS: Record<string, string> = {
+  google_sheet: 'Sheet',
+  manual: 'Manual',
+  csv: 'CSV',
+  ofx: 'OFX',
+  plaid: 'Bank feed',
+  mock: 'Mock bank',
+}
+
+function formatAmount(tx: TransactionLog): string {
+  // Show the row in its own currency; fall back to whichever amount is set
+  const isGbp = (tx.currency ?? '').toUpperCase() === 'GBP'
+    ? tx.amount_gbp != null
+    : tx.amount_usd == null && tx.amount_gbp != null
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: isGbp ? 'GBP' : 'USD',
+  }).format((isGbp ? tx.amount_gbp : tx.amount_usd) ?? 0)
+}
+
+/**
+ * Review queue for likely duplicate transactions across data sources (sheet, manual,
+ * CSV/OFX imports). Renders nothing when there are no open candidates.
+ */
+export function DuplicateReviewQueue() {
+  const router = useRouter()
+  const [candidates, setCandidates] = useState<DuplicateCandidate[]>([])
+  const [total, setTotal] = useState(0)
+  const [busyKey, setBusyKey] = useState<string | null>(null)
+
+  const fetchCandidates = useCallback(async () => {
+    try {
+      const res = await fetch('/api/transactions/duplicates')
+      const result = await res.json()
+      if (result.success) {
+        setCandidates(result.data ?? [])
+        setTotal(result.total ?? 0)
+      }
+    } catch {
+      /* queue is best-effort; analysis page still works without it */
+    }
+  }, [])
+
+  useEffect(() => {
+    void fetchCandidates()
+  }, [fetchCandidates])
+
+  const postAction = async (pairKey: string, body: Record<string, string>, successMessage: string) => {
+    setBusyKey(pairKey)
+    try {
+      const res = await fetch('/api/transactions/duplicates', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      })
+      const result = await res.json()
+      if (!result.success) {
+        toast.error(result.error || 'Failed to update duplicate')
+        return
+      }
+      toast.success(successMessage)
+      setCandidates((prev) => prev.filter((c) => c.pairKey !== pairKey))
+      setTotal((t) => Math.max(0, t - 1))
+      if (body.action === 'merge') router.refresh()
+    } catch {
+      toast.error('Failed to update duplicate')
+    } finally {
+      setBusyKey(null)
+    }
+  }
+
+  if (candidates.length === 0) return null
+
+  const renderSide = (tx: TransactionLog) => (
+    <div className="min-w-0 flex-1 space-y-1">
+      <div className="flex items-center gap-2">
+        <Badge variant="outline">{SOURCE_LABELS[tx.data_source ?? 'google_sheet'] ?? tx.data_source}</Badge>
+        <span className="text-xs text-muted-foreground">{tx.date.split('T')[0]}</span>
+      </div>
+      <p className="text-sm font-medium truncate">{tx.counterparty || 'Unknown'}</p>
+      <p className="text-xs text-muted-foreground truncate">{tx.category}</p>
+      <p className="text-sm font-semibold tabular-nums">{formatAmount(tx)}</p>
+    </div>
+  )
+
+  return (
+    <Card id="duplicates" className="scroll-mt-24">
+      <CardHeader className="bg-muted/50 px-4 py-3 pb-4">
+        <div className="flex items-center gap-2">
+          <Copy className="h-4 w-4 text-muted-foreground" />
+          <CardTitle className="text-base">Possible Duplicates ({total})</CardTitle>
+        </div>
+        <p className="text-sm text-muted-foreground mt-1">
+          The same purchase may have arrived from your sheet, a manual entry or an import. Keep one, or dismiss the pair.
+        </p>
+      </CardHeader>
+      <CardContent className="pt-4 space-y-3">
+        {candidates.map((c) => {
+          const busy = busyKey === c.pairKey
+          const aIsSheet = (c.a.data_source ?? 'google_sheet') === 'google_sheet'
+          const bIsSheet = (c.b.data_source ?? 'google_sheet') === 'google_sheet'
+          return (
+            <div key={c.pairKey} className="rounded-lg border p-3 space-y-3">
+              <div className="flex gap-4">
+                {renderSide(c.a)}
+                <div className="border-l" />
+                {renderSide(c.b)}
+              </div>
+              <div className="flex flex-wrap items-center gap-2 pt-2 border-t">
+                <span className="text-xs text-muted-foreground mr-auto">
+                  {Math.round(c.score * 100)}% match · {c.daysApart === 0 ? 'same day' : `${c.daysApart}d apart`}
+                </span>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={busy || bIsSheet}
+                  title={bIsSheet ? 'Sheet rows come back on sync; keep the sheet row instead' : undefined}
+                  onClick={() => postAction(c.pairKey, { action: 'merge', keepId: c.a.id, removeId: c.b.id }, 'Duplicate removed')}
+                >
+                  Keep left
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={busy || aIsSheet}
+                  title={aIsSheet ? 'Sheet rows come back on sync; keep the sheet row instead' : undefined}
+                  onClick={() => postAction(c.pairKey, { action: 'merge', keepId: c.b.id, removeId: c.a.id }, 'Duplicate removed')}
+                >
+                  Keep right
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  disabled={busy}
+                  onClick={() => postAction(c.pairKey, { action: 'dismiss', pairKey: c.pairKey }, 'Marked as not a duplicate')}
+                >
+                  Not a duplicate
+                </Button>
+              </div>
+            </div>
+          )
+        })}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,361 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { toast } from 'sonner'
+import { Upload } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { CsvColumnMapping, CsvImportMapping } from '@/lib/types'
+import {
+  DEFAULT_CSV_MAPPING,
+  guessCsvMapping,
+  parseCsvText,
+  parseCsvTransactions,
+} from '@/lib/utils/csv-import'
+
+const PREVIEW_ROWS = 10
+
+const SELECT_CLASS = 'flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm'
+
+type ColumnField = 'date' | 'category' | 'counterparty' | 'amount' | 'debit' | 'credit' | 'currency'
+
+const COLUMN_FIELDS: { field: ColumnField; label: string }[] = [
+  { field: 'date', label: 'Date' },
+  { field: 'counterparty', label: 'Counterparty' },
+  { field: 'category', label: 'Category' },
+  { field: 'currency', label: 'Currency' },
+]
+
+export function ImportCsvDialog() {
+  const router = useRouter()
+  const [open, setOpen] = useState(false)
+  const [importing, setImporting] = useState(false)
+  const [savedMappings, setSavedMappings] = useState<CsvImportMapping[]>([])
+  const [fileName, setFileName] = useState('')
+  const [csvText, setCsvText] = useState('')
+  const [mapping, setMapping] = useState<CsvColumnMapping>(DEFAULT_CSV_MAPPING)
+  const [bankName, setBankName] = useState('')
+
+  useEffect(() => {
+    if (!open) return
+    void (async () => {
+      try {
+        const res = await fetch('/api/import/csv')
+        const result = await res.json()
+        if (result.success) setSavedMappings(result.data ?? [])
+      } catch {
+        /* saved mappings are optional */
+      }
+    })()
+  }, [open])
+
+  const rows = useMemo(() => (csvText ? parseCsvText(csvText) : []), [csvText])
+  const headers = useMemo(() => rows[mapping.skipRows] ?? [], [rows, mapping.skipRows])
+  const { transactions, errors } = useMemo(
+    () => (rows.length > 0 ? parseCsvTransactions(rows, mapping) : { transactions: [], errors: [] }),
+    [rows, mapping]
+  )
+
+  const resetForm = () => {
+    setFileName('')
+    setCsvText('')
+    setMapping(DEFAULT_CSV_MAPPING)
+    setBankName('')
+  }
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+    const text = await file.text()
+    setFileName(file.name)
+    setCsvText(text)
+    // Keep a mapping chosen from a saved bank; otherwise guess from the header row
+    if (!bankName || !savedMappings.some((m) => m.bank_name === bankName)) {
+      const parsedRows = parseCsvText(text)
+      setMapping(guessCsvMapping(parsedRows[0] ?? []))
+    }
+  }
+
+  const handleSelectSaved = (name: string) => {
+    setBankName(name)
+    const saved = savedMappings.find((m) => m.bank_name === name)
+    if (saved) setMapping({ ...DEFAULT_CSV_MAPPING, ...saved.mapping })
+  }
+
+  const updateMapping = <K extends keyof CsvColumnMapping>(key: K, value: CsvColumnMapping[K]) => {
+    setMapping((prev) => ({ ...prev, [key]: value }))
+  }
+
+  const renderColumnSelect = (field: ColumnField, label: string) => (
+    <div key={field} className="space-y-2">
+      <Label htmlFor={`csv-col-${field}`}>{label}</Label>
+      <select
+        id={`csv-col-${field}`}
+        className={SELECT_CLASS}
+        value={mapping[field] ?? ''}
+        onChange={(e) => updateMapping(field, e.target.value === '' ? null : parseInt(e.target.value, 10))}
+      >
+        <option value="">— None —</option>
+        {headers.map((h, i) => (
+          <option key={i} value={i}>
+            {h || `Column ${i + 1}`}
+          </option>
+        ))}
+      </select>
+    </div>
+  )
+
+  const formatAmount = (amount: number, currency: string) =>
+    new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount)
+
+  const handleImport = async () => {
+    if (transactions.length === 0) {
+      toast.error('No valid rows to import')
+      return
+    }
+
+    setImporting(true)
+    try {
+      const res = await fetch('/api/import/csv', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          csv: csvText,
+          mapping,
+          bankName: bankName.trim() || undefined,
+        }),
+      })
+
+      const result = await res.json()
+
+      if (!result.success) {
+        toast.error(result.error || 'Failed to import transactions')
+        return
+      }
+
+      const { inserted, categorized, skipped } = result.data
+      const notes = [
+        categorized > 0 ? `${categorized} categorized by rules` : null,
+        skipped > 0 ? `${skipped} rows skipped` : null,
+      ].filter(Boolean)
+      toast.success(`Imported ${inserted} transactions`, {
+        description: notes.length > 0 ? notes.join(' · ') : undefined,
+      })
+      setOpen(false)
+      resetForm()
+      router.refresh()
+    } catch {
+      toast.error('Failed to import transactions')
+    } finally {
+      setImporting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={(v) => { setOpen(v); if (!v) resetForm() }}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Upload className="h-4 w-4 mr-1" />
+          Import CSV
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Transactions from CSV</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4 mt-2">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="csv-bank">Bank</Label>
+              <Input
+                id="csv-bank"
+                list="csv-bank-options"
+                placeholder="e.g. Chase, Monzo"
+                value={bankName}
+                onChange={(e) => handleSelectSaved(e.target.value)}
+              />
+              <datalist id="csv-bank-options">
+                {savedMappings.map((m) => (
+                  <option key={m.id} value={m.bank_name} />
+                ))}
+              </datalist>
+              <p className="text-xs text-muted-foreground">
+                The column mapping is saved under this name for next time.
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="csv-file">CSV file</Label>
+              <Input id="csv-file" type="file" accept=".csv,text/csv" onChange={handleFileChange} />
+              {fileName && <p className="text-xs text-muted-foreground truncate">{fileName}</p>}
+            </div>
+          </div>
+
+          {rows.length > 0 && (
+            <>
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+                {COLUMN_FIELDS.map(({ field, label }) => renderColumnSelect(field, label))}
+              </div>
+
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="csv-sign">Amount sign</Label>
+                  <select
+                    id="csv-sign"
+                    className={SELECT_CLASS}
+                    value={mapping.signConvention}
+                    onChange={(e) => updateMapping('signConvention', e.target.value as CsvColumnMapping['signConvention'])}
+                  >
+                    <option value="signed">Expenses negative</option>
+                    <option value="inverted">Expenses positive</option>
+                    <option value="debit_credit">Debit / credit columns</option>
+                  </select>
+                </div>
+                {mapping.signConvention === 'debit_credit' ? (
+                  <>
+                    {renderColumnSelect('debit', 'Debit (money out)')}
+                    {renderColumnSelect('credit', 'Credit (money in)')}
+                  </>
+                ) : (
+                  renderColumnSelect('amount', 'Amount')
+                )}
+                <div className="space-y-2">
+                  <Label htmlFor="csv-date-format">Date format</Label>
+                  <select
+                    id="csv-date-format"
+                    className={SELECT_CLASS}
+                    value={mapping.dateFormat}
+                    onChange={(e) => updateMapping('dateFormat', e.target.value as CsvColumnMapping['dateFormat'])}
+                  >
+                    <option value="auto">Auto-detect</option>
+                    <option value="YYYY-MM-DD">YYYY-MM-DD</option>
+                    <option value="DD/MM/YYYY">DD/MM/YYYY</option>
+                    <option value="MM/DD/YYYY">MM/DD/YYYY</option>
+                  </select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="csv-decimal-separator">Decimal separator</Label>
+                  <select
+                    id="csv-decimal-separator"
+                    className={SELECT_CLASS}
+                    value={mapping.decimalSeparator ?? 'auto'}
+                    onChange={(e) =>
+                      updateMapping('decimalSeparator', e.target.value as CsvColumnMapping['decimalSeparator'])
+                    }
+                  >
+                    <option value="auto">Auto-detect</option>
+                    <option value=".">Point (1,234.56)</option>
+                    <option value=",">Comma (1.234,56)</option>
+                  </select>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="csv-default-currency">Default currency</Label>
+                  <select
+                    id="csv-default-currency"
+                    className={SELECT_CLASS}
+                    value={mapping.defaultCurrency}
+                    onChange={(e) => updateMapping('defaultCurrency', e.target.value as 'USD' | 'GBP' | 'EUR')}
+                  >
+                    <option value="USD">USD</option>
+                    <option value="GBP">GBP</option>
+                    <option value="EUR">EUR</option>
+                  </select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="csv-default-category">Default category</Label>
+                  <Input
+                    id="csv-default-category"
+                    value={mapping.defaultCategory}
+                    onChange={(e) => updateMapping('defaultCategory', e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="csv-skip-rows">Rows before header</Label>
+                  <Input
+                    id="csv-skip-rows"
+                    type="number"
+                    min={0}
+                    value={mapping.skipRows}
+                    onChange={(e) => updateMapping('skipRows', Math.max(0, parseInt(e.target.value, 10) || 0))}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <p className="text-sm font-medium">
+                  Preview: {transactions.length} valid rows
+                  {errors.length > 0 && (
+                    <span className="text-destructive"> · {errors.length} skipped</span>
+                  )}
+                </p>
+                {errors.length > 0 && (
+                  <ul className="text-xs text-muted-foreground space-y-0.5">
+                    {errors.slice(0, 5).map((err) => (
+                      <li key={err.rowNumber}>Row {err.rowNumber}: {err.reason}</li>
+                    ))}
+                    {errors.length > 5 && <li>…and {errors.length - 5} more</li>}
+                  </ul>
+                )}
+                {transactions.length > 0 && (
+                  <div className="border rounded-md overflow-x-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Date</TableHead>
+                          <TableHead>Counterparty</TableHead>
+                          <TableHead>Category</TableHead>
+                          <TableHead className="text-right">Amount</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {transactions.slice(0, PREVIEW_ROWS).map((tx) => (
+                          <TableRow key={tx.rowNumber}>
+                            <TableCell className="whitespace-nowrap">{tx.date}</TableCell>
+                            <TableCell className="max-w-[200px] truncate">{tx.counterparty ?? '—'}</TableCell>
+                            <TableCell>{tx.category}</TableCell>
+                            <TableCell className="text-right tabular-nums">{formatAmount(tx.amount, tx.currency)}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                )}
+              </div>
+            </>
+          )}
+
+          <Button
+            className="w-full"
+            onClick={handleImport}
+            disabled={importing || transactions.length === 0}
+          >
+            {importing
+              ? 'Importing...'
+              : transactions.length > 0
+                ? `Import ${transactions.length} Transactions`
+                : 'Import Transactions'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
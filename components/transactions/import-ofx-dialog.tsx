@@ -0,0 +1,215 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { toast } from 'sonner'
+import { FileText } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { createClient } from '@/lib/supabase/client'
+import { parseOfx, ofxAccountLabel, type OfxStatement } from '@/lib/utils/ofx-parser'
+
+const SELECT_CLASS = 'flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm'
+
+/** Value of the account select meaning "match automatically / create from the statement". */
+const AUTO_MATCH = ''
+
+type AccountOption = { institution: string; account_name: string }
+
+export function ImportOfxDialog() {
+  const router = useRouter()
+  const [open, setOpen] = useState(false)
+  const [importing, setImporting] = useState(false)
+  const [fileName, setFileName] = useState('')
+  const [ofxText, setOfxText] = useState('')
+  const [statements, setStatements] = useState<OfxStatement[]>([])
+  const [parseError, setParseError] = useState<string | null>(null)
+  const [defaultCategory, setDefaultCategory] = useState('Uncategorized')
+  const [accountOptions, setAccountOptions] = useState<AccountOption[]>([])
+  // accountId -> "institution|account_name" (or AUTO_MATCH)
+  const [accountChoices, setAccountChoices] = useState<Record<string, string>>({})
+
+  useEffect(() => {
+    if (!open) return
+    const supabase = createClient()
+    void (async () => {
+      const { data } = await supabase
+        .from('account_balances')
+        .select('institution, account_name')
+        .order('institution')
+      const seen = new Set<string>()
+      const options: AccountOption[] = []
+      for (const row of data ?? []) {
+        const key = `${row.institution}|${row.account_name}`
+        if (seen.has(key)) continue
+        seen.add(key)
+        options.push(row)
+      }
+      setAccountOptions(options)
+    })()
+  }, [open])
+
+  const resetForm = () => {
+    setFileName('')
+    setOfxText('')
+    setStatements([])
+    setParseError(null)
+    setDefaultCategory('Uncategorized')
+    setAccountChoices({})
+  }
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+    const text = await file.text()
+    setFileName(file.name)
+    setOfxText(text)
+    setAccountChoices({})
+    try {
+      setStatements(parseOfx(text))
+      setParseError(null)
+    } catch (err) {
+      setStatements([])
+      setParseError(err instanceof Error ? err.message : 'Invalid OFX file')
+    }
+  }
+
+  const formatAmount = (amount: number, currency: string) => {
+    try {
+      return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount)
+    } catch {
+      return `${amount.toFixed(2)} ${currency}`
+    }
+  }
+
+  const handleImport = async () => {
+    if (statements.length === 0) {
+      toast.error('Choose an OFX or QFX file first')
+      return
+    }
+
+    const accounts = Object.entries(accountChoices)
+      .filter(([, choice]) => choice !== AUTO_MATCH)
+      .map(([accountId, choice]) => {
+        const [institution, account_name] = choice.split('|')
+        return { accountId, institution, account_name }
+      })
+
+    setImporting(true)
+    try {
+      const res = await fetch('/api/import/ofx', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ofx: ofxText, defaultCategory, accounts }),
+      })
+
+      const result = await res.json()
+
+      if (!result.data) {
+        toast.error(result.error || 'Failed to import statement')
+        return
+      }
+
+      const { inserted, duplicates } = result.data
+      const description = duplicates > 0 ? `${duplicates} already imported, skipped` : undefined
+      if (result.success) {
+        toast.success(`Imported ${inserted} transactions`, { description })
+      } else {
+        toast.warning(result.error || 'Import completed with errors', { description })
+      }
+      setOpen(false)
+      resetForm()
+      router.refresh()
+    } catch {
+      toast.error('Failed to import statement')
+    } finally {
+      setImporting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={(v) => { setOpen(v); if (!v) resetForm() }}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <FileText className="h-4 w-4 mr-1" />
+          Import OFX
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import OFX/QFX Statement</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4 mt-2">
+          <div className="space-y-2">
+            <Label htmlFor="ofx-file">Statement file</Label>
+            <Input id="ofx-file" type="file" accept=".ofx,.qfx" onChange={handleFileChange} />
+            {fileName && <p className="text-xs text-muted-foreground truncate">{fileName}</p>}
+            {parseError && <p className="text-sm text-destructive">{parseError}</p>}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="ofx-category">Category when no rule matches</Label>
+            <Input
+              id="ofx-category"
+              value={defaultCategory}
+              onChange={(e) => setDefaultCategory(e.target.value)}
+            />
+          </div>
+
+          {statements.map((statement) => {
+            const dates = statement.transactions.map((t) => t.date).sort()
+            return (
+              <div key={statement.accountId} className="rounded-md border p-3 space-y-3">
+                <div className="text-sm">
+                  <p className="font-medium">
+                    {statement.org ? `${statement.org} · ` : ''}{ofxAccountLabel(statement)} ({statement.currency})
+                  </p>
+                  <p className="text-muted-foreground">
+                    {statement.transactions.length} transactions
+                    {dates.length > 0 && ` · ${dates[0]} to ${dates[dates.length - 1]}`}
+                  </p>
+                  {statement.ledgerBalance && (
+                    <p className="text-muted-foreground">
+                      Closing balance {formatAmount(statement.ledgerBalance.amount, statement.currency)} on {statement.ledgerBalance.asOf}
+                    </p>
+                  )}
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor={`ofx-account-${statement.accountId}`}>Account</Label>
+                  <select
+                    id={`ofx-account-${statement.accountId}`}
+                    className={SELECT_CLASS}
+                    value={accountChoices[statement.accountId] ?? AUTO_MATCH}
+                    onChange={(e) => setAccountChoices((prev) => ({ ...prev, [statement.accountId]: e.target.value }))}
+                  >
+                    <option value={AUTO_MATCH}>Match automatically</option>
+                    {accountOptions.map((a) => (
+                      <option key={`${a.institution}|${a.account_name}`} value={`${a.institution}|${a.account_name}`}>
+                        {a.institution} — {a.account_name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+            )
+          })}
+
+          <Button
+            className="w-full"
+            onClick={handleImport}
+            disabled={importing || statements.length === 0 || !defaultCategory.trim()}
+          >
+            {importing ? 'Importing...' : 'Import Statement'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,214 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { toast } from 'sonner'
+import { Plus, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { createClient } from '@/lib/supabase/client'
+import { nativeAmount } from '@/lib/utils/currency'
+import type { TransactionLog, TransactionSplit } from '@/lib/types'
+
+interface SplitRow {
+  category: string
+  amount: string
+  note: string
+}
+
+interface SplitTransactionDialogProps {
+  /** Parent transaction id; the dialog is open while set. */
+  transactionId: string | null
+  /** Suggestions for the category inputs. */
+  categories: string[]
+  onOpenChange: (open: boolean) => void
+  onSaved: () => void
+}
+
+export function SplitTransactionDialog({
+  transactionId,
+  categories,
+  onOpenChange,
+  onSaved,
+}: SplitTransactionDialogProps) {
+  const [parent, setParent] = useState<TransactionLog | null>(null)
+  const [rows, setRows] = useState<SplitRow[]>([])
+  const [isSplit, setIsSplit] = useState(false)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    if (!transactionId) return
+    let cancelled = false
+
+    async function load() {
+      setParent(null)
+      const supabase = createClient()
+      const [{ data: tx }, res] = await Promise.all([
+        supabase.from('transaction_log').select('*').eq('id', transactionId).single(),
+        fetch(`/api/transactions/${transactionId}/splits`),
+      ])
+      const result = await res.json()
+      if (cancelled) return
+      if (!tx || !result.success) {
+        toast.error('Failed to load transaction')
+        onOpenChange(false)
+        return
+      }
+      const splits = (result.data ?? []) as TransactionSplit[]
+      setParent(tx as TransactionLog)
+      setIsSplit(splits.length > 0)
+      setRows(
+        splits.length > 0
+          ? splits.map((s) => ({ category: s.category, amount: String(s.amount), note: s.note ?? '' }))
+          : [
+              { category: tx.category, amount: String(nativeAmount(tx)?.amount ?? ''), note: '' },
+              { category: '', amount: '', note: '' },
+            ]
+      )
+    }
+
+    load()
+    return () => {
+      cancelled = true
+    }
+  }, [transactionId, onOpenChange])
+
+  const native = parent ? nativeAmount(parent) : null
+  const allocated = rows.reduce((sum, r) => sum + (parseFloat(r.amount) || 0), 0)
+  const remaining = native ? Math.round((native.amount - allocated) * 100) / 100 : 0
+
+  const updateRow = (index: number, patch: Partial<SplitRow>) => {
+    setRows((prev) => prev.map((r, i) => (i === index ? { ...r, ...patch } : r)))
+  }
+
+  const save = async (splits: { category: string; amount: number; note: string | null }[], message: string) => {
+    if (!transactionId) return
+    setSaving(true)
+    try {
+      const res = await fetch(`/api/transactions/${transactionId}/splits`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ splits }),
+      })
+      const result = await res.json()
+      if (!result.success) {
+        toast.error(result.error || 'Failed to save split')
+        return
+      }
+      toast.success(message)
+      onOpenChange(false)
+      onSaved()
+    } catch {
+      toast.error('Failed to save split')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleSave = () =>
+    save(
+      rows.map((r) => ({ category: r.category.trim(), amount: parseFloat(r.amount) || 0, note: r.note.trim() || null })),
+      'Split saved'
+    )
+
+  const canSave =
+    rows.length >= 2 &&
+    rows.every((r) => r.category.trim() && parseFloat(r.amount)) &&
+    Math.abs(remaining) < 0.005
+
+  return (
+    <Dialog open={transactionId != null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Split Transaction</DialogTitle>
+          {parent && native && (
+            <DialogDescription>
+              {parent.counterparty || 'Unknown'} on {String(parent.date).split('T')[0]}:{' '}
+              {native.amount.toFixed(2)} {native.currency}. Parts must add up to the full amount.
+            </DialogDescription>
+          )}
+        </DialogHeader>
+
+        {!parent ? (
+          <p className="text-sm text-muted-foreground">Loading…</p>
+        ) : (
+          <div className="space-y-3">
+            <datalist id="split-categories">
+              {categories.map((c) => (
+                <option key={c} value={c} />
+              ))}
+            </datalist>
+            {rows.map((row, index) => (
+              <div key={index} className="grid grid-cols-[1fr_110px_1fr_auto] gap-2">
+                <Input
+                  list="split-categories"
+                  placeholder="Category"
+                  value={row.category}
+                  onChange={(e) => updateRow(index, { category: e.target.value })}
+                  aria-label={`Split ${index + 1} category`}
+                />
+                <Input
+                  type="number"
+                  step="0.01"
+                  placeholder="0.00"
+                  value={row.amount}
+                  onChange={(e) => updateRow(index, { amount: e.target.value })}
+                  aria-label={`Split ${index + 1} amount`}
+                />
+                <Input
+                  placeholder="Note (optional)"
+                  value={row.note}
+                  onChange={(e) => updateRow(index, { note: e.target.value })}
+                  aria-label={`Split ${index + 1} note`}
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-10 w-10 p-0"
+                  disabled={rows.length <= 2}
+                  onClick={() => setRows((prev) => prev.filter((_, i) => i !== index))}
+                  aria-label="Remove part"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+
+            <div className="flex items-center justify-between">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() =>
+                  setRows((prev) => [...prev, { category: '', amount: remaining ? remaining.toFixed(2) : '', note: '' }])
+                }
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add part
+              </Button>
+              <span className={remaining === 0 ? 'text-sm text-muted-foreground' : 'text-sm text-destructive'}>
+                Remaining: {remaining.toFixed(2)} {native?.currency}
+              </span>
+            </div>
+
+            <div className="flex justify-end gap-2 pt-2">
+              {isSplit && (
+                <Button variant="outline" disabled={saving} onClick={() => save([], 'Split removed')}>
+                  Remove split
+                </Button>
+              )}
+              <Button disabled={saving || !canSave} onClick={handleSave}>
+                {saving ? 'Saving...' : 'Save split'}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
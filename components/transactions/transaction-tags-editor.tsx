@@ -0,0 +1,87 @@
+'use client'
+
+import { useState } from 'react'
+import { toast } from 'sonner'
+import { Pencil } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+
+interface TransactionTagsEditorProps {
+  transactionId: string
+  tags: string[]
+  onSaved: () => void
+}
+
+/** Tags are edited as one comma-separated string. */
+function parseTags(value: string): string[] {
+  return Array.from(new Set(value.split(',').map((t) => t.trim()).filter(Boolean)))
+}
+
+/** Inline tag badges for one transaction, with a comma-separated editor. */
+export function TransactionTagsEditor({ transactionId, tags, onSaved }: TransactionTagsEditorProps) {
+  const [editing, setEditing] = useState(false)
+  const [value, setValue] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  const startEdit = () => {
+    setValue(tags.join(', '))
+    setEditing(true)
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    try {
+      const res = await fetch(`/api/transactions/${transactionId}/tags`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ tags: parseTags(value) }),
+      })
+      const result = await res.json()
+      if (!result.success) {
+        toast.error(result.error || 'Failed to save tags')
+        return
+      }
+      setEditing(false)
+      onSaved()
+    } catch {
+      toast.error('Failed to save tags')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (editing) {
+    return (
+      <div className="flex items-center gap-1">
+        <Input
+          autoFocus
+          className="h-7 text-xs"
+          placeholder="e.g. Trip: Lisbon 2026, Reimbursable"
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleSave()
+            if (e.key === 'Escape') setEditing(false)
+          }}
+          aria-label="Tags (comma-separated)"
+        />
+        <Button size="sm" className="h-7" disabled={saving} onClick={handleSave}>
+          Save
+        </Button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-1">
+      {tags.map((tag) => (
+        <Badge key={tag} variant="outline" className="text-xs font-normal">{tag}</Badge>
+      ))}
+      <Button variant="ghost" size="sm" className="h-6 px-1.5 text-xs" onClick={startEdit} aria-label="Edit tags">
+        <Pencil className="h-3 w-3 mr-1" />
+        {tags.length === 0 ? 'Tag' : 'Edit'}
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,166 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { toast } from 'sonner'
+import { ArrowRightLeft } from 'lucide-react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { TransactionLog, TransactionTransfer } from '@/lib/types'
+import { nativeAmount } from '@/lib/utils/currency'
+
+function formatAmount(tx: TransactionLog): string {
+  const native = nativeAmount(tx)
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: native?.currency ?? 'USD',
+  }).format(native?.amount ?? 0)
+}
+
+/**
+ * Internal transfers found by detection (own-account moves, including GBP <-> USD). Auto pairs
+ * are left out of burn, budgets and income vs expenses straight away; suggested pairs only once
+ * confirmed. The user confirms or unpairs each one. Renders nothing when there are no pairs.
+ */
+export function TransferReviewQueue() {
+  const router = useRouter()
+  const [transfers, setTransfers] = useState<TransactionTransfer[]>([])
+  const [showConfirmed, setShowConfirmed] = useState(false)
+  const [busyId, setBusyId] = useState<string | null>(null)
+
+  const fetchTransfers = useCallback(async () => {
+    try {
+      const res = await fetch('/api/transactions/transfers')
+      const result = await res.json()
+      if (result.success) setTransfers(result.data ?? [])
+    } catch {
+      /* best-effort, like the duplicate queue */
+    }
+  }, [])
+
+  useEffect(() => {
+    void fetchTransfers()
+  }, [fetchTransfers])
+
+  const postAction = async (body: Record<string, string>, successMessage: string, refresh = body.action !== 'confirm') => {
+    setBusyId(body.id ?? 'detect')
+    try {
+      const res = await fetch('/api/transactions/transfers', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      })
+      const result = await res.json()
+      if (!result.success) {
+        toast.error(result.error || 'Failed to update transfer')
+        return
+      }
+      toast.success(
+        body.action === 'detect'
+          ? result.data.paired + result.data.suggested > 0
+            ? `Paired ${result.data.paired} new transfers, ${result.data.suggested} to review`
+            : 'No new transfers found'
+          : successMessage
+      )
+      await fetchTransfers()
+      if (refresh) router.refresh()
+    } catch {
+      toast.error('Failed to update transfer')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  if (transfers.length === 0) return null
+
+  const pending = transfers.filter((t) => t.status !== 'confirmed')
+  const confirmed = transfers.filter((t) => t.status === 'confirmed')
+  const shown = showConfirmed ? transfers : pending
+
+  const renderLeg = (tx: TransactionLog, label: string) => (
+    <div className="min-w-0 flex-1 space-y-1">
+      <div className="flex items-center gap-2">
+        <Badge variant="outline">{label}</Badge>
+        <span className="text-xs text-muted-foreground">{tx.date.split('T')[0]}</span>
+      </div>
+      <p className="text-sm font-medium truncate">{tx.counterparty || 'Unknown'}</p>
+      <p className="text-xs text-muted-foreground truncate">{tx.category}</p>
+      <p className="text-sm font-semibold tabular-nums">{formatAmount(tx)}</p>
+    </div>
+  )
+
+  return (
+    <Card id="transfers" className="scroll-mt-24">
+      <CardHeader className="bg-muted/50 px-4 py-3 pb-4">
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <ArrowRightLeft className="h-4 w-4 text-muted-foreground" />
+            <CardTitle className="text-base">Internal Transfers ({pending.length} to review)</CardTitle>
+          </div>
+          <Button
+            size="sm"
+            variant="ghost"
+            disabled={busyId !== null}
+            onClick={() => postAction({ action: 'detect' }, '')}
+          >
+            Scan again
+          </Button>
+        </div>
+        <p className="text-sm text-muted-foreground mt-1">
+          Money moved between your own accounts is left out of burn, budgets and income vs expenses. Suggested pairs
+          still count until you confirm them; unpair a pair to count both sides again.
+        </p>
+      </CardHeader>
+      <CardContent className="pt-4 space-y-3">
+        {shown.map((t) => {
+          const busy = busyId === t.id
+          return (
+            <div key={t.id} className="rounded-lg border p-3 space-y-3">
+              <div className="flex gap-4">
+                {renderLeg(t.out, 'Out')}
+                <div className="border-l" />
+                {renderLeg(t.in, 'In')}
+              </div>
+              <div className="flex flex-wrap items-center gap-2 pt-2 border-t">
+                <span className="text-xs text-muted-foreground mr-auto">
+                  {t.status === 'confirmed'
+                    ? 'Confirmed'
+                    : t.status === 'suggested'
+                      ? 'Suggested · still counted until confirmed'
+                      : 'Paired automatically'}
+                  {t.implied_rate != null && ` · rate ${Number(t.implied_rate).toFixed(4)}`}
+                </span>
+                {t.status !== 'confirmed' && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={busy}
+                    onClick={() =>
+                      postAction({ action: 'confirm', id: t.id }, 'Transfer confirmed', t.status === 'suggested')
+                    }
+                  >
+                    Confirm
+                  </Button>
+                )}
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  disabled={busy}
+                  onClick={() => postAction({ action: 'unpair', id: t.id }, 'Transfer unpaired')}
+                >
+                  Not a transfer
+                </Button>
+              </div>
+            </div>
+          )
+        })}
+        {confirmed.length > 0 && (
+          <Button variant="link" size="sm" className="px-0" onClick={() => setShowConfirmed((v) => !v)}>
+            {showConfirmed ? 'Hide confirmed' : `Show ${confirmed.length} confirmed`}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
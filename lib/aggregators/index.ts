@@ -0,0 +1,19 @@
+import { mockProvider } from './mock-provider'
+import type { AggregatorProvider, AggregatorProviderId } from './types'
+
+/** The mock provider reads a local file; in production it is only offered when a fixture is configured. */
+function mockEnabled(): boolean {
+  return process.env.NODE_ENV !== 'production' || !!process.env.MOCK_AGGREGATOR_FILE
+}
+
+/** Providers users can link right now. */
+export function listAggregatorProviders(): AggregatorProvider[] {
+  return mockEnabled() ? [mockProvider] : []
+}
+
+export function getAggregatorProvider(id: string): AggregatorProvider | null {
+  return listAggregatorProviders().find((p) => p.id === id) ?? null
+}
+
+/** data_source values written by connectors; sheet sync leaves these rows alone. */
+export const AGGREGATOR_SOURCES: AggregatorProviderId[] = ['plaid', 'mock']
@@ -0,0 +1,74 @@
+import { readFile } from 'fs/promises'
+import path from 'path'
+import type {
+  AggregatorAccount,
+  AggregatorBalance,
+  AggregatorProvider,
+  AggregatorTransaction,
+  AggregatorTransactionPage,
+} from './types'
+
+/** Transactions per fetchTransactions call, small enough that the fixture exercises paging. */
+const PAGE_SIZE = 5
+
+interface MockBankFile {
+  itemId: string
+  institution: string
+  accounts: (AggregatorAccount & {
+    balance: number
+    asOf?: string
+    transactions: Omit<AggregatorTransaction, 'accountId' | 'currency'>[]
+  })[]
+}
+
+/** MOCK_AGGREGATOR_FILE points at another fixture; by default the bundled one is used. */
+function mockFilePath(): string {
+  return process.env.MOCK_AGGREGATOR_FILE || path.join(process.cwd(), 'lib', 'aggregators', 'mock-bank.json')
+}
+
+async function loadMockBank(accessToken?: string): Promise<MockBankFile> {
+  const bank = JSON.parse(await readFile(mockFilePath(), 'utf8')) as MockBankFile
+  if (accessToken !== undefined && accessToken !== `mock-access-${bank.itemId}`) {
+    throw new Error('Invalid access token for the mock bank')
+  }
+  return bank
+}
+
+/**
+ * Offline provider backed by a JSON file of accounts and transactions. Any non-empty public token
+ * links the file's item. The cursor is the number of transactions already returned, in date
+ * order, so adding later-dated transactions to the file and syncing again fetches only those.
+ */
+export const mockProvider: AggregatorProvider = {
+  id: 'mock',
+  name: 'Mock bank (offline)',
+
+  async linkAccount(publicToken) {
+    if (!publicToken) throw new Error('publicToken is required')
+    const bank = await loadMockBank()
+    return { itemId: bank.itemId, accessToken: `mock-access-${bank.itemId}`, institution: bank.institution }
+  },
+
+  async listAccounts(accessToken) {
+    const bank = await loadMockBank(accessToken)
+    return bank.accounts.map(({ id, name, type, currency }) => ({ id, name, type, currency }))
+  },
+
+  async fetchBalances(accessToken): Promise<AggregatorBalance[]> {
+    const bank = await loadMockBank(accessToken)
+    const today = new Date().toISOString().split('T')[0]
+    return bank.accounts.map((a) => ({ accountId: a.id, balance: a.balance, asOf: a.asOf ?? today }))
+  },
+
+  async fetchTransactions(accessToken, cursor): Promise<AggregatorTransactionPage> {
+    const bank = await loadMockBank(accessToken)
+    const all = bank.accounts
+      .flatMap((a) => a.transactions.map((tx) => ({ ...tx, accountId: a.id, currency: a.currency })))
+      .sort((a, b) => a.date.localeCompare(b.date) || a.id.localeCompare(b.id))
+    const offset = cursor ? Number(cursor) : 0
+    if (!Number.isInteger(offset) || offset < 0) throw new Error(`Invalid cursor: ${cursor}`)
+    const page = all.slice(offset, offset + PAGE_SIZE)
+    const next = offset + page.length
+    return { added: page, removed: [], nextCursor: String(next), hasMore: next < all.length }
+  },
+}
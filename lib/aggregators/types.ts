@@ -0,0 +1,67 @@
+import type { DataSource } from '@/lib/types'
+
+/** Providers that can be linked; each id is also the data_source of the rows it writes. */
+export type AggregatorProviderId = Extract<DataSource, 'plaid' | 'mock'>
+
+/** A linked item as the provider sees it: one login at one institution. */
+export interface AggregatorLink {
+  itemId: string
+  accessToken: string
+  institution: string
+}
+
+export interface AggregatorAccount {
+  /** Provider's account id; stable across syncs. */
+  id: string
+  name: string
+  /** Provider account type, e.g. depository, investment, credit, loan. */
+  type: string
+  currency: string
+}
+
+export interface AggregatorBalance {
+  accountId: string
+  /** Current balance in the account's currency. */
+  balance: number
+  /** YYYY-MM-DD the balance is as of. */
+  asOf: string
+}
+
+export interface AggregatorTransaction {
+  /** Provider's transaction id; unique within the account. */
+  id: string
+  accountId: string
+  /** YYYY-MM-DD */
+  date: string
+  description: string | null
+  /** Signed like the app: money out is negative. */
+  amount: number
+  currency: string
+  /** Provider's category, if it has one; categorization rules still run when it is blank. */
+  category: string | null
+}
+
+export interface AggregatorTransactionPage {
+  added: AggregatorTransaction[]
+  /** Ids of transactions the provider has since withdrawn (e.g. a pending charge that dropped). */
+  removed: { accountId: string; id: string }[]
+  /** Pass back on the next call to continue after this page. */
+  nextCursor: string
+  hasMore: boolean
+}
+
+/**
+ * A bank-aggregator connector. Providers only talk to the aggregator; storing rows, cursors and
+ * tokens is the sync job's work (lib/sync-aggregator-connection.ts), so a provider can be swapped
+ * without touching the database code.
+ */
+export interface AggregatorProvider {
+  id: AggregatorProviderId
+  name: string
+  /** Exchange the token from the provider's link flow for a long-lived access token. */
+  linkAccount(publicToken: string): Promise<AggregatorLink>
+  listAccounts(accessToken: string): Promise<AggregatorAccount[]>
+  fetchBalances(accessToken: string): Promise<AggregatorBalance[]>
+  /** Transactions since `cursor` (null for the first sync), one page at a time. */
+  fetchTransactions(accessToken: string, cursor: string | null): Promise<AggregatorTransactionPage>
+}
@@ -0,0 +1,106 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createClient } from '@/lib/supabase/server'
+import { fetchAllocatedTransactionsGbp } from '@/lib/compute-budget-estimates'
+import {
+  buildEnvelopeMonths,
+  evenAllocations,
+  seasonalAllocations,
+  type AllocationProfile,
+  type EnvelopeMonth,
+} from '@/lib/utils/budget-envelopes'
+import type { BudgetEnvelopeSettings, BudgetTarget } from '@/lib/types'
+
+const EXCLUDED_CATEGORIES = ['Income', 'Gift Money', 'Other Income', 'Excluded']
+
+export interface BudgetEnvelope {
+  category: string
+  /** Annual budget as a positive GBP amount. */
+  annualBudget: number
+  rollover: boolean
+  /** False while the category uses the implicit even split (no budget_envelopes row). */
+  customised: boolean
+  months: EnvelopeMonth[]
+}
+
+/** Spend per month (12 values, positive GBP) for each category over one year. */
+async function fetchMonthlySpend(db: SupabaseClient, userId: string, year: number): Promise<Map<string, number[]>> {
+  const { rows } = await fetchAllocatedTransactionsGbp(db, userId, `${year}-01-01`, `${year}-12-31`)
+  const spend = new Map<string, number[]>()
+  for (const row of rows) {
+    const months = spend.get(row.category) ?? Array(12).fill(0)
+    months[Number(row.date.slice(5, 7)) - 1] -= row.gbp
+    spend.set(row.category, months)
+  }
+  return spend
+}
+
+/**
+ * Monthly envelopes for every expense budget in a year: allocation (stored, or an even split of
+ * the annual budget), spend from transaction_log (splits under their own category, internal
+ * transfers left out), carry-over and what is available.
+ *
+ * When using admin client (cron), userId scopes every query. When using server client,
+ * RLS scopes rows as well.
+ */
+export async function computeBudgetEnvelopes(
+  supabase: SupabaseClient | undefined,
+  userId: string,
+  year: number
+): Promise<BudgetEnvelope[]> {
+  const db = supabase ?? (await createClient())
+
+  const [budgetRes, envelopeRes] = await Promise.all([
+    db.from('budget_targets').select('category, annual_budget_gbp').eq('user_id', userId),
+    db.from('budget_envelopes').select('category, year, monthly_gbp, rollover').eq('user_id', userId).eq('year', year),
+  ])
+  if (budgetRes.error) throw budgetRes.error
+  if (envelopeRes.error) throw envelopeRes.error
+
+  const budgets = ((budgetRes.data ?? []) as Pick<BudgetTarget, 'category' | 'annual_budget_gbp'>[])
+    .filter((b) => !EXCLUDED_CATEGORIES.includes(b.category))
+  if (budgets.length === 0) return []
+
+  const settings = new Map(((envelopeRes.data ?? []) as BudgetEnvelopeSettings[]).map((e) => [e.category, e]))
+  const spend = await fetchMonthlySpend(db, userId, year)
+
+  return budgets
+    .map((b) => {
+      const stored = settings.get(b.category)
+      const allocations = stored ? stored.monthly_gbp.map(Number) : evenAllocations(b.annual_budget_gbp ?? 0)
+      const rollover = stored?.rollover ?? false
+      return {
+        category: b.category,
+        annualBudget: Math.abs(b.annual_budget_gbp ?? 0),
+        rollover,
+        customised: !!stored,
+        months: buildEnvelopeMonths(allocations, spend.get(b.category) ?? Array(12).fill(0), rollover),
+      }
+    })
+    .sort((a, b) => a.category.localeCompare(b.category))
+}
+
+/**
+ * Default allocations for a category's annual budget: an even split, or spread like the
+ * category's spend in the previous year.
+ */
+export async function profileEnvelopeAllocations(
+  supabase: SupabaseClient | undefined,
+  userId: string,
+  category: string,
+  year: number,
+  profile: AllocationProfile
+): Promise<number[]> {
+  const db = supabase ?? (await createClient())
+  const { data: budget, error } = await db
+    .from('budget_targets')
+    .select('annual_budget_gbp')
+    .eq('user_id', userId)
+    .eq('category', category)
+    .maybeSingle()
+  if (error) throw error
+  const annual = budget?.annual_budget_gbp ?? 0
+  if (profile === 'even') return evenAllocations(annual)
+
+  const lastYear = await fetchMonthlySpend(db, userId, year - 1)
+  return seasonalAllocations(annual, lastYear.get(category) ?? Array(12).fill(0))
+}
@@ -0,0 +1,135 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createClient } from '@/lib/supabase/server'
+import { buildGetRateForDate, fetchFxRatesUpTo } from '@/lib/utils/fx-rates'
+import { detectRecurringPayments } from '@/lib/utils/detect-recurring-payments'
+import { merchantGroup } from '@/lib/utils/merchants'
+import {
+  DEFAULT_BUDGET_FORECAST_METHOD,
+  SEASONAL_YEARS,
+  estimateBudgets,
+  isBudgetForecastMethod,
+  type BudgetForecastMethod,
+  type ForecastTransaction,
+} from '@/lib/utils/budget-forecast'
+import type { BudgetTarget, TransactionLog } from '@/lib/types'
+
+const PAGE_SIZE = 1000
+/** Used when fx_rates and fx_rate_current are both empty. */
+const FALLBACK_GBPUSD = 1.27
+
+export type AllocatedRowGbp = Pick<TransactionLog, 'id' | 'date' | 'category' | 'counterparty' | 'merchant_id' | 'amount_usd' | 'amount_gbp'> & {
+  split_id: string | null
+  /** Signed GBP amount: amount_gbp, or amount_usd at the rate on the row's date. */
+  gbp: number
+}
+
+/**
+ * The user's transaction_log_allocated rows from start to end (YYYY-MM-DD, inclusive), internal
+ * transfers left out, each with its GBP amount. Rows with no amount are dropped. Also returns
+ * the current GBPUSD rate.
+ */
+export async function fetchAllocatedTransactionsGbp(
+  db: SupabaseClient,
+  userId: string,
+  start: string,
+  end: string
+): Promise<{ rows: AllocatedRowGbp[]; currentRate: number }> {
+  const raw: Omit<AllocatedRowGbp, 'gbp'>[] = []
+  for (let page = 0; ; page++) {
+    const { data, error } = await db
+      .from('transaction_log_allocated')
+      .select('id, split_id, date, category, counterparty, merchant_id, amount_usd, amount_gbp')
+      .eq('user_id', userId)
+      .eq('is_transfer', false)
+      .gte('date', start)
+      .lte('date', end)
+      .order('id')
+      .order('split_id', { nullsFirst: true })
+      .range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1)
+    if (error) throw error
+    raw.push(...((data ?? []) as Omit<AllocatedRowGbp, 'gbp'>[]))
+    if (!data || data.length < PAGE_SIZE) break
+  }
+
+  const { data: fxRateData } = await db
+    .from('fx_rate_current')
+    .select('gbpusd_rate')
+    .order('date', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+  const currentRate = fxRateData?.gbpusd_rate || FALLBACK_GBPUSD
+  const getRate = buildGetRateForDate(await fetchFxRatesUpTo(db, end), currentRate)
+
+  const rows = raw.flatMap((row) => {
+    const date = String(row.date).split('T')[0]
+    const gbp = row.amount_gbp ?? (row.amount_usd != null ? row.amount_usd / getRate(date) : null)
+    return gbp == null ? [] : [{ ...row, date, gbp }]
+  })
+  return { rows, currentRate }
+}
+
+/** The user's chosen forecast method; the default when unset or unreadable. */
+export async function fetchBudgetForecastMethod(db: SupabaseClient, userId: string): Promise<BudgetForecastMethod> {
+  const { data } = await db.from('user_profiles').select('budget_forecast_method').eq('id', userId).maybeSingle()
+  return isBudgetForecastMethod(data?.budget_forecast_method) ? data.budget_forecast_method : DEFAULT_BUDGET_FORECAST_METHOD
+}
+
+/**
+ * The user's budget_targets with ytd_gbp and tracking_est_gbp computed from transaction_log
+ * instead of the sheet's columns. Splits count under their own category and internal transfers
+ * are left out. USD-only rows are converted at the rate on their date; the USD figures use the
+ * current rate. `method` defaults to the user's profile setting.
+ *
+ * When using admin client (cron), userId scopes every query. When using server client,
+ * RLS scopes rows as well.
+ */
+export async function computeBudgetEstimates(
+  supabase: SupabaseClient | undefined,
+  userId: string,
+  options: { method?: BudgetForecastMethod; asOf?: string } = {}
+): Promise<{ method: BudgetForecastMethod; budgets: BudgetTarget[] }> {
+  const db = supabase ?? (await createClient())
+  const method = options.method ?? (await fetchBudgetForecastMethod(db, userId))
+  const asOf = options.asOf ?? new Date().toISOString().split('T')[0]
+  const year = Number(asOf.slice(0, 4))
+
+  const { data: budgetRows, error: budgetError } = await db
+    .from('budget_targets')
+    .select('*')
+    .eq('user_id', userId)
+  if (budgetError) throw budgetError
+  const budgets = (budgetRows ?? []) as BudgetTarget[]
+  if (budgets.length === 0) return { method, budgets }
+
+  // Run rate only needs this year; the other methods look back far enough for seasonality and yearly bills
+  const historyStart = method === 'run_rate' ? `${year}-01-01` : `${year - SEASONAL_YEARS}-01-01`
+  const { rows, currentRate } = await fetchAllocatedTransactionsGbp(db, userId, historyStart, asOf)
+
+  const transactions: ForecastTransaction[] = rows.map((row) => ({
+    date: row.date,
+    category: row.category,
+    gbp: row.gbp,
+    recurringKey: row.split_id ? null : merchantGroup(row, 5).key,
+  }))
+
+  const recurring = method === 'recurring'
+    ? detectRecurringPayments(rows.filter((row) => !row.split_id) as TransactionLog[], 'GBP', currentRate)
+    : []
+  const estimates = estimateBudgets(transactions, { method, asOf, recurring })
+
+  return {
+    method,
+    budgets: budgets.map((b) => {
+      const estimate = estimates.get(b.category)
+      const ytd = estimate?.ytd_gbp ?? 0
+      const tracking = estimate?.tracking_est_gbp ?? 0
+      return {
+        ...b,
+        ytd_gbp: ytd,
+        tracking_est_gbp: tracking,
+        ytd_usd: Math.round(ytd * currentRate * 100) / 100,
+        tracking_est_usd: Math.round(tracking * currentRate * 100) / 100,
+      }
+    }),
+  }
+}
@@ -1,30 +1,70 @@
 'use client'
 
-import React, { createContext, useContext, useState, useEffect } from 'react'
+import React, { createContext, useContext, useState, useEffect, useMemo } from 'react'
 import { createClient } from '@/lib/supabase/client'
-
-type Currency = 'USD' | 'GBP'
+import { buildGetRatesForDate, fetchCurrentFxRates, fetchFxRateHistory, isFxRateStale } from '@/lib/utils/fx-rates'
+import {
+  FALLBACK_EURUSD,
+  amountFromGbpUsd,
+  convertCurrency,
+  isDisplayCurrency,
+  type DisplayCurrency,
+  type FxRates,
+} from '@/lib/utils/currency'
+
+type Currency = DisplayCurrency
 
 const DEFAULT_FX_RATE = 1.27
 
 interface CurrencyContextType {
   currency: Currency
   setCurrency: (currency: Currency) => void
+  /** Convert a GBP, USD or EUR amount to the display currency; fxRate overrides the GBP→USD rate. */
   convertAmount: (amount: number, fromCurrency: string, fxRate?: number) => number
+  /** Convert an amount dated `date` (transaction or snapshot date) at that day's rates. */
+  convertAmountAt: (amount: number, fromCurrency: string, date: string) => number
+  /**
+   * Display value of a figure stored in GBP and USD columns (EUR from amount_eur when given, else
+   * from USD). With a date, any conversion uses that day's rates instead of today's.
+   */
+  fromGbpUsd: (
+    gbp: number | null | undefined,
+    usd: number | null | undefined,
+    eur?: number | null,
+    date?: string | null
+  ) => number
+  /** Rates in effect on a date, from the fx_rates history (loaded once per session); current rates until it loads. */
+  ratesOn: (date: string) => FxRates
   /** Current GBP→USD rate (fetched once per session from fx_rate_current). */
   fxRate: number
+  /** Current EUR→USD rate (fx_rate_current, else the latest in fx_rates). */
+  eurUsdRate: number
+  /** All current rates, including other currencies from fx_quotes. */
+  fxRates: FxRates
+  /** Date of the current GBPUSD rate; null when the built-in default is in use. */
+  fxRateDate: string | null
+  /** The current rate is the default or older than FX_STALE_AFTER_DAYS (false until rates have loaded). */
+  fxRateStale: boolean
 }
 
 const CurrencyContext = createContext<CurrencyContextType | undefined>(undefined)
 
 export function CurrencyProvider({ children }: { children: React.ReactNode }) {
   const [currency, setCurrency] = useState<Currency>('USD')
-  const [fxRate, setFxRate] = useState<number>(DEFAULT_FX_RATE)
+  const [fxRates, setFxRates] = useState<FxRates>({ gbpusd: DEFAULT_FX_RATE, eurusd: FALLBACK_EURUSD })
+  const [history, setHistory] = useState<{ gbpusd: Map<string, number>; eurusd: Map<string, number> }>({
+    gbpusd: new Map(),
+    eurusd: new Map(),
+  })
+  const fxRate = fxRates.gbpusd
+  const eurUsdRate = fxRates.eurusd
+  const fxRateDate = fxRates.asOf ?? null
+  const fxRateStale = fxRates.asOf !== undefined && isFxRateStale(fxRates.asOf)
 
   // Load currency: first from localStorage (session override), then from user profile (default_currency)
   useEffect(() => {
-    const saved = localStorage.getItem('currency') as Currency
-    if (saved === 'USD' || saved === 'GBP') {
+    const saved = localStorage.getItem('currency')
+    if (isDisplayCurrency(saved)) {
       setCurrency(saved)
       return
     }
@@ -40,32 +80,38 @@ export function CurrencyProvider({ children }: { children: React.ReactNode }) {
         .select('default_currency')
         .eq('id', user.id)
         .single()
-      const preferred = profile?.default_currency === 'GBP' ? 'GBP' : 'USD'
+      const preferred = isDisplayCurrency(profile?.default_currency) ? profile.default_currency : 'USD'
       setCurrency(preferred)
       localStorage.setItem('currency', preferred)
     })()
   }, [])
 
-  // Fetch current FX rate once (single source for all components)
+  // Fetch current FX rates and the fx_rates history once (single source for all components)
   useEffect(() => {
     const supabase = createClient()
     void (async () => {
       try {
-        const { data } = await supabase
-          .from('fx_rate_current')
-          .select('gbpusd_rate')
-          .order('date', { ascending: false })
-          .limit(1)
-          .single()
-        if (data?.gbpusd_rate != null && data.gbpusd_rate > 0) {
-          setFxRate(data.gbpusd_rate)
-        }
+        setFxRates(await fetchCurrentFxRates(supabase))
       } catch {
-        /* keep default */
+        // Keep the default rates, flagged as having no date
+        setFxRates((prev) => ({ ...prev, asOf: null }))
+      }
+    })()
+    void (async () => {
+      try {
+        setHistory(await fetchFxRateHistory(supabase))
+      } catch {
+        /* dated conversions use the current rates */
       }
     })()
   }, [])
 
+  const ratesOn = useMemo(() => {
+    const datedRates = buildGetRatesForDate(history.gbpusd, history.eurusd, fxRates)
+    // fx_rates only has GBP and EUR; other currencies stay at their current rate
+    return (date: string): FxRates => ({ ...datedRates(date), others: fxRates.others })
+  }, [history, fxRates])
+
   // Save currency to localStorage and user profile (so next login uses this default)
   const handleSetCurrency = (newCurrency: Currency) => {
     setCurrency(newCurrency)
@@ -81,28 +127,19 @@ export function CurrencyProvider({ children }: { children: React.ReactNode }) {
     })
   }
 
-  // Convert amount based on current currency selection
-  const convertAmount = (amount: number, fromCurrency: string, rate?: number): number => {
-    const r = rate ?? fxRate
-    if (!r) return amount
+  // Convert amount based on current currency selection (cross rates go through USD)
+  const convertAmount = (amount: number, fromCurrency: string, rate?: number): number =>
+    convertCurrency(amount, fromCurrency, currency, { ...fxRates, gbpusd: rate ?? fxRate })
 
-    // If UI currency matches account currency, no conversion needed
-    if (currency === fromCurrency) {
-      return amount
-    }
-
-    // If UI is USD and account is GBP -> multiply by rate
-    if (currency === 'USD' && fromCurrency === 'GBP') {
-      return amount * r
-    }
+  const convertAmountAt = (amount: number, fromCurrency: string, date: string): number =>
+    convertCurrency(amount, fromCurrency, currency, ratesOn(date))
 
-    // If UI is GBP and account is USD -> divide by rate
-    if (currency === 'GBP' && fromCurrency === 'USD') {
-      return amount / r
-    }
-
-    return amount
-  }
+  const fromGbpUsd = (
+    gbp: number | null | undefined,
+    usd: number | null | undefined,
+    eur?: number | null,
+    date?: string | null
+  ): number => amountFromGbpUsd(gbp, usd, currency, date ? ratesOn(date) : fxRates, eur)
 
   return (
     <CurrencyContext.Provider
@@ -110,7 +147,14 @@ export function CurrencyProvider({ children }: { children: React.ReactNode }) {
         currency,
         setCurrency: handleSetCurrency,
         convertAmount,
+        convertAmountAt,
+        fromGbpUsd,
+        ratesOn,
         fxRate,
+        eurUsdRate,
+        fxRates,
+        fxRateDate,
+        fxRateStale,
       }}
     >
       {children}
@@ -0,0 +1,101 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createClient } from '@/lib/supabase/server'
+import { computeBudgetEstimates, fetchAllocatedTransactionsGbp } from '@/lib/compute-budget-estimates'
+import {
+  LARGE_TRANSACTION_WINDOW_DAYS,
+  alertNotificationsFor,
+  type AlertTransaction,
+  type BudgetHistoryRow,
+} from '@/lib/utils/alert-rules'
+import type { AlertRule } from '@/lib/types'
+
+/**
+ * Evaluate the user's active alert rules against current data and add a notification for each
+ * condition not already notified. Run after every sync, once budget_history has today's snapshot.
+ *
+ * When using admin client (cron), userId scopes every query. When using server client,
+ * RLS scopes rows as well.
+ */
+export async function evaluateAlertRules(
+  supabase: SupabaseClient | undefined,
+  userId: string
+): Promise<{ created: number }> {
+  const db = supabase ?? (await createClient())
+
+  const { data: ruleRows, error: rulesError } = await db
+    .from('alert_rules')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('is_active', true)
+  if (rulesError) throw rulesError
+  const rules = (ruleRows ?? []) as AlertRule[]
+  if (rules.length === 0) return { created: 0 }
+
+  const asOf = new Date().toISOString().split('T')[0]
+  const daysBack = (days: number) => {
+    const d = new Date(`${asOf}T00:00:00Z`)
+    d.setUTCDate(d.getUTCDate() - days)
+    return d.toISOString().split('T')[0]
+  }
+  const needs = (type: AlertRule['rule_type']) => rules.some((r) => r.rule_type === type)
+
+  const budgets = needs('budget_percent') ? (await computeBudgetEstimates(db, userId)).budgets : []
+
+  let history: BudgetHistoryRow[] = []
+  if (needs('forecast_gap')) {
+    // A few extra days so the snapshot on or before the lookback date is found
+    const longest = Math.max(...rules.filter((r) => r.rule_type === 'forecast_gap').map((r) => r.lookback_days))
+    const { data, error } = await db
+      .from('budget_history')
+      .select('date, category, annual_budget, forecast_spend')
+      .eq('user_id', userId)
+      .gte('date', daysBack(longest + 7))
+      .lte('date', asOf)
+    if (error) throw error
+    history = (data ?? []).map((r) => ({
+      date: String(r.date).split('T')[0],
+      category: r.category,
+      annual_budget: Number(r.annual_budget) || 0,
+      forecast_spend: Number(r.forecast_spend) || 0,
+    }))
+  }
+
+  let trends: { category: string; z_score: number }[] = []
+  if (needs('z_score')) {
+    const { data, error } = await db.from('monthly_trends').select('category, z_score').eq('user_id', userId)
+    if (error) throw error
+    trends = data ?? []
+  }
+
+  let transactions: AlertTransaction[] = []
+  if (needs('large_transaction')) {
+    const { rows } = await fetchAllocatedTransactionsGbp(db, userId, daysBack(LARGE_TRANSACTION_WINDOW_DAYS), asOf)
+    // Splits of one transaction are added back together; the largest part names the category
+    const byId = new Map<string, AlertTransaction>()
+    const largestPart = new Map<string, number>()
+    for (const row of rows) {
+      const tx = byId.get(row.id)
+      if (!tx) {
+        byId.set(row.id, { id: row.id, date: row.date, category: row.category, counterparty: row.counterparty, gbp: row.gbp })
+      } else {
+        tx.gbp += row.gbp
+        if (Math.abs(row.gbp) > (largestPart.get(row.id) ?? 0)) tx.category = row.category
+      }
+      largestPart.set(row.id, Math.max(largestPart.get(row.id) ?? 0, Math.abs(row.gbp)))
+    }
+    transactions = Array.from(byId.values())
+  }
+
+  const drafts = alertNotificationsFor(rules, { asOf, budgets, history, trends, transactions })
+  if (drafts.length === 0) return { created: 0 }
+
+  const { data: inserted, error: insertError } = await db
+    .from('notifications')
+    .upsert(
+      drafts.map((d) => ({ ...d, user_id: userId })),
+      { onConflict: 'user_id,dedupe_key', ignoreDuplicates: true }
+    )
+    .select('id')
+  if (insertError) throw insertError
+  return { created: inserted?.length ?? 0 }
+}
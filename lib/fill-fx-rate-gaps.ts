@@ -0,0 +1,145 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { FxProvider } from '@/lib/fx-providers/types'
+import type { FxQuote } from '@/lib/types'
+import { fxQuotesFromRateRows, upsertFxQuotes, type FxRatesRow } from '@/lib/utils/fx-rates'
+
+/** How far back missing fx_rates days are looked for (an empty table is backfilled this far). */
+const LOOKBACK_DAYS = 366
+
+/** A quote stands in for the days after it up to this many (weekends and market holidays). */
+const CARRY_FORWARD_DAYS = 4
+
+export interface FxGapFillResult {
+  provider: string
+  /** fx_rates days written (new rows, or rows that gained a missing rate). */
+  filled: number
+  /** Days still without a GBPUSD rate after filling. */
+  missing: number
+  /** Date fx_rate_current was moved to, when the provider had a newer rate. */
+  currentDate: string | null
+}
+
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`)
+  d.setUTCDate(d.getUTCDate() + days)
+  return d.toISOString().split('T')[0]
+}
+
+/** USD per 1 GBP / EUR / other currency by date, from quotes in either direction against USD. */
+function usdRatesByDate(quotes: FxQuote[]): Map<string, Map<string, number>> {
+  const byCurrency = new Map<string, Map<string, number>>()
+  for (const q of quotes) {
+    let currency: string
+    let rate: number
+    if (q.quote === 'USD') [currency, rate] = [q.base, q.rate]
+    else if (q.base === 'USD') [currency, rate] = [q.quote, 1 / q.rate]
+    else continue
+    if (!byCurrency.has(currency)) byCurrency.set(currency, new Map())
+    byCurrency.get(currency)!.set(q.date, rate)
+  }
+  return byCurrency
+}
+
+/**
+ * Fill missing days in fx_rates from the provider, one day at a time: a day takes the provider's
+ * rate for that date, else its last earlier quote if that is at most CARRY_FORWARD_DAYS old.
+ * Only fetched quotes are carried (never filled rows), so a provider that stops updating leaves
+ * gaps rather than repeating its last rate. Existing rates are never overwritten, so sheet-synced
+ * history wins. The provider's quotes are mirrored into fx_quotes (other currencies included),
+ * and fx_rate_current moves forward when the provider has a newer GBPUSD rate than it.
+ */
+export async function fillFxRateGaps(
+  db: SupabaseClient,
+  provider: FxProvider,
+  today: string = new Date().toISOString().split('T')[0]
+): Promise<FxGapFillResult> {
+  const from = addDays(today, -LOOKBACK_DAYS)
+  const { data: stored, error } = await db
+    .from('fx_rates')
+    .select('date, gbpusd_rate, eurusd_rate')
+    .gte('date', addDays(from, -CARRY_FORWARD_DAYS))
+    .lte('date', today)
+    .order('date', { ascending: true })
+  if (error) throw error
+
+  const existing = new Map<string, FxRatesRow>()
+  for (const row of (stored ?? []) as FxRatesRow[]) existing.set(String(row.date).split('T')[0], row)
+  const isMissing = (date: string) => {
+    const row = existing.get(date)
+    return !(Number(row?.gbpusd_rate) > 0) || !(Number(row?.eurusd_rate) > 0)
+  }
+
+  let firstMissing: string | null = null
+  for (let date = from; date <= today; date = addDays(date, 1)) {
+    if (isMissing(date)) {
+      firstMissing = date
+      break
+    }
+  }
+  const result: FxGapFillResult = { provider: provider.id, filled: 0, missing: 0, currentDate: null }
+  if (!firstMissing) return result
+
+  const quotes = await provider.fetchRates(addDays(firstMissing, -CARRY_FORWARD_DAYS), today)
+  const fetched = usdRatesByDate(quotes)
+
+  // Walk forward day by day, remembering the provider's last quote for each column
+  const last: Record<'gbpusd_rate' | 'eurusd_rate', { date: string; rate: number } | null> = {
+    gbpusd_rate: null,
+    eurusd_rate: null,
+  }
+  const currencyOf = { gbpusd_rate: 'GBP', eurusd_rate: 'EUR' } as const
+  const filledRows: FxRatesRow[] = []
+  for (let date = addDays(firstMissing, -CARRY_FORWARD_DAYS); date <= today; date = addDays(date, 1)) {
+    const row = existing.get(date)
+    const next: FxRatesRow = { date, gbpusd_rate: row?.gbpusd_rate ?? null, eurusd_rate: row?.eurusd_rate ?? null }
+    let changed = false
+    for (const column of ['gbpusd_rate', 'eurusd_rate'] as const) {
+      const fetchedRate = fetched.get(currencyOf[column])?.get(date)
+      if (fetchedRate != null) last[column] = { date, rate: fetchedRate }
+      if (Number(row?.[column]) > 0) continue
+      const known = last[column]
+      if (date >= firstMissing && known && addDays(known.date, CARRY_FORWARD_DAYS) >= date) {
+        next[column] = Math.round(known.rate * 1e6) / 1e6
+        changed = true
+      }
+    }
+    if (changed) filledRows.push(next)
+    if (date >= from && !(Number(next.gbpusd_rate) > 0)) result.missing++
+  }
+
+  for (let i = 0; i < filledRows.length; i += 1000) {
+    const { error: upsertError } = await db.from('fx_rates').upsert(filledRows.slice(i, i + 1000), { onConflict: 'date' })
+    if (upsertError) throw upsertError
+  }
+  result.filled = filledRows.length
+
+  // Mirror into fx_quotes: the filled GBP/EUR days plus the provider's own quotes for other currencies
+  const otherQuotes = quotes.filter((q) => ![q.base, q.quote].some((c) => c === 'GBP' || c === 'EUR'))
+  const quotesError = await upsertFxQuotes(db, [...fxQuotesFromRateRows(filledRows), ...otherQuotes])
+  if (quotesError) throw quotesError
+
+  const gbpDates = Array.from(fetched.get('GBP')?.keys() ?? []).sort()
+  const latestDate = gbpDates[gbpDates.length - 1]
+  if (latestDate) {
+    const { data: current } = await db
+      .from('fx_rate_current')
+      .select('date')
+      .order('date', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+    if (!current || String(current.date).split('T')[0] < latestDate) {
+      const { error: currentError } = await db.from('fx_rate_current').upsert(
+        {
+          date: latestDate,
+          gbpusd_rate: fetched.get('GBP')!.get(latestDate),
+          eurusd_rate: fetched.get('EUR')?.get(latestDate) ?? last.eurusd_rate?.rate ?? null,
+        },
+        { onConflict: 'date' }
+      )
+      if (currentError) throw currentError
+      result.currentDate = latestDate
+    }
+  }
+
+  return result
+}
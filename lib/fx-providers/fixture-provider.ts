@@ -0,0 +1,22 @@
+import { readFile } from 'fs/promises'
+import path from 'path'
+import { inRange, quotesFromCsv, quotesFromJson } from './parse'
+import type { FxProvider } from './types'
+
+/**
+ * Offline provider backed by a local file (FX_RATES_FILE, relative to the project root): JSON
+ * (an array of records, or { rates: [...] }) or CSV with a header row, chosen by extension.
+ */
+export function createFixtureFxProvider(file: string): FxProvider {
+  const filePath = path.isAbsolute(file) ? file : path.join(process.cwd(), file)
+  return {
+    id: 'fixture',
+    name: `Local file (${path.basename(filePath)})`,
+
+    async fetchRates(from, to) {
+      const text = await readFile(filePath, 'utf8')
+      const quotes = filePath.toLowerCase().endsWith('.csv') ? quotesFromCsv(text) : quotesFromJson(JSON.parse(text))
+      return inRange(quotes, from, to)
+    },
+  }
+}
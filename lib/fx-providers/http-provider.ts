@@ -0,0 +1,34 @@
+import { inRange, quotesFromCsv, quotesFromJson } from './parse'
+import type { FxProvider } from './types'
+
+/**
+ * Provider for any endpoint that serves daily rates as JSON or CSV (same record shapes as the
+ * fixture). `{from}` and `{to}` in the URL are replaced with the requested dates; without them
+ * they are sent as query parameters. FX_RATES_API_KEY, when set, goes in the Authorization header.
+ */
+export function createHttpFxProvider(url: string, apiKey?: string): FxProvider {
+  return {
+    id: 'http',
+    name: `HTTP (${new URL(url).host})`,
+
+    async fetchRates(from, to) {
+      let target: string
+      if (url.includes('{from}') || url.includes('{to}')) {
+        target = url.split('{from}').join(from).split('{to}').join(to)
+      } else {
+        const u = new URL(url)
+        u.searchParams.set('from', from)
+        u.searchParams.set('to', to)
+        target = u.toString()
+      }
+      const res = await fetch(target, {
+        headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : undefined,
+        cache: 'no-store',
+      })
+      if (!res.ok) throw new Error(`FX rate endpoint returned ${res.status}`)
+      const isCsv = (res.headers.get('content-type') ?? '').includes('csv')
+      const quotes = isCsv ? quotesFromCsv(await res.text()) : quotesFromJson(await res.json())
+      return inRange(quotes, from, to)
+    },
+  }
+}
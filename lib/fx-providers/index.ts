@@ -0,0 +1,31 @@
+import { createFixtureFxProvider } from './fixture-provider'
+import { createHttpFxProvider } from './http-provider'
+import { createSheetFxProvider } from './sheet-provider'
+import type { FxProvider, FxProviderId } from './types'
+
+const PROVIDER_IDS: FxProviderId[] = ['sheet', 'http', 'fixture']
+
+/**
+ * The configured FX provider. FX_PROVIDER picks one explicitly; otherwise FX_RATES_URL selects the
+ * HTTP endpoint, FX_RATES_FILE the local fixture, and failing both the sheet (which needs a
+ * spreadsheet to read). Returns null when the chosen provider is missing its setting.
+ */
+export function getFxProvider(options: { spreadsheetId?: string | null } = {}): FxProvider | null {
+  const configured = process.env.FX_PROVIDER?.trim().toLowerCase()
+  if (configured && !PROVIDER_IDS.includes(configured as FxProviderId)) {
+    throw new Error(`Unknown FX_PROVIDER "${configured}" (expected ${PROVIDER_IDS.join(', ')})`)
+  }
+  const id: FxProviderId =
+    (configured as FxProviderId | undefined) ??
+    (process.env.FX_RATES_URL ? 'http' : process.env.FX_RATES_FILE ? 'fixture' : 'sheet')
+
+  switch (id) {
+    case 'http':
+      return process.env.FX_RATES_URL ? createHttpFxProvider(process.env.FX_RATES_URL, process.env.FX_RATES_API_KEY) : null
+    case 'fixture':
+      return process.env.FX_RATES_FILE ? createFixtureFxProvider(process.env.FX_RATES_FILE) : null
+    case 'sheet':
+      return options.spreadsheetId ? createSheetFxProvider(options.spreadsheetId) : null
+  }
+}
+
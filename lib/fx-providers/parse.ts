@@ -0,0 +1,61 @@
+import type { FxQuote } from '@/lib/types'
+import { parseCsvText } from '@/lib/utils/csv-import'
+
+/** "GBPUSD", "gbpusd_rate", "EUR/USD" -> ['GBP', 'USD'] */
+function pairFromKey(key: string): [string, string] | null {
+  const m = key.trim().toUpperCase().match(/^([A-Z]{3})[/_-]?([A-Z]{3})(?:_RATE)?$/)
+  return m ? [m[1], m[2]] : null
+}
+
+function isoDate(raw: unknown): string | null {
+  const text = String(raw ?? '').trim()
+  if (/^\d{4}-\d{2}-\d{2}/.test(text)) return text.slice(0, 10)
+  return null
+}
+
+/**
+ * Quotes from records in either of two shapes: long ({ date, base, quote, rate }) or wide
+ * ({ date, GBPUSD: 1.27, EURUSD: 1.08 }, pair columns in any case, optionally suffixed _rate as in
+ * fx_rates). Records without an ISO date or a positive rate are dropped.
+ */
+export function quotesFromRecords(records: Record<string, unknown>[]): FxQuote[] {
+  const quotes: FxQuote[] = []
+  for (const record of records) {
+    const entries = Object.entries(record).map(([k, v]) => [k.trim().toLowerCase(), v] as const)
+    const get = (key: string) => entries.find(([k]) => k === key)?.[1]
+    const date = isoDate(get('date'))
+    if (!date) continue
+
+    if (get('base') != null && get('quote') != null) {
+      const base = String(get('base')).trim().toUpperCase()
+      const quote = String(get('quote')).trim().toUpperCase()
+      const rate = Number(get('rate'))
+      if (/^[A-Z]{3}$/.test(base) && /^[A-Z]{3}$/.test(quote) && rate > 0) quotes.push({ date, base, quote, rate })
+      continue
+    }
+    for (const [key, value] of entries) {
+      const pair = pairFromKey(key)
+      const rate = Number(value)
+      if (pair && value !== '' && rate > 0) quotes.push({ date, base: pair[0], quote: pair[1], rate })
+    }
+  }
+  return quotes
+}
+
+/** Quotes from a JSON body: an array of records, or { rates: [...] }. */
+export function quotesFromJson(body: unknown): FxQuote[] {
+  const records = Array.isArray(body) ? body : (body as { rates?: unknown })?.rates
+  if (!Array.isArray(records)) throw new Error('Expected an array of FX rate records')
+  return quotesFromRecords(records as Record<string, unknown>[])
+}
+
+/** Quotes from CSV text with a header row (Date,GBPUSD,EURUSD,... or date,base,quote,rate). */
+export function quotesFromCsv(text: string): FxQuote[] {
+  const [header, ...rows] = parseCsvText(text)
+  if (!header) return []
+  return quotesFromRecords(rows.map((row) => Object.fromEntries(header.map((h, i) => [h, row[i] ?? '']))))
+}
+
+export function inRange(quotes: FxQuote[], from: string, to: string): FxQuote[] {
+  return quotes.filter((q) => q.date >= from && q.date <= to)
+}
@@ -0,0 +1,16 @@
+import { fetchSheetFxRates } from '@/lib/sync-google-sheet'
+import { fxQuotesFromRateRows } from '@/lib/utils/fx-rates'
+import { inRange } from './parse'
+import type { FxProvider } from './types'
+
+/** The "FX Rates" tab of a spreadsheet (Date, GBPUSD, EURUSD), read with the service account. */
+export function createSheetFxProvider(spreadsheetId: string): FxProvider {
+  return {
+    id: 'sheet',
+    name: 'Google Sheet (FX Rates tab)',
+
+    async fetchRates(from, to) {
+      return inRange(fxQuotesFromRateRows(await fetchSheetFxRates(spreadsheetId)), from, to)
+    },
+  }
+}
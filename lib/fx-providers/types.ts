@@ -0,0 +1,18 @@
+import type { FxQuote } from '@/lib/types'
+
+export type FxProviderId = 'sheet' | 'http' | 'fixture'
+
+/**
+ * A source of daily exchange rates. Providers only fetch quotes; writing fx_rates, fx_quotes and
+ * fx_rate_current and deciding which days are missing is the gap filler's work
+ * (lib/fill-fx-rate-gaps.ts), so a provider can be swapped without touching the database code.
+ */
+export interface FxProvider {
+  id: FxProviderId
+  name: string
+  /**
+   * Quotes for days between `from` and `to` (YYYY-MM-DD, inclusive), in any direction against
+   * any currency. Days the source has no rate for are simply left out.
+   */
+  fetchRates(from: string, to: string): Promise<FxQuote[]>
+}
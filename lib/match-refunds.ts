@@ -0,0 +1,110 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createClient } from '@/lib/supabase/server'
+import { transactionFingerprint } from '@/lib/utils/detect-duplicate-transactions'
+import { detectRefunds } from '@/lib/utils/detect-refunds'
+import type { TransactionLog } from '@/lib/types'
+
+const PAGE_SIZE = 1000
+
+interface RefundRow {
+  id: string
+  pair_key: string
+  purchase_key: string
+  refund_key: string
+  purchase_transaction_id: string | null
+  refund_transaction_id: string | null
+  status: 'auto' | 'rejected'
+}
+
+/**
+ * Link refunds in transaction_log to the purchases they reverse. Existing links whose rows
+ * were re-inserted by sheet sync are re-linked by fingerprint first. Rows already linked, legs
+ * of an internal transfer and pairs the user unlinked are left alone. Run after
+ * pairInternalTransfers so a transfer is never read as a refund.
+ *
+ * When using admin client (cron), userId scopes every query. When using server client,
+ * RLS scopes rows as well.
+ */
+export async function matchRefunds(
+  supabase: SupabaseClient | undefined,
+  userId: string
+): Promise<{ matched: number; relinked: number }> {
+  const db = supabase ?? (await createClient())
+
+  const transactions: TransactionLog[] = []
+  for (let page = 0; ; page++) {
+    const { data, error } = await db
+      .from('transaction_log')
+      .select('id, date, category, counterparty, amount_usd, amount_gbp, amount_eur, amount, currency, data_source, merchant_id')
+      .eq('user_id', userId)
+      .order('id')
+      .range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1)
+    if (error) throw error
+    transactions.push(...((data ?? []) as TransactionLog[]))
+    if (!data || data.length < PAGE_SIZE) break
+  }
+  if (transactions.length === 0) return { matched: 0, relinked: 0 }
+
+  const [{ data: existing, error: existingError }, { data: transfers, error: transfersError }] = await Promise.all([
+    db
+      .from('transaction_refunds')
+      .select('id, pair_key, purchase_key, refund_key, purchase_transaction_id, refund_transaction_id, status')
+      .eq('user_id', userId),
+    db
+      .from('transaction_transfers')
+      .select('out_key, in_key')
+      .eq('user_id', userId)
+      .in('status', ['auto', 'confirmed']),
+  ])
+  if (existingError) throw existingError
+  if (transfersError) throw transfersError
+  const refunds = (existing ?? []) as RefundRow[]
+
+  const idsByKey = new Map<string, string>()
+  for (const tx of transactions) {
+    const key = transactionFingerprint(tx)
+    // Identical sheet rows share a fingerprint; the link goes to the first one
+    if (!idsByKey.has(key)) idsByKey.set(key, tx.id)
+  }
+
+  let relinked = 0
+  for (const r of refunds) {
+    if (r.status === 'rejected' || (r.purchase_transaction_id && r.refund_transaction_id)) continue
+    const purchaseId = r.purchase_transaction_id ?? idsByKey.get(r.purchase_key) ?? null
+    const refundId = r.refund_transaction_id ?? idsByKey.get(r.refund_key) ?? null
+    if (purchaseId === r.purchase_transaction_id && refundId === r.refund_transaction_id) continue
+    const { error } = await db
+      .from('transaction_refunds')
+      .update({ purchase_transaction_id: purchaseId, refund_transaction_id: refundId, updated_at: new Date().toISOString() })
+      .eq('id', r.id)
+    if (error) throw error
+    relinked++
+  }
+
+  const candidates = detectRefunds(transactions, {
+    rejectedPairKeys: new Set(refunds.filter((r) => r.status === 'rejected').map((r) => r.pair_key)),
+    excludedFingerprints: new Set([
+      ...refunds.filter((r) => r.status !== 'rejected').flatMap((r) => [r.purchase_key, r.refund_key]),
+      ...(transfers ?? []).flatMap((t) => [t.out_key, t.in_key]),
+    ]),
+  })
+  if (candidates.length === 0) return { matched: 0, relinked }
+
+  const { data: inserted, error: insertError } = await db
+    .from('transaction_refunds')
+    .upsert(
+      candidates.map((c) => ({
+        user_id: userId,
+        pair_key: c.pairKey,
+        purchase_key: transactionFingerprint(c.purchase),
+        refund_key: transactionFingerprint(c.refund),
+        purchase_transaction_id: c.purchase.id,
+        refund_transaction_id: c.refund.id,
+      })),
+      { onConflict: 'user_id,pair_key', ignoreDuplicates: true }
+    )
+    .select('id')
+  if (insertError) throw insertError
+
+  return { matched: inserted?.length ?? 0, relinked }
+}
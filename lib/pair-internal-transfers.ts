@@ -0,0 +1,118 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createClient } from '@/lib/supabase/server'
+import { transactionFingerprint } from '@/lib/utils/detect-duplicate-transactions'
+import { detectInternalTransfers } from '@/lib/utils/detect-internal-transfers'
+import { buildGetRateForDate, fetchFxRatesUpTo } from '@/lib/utils/fx-rates'
+import type { TransactionLog } from '@/lib/types'
+
+const PAGE_SIZE = 1000
+/** Used when fx_rates and fx_rate_current are both empty. */
+const FALLBACK_GBPUSD = 1.27
+
+interface TransferRow {
+  id: string
+  out_key: string
+  in_key: string
+  out_transaction_id: string | null
+  in_transaction_id: string | null
+  status: 'auto' | 'suggested' | 'confirmed' | 'rejected'
+  pair_key: string
+}
+
+/**
+ * Pair internal transfers in transaction_log and store new pairs as status 'auto', or
+ * 'suggested' for same-currency matches without transfer wording (not counted as transfers
+ * until the user confirms them).
+ * Existing pairs whose legs were re-inserted by sheet sync are re-linked by fingerprint
+ * first, and rows already in a pair (or pairs the user rejected) are not paired again.
+ *
+ * When using admin client (cron), userId scopes every query. When using server client,
+ * RLS scopes rows as well.
+ */
+export async function pairInternalTransfers(
+  supabase: SupabaseClient | undefined,
+  userId: string
+): Promise<{ paired: number; suggested: number; relinked: number }> {
+  const db = supabase ?? (await createClient())
+
+  const transactions: TransactionLog[] = []
+  for (let page = 0; ; page++) {
+    const { data, error } = await db
+      .from('transaction_log')
+      .select('id, date, category, counterparty, amount_usd, amount_gbp, amount_eur, amount, currency, data_source')
+      .eq('user_id', userId)
+      .order('id')
+      .range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1)
+    if (error) throw error
+    transactions.push(...((data ?? []) as TransactionLog[]))
+    if (!data || data.length < PAGE_SIZE) break
+  }
+  if (transactions.length === 0) return { paired: 0, suggested: 0, relinked: 0 }
+
+  const { data: existing, error: existingError } = await db
+    .from('transaction_transfers')
+    .select('id, out_key, in_key, out_transaction_id, in_transaction_id, status, pair_key')
+    .eq('user_id', userId)
+  if (existingError) throw existingError
+  const transfers = (existing ?? []) as TransferRow[]
+
+  const idsByKey = new Map<string, string>()
+  for (const tx of transactions) {
+    const key = transactionFingerprint(tx)
+    // Identical sheet rows share a fingerprint; the pair goes to the first one
+    if (!idsByKey.has(key)) idsByKey.set(key, tx.id)
+  }
+
+  let relinked = 0
+  for (const t of transfers) {
+    if (t.status === 'rejected' || (t.out_transaction_id && t.in_transaction_id)) continue
+    const outId = t.out_transaction_id ?? idsByKey.get(t.out_key) ?? null
+    const inId = t.in_transaction_id ?? idsByKey.get(t.in_key) ?? null
+    if (outId === t.out_transaction_id && inId === t.in_transaction_id) continue
+    const { error } = await db
+      .from('transaction_transfers')
+      .update({ out_transaction_id: outId, in_transaction_id: inId, updated_at: new Date().toISOString() })
+      .eq('id', t.id)
+    if (error) throw error
+    relinked++
+  }
+
+  const { data: fxRateData } = await db
+    .from('fx_rate_current')
+    .select('gbpusd_rate')
+    .order('date', { ascending: false })
+    .limit(1)
+    .single()
+  const maxDate = transactions.reduce((max, tx) => (tx.date > max ? tx.date : max), '').split('T')[0]
+  const rates = await fetchFxRatesUpTo(db, maxDate)
+
+  const candidates = detectInternalTransfers(transactions, {
+    getRate: buildGetRateForDate(rates, fxRateData?.gbpusd_rate || FALLBACK_GBPUSD),
+    rejectedPairKeys: new Set(transfers.filter((t) => t.status === 'rejected').map((t) => t.pair_key)),
+    pairedFingerprints: new Set(
+      transfers.filter((t) => t.status !== 'rejected').flatMap((t) => [t.out_key, t.in_key])
+    ),
+  })
+  if (candidates.length === 0) return { paired: 0, suggested: 0, relinked }
+
+  const { data: inserted, error: insertError } = await db
+    .from('transaction_transfers')
+    .upsert(
+      candidates.map((c) => ({
+        user_id: userId,
+        pair_key: c.pairKey,
+        out_key: transactionFingerprint(c.out),
+        in_key: transactionFingerprint(c.in),
+        out_transaction_id: c.out.id,
+        in_transaction_id: c.in.id,
+        status: c.suggested ? 'suggested' : 'auto',
+        implied_rate: c.impliedRate,
+      })),
+      { onConflict: 'user_id,pair_key', ignoreDuplicates: true }
+    )
+    .select('id, status')
+  if (insertError) throw insertError
+
+  const suggested = (inserted ?? []).filter((t) => t.status === 'suggested').length
+  return { paired: (inserted?.length ?? 0) - suggested, suggested, relinked }
+}
@@ -0,0 +1,68 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createClient } from '@/lib/supabase/server'
+import { transactionFingerprint } from '@/lib/utils/detect-duplicate-transactions'
+import type { TransactionLog } from '@/lib/types'
+
+const PAGE_SIZE = 1000
+
+/** Tables whose rows point at a transaction_log row by id and by content fingerprint (parent_key). */
+const LINKED_TABLES = ['transaction_splits', 'transaction_tags'] as const
+
+/**
+ * Re-attach splits and tags whose transaction was deleted (transaction_id set NULL), matching
+ * on the transaction's content fingerprint. Sheet sync deletes and re-inserts google_sheet rows
+ * with new ids, so this runs after every sync. Rows whose transaction no longer exists stay
+ * detached and are ignored until a matching row comes back.
+ */
+export async function relinkTransactionLinks(
+  supabase: SupabaseClient | undefined,
+  userId: string
+): Promise<{ relinked: number }> {
+  const db = supabase ?? (await createClient())
+
+  const wanted = new Set<string>()
+  for (const table of LINKED_TABLES) {
+    const { data: orphans, error } = await db
+      .from(table)
+      .select('parent_key')
+      .eq('user_id', userId)
+      .is('transaction_id', null)
+    if (error) throw error
+    for (const o of orphans ?? []) wanted.add(o.parent_key)
+  }
+  if (wanted.size === 0) return { relinked: 0 }
+
+  const idsByKey = new Map<string, string>()
+  for (let page = 0; ; page++) {
+    const { data, error } = await db
+      .from('transaction_log')
+      .select('id, date, counterparty, amount_usd, amount_gbp, data_source')
+      .eq('user_id', userId)
+      .order('id')
+      .range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1)
+    if (error) throw error
+    for (const row of data ?? []) {
+      const key = transactionFingerprint(row as TransactionLog)
+      // Identical sheet rows share a fingerprint; links go to the first one
+      if (wanted.has(key) && !idsByKey.has(key)) idsByKey.set(key, row.id)
+    }
+    if (!data || data.length < PAGE_SIZE) break
+  }
+
+  let relinked = 0
+  for (const [key, transactionId] of Array.from(idsByKey.entries())) {
+    for (const table of LINKED_TABLES) {
+      const { data, error } = await db
+        .from(table)
+        .update({ transaction_id: transactionId })
+        .eq('user_id', userId)
+        .eq('parent_key', key)
+        .is('transaction_id', null)
+        .select('id')
+      if (error) throw error
+      relinked += data?.length ?? 0
+    }
+  }
+
+  return { relinked }
+}
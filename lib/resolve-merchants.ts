@@ -0,0 +1,120 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createClient } from '@/lib/supabase/server'
+import { normalizeCounterparty } from '@/lib/utils/detect-duplicate-transactions'
+import { buildMerchantResolver, merchantNameFromCounterparty } from '@/lib/utils/merchants'
+import type { Merchant } from '@/lib/types'
+
+const PAGE_SIZE = 1000
+/** Ids per `.in()` update; keeps the PostgREST request URL well under its length limit. */
+const UPDATE_CHUNK = 200
+
+export interface ResolveMerchantsOptions {
+  /**
+   * Re-resolve every row (after aliases change). Default false: only rows with no
+   * merchant yet, i.e. newly synced or imported rows.
+   */
+  all?: boolean
+}
+
+async function fetchMerchants(db: SupabaseClient, userId: string): Promise<Merchant[]> {
+  const { data, error } = await db.from('merchants').select('*').eq('user_id', userId)
+  if (error) throw error
+  return (data ?? []) as Merchant[]
+}
+
+/**
+ * Resolve transaction_log rows to a merchant id via the merchant directory's alias patterns.
+ * Counterparties no alias matches get an auto-created merchant (alias = normalized counterparty),
+ * so every row with a counterparty ends up with a merchant. Rows with a blank counterparty stay null.
+ *
+ * When using admin client (cron), userId scopes every query. When using server client,
+ * RLS scopes rows as well.
+ */
+export async function resolveTransactionMerchants(
+  supabase: SupabaseClient | undefined,
+  userId: string,
+  options: ResolveMerchantsOptions = {}
+): Promise<{ updated: number; created: number }> {
+  const db = supabase ?? (await createClient())
+
+  const rows: { id: string; counterparty: string | null; merchant_id: string | null }[] = []
+  for (let page = 0; ; page++) {
+    let query = db
+      .from('transaction_log')
+      .select('id, counterparty, merchant_id')
+      .eq('user_id', userId)
+      .order('id')
+      .range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1)
+    if (!options.all) query = query.is('merchant_id', null)
+    const { data, error } = await query
+    if (error) throw error
+    rows.push(...(data ?? []))
+    if (!data || data.length < PAGE_SIZE) break
+  }
+  if (rows.length === 0) return { updated: 0, created: 0 }
+
+  let merchants = await fetchMerchants(db, userId)
+  let resolve = buildMerchantResolver(merchants)
+
+  // Auto-create merchants for unmatched counterparties. Shorter keys go first so that
+  // "uber" covers "uber trip" instead of creating both.
+  const unmatchedKeys = Array.from(
+    new Set(
+      rows
+        .filter((r) => r.counterparty && !resolve(r.counterparty))
+        .map((r) => normalizeCounterparty(r.counterparty))
+        .filter(Boolean)
+    )
+  ).sort((a, b) => a.length - b.length)
+
+  const newKeys: string[] = []
+  for (const key of unmatchedKeys) {
+    if (!newKeys.some((k) => ` ${key} `.includes(` ${k} `))) newKeys.push(key)
+  }
+
+  let created = 0
+  if (newKeys.length > 0) {
+    const now = new Date().toISOString()
+    const { data: inserted, error } = await db
+      .from('merchants')
+      .upsert(
+        newKeys.map((key) => ({
+          user_id: userId,
+          name: merchantNameFromCounterparty(key),
+          alias_patterns: [key],
+          is_auto: true,
+          updated_at: now,
+        })),
+        { onConflict: 'user_id,name', ignoreDuplicates: true }
+      )
+      .select('id')
+    if (error) throw error
+    created = inserted?.length ?? 0
+    merchants = await fetchMerchants(db, userId)
+    resolve = buildMerchantResolver(merchants)
+  }
+
+  const idsByMerchant = new Map<string | null, string[]>()
+  for (const row of rows) {
+    const merchantId = resolve(row.counterparty)
+    if (merchantId === row.merchant_id) continue
+    if (!idsByMerchant.has(merchantId)) idsByMerchant.set(merchantId, [])
+    idsByMerchant.get(merchantId)!.push(row.id)
+  }
+
+  let updated = 0
+  for (const [merchantId, ids] of Array.from(idsByMerchant.entries())) {
+    for (let i = 0; i < ids.length; i += UPDATE_CHUNK) {
+      const chunk = ids.slice(i, i + UPDATE_CHUNK)
+      const { error } = await db
+        .from('transaction_log')
+        .update({ merchant_id: merchantId })
+        .eq('user_id', userId)
+        .in('id', chunk)
+      if (error) throw error
+      updated += chunk.length
+    }
+  }
+
+  return { updated, created }
+}
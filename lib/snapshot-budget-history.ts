@@ -1,8 +1,11 @@
 import type { SupabaseClient } from '@supabase/supabase-js'
 import { createClient } from '@/lib/supabase/server'
+import { computeBudgetEstimates } from '@/lib/compute-budget-estimates'
+import type { BudgetTarget } from '@/lib/types'
 
 /**
- * Snapshot current budget_targets into budget_history for the given date and user.
+ * Snapshot budget_targets into budget_history for the given date and user, with the forecast
+ * and YTD computed in-app as of that date (the user's forecast method; see computeBudgetEstimates).
  * 
  * IMPORTANT: This function ONLY affects the specified user's data. The upsert uses
  * onConflict: 'user_id,date,category', which means:
@@ -26,21 +29,19 @@ export async function snapshotBudgetHistory(
   
   console.log(`[snapshotBudgetHistory] Starting snapshot for user ${userId}, date ${date}`)
   
-  const { data: rows, error: selectError } = await db
-    .from('budget_targets')
-    .select('category, annual_budget_gbp, tracking_est_gbp, ytd_gbp')
-    .eq('user_id', userId)
-
-  if (selectError) {
-    console.error('snapshotBudgetHistory: budget_targets select error', selectError)
-    throw selectError
+  let rows: BudgetTarget[]
+  try {
+    rows = (await computeBudgetEstimates(db, userId, { asOf: date })).budgets
+  } catch (estimateError) {
+    console.error('snapshotBudgetHistory: budget estimate error', estimateError)
+    throw estimateError
   }
-  if (!rows?.length) {
+  if (!rows.length) {
     console.log(`[snapshotBudgetHistory] No budget_targets found for user ${userId}, skipping snapshot`)
     return
   }
 
-  const historyRows = rows.map((row: { category: string; annual_budget_gbp: number; tracking_est_gbp: number; ytd_gbp: number }) => ({
+  const historyRows = rows.map((row) => ({
     user_id: userId,
     date,
     category: row.category,
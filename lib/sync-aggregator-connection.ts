@@ -0,0 +1,198 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createClient } from '@/lib/supabase/server'
+import { getAggregatorProvider } from '@/lib/aggregators'
+import { categorizeTransaction, fetchCategorizationRules, UNCATEGORIZED } from '@/lib/utils/categorization-rules'
+import { fillMoneyColumns } from '@/lib/utils/fx-rates'
+import { isCurrencyCode } from '@/lib/utils/currency'
+import { resolveTransactionMerchants } from '@/lib/resolve-merchants'
+import { pairInternalTransfers } from '@/lib/pair-internal-transfers'
+import { matchRefunds } from '@/lib/match-refunds'
+
+const BATCH_SIZE = 1000
+
+/** Stop paging after this many pages in one sync; the stored cursor picks up the rest next time. */
+const MAX_PAGES = 200
+
+/** App account category for a provider account type. */
+const CATEGORY_BY_TYPE: Record<string, string> = {
+  depository: 'Cash',
+  investment: 'Brokerage',
+  brokerage: 'Brokerage',
+  retirement: 'Retirement',
+}
+
+export interface AggregatorSyncResult {
+  balances: number
+  inserted: number
+  removed: number
+}
+
+/**
+ * Pull one aggregator connection into the app: today's balance per account into account_balances
+ * and every transaction since the stored cursor into transaction_log, both with the provider id as
+ * data_source. The cursor is saved after each page, so a sync that fails part-way resumes where it
+ * stopped. The connection records the outcome (status, last_error, last_synced_at).
+ */
+export async function syncAggregatorConnection(
+  supabase: SupabaseClient | undefined,
+  userId: string,
+  connectionId: string
+): Promise<AggregatorSyncResult> {
+  const db = supabase ?? (await createClient())
+
+  const { data: connection, error: connectionError } = await db
+    .from('aggregator_connections')
+    .select('id, provider, institution, cursor')
+    .eq('id', connectionId)
+    .eq('user_id', userId)
+    .single()
+  if (connectionError || !connection) throw new Error('Connection not found')
+
+  // Users cannot select access_token (migration 047); this RPC returns their own connection's token
+  const { data: accessToken, error: tokenError } = await db.rpc('get_aggregator_access_token', {
+    p_connection_id: connection.id,
+  })
+  if (tokenError || !accessToken) throw new Error('Connection not found')
+
+  const provider = getAggregatorProvider(connection.provider)
+  if (!provider) throw new Error(`Provider "${connection.provider}" is not available`)
+
+  try {
+    const accounts = new Map((await provider.listAccounts(accessToken)).map((a) => [a.id, a]))
+
+    // Carry over the category, profiles and personal/family split of the account's latest balance
+    const { data: latestRows, error: latestError } = await db
+      .from('account_balances')
+      .select('account_name, category, balance_total_local, balance_personal_local, liquidity_profile, risk_profile, horizon_profile')
+      .eq('user_id', userId)
+      .eq('institution', connection.institution)
+      .order('date_updated', { ascending: false })
+    if (latestError) throw latestError
+    const latestByName = new Map<string, NonNullable<typeof latestRows>[number]>()
+    for (const row of latestRows ?? []) {
+      if (!latestByName.has(row.account_name)) latestByName.set(row.account_name, row)
+    }
+
+    const balanceRows = (await provider.fetchBalances(accessToken)).flatMap((b) => {
+      const account = accounts.get(b.accountId)
+      if (!account || !isCurrencyCode(account.currency)) return []
+      const previous = latestByName.get(account.name)
+      const personalShare = previous && previous.balance_total_local
+        ? previous.balance_personal_local / previous.balance_total_local
+        : 1
+      return [{
+        user_id: userId,
+        date_updated: b.asOf,
+        institution: connection.institution,
+        account_name: account.name,
+        category: previous?.category ?? CATEGORY_BY_TYPE[account.type] ?? 'Other',
+        currency: account.currency,
+        balance_total_local: b.balance,
+        balance_personal_local: Math.round(b.balance * personalShare * 100) / 100,
+        balance_family_local: Math.round(b.balance * (1 - personalShare) * 100) / 100,
+        liquidity_profile: previous?.liquidity_profile ?? null,
+        risk_profile: previous?.risk_profile ?? null,
+        horizon_profile: previous?.horizon_profile ?? null,
+        data_source: provider.id,
+      }]
+    })
+    if (balanceRows.length > 0) {
+      const { error } = await db
+        .from('account_balances')
+        .upsert(balanceRows, { onConflict: 'user_id,institution,account_name,date_updated' })
+      if (error) throw error
+    }
+
+    const rules = await fetchCategorizationRules(db, userId)
+    let cursor: string | null = connection.cursor
+    let inserted = 0
+    let removed = 0
+    for (let page = 0; page < MAX_PAGES; page++) {
+      const result = await provider.fetchTransactions(accessToken, cursor)
+
+      // Transactions keep their native amount and ISO currency; USD, GBP and EUR also fill their column
+      const added = result.added
+        .filter((tx) => isCurrencyCode(tx.currency))
+        .map((tx) => {
+          const amount_usd = tx.currency === 'USD' ? tx.amount : null
+          const amount_gbp = tx.currency === 'GBP' ? tx.amount : null
+          const amount_eur = tx.currency === 'EUR' ? tx.amount : null
+          return {
+            user_id: userId,
+            date: tx.date,
+            category:
+              tx.category ||
+              categorizeTransaction(rules, { counterparty: tx.description, amount_usd, amount_gbp, amount_eur, amount: tx.amount, currency: tx.currency }) ||
+              UNCATEGORIZED,
+            counterparty: tx.description,
+            counterparty_dedup: (tx.description ?? '').toLowerCase().trim(),
+            amount_usd,
+            amount_gbp,
+            amount_eur,
+            amount: tx.amount,
+            currency: tx.currency,
+            data_source: provider.id,
+            // Provider transaction ids are unique per account, so the external id is scoped by both
+            external_id: `${provider.id}:${tx.accountId}:${tx.id}`,
+          }
+        })
+      const rows = await fillMoneyColumns(db, added)
+      for (let i = 0; i < rows.length; i += BATCH_SIZE) {
+        const { data, error } = await db
+          .from('transaction_log')
+          .upsert(rows.slice(i, i + BATCH_SIZE), { onConflict: 'user_id,external_id', ignoreDuplicates: true })
+          .select('id')
+        if (error) throw error
+        inserted += data?.length ?? 0
+      }
+
+      if (result.removed.length > 0) {
+        const { data, error } = await db
+          .from('transaction_log')
+          .delete()
+          .eq('user_id', userId)
+          .eq('data_source', provider.id)
+          .in('external_id', result.removed.map((r) => `${provider.id}:${r.accountId}:${r.id}`))
+          .select('id')
+        if (error) throw error
+        removed += data?.length ?? 0
+      }
+
+      cursor = result.nextCursor
+      const { error: cursorError } = await db
+        .from('aggregator_connections')
+        .update({ cursor, updated_at: new Date().toISOString() })
+        .eq('id', connection.id)
+      if (cursorError) throw cursorError
+      if (!result.hasMore) break
+    }
+
+    if (inserted + removed > 0) {
+      try {
+        await resolveTransactionMerchants(db, userId)
+      } catch (merchantError) {
+        // Rows are saved; they will be picked up by the next sync or import
+        console.warn('Warning: Could not resolve merchants:', merchantError)
+      }
+      try {
+        await pairInternalTransfers(db, userId)
+        await matchRefunds(db, userId)
+      } catch (pairingError) {
+        console.warn('Warning: Could not pair transfers or refunds:', pairingError)
+      }
+    }
+
+    await db
+      .from('aggregator_connections')
+      .update({ status: 'active', last_error: null, last_synced_at: new Date().toISOString(), updated_at: new Date().toISOString() })
+      .eq('id', connection.id)
+
+    return { balances: balanceRows.length, inserted, removed }
+  } catch (error: any) {
+    await db
+      .from('aggregator_connections')
+      .update({ status: 'error', last_error: error.message || 'Unknown error', updated_at: new Date().toISOString() })
+      .eq('id', connection.id)
+    throw error
+  }
+}
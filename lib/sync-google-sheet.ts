@@ -1,6 +1,30 @@
+import { createHash } from 'crypto';
 import { google } from 'googleapis';
 import type { SupabaseClient } from '@supabase/supabase-js';
 import { createClient } from './supabase/server';
+import { categorizeTransaction, fetchCategorizationRules, UNCATEGORIZED } from './utils/categorization-rules';
+import { resolveTransactionMerchants } from './resolve-merchants';
+import { relinkTransactionLinks } from './relink-transaction-links';
+import { pairInternalTransfers } from './pair-internal-transfers';
+import { matchRefunds } from './match-refunds';
+import { createSyncSnapshot, pruneSyncSnapshots } from './sync-snapshots';
+import { applySheetTransactions, fetchSheetTransactionHashes } from './sync-sheet-transactions';
+import type { SheetColumnMapping, SheetSyncResult, SheetWriteBackResult } from './types';
+import { transactionFingerprint } from './utils/detect-duplicate-transactions';
+import { transactionContentHashes } from './utils/transaction-content-hash';
+import { AGGREGATOR_SOURCES } from './aggregators';
+import { createSheetRowReader, parseSheetNumber, type SheetRowReader, type SheetValidationIssue } from './utils/sheet-validation';
+import { parseCurrencyCode } from './utils/currency';
+import { fxQuotesFromRateRows, upsertFxQuotes, type FxRatesRow } from './utils/fx-rates';
+import { diffSheetRows, type DiffSheetRowsOptions, type SheetTableDiff } from './utils/sheet-sync-diff';
+import {
+  detectSheetColumns,
+  fromTemplateLayout,
+  resolveSheetColumns,
+  toTemplateLayout,
+  type SheetColumn,
+  type SheetColumnPositions,
+} from './utils/sheet-column-mapping';
 
 /** Tables that are global (no user_id): FX only. All others get user_id on sync. */
 const GLOBAL_TABLES = new Set(['fx_rates', 'fx_rate_current']);
@@ -19,6 +43,53 @@ function chunkArray<T>(array: T[], size: number): T[][] {
   return chunks;
 }
 
+interface RecurringPaymentRow {
+  name: string;
+  annualized_amount_gbp: number | null;
+  annualized_amount_usd: number | null;
+}
+
+/** Recurring payments are stored one row per name; repeated names have their amounts summed. */
+function mergeRecurringPaymentsByName<T extends RecurringPaymentRow>(rows: T[]): T[] {
+  const byName = new Map<string, T>();
+  for (const item of rows) {
+    const name = (item.name || '').trim();
+    if (!name) continue;
+    const existing = byName.get(name);
+    if (!existing) {
+      byName.set(name, {
+        ...item,
+        name,
+        annualized_amount_gbp: item.annualized_amount_gbp ?? null,
+        annualized_amount_usd: item.annualized_amount_usd ?? null,
+      });
+    } else {
+      const gbp = (existing.annualized_amount_gbp ?? 0) + (item.annualized_amount_gbp ?? 0);
+      const usd = (existing.annualized_amount_usd ?? 0) + (item.annualized_amount_usd ?? 0);
+      existing.annualized_amount_gbp = gbp || null;
+      existing.annualized_amount_usd = usd || null;
+    }
+  }
+  return Array.from(byName.values());
+}
+
+/** Opt-in: fill blank/Uncategorized sheet categories from the user's rules. */
+async function applyRulesOnSync(db: SupabaseClient, uid: string, rows: any[]): Promise<any[]> {
+  const { data: profile } = await db
+    .from('user_profiles')
+    .select('apply_rules_on_sync')
+    .eq('id', uid)
+    .maybeSingle();
+  if (!profile?.apply_rules_on_sync) return rows;
+  const rules = await fetchCategorizationRules(db, uid);
+  if (rules.length === 0) return rows;
+  return rows.map((row) => {
+    if (row.category && row.category !== UNCATEGORIZED) return row;
+    const category = categorizeTransaction(rules, row);
+    return category ? { ...row, category } : row;
+  });
+}
+
 /** Tables that use delete-all-then-insert (no upsert key). */
 const DELETE_INSERT_TABLES = new Set([
   'debt', 'budget_targets', 'annual_trends', 'monthly_trends',
@@ -34,7 +105,12 @@ interface SheetConfig {
   name: string;
   range: string;
   table: string;
-  transform?: (row: any[]) => any;
+  /** Template columns the transform reads; users can point each at a header of their own. */
+  columns: SheetColumn[];
+  /** Map one data row to a record, or null to leave it out. Unreadable cells go through `read` so they are reported. */
+  transform?: (row: any[], read: SheetRowReader) => any;
+  /** Lay out a stored record as a row of this tab (the inverse of transform), for write-back of manual rows. */
+  toSheetRow?: (record: any) => (string | number)[];
 }
 
 // Configure sheet ranges and table mappings
@@ -43,117 +119,207 @@ const SHEET_CONFIGS: SheetConfig[] = [
     name: 'Account Balances',
     range: 'A:K',
     table: 'account_balances',
-    transform: (row) => {
-      const date = row[0] ? new Date(row[0]) : null;
-      if (!date || isNaN(date.getTime())) return null;
+    columns: [
+      { index: 0, field: 'date_updated', header: 'Date' },
+      { index: 1, field: 'institution', header: 'Institution' },
+      { index: 2, field: 'account_name', header: 'Account Name' },
+      { index: 3, field: 'category', header: 'Category' },
+      { index: 4, field: 'currency', header: 'Currency' },
+      { index: 5, field: 'balance_personal_local', header: 'Personal' },
+      { index: 6, field: 'balance_family_local', header: 'Family' },
+      { index: 7, field: 'balance_total_local', header: 'Total' },
+      { index: 8, field: 'liquidity_profile', header: 'Liquidity' },
+      { index: 9, field: 'risk_profile', header: 'Risk' },
+      { index: 10, field: 'horizon_profile', header: 'Horizon' },
+    ],
+    transform: (row, read) => {
+      const date = read.date(0, 'date_updated');
+      if (!date) return null;
+      const rawCurrency = read.text(4);
+      const currency = parseCurrencyCode(rawCurrency);
+      if (rawCurrency && !currency) read.issue(4, 'currency', 'Unknown currency (expected an ISO code such as USD or CHF); treated as USD');
       return {
         date_updated: date,
         institution: row[1] || '',
         account_name: row[2] || '',
         category: row[3] || '',
-        currency: row[4] || 'USD',
-        balance_personal_local: parseFloat(row[5] || '0'),
-        balance_family_local: parseFloat(row[6] || '0'),
-        balance_total_local: parseFloat(row[7] || '0'),
-        liquidity_profile: (row[8] && row[8].trim()) || null,
-        risk_profile: (row[9] && row[9].trim()) || null,
-        horizon_profile: (row[10] && row[10].trim()) || null,
+        currency: currency ?? 'USD',
+        balance_personal_local: read.number(5, 'balance_personal_local'),
+        balance_family_local: read.number(6, 'balance_family_local'),
+        balance_total_local: read.number(7, 'balance_total_local'),
+        liquidity_profile: read.optionalText(8),
+        risk_profile: read.optionalText(9),
+        horizon_profile: read.optionalText(10),
       };
     },
+    toSheetRow: (r) => [
+      r.date_updated, r.institution, r.account_name, r.category, r.currency,
+      r.balance_personal_local, r.balance_family_local, r.balance_total_local,
+      r.liquidity_profile ?? '', r.risk_profile ?? '', r.horizon_profile ?? '',
+    ],
   },
   {
     name: 'Kids',
     range: 'A:F',
     table: 'kids_accounts',
-    transform: (row) => {
-      const date = row[3] ? new Date(row[3]) : null;
-      if (!date || isNaN(date.getTime())) return null;
+    columns: [
+      { index: 0, field: 'child_name', header: 'Child' },
+      { index: 1, field: 'account_type', header: 'Account Type' },
+      { index: 2, field: 'balance_usd', header: 'Balance USD' },
+      { index: 3, field: 'date_updated', header: 'Date' },
+      { index: 4, field: 'notes', header: 'Notes' },
+      { index: 5, field: 'purpose', header: 'Purpose' },
+    ],
+    transform: (row, read) => {
+      const date = read.date(3, 'date_updated');
+      if (!date) return null;
+      const balanceUsd = read.number(2, 'balance_usd');
       return {
         child_name: row[0] || '',
         account_type: row[1] || '',
-        balance_usd: parseFloat(row[2] || '0'),
+        // The Kids tab is in USD; balance + currency are the native columns
+        balance: balanceUsd,
+        currency: 'USD',
+        balance_usd: balanceUsd,
         date_updated: date,
-        notes: (row[4] && row[4].trim()) || null,
-        purpose: (row[5] && row[5].trim()) || null,
+        notes: read.optionalText(4),
+        purpose: read.optionalText(5),
       };
     },
+    toSheetRow: (r) => [r.child_name, r.account_type, r.balance_usd, r.date_updated, r.notes ?? '', r.purpose ?? ''],
   },
   {
     name: 'Debt',
     range: 'A:F',
     table: 'debt',
-    transform: (row) => {
+    columns: [
+      { index: 0, field: 'type', header: 'Type' },
+      { index: 1, field: 'name', header: 'Name' },
+      { index: 2, field: 'purpose', header: 'Purpose' },
+      { index: 3, field: 'amount_gbp', header: 'Amount GBP' },
+      { index: 4, field: 'amount_usd', header: 'Amount USD' },
+      { index: 5, field: 'date_updated', header: 'Date' },
+    ],
+    transform: (row, read) => {
       // Skip rows missing essential fields (name and at least one amount)
-      if (!row[1] || (!row[3] && !row[4])) return null;
-      const date = row[5] ? new Date(row[5]) : null;
-      if (!date || isNaN(date.getTime())) return null;
+      if (!row[1]) {
+        read.issue(1, 'name', 'Missing name');
+        return null;
+      }
+      if (!row[3] && !row[4]) {
+        read.issue(3, 'amount_gbp', 'Missing amount (GBP or USD)');
+        return null;
+      }
+      const date = read.date(5, 'date_updated');
+      if (!date) return null;
       return {
         type: row[0] || '',
         name: row[1] || '',
-        purpose: (row[2] && row[2].trim()) || null,
-        amount_gbp: row[3] ? parseFloat(row[3]) : null,
-        amount_usd: row[4] ? parseFloat(row[4]) : null,
+        purpose: read.optionalText(2),
+        amount_gbp: read.optionalNumber(3, 'amount_gbp'),
+        amount_usd: read.optionalNumber(4, 'amount_usd'),
         date_updated: date,
       };
     },
   },
   {
     name: 'Transaction Log',
-    range: 'A:F',
+    range: 'A:G',
     table: 'transaction_log',
-    transform: (row) => {
-      const date = row[0] ? new Date(row[0]) : null;
-      if (!date || isNaN(date.getTime())) return null;
+    columns: [
+      { index: 0, field: 'date', header: 'Date' },
+      { index: 1, field: 'category', header: 'Category' },
+      { index: 2, field: 'counterparty', header: 'Counterparty' },
+      { index: 3, field: 'amount_usd', header: 'USD' },
+      { index: 4, field: 'amount_gbp', header: 'GBP' },
+      { index: 5, field: 'currency', header: 'Currency' },
+      { index: 6, field: 'amount_eur', header: 'EUR' },
+    ],
+    transform: (row, read) => {
+      const date = read.date(0, 'date');
+      if (!date) return null;
       const counterparty = row[2] || null;
-      // Column F may be missing in sparse rows; accept any value that starts with USD/GBP (case-insensitive)
-      const raw = row.length > 5 && row[5] != null ? String(row[5]).trim() : '';
-      const u = raw.toUpperCase();
-      const currency = u.startsWith('USD') ? 'USD' : u.startsWith('GBP') ? 'GBP' : null;
+      // Columns F and G may be missing in sparse rows; accept any value that starts with an ISO code (case-insensitive)
+      const raw = read.text(5);
+      const currency = parseCurrencyCode(raw);
+      if (raw && !currency) read.issue(5, 'currency', 'Unknown currency (expected an ISO code such as USD, GBP or EUR)');
       return {
         date,
         category: row[1] || '',
         counterparty,
         counterparty_dedup: (counterparty ?? '').toString(),
-        amount_usd: row[3] ? parseFloat(row[3]) : null,
-        amount_gbp: row[4] ? parseFloat(row[4]) : null,
+        amount_usd: read.optionalNumber(3, 'amount_usd'),
+        amount_gbp: read.optionalNumber(4, 'amount_gbp'),
+        amount_eur: read.optionalNumber(6, 'amount_eur'),
         currency: currency || null,
       };
     },
+    toSheetRow: (r) => [
+      r.date,
+      r.category,
+      r.counterparty ?? '',
+      r.amount_usd ?? '',
+      r.amount_gbp ?? '',
+      r.currency ?? '',
+      r.amount_eur ?? '',
+    ],
   },
   {
     name: 'Budget Targets',
     range: 'A:I',
     table: 'budget_targets',
-    transform: (row) => ({
-      category: row[0] || '',
-      // Column B: Annual Budget GBP
-      annual_budget_gbp: parseFloat(row[1] || '0'),
-      // Column C: Tracking GBP (Est)
-      tracking_est_gbp: parseFloat(row[2] || '0'),
-      // Column D: YTD GBP
-      ytd_gbp: parseFloat(row[3] || '0'),
-      // Column E: Gap GBP — skipped (computed field)
-      // Column F: Annual Budget USD
-      annual_budget_usd: parseFloat(row[5] || '0'),
-      // Column G: Tracking USD (Est)
-      tracking_est_usd: parseFloat(row[6] || '0'),
-      // Column H: YTD USD
-      ytd_usd: parseFloat(row[7] || '0'),
-      // Column I: Gap USD — skipped (computed field)
-    }),
+    columns: [
+      { index: 0, field: 'category', header: 'Category' },
+      { index: 1, field: 'annual_budget_gbp', header: 'Annual Budget GBP' },
+      { index: 2, field: 'tracking_est_gbp', header: 'Tracking GBP (Est)' },
+      { index: 3, field: 'ytd_gbp', header: 'YTD GBP' },
+      { index: 5, field: 'annual_budget_usd', header: 'Annual Budget USD' },
+      { index: 6, field: 'tracking_est_usd', header: 'Tracking USD (Est)' },
+      { index: 7, field: 'ytd_usd', header: 'YTD USD' },
+    ],
+    transform: (row, read) => {
+      // Column B: Annual Budget GBP (the tab budgets in GBP, so it is also the native amount)
+      const annualGbp = read.number(1, 'annual_budget_gbp');
+      return {
+        category: row[0] || '',
+        annual_budget: annualGbp,
+        currency: 'GBP',
+        annual_budget_gbp: annualGbp,
+        // Column C: Tracking GBP (Est)
+        tracking_est_gbp: read.number(2, 'tracking_est_gbp'),
+        // Column D: YTD GBP
+        ytd_gbp: read.number(3, 'ytd_gbp'),
+        // Column E: Gap GBP — skipped (computed field)
+        // Column F: Annual Budget USD
+        annual_budget_usd: read.number(5, 'annual_budget_usd'),
+        // Column G: Tracking USD (Est)
+        tracking_est_usd: read.number(6, 'tracking_est_usd'),
+        // Column H: YTD USD
+        ytd_usd: read.number(7, 'ytd_usd'),
+        // Column I: Gap USD — skipped (computed field)
+      };
+    },
+    // Tracking, YTD and gap columns are left blank for the sheet's own formulas
+    toSheetRow: (r) => [r.category, r.annual_budget_gbp, '', '', '', r.annual_budget_usd, '', '', ''],
   },
   {
     name: 'Historical Net Worth',
     range: 'A:D',
     table: 'historical_net_worth',
-    transform: (row) => {
-      const date = row[0] ? new Date(row[0]) : null;
-      if (!date || isNaN(date.getTime())) return null;
+    columns: [
+      { index: 0, field: 'date', header: 'Date' },
+      { index: 1, field: 'category', header: 'Category' },
+      { index: 2, field: 'amount_usd', header: 'USD' },
+      { index: 3, field: 'amount_gbp', header: 'GBP' },
+    ],
+    transform: (row, read) => {
+      const date = read.date(0, 'date');
+      if (!date) return null;
       return {
         date,
         category: row[1] || '',
-        amount_usd: row[2] ? parseFloat(row[2]) : null,
-        amount_gbp: row[3] ? parseFloat(row[3]) : null,
+        amount_usd: read.optionalNumber(2, 'amount_usd'),
+        amount_gbp: read.optionalNumber(3, 'amount_gbp'),
       };
     },
   },
@@ -161,28 +327,48 @@ const SHEET_CONFIGS: SheetConfig[] = [
     name: 'FX Rates',
     range: 'A:C',
     table: 'fx_rates',
-    transform: (row) => {
+    columns: [
+      { index: 0, field: 'date', header: 'Date' },
+      { index: 1, field: 'gbpusd_rate', header: 'GBPUSD' },
+      { index: 2, field: 'eurusd_rate', header: 'EURUSD' },
+    ],
+    transform: (row, read) => {
       // Normalize date to ISO string format (YYYY-MM-DD) for consistent comparison
-      const dateValue = row[0] ? new Date(row[0]) : null;
-      if (!dateValue || isNaN(dateValue.getTime())) return null;
+      const dateValue = read.date(0, 'date');
+      if (!dateValue) return null;
       const dateStr = dateValue.toISOString().split('T')[0];
       return {
         date: dateStr,
-        gbpusd_rate: parseFloat(row[1] || '0'),
-        eurusd_rate: parseFloat(row[2] || '0'),
+        gbpusd_rate: read.number(1, 'gbpusd_rate'),
+        eurusd_rate: read.number(2, 'eurusd_rate'),
       };
     },
   },
   {
     name: 'FX Rate Current',
-    range: 'A:B',
+    range: 'A:C',
     table: 'fx_rate_current',
-    transform: (row) => {
-      const date = row[0] ? new Date(row[0]) : null;
-      if (!date || isNaN(date.getTime())) return null;
+    columns: [
+      { index: 0, field: 'date', header: 'Date' },
+      { index: 1, field: 'gbpusd_rate', header: 'GBPUSD' },
+      { index: 2, field: 'eurusd_rate', header: 'EURUSD' },
+    ],
+    transform: (row, read) => {
+      const date = read.date(0, 'date');
+      if (!date) return null;
+      const rate = read.number(1, 'gbpusd_rate');
+      // gbpusd_rate is NOT NULL and must be positive; a blank or zero rate cannot be stored
+      if (!(rate > 0)) {
+        if (read.text(1)) read.issue(1, 'gbpusd_rate', 'Rate must be greater than 0');
+        else read.issue(1, 'gbpusd_rate', 'Missing rate');
+        return null;
+      }
+      // EURUSD is optional (older sheets only have GBPUSD); without it EUR uses the latest fx_rates rate
+      const eurRate = read.optionalNumber(2, 'eurusd_rate');
       return {
         date,
-        gbpusd_rate: parseFloat(row[1] || '0'),
+        gbpusd_rate: rate,
+        eurusd_rate: eurRate != null && eurRate > 0 ? eurRate : null,
       };
     },
   },
@@ -190,47 +376,70 @@ const SHEET_CONFIGS: SheetConfig[] = [
     name: 'Annual Trends',
     range: 'A:G',
     table: 'annual_trends',
-    transform: (row) => ({
+    columns: [
+      { index: 0, field: 'category', header: 'Category' },
+      { index: 1, field: 'cur_yr_minus_4', header: 'CY-4' },
+      { index: 2, field: 'cur_yr_minus_3', header: 'CY-3' },
+      { index: 3, field: 'cur_yr_minus_2', header: 'CY-2' },
+      { index: 4, field: 'cur_yr_minus_1', header: 'CY-1' },
+      { index: 5, field: 'cur_yr_est', header: 'CY Est' },
+      { index: 6, field: 'cur_yr_est_vs_4yr_avg', header: 'CY Est vs 4Y Avg' },
+    ],
+    transform: (row, read) => ({
       category: row[0] || '',
-      cur_yr_minus_4: parseFloat(row[1] || '0'),
-      cur_yr_minus_3: parseFloat(row[2] || '0'),
-      cur_yr_minus_2: parseFloat(row[3] || '0'),
-      cur_yr_minus_1: parseFloat(row[4] || '0'),
-      cur_yr_est: parseFloat(row[5] || '0'),
-      cur_yr_est_vs_4yr_avg: parseFloat(row[6] || '0'),
+      cur_yr_minus_4: read.number(1, 'cur_yr_minus_4'),
+      cur_yr_minus_3: read.number(2, 'cur_yr_minus_3'),
+      cur_yr_minus_2: read.number(3, 'cur_yr_minus_2'),
+      cur_yr_minus_1: read.number(4, 'cur_yr_minus_1'),
+      cur_yr_est: read.number(5, 'cur_yr_est'),
+      cur_yr_est_vs_4yr_avg: read.number(6, 'cur_yr_est_vs_4yr_avg'),
     }),
   },
   {
     name: 'Monthly Trends',
     range: 'A:H',
     table: 'monthly_trends',
-    transform: (row) => ({
+    columns: [
+      { index: 0, field: 'category', header: 'Category' },
+      { index: 1, field: 'cur_month_minus_3', header: 'M-3' },
+      { index: 2, field: 'cur_month_minus_2', header: 'M-2' },
+      { index: 3, field: 'cur_month_minus_1', header: 'M-1' },
+      { index: 4, field: 'cur_month_est', header: 'Month Est' },
+      { index: 5, field: 'ttm_avg', header: 'TTM Avg' },
+      { index: 6, field: 'z_score', header: 'Z-Score' },
+      { index: 7, field: 'delta_vs_l3m', header: 'Delta vs L3M' },
+    ],
+    transform: (row, read) => ({
       category: row[0] || '',
-      cur_month_minus_3: parseFloat(row[1] || '0'),
-      cur_month_minus_2: parseFloat(row[2] || '0'),
-      cur_month_minus_1: parseFloat(row[3] || '0'),
-      cur_month_est: parseFloat(row[4] || '0'),
-      ttm_avg: parseFloat(row[5] || '0'),
-      z_score: parseFloat(row[6] || '0'),
-      delta_vs_l3m: parseFloat(row[7] || '0'),
+      cur_month_minus_3: read.number(1, 'cur_month_minus_3'),
+      cur_month_minus_2: read.number(2, 'cur_month_minus_2'),
+      cur_month_minus_1: read.number(3, 'cur_month_minus_1'),
+      cur_month_est: read.number(4, 'cur_month_est'),
+      ttm_avg: read.number(5, 'ttm_avg'),
+      z_score: read.number(6, 'z_score'),
+      delta_vs_l3m: read.number(7, 'delta_vs_l3m'),
     }),
   },
   {
     name: 'Investment Return',
     range: 'A:B',
     table: 'investment_return',
-    transform: (row) => {
-      const source = (row[0] ?? '').toString().trim()
+    columns: [
+      { index: 0, field: 'income_source', header: 'Income Source' },
+      { index: 1, field: 'amount_gbp', header: 'Amount GBP' },
+    ],
+    transform: (row, read) => {
+      const source = read.text(0)
       if (!source || source.toLowerCase() === 'income sources') return null
-      const raw = (row[1] ?? '').toString().trim()
+      const raw = read.text(1)
       let amount = 0
       if (raw) {
-        const num = parseFloat(raw.replace(/[£$,\s]/g, ''))
-        if (!isNaN(num)) {
-          if (raw.toUpperCase().endsWith('K')) amount = num * 1000
-          else if (raw.toUpperCase().endsWith('M')) amount = num * 1e6
-          else amount = num
-        }
+        // Amounts may be abbreviated: 12.5K, 1.2M
+        const suffix = raw.slice(-1).toUpperCase()
+        const multiplier = suffix === 'K' ? 1000 : suffix === 'M' ? 1e6 : 1
+        const num = parseSheetNumber(multiplier === 1 ? raw : raw.slice(0, -1))
+        if (num == null) read.issue(1, 'amount_gbp', 'Not a number')
+        else amount = num * multiplier
       }
       return {
         income_source: source,
@@ -242,17 +451,27 @@ const SHEET_CONFIGS: SheetConfig[] = [
     name: 'YoY Net Worth',
     range: 'A:C',
     table: 'yoy_net_worth',
-    transform: (row) => ({
+    columns: [
+      { index: 0, field: 'category', header: 'Category' },
+      { index: 1, field: 'amount_usd', header: 'USD' },
+      { index: 2, field: 'amount_gbp', header: 'GBP' },
+    ],
+    transform: (row, read) => ({
       category: row[0] || '',
-      amount_usd: row[1] ? parseFloat(row[1]) : null,
-      amount_gbp: row[2] ? parseFloat(row[2]) : null,
+      amount_usd: read.optionalNumber(1, 'amount_usd'),
+      amount_gbp: read.optionalNumber(2, 'amount_gbp'),
     }),
   },
   {
     name: 'Recurring Payments',
     range: 'A:I', // Read columns A through I to get Name (B), Annual (E), and CCY (H)
     table: 'recurring_payments',
-    transform: (row) => {
+    columns: [
+      { index: 1, field: 'name', header: 'Name' },
+      { index: 4, field: 'annualized_amount', header: 'Annual' },
+      { index: 7, field: 'currency', header: 'CCY' },
+    ],
+    transform: (row, read) => {
       // Column structure:
       // A: % of Total
       // B: Name
@@ -264,21 +483,21 @@ const SHEET_CONFIGS: SheetConfig[] = [
       // H: CCY (currency)
       // I: Notes
 
-      const colB = (row[1] || '').toString().trim() // Name
-      const colE = (row[4] || '').toString().trim() // Annual amount
-      const colH = (row[7] || '').toString().trim().toUpperCase() // Currency (CCY)
+      const colB = read.text(1) // Name
+      const colH = read.text(7).toUpperCase() // Currency (CCY)
 
       // Skip empty rows or header rows
       if (!colB || colB.toLowerCase() === 'name' || colB.toLowerCase().includes('annualized')) {
         return null
       }
 
-      // Parse the annual amount (remove commas, currency symbols, etc.)
-      const amount = colE ? parseFloat(colE.replace(/[£$,\s]/g, '')) : null
-
-      if (!amount || isNaN(amount)) {
-        return null // Skip rows without valid amounts
+      // Parse the annual amount (commas and currency symbols are allowed)
+      const amount = read.optionalNumber(4, 'annualized_amount')
+      if (amount == null) {
+        if (!read.text(4)) read.issue(4, 'annualized_amount', 'Missing annual amount')
+        return null
       }
+      if (amount === 0) return null
 
       // Store amount in the appropriate currency column based on CCY
       let amountGbp: number | null = null
@@ -293,6 +512,7 @@ const SHEET_CONFIGS: SheetConfig[] = [
         amountUsd = amount
       } else {
         // Unknown currency, default to GBP
+        read.issue(7, 'currency', 'Unknown currency (expected GBP or USD); treated as GBP')
         amountGbp = amount
         amountUsd = null
       }
@@ -306,9 +526,500 @@ const SHEET_CONFIGS: SheetConfig[] = [
   },
 ];
 
+type FetchedItem = {
+  config: SheetConfig;
+  error: string | null;
+  data: any[] | null;
+  skipped: number;
+  issues: SheetValidationIssue[];
+};
+
+/** Hash of each tab's transformed rows, by sheet name; tells whether the sheet changed between reads. */
+export type SheetFingerprints = Record<string, string>;
+
+function fingerprintSheetData(items: FetchedItem[]): SheetFingerprints {
+  return Object.fromEntries(
+    items.map((item) => [
+      item.config.name,
+      createHash('sha256').update(JSON.stringify({ data: item.data, error: item.error })).digest('hex'),
+    ])
+  );
+}
+
+function isBlankRow(row: any[]): boolean {
+  return row.every((cell) => cell == null || String(cell).trim() === '');
+}
+
+/** The user's layout for a tab: which tab to read and, when they mapped headers, the whole tab. */
+function sheetLayout(config: SheetConfig, mapping: SheetColumnMapping | undefined) {
+  const tabName = mapping?.tab_name || config.name;
+  const mapped = !!mapping && Object.keys(mapping.columns ?? {}).length > 0;
+  return {
+    tabName,
+    mapped,
+    // Mapped headers can sit anywhere, so read every column of the tab
+    range: mapped ? quoteSheetName(tabName) : `${quoteSheetName(tabName)}!${config.range}`,
+  };
+}
+
+function quoteSheetName(name: string): string {
+  return /^[A-Za-z0-9_]+$/.test(name) ? name : `'${name.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Run a tab's transform over its data rows. Blank rows are ignored; non-blank rows the transform
+ * rejects are counted as skipped, and their issues are flagged as having dropped the row. With a
+ * header mapping, each row is first rearranged into the template layout the transform reads.
+ */
+function transformSheetRows(
+  config: SheetConfig,
+  rows: any[][] | null | undefined,
+  mapping?: SheetColumnMapping
+): FetchedItem {
+  const issues: SheetValidationIssue[] = [];
+  if (!rows || rows.length < 2) {
+    return { config, error: null, data: null, skipped: 0, issues };
+  }
+  let positions: SheetColumnPositions | undefined;
+  if (mapping && Object.keys(mapping.columns ?? {}).length > 0) {
+    const resolved = resolveSheetColumns(config.columns, rows[0], mapping.columns);
+    if (resolved.missing.length > 0) {
+      const error = `Mapped headers not found in row 1: ${resolved.missing.join(', ')}. Update the column mapping in Settings.`;
+      return { config, error, data: null, skipped: 0, issues };
+    }
+    positions = resolved.positions;
+  }
+  const transformedData: any[] = [];
+  let skipped = 0;
+  rows.slice(1).forEach((sheetRow, i) => {
+    if (isBlankRow(sheetRow)) return;
+    const row = positions ? toTemplateLayout(sheetRow, positions) : sheetRow;
+    const firstIssue = issues.length;
+    // Row 1 is the header, so data row i is spreadsheet row i + 2
+    const record = config.transform?.(row, createSheetRowReader(config.name, i + 2, row, issues, positions));
+    if (record && Object.values(record).some((v) => v !== null && v !== '')) {
+      transformedData.push(record);
+      return;
+    }
+    skipped++;
+    for (let j = firstIssue; j < issues.length; j++) issues[j].rowSkipped = true;
+  });
+  return { config, error: null, data: transformedData.length === 0 ? null : transformedData, skipped, issues };
+}
+
+/** Google Sheets API client for the service account. Write scope is only requested for write-back. */
+function createSheetsClient(access: 'read' | 'write') {
+  if (!process.env.GOOGLE_SERVICE_ACCOUNT_EMAIL) {
+    throw new Error('GOOGLE_SERVICE_ACCOUNT_EMAIL environment variable is not set')
+  }
+  if (!process.env.GOOGLE_SERVICE_ACCOUNT_PRIVATE_KEY) {
+    throw new Error('GOOGLE_SERVICE_ACCOUNT_PRIVATE_KEY environment variable is not set')
+  }
+
+  const auth = new google.auth.GoogleAuth({
+    credentials: {
+      client_email: process.env.GOOGLE_SERVICE_ACCOUNT_EMAIL,
+      private_key: process.env.GOOGLE_SERVICE_ACCOUNT_PRIVATE_KEY?.replace(/\\n/g, '\n'),
+    },
+    scopes: [
+      access === 'write'
+        ? 'https://www.googleapis.com/auth/spreadsheets'
+        : 'https://www.googleapis.com/auth/spreadsheets.readonly',
+    ],
+  });
+
+  return google.sheets({ version: 'v4', auth });
+}
+
+/** The user's saved tab names and header mappings, keyed by the app's tab name. */
+async function fetchSheetColumnMappings(db: SupabaseClient, uid: string): Promise<Map<string, SheetColumnMapping>> {
+  const { data, error } = await db
+    .from('sheet_column_mappings')
+    .select('sheet_name, tab_name, columns')
+    .eq('user_id', uid);
+  if (error) throw error;
+  return new Map((data ?? []).map((m: SheetColumnMapping) => [m.sheet_name, m]));
+}
+
+/**
+ * Read every configured tab in one batchGet (falling back to per-tab reads) and run each
+ * transform, using the user's tab names and header mappings where they have them. Tabs that are
+ * missing from the spreadsheet come back with no data, like empty ones.
+ */
+async function fetchSheetData(
+  spreadsheetId: string,
+  mappings: Map<string, SheetColumnMapping> = new Map()
+): Promise<FetchedItem[]> {
+  const sheets = createSheetsClient('read');
+
+  // First, get the list of sheets to verify they exist
+  let availableSheets: string[] = [];
+  try {
+    const spreadsheetInfo = await sheets.spreadsheets.get({
+      spreadsheetId,
+    });
+    availableSheets = (spreadsheetInfo.data.sheets || []).map(sheet => sheet.properties?.title || '');
+    console.log('Available sheets in spreadsheet:', availableSheets);
+  } catch (error: any) {
+    console.error('Error fetching spreadsheet info:', error);
+    throw new Error(`Failed to access spreadsheet: ${error.message}`);
+  }
+
+  // Filter to only configs whose sheet tab exists in the spreadsheet
+  const presentConfigs: SheetConfig[] = [];
+  const missingConfigs: SheetConfig[] = [];
+  for (const config of SHEET_CONFIGS) {
+    const { tabName } = sheetLayout(config, mappings.get(config.name));
+    if (availableSheets.includes(tabName)) {
+      presentConfigs.push(config);
+    } else {
+      missingConfigs.push(config);
+      console.warn(`Sheet "${tabName}" not found in spreadsheet – skipping.`);
+    }
+  }
+
+  // Build ranges for a single batchGet call (one API round-trip instead of N)
+  const ranges = presentConfigs.map((config) => sheetLayout(config, mappings.get(config.name)).range);
+
+  // Fetch ALL sheet data in one batchGet call
+  console.log(`Fetching ${ranges.length} sheets in a single batchGet call...`);
+  const fetchedData: FetchedItem[] = [];
+
+  try {
+    const batchResponse = await sheets.spreadsheets.values.batchGet({
+      spreadsheetId,
+      ranges,
+    });
+
+    const valueRanges = batchResponse.data.valueRanges || [];
+
+    for (let i = 0; i < presentConfigs.length; i++) {
+      const config = presentConfigs[i];
+      fetchedData.push(transformSheetRows(config, valueRanges[i]?.values, mappings.get(config.name)));
+    }
+  } catch (error: any) {
+    console.error('batchGet failed, falling back to individual fetches:', error.message);
+    // Fallback: fetch individually in parallel
+    const fallbackResults = await Promise.all(
+      presentConfigs.map(async (config) => {
+        try {
+          const mapping = mappings.get(config.name);
+          const response = await sheets.spreadsheets.values.get({
+            spreadsheetId,
+            range: sheetLayout(config, mapping).range,
+          });
+          return transformSheetRows(config, response.data.values, mapping);
+        } catch (err: any) {
+          return { config, error: err.message || 'Unknown error', data: null, skipped: 0, issues: [] } as FetchedItem;
+        }
+      })
+    );
+    fetchedData.push(...fallbackResults);
+  }
+
+  // Add missing sheets as no-data items
+  for (const config of missingConfigs) {
+    fetchedData.push({ config, error: null, data: null, skipped: 0, issues: [] });
+  }
+
+  console.log(`Fetched ${fetchedData.length} sheets`);
+  return fetchedData;
+}
+
+/** Column manual rows are appended in, per write-back table. */
+const WRITE_BACK_ORDER: Record<string, string> = {
+  account_balances: 'date_updated',
+  kids_accounts: 'date_updated',
+  transaction_log: 'date',
+  budget_targets: 'category',
+};
+
+async function isWriteBackEnabled(db: SupabaseClient, uid: string): Promise<boolean> {
+  const { data: profile } = await db
+    .from('user_profiles')
+    .select('sheet_write_back')
+    .eq('id', uid)
+    .single();
+  return !!profile?.sheet_write_back;
+}
+
+/** Duplicate pair keys are the two fingerprints sorted and joined by '||' (see duplicatePairKey). */
+function rekeyDuplicatePairKey(pairKey: string, newKeys: Map<string, string>): string | null {
+  // Fingerprints can contain '||' themselves, so find the split point that gives two known halves
+  for (const [oldKey, newKey] of Array.from(newKeys)) {
+    let other: string;
+    if (pairKey.startsWith(`${oldKey}||`)) other = pairKey.slice(oldKey.length + 2);
+    else if (pairKey.endsWith(`||${oldKey}`)) other = pairKey.slice(0, -(oldKey.length + 2));
+    else continue;
+    return [newKey, newKeys.get(other) ?? other].sort().join('||');
+  }
+  return null;
+}
+
+/**
+ * Move transactions' links from their old fingerprints to their new ones (newKeys: old -> new):
+ * transfers and refunds (legs and pair keys) and duplicate dismissals. Without this detection
+ * would no longer see the rows as paired or rejected, and would pair them again.
+ */
+async function rekeyTransactionPairs(db: SupabaseClient, uid: string, newKeys: Map<string, string>): Promise<void> {
+  const rekey = (key: string) => newKeys.get(key) ?? key;
+  const [transfers, refunds, dismissals] = await Promise.all([
+    db.from('transaction_transfers').select('id, out_key, in_key').eq('user_id', uid),
+    db.from('transaction_refunds').select('id, purchase_key, refund_key').eq('user_id', uid),
+    db.from('transaction_duplicate_dismissals').select('id, pair_key').eq('user_id', uid),
+  ]);
+  const loadError = transfers.error ?? refunds.error ?? dismissals.error;
+  if (loadError) {
+    console.warn('Write-back: could not load transaction pairs to re-key:', loadError);
+    return;
+  }
+  const updates: { table: string; id: string; values: Record<string, string> }[] = [];
+  for (const t of transfers.data ?? []) {
+    if (!newKeys.has(t.out_key) && !newKeys.has(t.in_key)) continue;
+    const out_key = rekey(t.out_key);
+    const in_key = rekey(t.in_key);
+    updates.push({ table: 'transaction_transfers', id: t.id, values: { out_key, in_key, pair_key: `${out_key}>>${in_key}` } });
+  }
+  for (const r of refunds.data ?? []) {
+    if (!newKeys.has(r.purchase_key) && !newKeys.has(r.refund_key)) continue;
+    const purchase_key = rekey(r.purchase_key);
+    const refund_key = rekey(r.refund_key);
+    updates.push({ table: 'transaction_refunds', id: r.id, values: { purchase_key, refund_key, pair_key: `${purchase_key}<<${refund_key}` } });
+  }
+  for (const d of dismissals.data ?? []) {
+    const pair_key = rekeyDuplicatePairKey(d.pair_key, newKeys);
+    if (pair_key) updates.push({ table: 'transaction_duplicate_dismissals', id: d.id, values: { pair_key } });
+  }
+  for (const { table, id, values } of updates) {
+    const { error } = await db.from(table).update(values).eq('id', id);
+    if (error) console.warn(`Write-back: could not re-key ${table} ${id}:`, error);
+  }
+}
+
+/**
+ * Make appended manual rows google_sheet rows, so the sheet owns them and the sync that reads them
+ * back updates them in place instead of adding a copy. Transactions get the content hash their sheet
+ * row will have (after any identical rows already synced), so they keep their id, splits, tags,
+ * transfer and refund pairs and duplicate dismissals.
+ */
+async function handOverToSheet(db: SupabaseClient, uid: string, table: string, rows: any[]): Promise<void> {
+  if (table !== 'transaction_log') {
+    const { error } = await db
+      .from(table)
+      .update({ data_source: 'google_sheet' })
+      .in('id', rows.map((r) => r.id));
+    if (error) throw error;
+    return;
+  }
+
+  const taken = await fetchSheetTransactionHashes(db, uid);
+  const newKeys = new Map<string, string>();
+  for (const row of rows) {
+    const base = transactionContentHashes([row])[0].replace(/#0$/, '');
+    let n = 0;
+    while (taken.has(`${base}#${n}`)) n++;
+    const contentHash = `${base}#${n}`;
+    taken.add(contentHash);
+
+    const { error } = await db
+      .from('transaction_log')
+      .update({ data_source: 'google_sheet', content_hash: contentHash })
+      .eq('id', row.id);
+    if (error) throw error;
+    // Splits, tags and pairs are keyed by fingerprint, which includes the data source
+    const parentKey = transactionFingerprint({ ...row, data_source: 'google_sheet' });
+    for (const linked of ['transaction_splits', 'transaction_tags']) {
+      const { error: linkError } = await db.from(linked).update({ parent_key: parentKey }).eq('transaction_id', row.id);
+      if (linkError) console.warn(`Write-back: could not re-key ${linked} for transaction ${row.id}:`, linkError);
+    }
+    const oldKey = transactionFingerprint(row);
+    if (oldKey !== parentKey) newKeys.set(oldKey, parentKey);
+  }
+  if (newKeys.size > 0) await rekeyTransactionPairs(db, uid, newKeys);
+}
+
+/**
+ * Append the user's manual rows that are not in the sheet yet to their tab, in the column layout
+ * the tab is read with. Rows are stamped with sheet_synced_at before the append, so a row is never
+ * appended twice, and un-stamped if the append fails so the next sync retries it. A tab that fails
+ * is reported without failing the sync.
+ */
+async function writeBackManualRows(
+  db: SupabaseClient,
+  uid: string,
+  spreadsheetId: string,
+  mappings: Map<string, SheetColumnMapping>
+): Promise<SheetWriteBackResult[]> {
+  const sheets = createSheetsClient('write');
+  const spreadsheetInfo = await sheets.spreadsheets.get({ spreadsheetId });
+  const availableSheets = (spreadsheetInfo.data.sheets || []).map((sheet) => sheet.properties?.title || '');
+
+  const results: SheetWriteBackResult[] = [];
+  for (const config of SHEET_CONFIGS) {
+    if (!config.toSheetRow) continue;
+    const toSheetRow = config.toSheetRow;
+    const mapping = mappings.get(config.name);
+    const { tabName, mapped, range } = sheetLayout(config, mapping);
+    try {
+      const { data: rows, error } = await db
+        .from(config.table)
+        .select('*')
+        .eq('user_id', uid)
+        .eq('data_source', 'manual')
+        .is('sheet_synced_at', null)
+        .order(WRITE_BACK_ORDER[config.table]);
+      if (error) throw error;
+      if (!rows || rows.length === 0) continue;
+      if (!availableSheets.includes(tabName)) {
+        results.push({ sheet: config.name, rowsWritten: 0, error: `Sheet "${tabName}" not found in spreadsheet` });
+        continue;
+      }
+
+      // With a header mapping, values go under the user's headers rather than the template columns
+      let positions: SheetColumnPositions | undefined;
+      if (mapped && mapping) {
+        const header = await sheets.spreadsheets.values.get({ spreadsheetId, range: `${quoteSheetName(tabName)}!1:1` });
+        const resolved = resolveSheetColumns(config.columns, header.data.values?.[0] ?? [], mapping.columns);
+        if (resolved.missing.length > 0) {
+          throw new Error(`Mapped headers not found in row 1: ${resolved.missing.join(', ')}`);
+        }
+        positions = resolved.positions;
+      }
+
+      const ids = rows.map((r: any) => r.id);
+      const { error: stampError } = await db
+        .from(config.table)
+        .update({ sheet_synced_at: new Date().toISOString() })
+        .in('id', ids);
+      if (stampError) throw stampError;
+
+      try {
+        await sheets.spreadsheets.values.append({
+          spreadsheetId,
+          range,
+          valueInputOption: 'USER_ENTERED',
+          insertDataOption: 'INSERT_ROWS',
+          requestBody: {
+            values: rows.map((r: any) => (positions ? fromTemplateLayout(toSheetRow(r), positions) : toSheetRow(r))),
+          },
+        });
+      } catch (appendError) {
+        await db.from(config.table).update({ sheet_synced_at: null }).in('id', ids);
+        throw appendError;
+      }
+
+      try {
+        await handOverToSheet(db, uid, config.table, rows);
+      } catch (handOverError: any) {
+        console.error(`Write-back: ${config.name} rows were appended but are still manual:`, handOverError);
+        results.push({
+          sheet: config.name,
+          rowsWritten: rows.length,
+          error: `Rows were written to the sheet but could not be marked as synced, so they may show twice: ${handOverError.message}`,
+        });
+        continue;
+      }
+      console.log(`Write-back: appended ${rows.length} manual rows to ${config.name}`);
+      results.push({ sheet: config.name, rowsWritten: rows.length });
+    } catch (error: any) {
+      console.error(`Write-back to ${config.name} failed:`, error);
+      let errorMessage = error.message || 'Unknown error';
+      if (error.message?.includes('permission') || error.message?.includes('403')) {
+        errorMessage = 'Permission denied. Give the service account Editor access to write to your sheet.';
+      }
+      results.push({ sheet: config.name, rowsWritten: 0, error: errorMessage });
+    }
+  }
+  return results;
+}
+
 export interface SyncGoogleSheetOptions {
   spreadsheetId: string;
   userId: string;
+  /**
+   * Fingerprints from the preview the user approved. When given, the sync is refused (stale: true)
+   * if the sheet no longer reads the same, so what is written is what was previewed.
+   */
+  expectedFingerprints?: SheetFingerprints;
+}
+
+/** Template columns of a tab the sync reads, or null for an unknown tab name. */
+export function getSheetColumns(sheetName: string): SheetColumn[] | null {
+  return SHEET_CONFIGS.find((c) => c.name === sheetName)?.columns ?? null;
+}
+
+/** A tab's layout as the column mapping editor in Settings shows it. */
+export interface SheetLayoutInfo {
+  sheet: string;
+  /** Tab that is read: the user's override, or the app's name. */
+  tabName: string;
+  /** False when the spreadsheet has no tab by that name. */
+  found: boolean;
+  /** The tab's header row as it is now. */
+  headers: string[];
+  columns: SheetColumn[];
+  /** Saved header mapping, or null when the template layout is used. */
+  mapping: Record<string, string> | null;
+  /** Header mapping guessed from the header row. */
+  detected: Record<string, string>;
+}
+
+/** Read every tab's header row (one batchGet) and pair it with the saved and detected mappings. */
+export async function detectSheetLayouts(
+  supabase: SupabaseClient | undefined,
+  options: SyncGoogleSheetOptions
+): Promise<SheetLayoutInfo[]> {
+  const { spreadsheetId, userId } = options;
+  const db = supabase ?? (await createClient());
+  const mappings = await fetchSheetColumnMappings(db, userId);
+  const sheets = createSheetsClient('read');
+
+  const spreadsheetInfo = await sheets.spreadsheets.get({ spreadsheetId });
+  const availableSheets = (spreadsheetInfo.data.sheets || []).map((sheet) => sheet.properties?.title || '');
+
+  const layouts = SHEET_CONFIGS.map((config) => {
+    const mapping = mappings.get(config.name);
+    const { tabName } = sheetLayout(config, mapping);
+    return { config, mapping, tabName, found: availableSheets.includes(tabName) };
+  });
+  const present = layouts.filter((l) => l.found);
+  const headerRows = new Map<string, string[]>();
+  if (present.length > 0) {
+    const response = await sheets.spreadsheets.values.batchGet({
+      spreadsheetId,
+      ranges: present.map((l) => `${quoteSheetName(l.tabName)}!1:1`),
+    });
+    const valueRanges = response.data.valueRanges || [];
+    present.forEach((l, i) => {
+      headerRows.set(l.config.name, (valueRanges[i]?.values?.[0] ?? []).map((h) => String(h ?? '').trim()));
+    });
+  }
+
+  return layouts.map(({ config, mapping, tabName, found }) => {
+    const headers = headerRows.get(config.name) ?? [];
+    const saved = mapping && Object.keys(mapping.columns ?? {}).length > 0 ? mapping.columns : null;
+    return {
+      sheet: config.name,
+      tabName,
+      found,
+      headers,
+      columns: config.columns,
+      mapping: saved,
+      detected: detectSheetColumns(config.columns, headers),
+    };
+  });
+}
+
+/** Rows of the template "FX Rates" tab (for the sheet FX provider); empty when the tab is missing. */
+export async function fetchSheetFxRates(spreadsheetId: string): Promise<FxRatesRow[]> {
+  const config = SHEET_CONFIGS.find((c) => c.name === 'FX Rates')!;
+  const sheets = createSheetsClient('read');
+  const spreadsheetInfo = await sheets.spreadsheets.get({ spreadsheetId });
+  const { tabName, range } = sheetLayout(config, undefined);
+  if (!(spreadsheetInfo.data.sheets || []).some((sheet) => sheet.properties?.title === tabName)) return [];
+
+  const response = await sheets.spreadsheets.values.get({ spreadsheetId, range });
+  return (transformSheetRows(config, response.data.values).data ?? []) as FxRatesRow[];
 }
 
 /**
@@ -321,7 +1032,7 @@ export async function syncGoogleSheet(
   supabase: SupabaseClient | undefined,
   options: SyncGoogleSheetOptions
 ) {
-  const { spreadsheetId, userId } = options;
+  const { spreadsheetId, userId, expectedFingerprints } = options;
   try {
     if (!spreadsheetId) {
       throw new Error('spreadsheetId is required')
@@ -329,148 +1040,65 @@ export async function syncGoogleSheet(
     if (!userId) {
       throw new Error('userId is required')
     }
-    if (!process.env.GOOGLE_SERVICE_ACCOUNT_EMAIL) {
-      throw new Error('GOOGLE_SERVICE_ACCOUNT_EMAIL environment variable is not set')
-    }
-    if (!process.env.GOOGLE_SERVICE_ACCOUNT_PRIVATE_KEY) {
-      throw new Error('GOOGLE_SERVICE_ACCOUNT_PRIVATE_KEY environment variable is not set')
-    }
 
-    // Initialize Google Sheets API
-    const auth = new google.auth.GoogleAuth({
-      credentials: {
-        client_email: process.env.GOOGLE_SERVICE_ACCOUNT_EMAIL,
-        private_key: process.env.GOOGLE_SERVICE_ACCOUNT_PRIVATE_KEY?.replace(/\\n/g, '\n'),
-      },
-      scopes: ['https://www.googleapis.com/auth/spreadsheets.readonly'],
-    });
-
-    const sheets = google.sheets({ version: 'v4', auth });
     const db = supabase ?? (await createClient());
+    const mappings = await fetchSheetColumnMappings(db, userId);
 
-    // First, get the list of sheets to verify they exist
-    let availableSheets: string[] = [];
-    try {
-      const spreadsheetInfo = await sheets.spreadsheets.get({
-        spreadsheetId,
-      });
-      availableSheets = (spreadsheetInfo.data.sheets || []).map(sheet => sheet.properties?.title || '');
-      console.log('Available sheets in spreadsheet:', availableSheets);
-    } catch (error: any) {
-      console.error('Error fetching spreadsheet info:', error);
-      throw new Error(`Failed to access spreadsheet: ${error.message}`);
-    }
-
-    // Filter to only configs whose sheet tab exists in the spreadsheet
-    const presentConfigs: SheetConfig[] = [];
-    const missingConfigs: SheetConfig[] = [];
-    for (const config of SHEET_CONFIGS) {
-      if (availableSheets.includes(config.name)) {
-        presentConfigs.push(config);
-      } else {
-        missingConfigs.push(config);
-        console.warn(`Sheet "${config.name}" not found in spreadsheet – skipping.`);
+    // An approved preview is checked against the sheet as it is before write-back changes it
+    let fetchedData: FetchedItem[] | null = null;
+    if (expectedFingerprints) {
+      fetchedData = await fetchSheetData(spreadsheetId, mappings);
+      const current = fingerprintSheetData(fetchedData);
+      const changed = fetchedData.filter((item) => current[item.config.name] !== expectedFingerprints[item.config.name]);
+      if (changed.length > 0) {
+        return {
+          success: false,
+          stale: true,
+          error: `The sheet changed since the preview (${changed.map((item) => item.config.name).join(', ')}). Preview again before syncing.`,
+          results: [],
+          issues: [],
+          writtenBack: [],
+        };
       }
     }
 
-    // Build ranges for a single batchGet call (one API round-trip instead of N)
-    const ranges = presentConfigs.map((config) => {
-      const quotedSheetName = config.name.includes(' ') ? `'${config.name}'` : config.name;
-      return `${quotedSheetName}!${config.range}`;
-    });
-
-    // Fetch ALL sheet data in one batchGet call
-    console.log(`Fetching ${ranges.length} sheets in a single batchGet call...`);
-    type FetchedItem = { config: SheetConfig; error: string | null; data: any[] | null };
-    const fetchedData: FetchedItem[] = [];
-
-    try {
-      const batchResponse = await sheets.spreadsheets.values.batchGet({
-        spreadsheetId,
-        ranges,
-      });
-
-      const valueRanges = batchResponse.data.valueRanges || [];
-
-      for (let i = 0; i < presentConfigs.length; i++) {
-        const config = presentConfigs[i];
-        const rows = valueRanges[i]?.values;
-
-        if (!rows || rows.length < 2) {
-          fetchedData.push({ config, error: null, data: null });
-          continue;
-        }
-
-        const dataRows = rows.slice(1);
-        const transformedData = dataRows
-          .map((row) => config.transform?.(row))
-          .filter((row) => row && Object.values(row).some((v) => v !== null && v !== ''));
-
-        if (transformedData.length === 0) {
-          fetchedData.push({ config, error: null, data: null });
-        } else {
-          fetchedData.push({ config, error: null, data: transformedData });
-        }
-      }
-    } catch (error: any) {
-      console.error('batchGet failed, falling back to individual fetches:', error.message);
-      // Fallback: fetch individually in parallel
-      const fallbackResults = await Promise.all(
-        presentConfigs.map(async (config) => {
-          try {
-            const quotedSheetName = config.name.includes(' ') ? `'${config.name}'` : config.name;
-            const rangeString = `${quotedSheetName}!${config.range}`;
-            const response = await sheets.spreadsheets.values.get({
-              spreadsheetId,
-              range: rangeString,
-            });
-            const rows = response.data.values;
-            if (!rows || rows.length < 2) {
-              return { config, error: null, data: null } as FetchedItem;
-            }
-            const dataRows = rows.slice(1);
-            const transformedData = dataRows
-              .map((row) => config.transform?.(row))
-              .filter((row) => row && Object.values(row).some((v) => v !== null && v !== ''));
-            return {
-              config,
-              error: null,
-              data: transformedData.length === 0 ? null : transformedData,
-            } as FetchedItem;
-          } catch (err: any) {
-            return { config, error: err.message || 'Unknown error', data: null } as FetchedItem;
-          }
-        })
-      );
-      fetchedData.push(...fallbackResults);
+    // Write-back goes first so the fetch below reads the appended rows back from the sheet
+    const writtenBack = (await isWriteBackEnabled(db, userId))
+      ? await writeBackManualRows(db, userId, spreadsheetId, mappings)
+      : [];
+    if (!fetchedData || writtenBack.some((r) => r.rowsWritten > 0)) {
+      fetchedData = await fetchSheetData(spreadsheetId, mappings);
     }
 
-    // Add missing sheets as no-data items
-    for (const config of missingConfigs) {
-      fetchedData.push({ config, error: null, data: null });
+    // Delete-then-insert tables cannot be recovered after a bad sync; snapshot them before writing
+    let snapshotId: string;
+    try {
+      snapshotId = await createSyncSnapshot(db, userId);
+    } catch (snapshotError: any) {
+      throw new Error(`Could not snapshot current data, nothing was synced: ${snapshotError.message}`);
     }
 
-    console.log(`Fetched ${fetchedData.length} sheets`);
-
-    const results: { sheet: string; success: boolean; error?: string; rowsProcessed: number }[] = [];
+    const results: SheetSyncResult[] = [];
 
     const processOneSheet = async (
       item: FetchedItem,
       uid: string
-    ): Promise<{ sheet: string; success: boolean; error?: string; rowsProcessed: number }> => {
-      const { config, error: itemError, data } = item;
+    ): Promise<SheetSyncResult> => {
+      const { config, error: itemError, data, skipped } = item;
       if (itemError) {
-        return { sheet: config.name, success: false, error: itemError, rowsProcessed: 0 };
+        return { sheet: config.name, success: false, error: itemError, rowsProcessed: 0, rowsSkipped: 0 };
       }
       if (!data) {
         console.warn(`No data found for sheet: ${config.name}`);
-        return { sheet: config.name, success: true, rowsProcessed: 0 };
+        return { sheet: config.name, success: true, rowsProcessed: 0, rowsSkipped: skipped };
       }
       const transformedData = data;
       const dataWithUser = isGlobalTable(config.table)
         ? transformedData
         : transformedData.map((row: any) => ({ ...row, user_id: uid }));
 
+      // Rows dropped after the transform (e.g. FX Rate Current rows without a usable rate)
+      let invalidRows = 0;
       try {
         let upsertResult: { data: any; error: any };
         if (config.table === 'account_balances') {
@@ -528,9 +1156,27 @@ export async function syncGoogleSheet(
               }
             }
           }
+          // A balance a bank connector recorded for the same account and day belongs to the connector
+          const { data: connectorRows, error: connectorError } = await db
+            .from('account_balances')
+            .select('institution, account_name, date_updated')
+            .eq('user_id', uid)
+            .in('data_source', AGGREGATOR_SOURCES);
+          if (connectorError) throw connectorError;
+          const connectorKeys = new Set(
+            (connectorRows ?? []).map((r) => `${r.institution}|${r.account_name}|${r.date_updated}`)
+          );
+          const sheetOwned = dataWithUser.filter((r: any) => {
+            const date = r.date_updated instanceof Date ? r.date_updated.toISOString().split('T')[0] : r.date_updated;
+            return !connectorKeys.has(`${r.institution}|${r.account_name}|${date}`);
+          });
+          if (sheetOwned.length < dataWithUser.length) {
+            invalidRows = dataWithUser.length - sheetOwned.length;
+            console.warn(`Account Balances: Skipped ${invalidRows} row(s) already recorded by a bank connection`);
+          }
           const { data: d, error: e } = await db
             .from(config.table)
-            .upsert(dataWithUser, { onConflict: 'user_id,institution,account_name,date_updated' });
+            .upsert(sheetOwned, { onConflict: 'user_id,institution,account_name,date_updated' });
           upsertResult = { data: d, error: e };
         } else if (config.table === 'kids_accounts') {
           const normalizedData = dataWithUser.map((record: any) => ({
@@ -570,31 +1216,7 @@ export async function syncGoogleSheet(
               updated_at: new Date().toISOString(),
             }));
 
-            const byName = new Map<
-              string,
-              { name: string; annualized_amount_gbp: number | null; annualized_amount_usd: number | null; needs_review: boolean; updated_at: string }
-            >();
-            for (const item of withFlags) {
-              const name = (item.name || '').trim();
-              if (!name) continue;
-              const existing = byName.get(name);
-              if (!existing) {
-                byName.set(name, {
-                  name,
-                  annualized_amount_gbp: item.annualized_amount_gbp ?? null,
-                  annualized_amount_usd: item.annualized_amount_usd ?? null,
-                  needs_review: item.needs_review,
-                  updated_at: item.updated_at,
-                });
-              } else {
-                const gbp = (existing.annualized_amount_gbp ?? 0) + (item.annualized_amount_gbp ?? 0);
-                const usd = (existing.annualized_amount_usd ?? 0) + (item.annualized_amount_usd ?? 0);
-                existing.annualized_amount_gbp = gbp || null;
-                existing.annualized_amount_usd = usd || null;
-              }
-            }
-
-            const mergedData = Array.from(byName.values()).map((row) => ({ ...row, user_id: uid }));
+            const mergedData = mergeRecurringPaymentsByName(withFlags).map((row) => ({ ...row, user_id: uid }));
             const { data, error } = await db.from(config.table).insert(mergedData);
             upsertResult = { data, error };
           } else {
@@ -620,6 +1242,7 @@ export async function syncGoogleSheet(
             return typeof rate === 'number' && Number.isFinite(rate) && rate > 0
           })
           if (validData.length < transformedData.length) {
+            invalidRows = transformedData.length - validData.length
             console.warn(`FX Rate Current: Skipped ${transformedData.length - validData.length} row(s) with invalid gbpusd_rate`)
           }
           if (validData.length === 0) {
@@ -631,7 +1254,8 @@ export async function syncGoogleSheet(
               .upsert(validData, {
                 onConflict: 'date',
               })
-            upsertResult = { data, error }
+            const quotesError = error ? null : await upsertFxQuotes(db, fxQuotesFromRateRows(validData))
+            upsertResult = { data, error: error ?? quotesError }
           }
         } else if (config.table === 'fx_rates') {
           // For historical FX rates, date is PRIMARY KEY
@@ -655,6 +1279,8 @@ export async function syncGoogleSheet(
               .upsert(chunk, { onConflict: 'date' });
             if (error) fxLastError = error;
           }
+          // Mirror into the generic (date, base, quote) table that native-currency conversion reads
+          if (!fxLastError) fxLastError = await upsertFxQuotes(db, fxQuotesFromRateRows(deduplicatedData));
           upsertResult = { data: null, error: fxLastError };
         } else if (config.table === 'historical_net_worth') {
           const { data, error } = await db
@@ -664,23 +1290,40 @@ export async function syncGoogleSheet(
             });
           upsertResult = { data, error };
         } else if (config.table === 'transaction_log') {
-          // Delete only google_sheet rows, then chunked insert
-          const { error: delErr } = await db
-            .from(config.table)
-            .delete()
-            .eq('user_id', uid)
-            .eq('data_source', 'google_sheet');
-          if (delErr) {
-            console.warn('Transaction Log: delete error', delErr);
+          // Incremental: only rows whose content changed are deleted or inserted, in one transaction
+          const rowsToWrite = await applyRulesOnSync(db, uid, transformedData);
+          let changes = { inserted: 0, deleted: 0, unchanged: 0 };
+          upsertResult = { data: null, error: null };
+          try {
+            changes = await applySheetTransactions(db, uid, rowsToWrite);
+          } catch (applyError) {
+            upsertResult = { data: null, error: applyError };
           }
+          console.log(`Transaction Log: ${changes.inserted} inserted, ${changes.deleted} deleted, ${changes.unchanged} unchanged`);
 
-          const chunks = chunkArray(dataWithUser, BATCH_SIZE);
-          let lastError: any = null;
-          for (const chunk of chunks) {
-            const { error } = await db.from(config.table).insert(chunk);
-            if (error) lastError = error;
+          if (changes.inserted + changes.deleted > 0) {
+            // New rows have no merchant yet; a failure here should not fail the sync
+            try {
+              await resolveTransactionMerchants(db, uid);
+            } catch (merchantError) {
+              console.warn('Transaction Log: merchant resolution failed', merchantError);
+            }
+            try {
+              await relinkTransactionLinks(db, uid);
+            } catch (linkError) {
+              console.warn('Transaction Log: split/tag re-link failed', linkError);
+            }
+            try {
+              await pairInternalTransfers(db, uid);
+            } catch (transferError) {
+              console.warn('Transaction Log: transfer pairing failed', transferError);
+            }
+            try {
+              await matchRefunds(db, uid);
+            } catch (refundError) {
+              console.warn('Transaction Log: refund matching failed', refundError);
+            }
           }
-          upsertResult = { data: null, error: lastError };
         } else {
           const { data, error } = await db
             .from(config.table)
@@ -696,13 +1339,15 @@ export async function syncGoogleSheet(
             sheet: config.name,
             success: false,
             error: upsertResult.error.message || JSON.stringify(upsertResult.error),
-            rowsProcessed: transformedData.length,
+            rowsProcessed: transformedData.length - invalidRows,
+            rowsSkipped: skipped + invalidRows,
           };
         }
         return {
           sheet: config.name,
           success: true,
-          rowsProcessed: transformedData.length,
+          rowsProcessed: transformedData.length - invalidRows,
+          rowsSkipped: skipped + invalidRows,
         };
       } catch (error: any) {
         console.error(`Error processing sheet ${config.name}:`, error);
@@ -717,6 +1362,7 @@ export async function syncGoogleSheet(
           success: false,
           error: errorMessage,
           rowsProcessed: 0,
+          rowsSkipped: skipped,
         };
       }
     };
@@ -752,6 +1398,7 @@ export async function syncGoogleSheet(
         sheet: item.config.name,
         success: true,
         rowsProcessed: 0,
+        rowsSkipped: item.skipped,
       };
     });
     results.push(...(await Promise.all(noDataCleanups)));
@@ -762,12 +1409,22 @@ export async function syncGoogleSheet(
         success: false,
         error: item.error ?? undefined,
         rowsProcessed: 0,
+        rowsSkipped: 0,
       });
     }
 
+    try {
+      await pruneSyncSnapshots(db, userId);
+    } catch (pruneError) {
+      console.warn('Could not prune old sync snapshots:', pruneError);
+    }
+
     return {
       success: results.every((r) => r.success),
       results,
+      issues: fetchedData.flatMap((item) => item.issues),
+      writtenBack,
+      snapshotId,
     };
   } catch (error: any) {
     console.error('Error syncing Google Sheet:', error);
@@ -787,6 +1444,127 @@ export async function syncGoogleSheet(
       success: false,
       error: errorMessage,
       results: [],
+      issues: [],
+      writtenBack: [],
     };
   }
 }
+
+/** Columns that match an incoming sheet row to its stored row in the dry-run diff. */
+const DIFF_KEYS: Record<string, string[]> = {
+  account_balances: ['institution', 'account_name', 'date_updated'],
+  kids_accounts: ['child_name', 'account_type', 'date_updated', 'notes'],
+  debt: ['type', 'name'],
+  transaction_log: ['date', 'counterparty', 'amount_usd', 'amount_gbp'],
+  budget_targets: ['category'],
+  historical_net_worth: ['date', 'category'],
+  fx_rates: ['date'],
+  fx_rate_current: ['date'],
+  annual_trends: ['category'],
+  monthly_trends: ['category'],
+  investment_return: ['income_source'],
+  yoy_net_worth: ['category'],
+  recurring_payments: ['name'],
+};
+
+/** Apply the same per-table filtering and merging processOneSheet does before writing. */
+async function rowsToWrite(db: SupabaseClient, uid: string, table: string, data: any[]): Promise<any[]> {
+  if (table === 'fx_rate_current') {
+    return data.filter((row) => typeof row.gbpusd_rate === 'number' && Number.isFinite(row.gbpusd_rate) && row.gbpusd_rate > 0);
+  }
+  if (table === 'fx_rates') {
+    return Array.from(new Map(data.map((row) => [row.date, row])).values());
+  }
+  if (table === 'recurring_payments') return mergeRecurringPaymentsByName(data);
+  if (table === 'transaction_log') return applyRulesOnSync(db, uid, data);
+  return data;
+}
+
+async function fetchStoredRows(db: SupabaseClient, uid: string, table: string): Promise<any[]> {
+  const rows: any[] = [];
+  for (let page = 0; ; page++) {
+    let query = db
+      .from(table)
+      .select('*')
+      .order(table === 'fx_rates' ? 'date' : 'id')
+      .range(page * BATCH_SIZE, (page + 1) * BATCH_SIZE - 1);
+    if (!isGlobalTable(table)) query = query.eq('user_id', uid);
+    if (DATA_SOURCE_TABLES.has(table)) query = query.eq('data_source', 'google_sheet');
+    const { data, error } = await query;
+    if (error) throw error;
+    rows.push(...(data ?? []));
+    if (!data || data.length < BATCH_SIZE) break;
+  }
+  return rows;
+}
+
+/**
+ * Dry run of syncGoogleSheet: fetch and transform the sheet, then diff each table against what
+ * is stored, without writing anything. Removes follow what sync would delete: every unmatched
+ * row for delete-then-insert tables (including tabs that are empty or missing), accounts no
+ * longer in the sheet for account_balances, and nothing for upsert-only tables. The fingerprints
+ * of what was read are passed back to syncGoogleSheet when the user approves the preview.
+ */
+export async function previewGoogleSheetSync(
+  supabase: SupabaseClient | undefined,
+  options: SyncGoogleSheetOptions
+): Promise<{ success: boolean; tables: SheetTableDiff[]; fingerprints: SheetFingerprints; error?: string }> {
+  const { spreadsheetId, userId } = options;
+  try {
+    if (!spreadsheetId) {
+      throw new Error('spreadsheetId is required')
+    }
+    if (!userId) {
+      throw new Error('userId is required')
+    }
+
+    const db = supabase ?? (await createClient());
+    const fetchedData = await fetchSheetData(spreadsheetId, await fetchSheetColumnMappings(db, userId));
+
+    const tables = await Promise.all(
+      fetchedData.map(async ({ config, error, data }): Promise<SheetTableDiff> => {
+        if (error) {
+          return {
+            sheet: config.name,
+            table: config.table,
+            added: 0,
+            removed: 0,
+            changed: 0,
+            unchanged: 0,
+            samples: { added: [], removed: [], changed: [] },
+            error,
+          };
+        }
+        const incoming = data ? await rowsToWrite(db, userId, config.table, data) : [];
+        const stored = await fetchStoredRows(db, userId, config.table);
+
+        // transaction_log is only cleared when the tab has rows; other non-delete-insert tables are upserts
+        let removeUnmatched: DiffSheetRowsOptions['removeUnmatched'] =
+          DELETE_INSERT_TABLES.has(config.table) || (config.table === 'transaction_log' && incoming.length > 0);
+        if (config.table === 'account_balances' && incoming.length > 0) {
+          const incomingAccounts = new Set(incoming.map((r) => `${r.institution}|${r.account_name}`));
+          const institutionByAccount = new Map<string, string>();
+          for (const r of incoming) {
+            const key = `${r.account_name}|${r.category}`;
+            if (!institutionByAccount.has(key)) institutionByAccount.set(key, r.institution);
+          }
+          removeUnmatched = (row) => {
+            if (!incomingAccounts.has(`${row.institution}|${row.account_name}`)) return true;
+            const institution = institutionByAccount.get(`${row.account_name}|${row.category}`);
+            return institution !== undefined && institution !== row.institution;
+          };
+        }
+
+        return diffSheetRows(config.name, config.table, incoming, stored, {
+          key: DIFF_KEYS[config.table] ?? [],
+          removeUnmatched,
+        });
+      })
+    );
+
+    return { success: tables.every((t) => !t.error), tables, fingerprints: fingerprintSheetData(fetchedData) };
+  } catch (error: any) {
+    console.error('Error previewing Google Sheet sync:', error);
+    return { success: false, tables: [], fingerprints: {}, error: error.message || 'Unknown error occurred' };
+  }
+}
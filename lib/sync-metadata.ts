@@ -1,4 +1,9 @@
 import type { SupabaseClient } from '@supabase/supabase-js'
+import type { SheetSyncResult, SyncTrigger } from '@/lib/types'
+import type { SheetValidationIssue } from '@/lib/utils/sheet-validation'
+
+/** Issues kept per run; a broken column can produce one per row. */
+const MAX_STORED_ISSUES = 1000
 
 /**
  * Records the current time as last_sync_at in sync_metadata for the given user.
@@ -10,3 +15,41 @@ export async function recordLastSync(supabase: SupabaseClient, userId: string):
     .from('sync_metadata')
     .upsert({ user_id: userId, last_sync_at: now }, { onConflict: 'user_id' })
 }
+
+/**
+ * Stores one sync run in sync_runs for the Sync History panel. Call after every sync, including
+ * failed ones; a failure to record is logged and never fails the sync itself.
+ */
+export async function recordSyncRun(
+  supabase: SupabaseClient,
+  userId: string,
+  run: {
+    trigger: SyncTrigger
+    startedAt: Date
+    result: {
+      success: boolean
+      error?: string
+      results?: SheetSyncResult[]
+      issues?: SheetValidationIssue[]
+      snapshotId?: string
+    }
+  }
+): Promise<void> {
+  const results = run.result.results ?? []
+  const issues = run.result.issues ?? []
+  const { error } = await supabase.from('sync_runs').insert({
+    user_id: userId,
+    trigger: run.trigger,
+    started_at: run.startedAt.toISOString(),
+    duration_ms: Date.now() - run.startedAt.getTime(),
+    success: run.result.success,
+    error: run.result.error || null,
+    rows_processed: results.reduce((sum, r) => sum + r.rowsProcessed, 0),
+    rows_skipped: results.reduce((sum, r) => sum + r.rowsSkipped, 0),
+    results,
+    issue_count: issues.length,
+    issues: issues.slice(0, MAX_STORED_ISSUES),
+    snapshot_id: run.result.snapshotId ?? null,
+  })
+  if (error) console.warn('Failed to record sync run:', error)
+}
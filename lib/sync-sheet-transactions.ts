@@ -0,0 +1,72 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createClient } from '@/lib/supabase/server'
+import { transactionContentHashes, type SheetTransactionRow } from '@/lib/utils/transaction-content-hash'
+import { fillMoneyColumns } from '@/lib/utils/fx-rates'
+
+const PAGE_SIZE = 1000
+
+/** Content hashes of the user's google_sheet transaction_log rows (rows synced before hashing have none). */
+export async function fetchSheetTransactionHashes(db: SupabaseClient, userId: string): Promise<Set<string>> {
+  const hashes = new Set<string>()
+  for (let page = 0; ; page++) {
+    const { data, error } = await db
+      .from('transaction_log')
+      .select('content_hash')
+      .eq('user_id', userId)
+      .eq('data_source', 'google_sheet')
+      .not('content_hash', 'is', null)
+      .order('id')
+      .range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1)
+    if (error) throw error
+    for (const row of data ?? []) hashes.add(row.content_hash)
+    if (!data || data.length < PAGE_SIZE) break
+  }
+  return hashes
+}
+
+/**
+ * Bring the user's google_sheet transaction_log rows in line with the sheet by content hash:
+ * rows whose hash is gone are deleted, new hashes are inserted, and unchanged rows keep their
+ * ids (and merchants, splits, tags and pairs). Deletes and inserts run in one transaction
+ * (apply_sheet_transactions), so the dashboard never sees an empty log.
+ */
+export async function applySheetTransactions(
+  supabase: SupabaseClient | undefined,
+  userId: string,
+  rows: (SheetTransactionRow & { counterparty_dedup?: string })[]
+): Promise<{ inserted: number; deleted: number; unchanged: number }> {
+  const db = supabase ?? (await createClient())
+
+  const existing = await fetchSheetTransactionHashes(db, userId)
+  const hashes = transactionContentHashes(rows)
+  const incoming = new Set(hashes)
+  const newRows = rows
+    .map((row, i) => ({
+      date: row.date instanceof Date ? row.date.toISOString().split('T')[0] : row.date,
+      category: row.category,
+      counterparty: row.counterparty,
+      counterparty_dedup: row.counterparty_dedup ?? (row.counterparty ?? ''),
+      amount_usd: row.amount_usd,
+      amount_gbp: row.amount_gbp,
+      amount_eur: row.amount_eur ?? null,
+      currency: row.currency,
+      content_hash: hashes[i],
+    }))
+    .filter((row) => !existing.has(row.content_hash))
+  // Native amounts, and a USD amount for rows with only column G filled (after hashing, so rate updates don't churn rows)
+  const toInsert = await fillMoneyColumns(db, newRows)
+  const toDelete = Array.from(existing).filter((hash) => !incoming.has(hash))
+
+  // Rows synced before content hashes existed are always replaced, so call even when the diff looks empty
+  const { data, error } = await db
+    .rpc('apply_sheet_transactions', { p_user_id: userId, p_delete_hashes: toDelete, p_rows: toInsert })
+    .single()
+  if (error) throw error
+  const result = data as { deleted: number; inserted: number }
+
+  return {
+    inserted: result.inserted,
+    deleted: result.deleted,
+    unchanged: rows.length - toInsert.length,
+  }
+}
@@ -0,0 +1,51 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createClient } from '@/lib/supabase/server'
+
+const DEFAULT_RETENTION_DAYS = 30
+
+/**
+ * Snapshot the user's delete-then-insert tables (budget_targets, debt, trends, investment_return,
+ * yoy_net_worth, recurring_payments) before sync replaces them. Returns the snapshot id.
+ */
+export async function createSyncSnapshot(supabase: SupabaseClient | undefined, userId: string): Promise<string> {
+  const db = supabase ?? (await createClient())
+  const { data, error } = await db.rpc('create_sync_snapshot', { p_user_id: userId, p_reason: 'sync' })
+  if (error) throw error
+  return data as string
+}
+
+/**
+ * Delete snapshots older than the user's snapshot_retention_days (default 30). The most recent
+ * snapshot is always kept so the last sync can be undone however old it is.
+ */
+export async function pruneSyncSnapshots(supabase: SupabaseClient | undefined, userId: string): Promise<number> {
+  const db = supabase ?? (await createClient())
+
+  const { data: profile } = await db
+    .from('user_profiles')
+    .select('snapshot_retention_days')
+    .eq('id', userId)
+    .maybeSingle()
+  const retentionDays: number = profile?.snapshot_retention_days ?? DEFAULT_RETENTION_DAYS
+  const cutoff = new Date(Date.now() - retentionDays * 86400000).toISOString()
+
+  const { data: latest, error: latestError } = await db
+    .from('sync_snapshots')
+    .select('id')
+    .eq('user_id', userId)
+    .order('taken_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+  if (latestError) throw latestError
+  if (!latest) return 0
+
+  const { data: deleted, error } = await db
+    .from('sync_snapshots')
+    .delete()
+    .eq('user_id', userId)
+    .lt('taken_at', cutoff)
+    .neq('id', latest.id)
+    .select('id')
+  if (error) throw error
+  return deleted?.length ?? 0
+}
@@ -1,4 +1,4 @@
-export type DataSource = 'google_sheet' | 'plaid' | 'csv' | 'manual'
+export type DataSource = 'google_sheet' | 'plaid' | 'csv' | 'manual' | 'ofx' | 'mock'
 
 export interface AccountBalance {
   id: string
@@ -6,7 +6,8 @@ export interface AccountBalance {
   institution: string
   account_name: string
   category: string
-  currency: 'USD' | 'GBP' | 'EUR'
+  /** ISO 4217 code; the balance_*_local columns are in this currency. */
+  currency: string
   balance_personal_local: number
   balance_family_local: number
   balance_total_local: number
@@ -14,6 +15,8 @@ export interface AccountBalance {
   risk_profile: string | null
   horizon_profile: string | null
   data_source?: DataSource
+  /** When write-back appended this manual row to the sheet; null for rows that came from it. */
+  sheet_synced_at?: string | null
 }
 
 export interface TransactionLog {
@@ -23,14 +26,115 @@ export interface TransactionLog {
   counterparty: string | null
   amount_usd: number | null
   amount_gbp: number | null
-  /** Original transaction currency from sheet column F: 'USD' | 'GBP'. Used for per-currency burn. */
+  /** Native amount of EUR transactions (sheet column G); amount_usd / amount_gbp are still set. */
+  amount_eur?: number | null
+  /** Amount in `currency`. amount_usd / amount_gbp / amount_eur are kept for compatibility. */
+  amount?: number | null
+  /** ISO 4217 code of the original transaction currency (sheet column F; blank means USD). Used for per-currency burn. */
   currency?: string | null
   data_source?: DataSource
+  sheet_synced_at?: string | null
+  /** Source transaction id for file/aggregator imports (OFX: "ACCTID:FITID"). Null for sheet and manual rows. */
+  external_id?: string | null
+  /** Canonical merchant (merchant directory); null until resolved or when counterparty is blank. */
+  merchant_id?: string | null
+  /** Embedded merchant when selected with `merchant:merchants(name)`. */
+  merchant?: { name: string } | null
+}
+
+/** A transaction_log_allocated row: an unsplit transaction, or one split of a transaction. */
+export interface AllocatedTransaction extends TransactionLog {
+  /** Null for unsplit rows; `id` is always the parent transaction id. */
+  split_id: string | null
+  parent_category: string
+  split_note: string | null
+}
+
+export interface TransactionSplit {
+  id: string
+  /** Null while the parent is missing (e.g. between sheet delete and re-link). */
+  transaction_id: string | null
+  /** Parent content fingerprint, used to re-link after sheet sync re-inserts rows. */
+  parent_key: string
+  position: number
+  category: string
+  /** Signed, in the parent's own currency. */
+  amount: number
+  note: string | null
+  created_at: string
+}
+
+/** A pair of transaction_log rows that are one movement between the user's own accounts. */
+export interface TransactionTransfer {
+  id: string
+  /**
+   * auto = paired by detection; suggested = weak match, not counted as a transfer until the user
+   * confirms it; confirmed = accepted by the user. Rejected pairs are not returned.
+   */
+  status: 'auto' | 'suggested' | 'confirmed'
+  /** USD per GBP implied by a cross-currency pair. */
+  implied_rate: number | null
+  created_at: string
+  out: TransactionLog
+  in: TransactionLog
+}
+
+/** A refund linked to the earlier purchase it reverses. */
+export interface TransactionRefund {
+  id: string
+  purchase: Pick<TransactionLog, 'id' | 'date' | 'amount_usd' | 'amount_gbp' | 'amount_eur' | 'amount' | 'currency'>
+  refund: Pick<TransactionLog, 'id' | 'date' | 'amount_usd' | 'amount_gbp' | 'amount_eur' | 'amount' | 'currency'>
+}
+
+/** Outcome of syncing one sheet tab. */
+export interface SheetSyncResult {
+  sheet: string
+  success: boolean
+  error?: string
+  rowsProcessed: number
+  /** Non-blank rows the tab's transform rejected, or that failed validation before writing. */
+  rowsSkipped: number
+}
+
+/** Manual rows appended to one sheet tab by write-back before a sync. */
+export interface SheetWriteBackResult {
+  sheet: string
+  rowsWritten: number
+  error?: string
+}
+
+export type SyncTrigger = 'manual' | 'cron' | 'onboarding'
+
+/** One recorded run of the Google Sheet sync. */
+export interface SyncRun {
+  id: string
+  trigger: SyncTrigger
+  started_at: string
+  duration_ms: number
+  success: boolean
+  error: string | null
+  rows_processed: number
+  rows_skipped: number
+  results: SheetSyncResult[]
+  /** Cells the sheet transforms could not read; see the Data issues page. */
+  issue_count: number
+}
+
+/** Copy of the delete-then-insert tables, taken before a sync (or a restore) replaced them. */
+export interface SyncSnapshot {
+  id: string
+  reason: 'sync' | 'restore'
+  taken_at: string
+  row_count: number
+  restored_at: string | null
 }
 
 export interface BudgetTarget {
   id: string
   category: string
+  /** Annual budget in `currency` (GBP for sheet and dialog budgets). */
+  annual_budget?: number | null
+  currency?: string
   annual_budget_gbp: number
   annual_budget_usd: number
   tracking_est_gbp: number
@@ -38,6 +142,7 @@ export interface BudgetTarget {
   tracking_est_usd: number
   ytd_usd: number
   data_source?: DataSource
+  sheet_synced_at?: string | null
 }
 
 export interface HistoricalNetWorth {
@@ -58,6 +163,15 @@ export interface FXRateCurrent {
   id: string
   date: string
   gbpusd_rate: number
+  eurusd_rate: number | null
+}
+
+/** One row of fx_quotes: 1 `base` = `rate` `quote` on `date`. */
+export interface FxQuote {
+  date: string
+  base: string
+  quote: string
+  rate: number
 }
 
 export interface AnnualTrend {
@@ -118,11 +232,15 @@ export interface KidsAccount {
   id: string
   child_name: string
   account_type: string
-  balance_usd: number
+  /** Balance in `currency`; balance_usd is its USD value (null until the currency has a rate), kept for compatibility. */
+  balance?: number | null
+  currency?: string
+  balance_usd: number | null
   date_updated: string
   notes: string | null
   purpose: string | null
   data_source?: DataSource
+  sheet_synced_at?: string | null
 }
 
 // Debt tracking - mortgages, loans, credit cards
@@ -138,3 +256,142 @@ export interface Debt {
   created_at: string
   data_source?: DataSource
 }
+
+// Bank-aggregator connections (aggregator_connections, without the access token)
+export interface AggregatorConnection {
+  id: string
+  provider: string
+  institution: string
+  status: 'active' | 'error'
+  last_error: string | null
+  last_synced_at: string | null
+  created_at: string
+}
+
+// Envelope budgeting - monthly allocations per category and year (budget_envelopes)
+export interface BudgetEnvelopeSettings {
+  category: string
+  year: number
+  /** 12 amounts to spend (positive GBP), January first. */
+  monthly_gbp: number[]
+  /** Carry each month's remainder (or overspend) into the next month. */
+  rollover: boolean
+}
+
+// Sheet sync - per-user tab layout (sheet_column_mappings)
+export interface SheetColumnMapping {
+  /** Tab as the app names it, e.g. "Budget Targets". */
+  sheet_name: string
+  /** The user's tab to read instead; null reads sheet_name. */
+  tab_name: string | null
+  /** Database field → header text in the tab's first row. Fields left out read the template column. */
+  columns: Record<string, string>
+}
+
+// CSV import - column mapping saved per bank (csv_import_mappings.mapping)
+export type CsvDateFormat = 'auto' | 'YYYY-MM-DD' | 'DD/MM/YYYY' | 'MM/DD/YYYY'
+
+/** '.' as in 1,234.56; ',' as in 1.234,56; auto reads it from the file's amounts. */
+export type CsvDecimalSeparator = 'auto' | '.' | ','
+
+/**
+ * How amounts are signed in the export:
+ * - signed: expenses already negative (app convention)
+ * - inverted: expenses positive, refunds/income negative (typical credit card export)
+ * - debit_credit: separate money-out and money-in columns
+ */
+export type CsvSignConvention = 'signed' | 'inverted' | 'debit_credit'
+
+export interface CsvColumnMapping {
+  /** Zero-based column indices; null when the column is not present in the export. */
+  date: number | null
+  category: number | null
+  counterparty: number | null
+  amount: number | null
+  debit: number | null
+  credit: number | null
+  currency: number | null
+  dateFormat: CsvDateFormat
+  /** Missing in mappings saved before it existed; treated as auto. */
+  decimalSeparator?: CsvDecimalSeparator
+  signConvention: CsvSignConvention
+  /** Used when there is no currency column and the amount has no £/$/€ symbol. */
+  defaultCurrency: 'USD' | 'GBP' | 'EUR'
+  /** Used when there is no category column or the cell is empty. */
+  defaultCategory: string
+  /** Number of rows to skip before the header row (bank preamble lines). */
+  skipRows: number
+}
+
+export interface CsvImportMapping {
+  id: string
+  bank_name: string
+  mapping: CsvColumnMapping
+  created_at: string
+  updated_at: string
+}
+
+// Categorization rules - ordered; first active match assigns the category
+export type CategorizationMatchType = 'contains' | 'regex'
+
+export interface CategorizationRule {
+  id: string
+  /** Lower runs first. */
+  priority: number
+  /** Matched against counterparty; null matches any counterparty (amount/currency-only rule). */
+  counterparty_pattern: string | null
+  match_type: CategorizationMatchType
+  /** Inclusive bounds on the absolute amount in the transaction's own currency. */
+  min_amount: number | null
+  max_amount: number | null
+  /** Only match transactions in this currency (ISO code); null matches any. */
+  currency: string | null
+  category: string
+  is_active: boolean
+  created_at: string
+}
+
+export interface Tag {
+  id: string
+  /** Free-form label, e.g. "Trip: Lisbon 2026" or "Reimbursable". */
+  name: string
+  created_at: string
+}
+
+export interface Merchant {
+  id: string
+  /** Canonical display name. */
+  name: string
+  /** Plain words matched against the normalized counterparty, or /regex/ against the raw counterparty. */
+  alias_patterns: string[]
+  /** Created automatically for a counterparty no alias matched. */
+  is_auto: boolean
+  created_at: string
+  updated_at: string
+}
+
+export type AlertRuleType = 'budget_percent' | 'forecast_gap' | 'z_score' | 'large_transaction'
+
+export interface AlertRule {
+  id: string
+  rule_type: AlertRuleType
+  /** Null means total expenses (budget_percent, forecast_gap) or any category. */
+  category: string | null
+  /** % of budget, GBP, or z-score depending on rule_type. */
+  threshold: number
+  /** forecast_gap only: compare with the budget_history snapshot this many days back. */
+  lookback_days: number
+  is_active: boolean
+  created_at: string
+}
+
+export interface AppNotification {
+  id: string
+  alert_rule_id: string | null
+  title: string
+  body: string | null
+  /** In-app path to open from the inbox. */
+  link: string | null
+  read_at: string | null
+  created_at: string
+}
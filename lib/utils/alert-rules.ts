@@ -0,0 +1,174 @@
+import { z } from 'zod'
+import { buildTransactionAnalysisUrl } from '@/lib/analysis-url'
+import type { AlertRule, AlertRuleType, BudgetTarget, MonthlyTrend } from '@/lib/types'
+
+const EXCLUDED_CATEGORIES = ['Income', 'Gift Money', 'Other Income', 'Excluded']
+
+/** Single-transaction alerts only look at transactions dated this many days back or less. */
+export const LARGE_TRANSACTION_WINDOW_DAYS = 30
+
+export const ALERT_RULE_TYPES: Record<AlertRuleType, { label: string; thresholdLabel: string }> = {
+  budget_percent: { label: 'Budget used', thresholdLabel: '% of annual budget' },
+  forecast_gap: { label: 'Forecast gap worsens', thresholdLabel: 'GBP' },
+  z_score: { label: 'Unusual month', thresholdLabel: 'z-score' },
+  large_transaction: { label: 'Large transaction', thresholdLabel: 'GBP' },
+}
+
+/** Request body for creating a rule (shared by the alert rule API routes). */
+export const AlertRuleInputSchema = z.object({
+  rule_type: z.enum(['budget_percent', 'forecast_gap', 'z_score', 'large_transaction']),
+  category: z.string().trim().min(1).nullable().default(null),
+  threshold: z.number().positive(),
+  lookback_days: z.number().int().min(1).max(365).default(7),
+})
+
+export function describeAlertRule(rule: Pick<AlertRule, 'rule_type' | 'category' | 'threshold' | 'lookback_days'>): string {
+  const scope = rule.category ?? (rule.rule_type === 'budget_percent' || rule.rule_type === 'forecast_gap' ? 'Total expenses' : 'Any category')
+  switch (rule.rule_type) {
+    case 'budget_percent':
+      return `${scope}: ${rule.threshold}% of annual budget spent`
+    case 'forecast_gap':
+      return `${scope}: forecast gap worsens by £${rule.threshold} over ${rule.lookback_days} days`
+    case 'z_score':
+      return `${scope}: month's spend z-score above ${rule.threshold}`
+    case 'large_transaction':
+      return `${scope}: single transaction over £${rule.threshold}`
+  }
+}
+
+/** A notification a rule wants to raise; dedupe_key keeps it from being raised twice. */
+export interface AlertNotificationDraft {
+  alert_rule_id: string
+  dedupe_key: string
+  title: string
+  body: string
+  link: string
+}
+
+export interface BudgetHistoryRow {
+  date: string
+  category: string
+  annual_budget: number
+  forecast_spend: number
+}
+
+export interface AlertTransaction {
+  id: string
+  date: string
+  category: string
+  counterparty: string | null
+  /** Signed GBP; money out is negative. */
+  gbp: number
+}
+
+export interface AlertContext {
+  /** YYYY-MM-DD */
+  asOf: string
+  /** Budgets with in-app YTD (computeBudgetEstimates). */
+  budgets: Pick<BudgetTarget, 'category' | 'annual_budget_gbp' | 'ytd_gbp'>[]
+  /** budget_history snapshots reaching back at least as far as the longest lookback. */
+  history: BudgetHistoryRow[]
+  trends: Pick<MonthlyTrend, 'category' | 'z_score'>[]
+  /** Transactions from the last LARGE_TRANSACTION_WINDOW_DAYS days, one row per transaction. */
+  transactions: AlertTransaction[]
+}
+
+const formatGbp = (value: number) =>
+  new Intl.NumberFormat('en-GB', { style: 'currency', currency: 'GBP', maximumFractionDigits: 0 }).format(value)
+
+const isExpense = (category: string) => !EXCLUDED_CATEGORIES.includes(category)
+
+function shiftDate(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`)
+  d.setUTCDate(d.getUTCDate() + days)
+  return d.toISOString().split('T')[0]
+}
+
+/** Gap per the budget table: forecast minus budget, positive when under budget. */
+function gapOn(history: BudgetHistoryRow[], date: string, category: string | null): number {
+  return history
+    .filter((r) => r.date === date && (category ? r.category === category : isExpense(r.category)))
+    .reduce((sum, r) => sum + (r.forecast_spend - r.annual_budget), 0)
+}
+
+function evaluateRule(rule: AlertRule, ctx: AlertContext): AlertNotificationDraft[] {
+  const base = { alert_rule_id: rule.id }
+  const scope = rule.category ?? 'total'
+  const year = Number(ctx.asOf.slice(0, 4))
+
+  switch (rule.rule_type) {
+    case 'budget_percent': {
+      const budgets = ctx.budgets.filter((b) => (rule.category ? b.category === rule.category : isExpense(b.category)))
+      const annual = budgets.reduce((s, b) => s + (b.annual_budget_gbp ?? 0), 0)
+      const ytd = budgets.reduce((s, b) => s + (b.ytd_gbp ?? 0), 0)
+      if (annual === 0) return []
+      const percent = (ytd / annual) * 100
+      if (percent < rule.threshold) return []
+      const name = rule.category ?? 'Total expenses'
+      return [{
+        ...base,
+        dedupe_key: `${rule.id}:${rule.threshold}:${scope}:${year}`,
+        title: `${name} has used ${Math.round(percent)}% of its ${year} budget`,
+        body: `${formatGbp(Math.abs(ytd))} of ${formatGbp(Math.abs(annual))} spent so far this year.`,
+        link: '/#budget-table',
+      }]
+    }
+
+    case 'forecast_gap': {
+      const dates = Array.from(new Set(ctx.history.map((r) => r.date))).sort()
+      const latestOnOrBefore = (target: string) => dates.filter((d) => d <= target).pop()
+      const current = latestOnOrBefore(ctx.asOf)
+      const previous = latestOnOrBefore(shiftDate(ctx.asOf, -rule.lookback_days))
+      if (!current || !previous || previous >= current) return []
+      const worsened = gapOn(ctx.history, previous, rule.category) - gapOn(ctx.history, current, rule.category)
+      if (worsened < rule.threshold) return []
+      const name = rule.category ?? 'Total expenses'
+      return [{
+        ...base,
+        dedupe_key: `${rule.id}:${rule.threshold}:${scope}:${current}`,
+        title: `${name} forecast worsened by ${formatGbp(worsened)}`,
+        body: `The gap to budget moved by ${formatGbp(worsened)} since ${previous}.`,
+        link: '/analysis#forecast-evolution',
+      }]
+    }
+
+    case 'z_score':
+      return ctx.trends
+        .filter((t) => (rule.category ? t.category === rule.category : isExpense(t.category)))
+        // Expenses are stored negative, so unusually high spend is a large negative z-score
+        .filter((t) => -Number(t.z_score) > rule.threshold)
+        .map((t) => ({
+          ...base,
+          dedupe_key: `${rule.id}:${rule.threshold}:${t.category}:${ctx.asOf.slice(0, 7)}`,
+          title: `${t.category} spending is unusually high this month`,
+          body: `This month's spend has a z-score of ${(-Number(t.z_score)).toFixed(1)} against the last 12 months.`,
+          link: '/#monthly-trends',
+        }))
+
+    case 'large_transaction':
+      return ctx.transactions
+        .filter((tx) => (rule.category ? tx.category === rule.category : isExpense(tx.category)))
+        .filter((tx) => -tx.gbp > rule.threshold)
+        .map((tx) => ({
+          ...base,
+          dedupe_key: `${rule.id}:${tx.id}`,
+          title: `${formatGbp(-tx.gbp)} spent at ${tx.counterparty || 'Unknown'}`,
+          body: `${tx.category} on ${tx.date}, over your ${formatGbp(rule.threshold)} alert.`,
+          link: buildTransactionAnalysisUrl({
+            period: 'MTD',
+            year: Number(tx.date.slice(0, 4)),
+            month: Number(tx.date.slice(5, 7)),
+            category: tx.category,
+          }),
+        }))
+  }
+}
+
+/**
+ * Notifications the user's active rules raise for the current data. Keys are stable per rule,
+ * threshold and period (year for budget use, snapshot date for forecast gap, month for z-score)
+ * or per transaction, so inserting with ignore-duplicates only adds what is new.
+ */
+export function alertNotificationsFor(rules: AlertRule[], ctx: AlertContext): AlertNotificationDraft[] {
+  return rules.filter((r) => r.is_active).flatMap((r) => evaluateRule(r, ctx))
+}
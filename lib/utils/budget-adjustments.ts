@@ -0,0 +1,40 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+import { BudgetTarget } from '@/lib/types'
+
+export type BudgetYtdAdjustment = { category: string; ytd_gbp_delta: number }
+
+/**
+ * Fetch this year's per-category corrections to the sheet's budget figures (split
+ * transactions re-allocated, internal transfers removed). Errors are logged and treated as
+ * no corrections, so budgets still render from the sheet alone.
+ */
+export async function fetchBudgetYtdAdjustments(supabase: SupabaseClient): Promise<BudgetYtdAdjustment[]> {
+  const today = new Date()
+  const { data, error } = await supabase.rpc('get_budget_ytd_adjustments', {
+    p_start: `${today.getFullYear()}-01-01`,
+    p_end: today.toISOString().split('T')[0],
+  })
+  if (error) {
+    console.warn('Could not load budget YTD adjustments:', error)
+    return []
+  }
+  return (data ?? []) as BudgetYtdAdjustment[]
+}
+
+/**
+ * Apply get_budget_ytd_adjustments corrections to sheet budget rows. The delta is a YTD
+ * actual, which the tracking estimate includes, so both move by it. Categories without a
+ * budget row are ignored.
+ */
+export function applyBudgetYtdAdjustments<T extends Pick<BudgetTarget, 'category' | 'ytd_gbp' | 'tracking_est_gbp'>>(
+  budgets: T[],
+  adjustments: BudgetYtdAdjustment[]
+): T[] {
+  if (adjustments.length === 0) return budgets
+  const deltas = new Map(adjustments.map((a) => [a.category, Number(a.ytd_gbp_delta)]))
+  return budgets.map((b) => {
+    const delta = deltas.get(b.category)
+    if (delta === undefined) return b
+    return { ...b, ytd_gbp: (b.ytd_gbp ?? 0) + delta, tracking_est_gbp: (b.tracking_est_gbp ?? 0) + delta }
+  })
+}
@@ -0,0 +1,58 @@
+/** How a category's annual budget is first spread over the months. */
+export type AllocationProfile = 'even' | 'seasonal'
+
+export interface EnvelopeMonth {
+  /** 1-12 */
+  month: number
+  allocated: number
+  /** Spend in the month (positive; refunds reduce it). */
+  spent: number
+  /** Left over from the previous month; always 0 without rollover. */
+  carriedOver: number
+  /** carriedOver + allocated - spent; negative when overspent. */
+  available: number
+}
+
+/** Split an amount into 12 parts in proportion to weights, in pence, so the parts sum exactly. */
+function splitByWeights(amount: number, weights: number[]): number[] {
+  const total = weights.reduce((s, w) => s + w, 0)
+  const pence = Math.round(amount * 100)
+  const parts = weights.map((w) => Math.floor((pence * w) / total))
+  let remainder = pence - parts.reduce((s, p) => s + p, 0)
+  for (let i = 0; remainder > 0; i = (i + 1) % 12, remainder--) parts[i]++
+  return parts.map((p) => p / 100)
+}
+
+/** The annual amount (positive) in 12 equal parts. */
+export function evenAllocations(annual: number): number[] {
+  return splitByWeights(Math.abs(annual), Array(12).fill(1))
+}
+
+/**
+ * The annual amount (positive) spread like last year's spend per month (12 values, positive).
+ * Months with net refunds weigh nothing; with no spend last year it is an even split.
+ */
+export function seasonalAllocations(annual: number, lastYearSpent: number[]): number[] {
+  const weights = lastYearSpent.map((s) => Math.max(s, 0))
+  if (weights.reduce((s, w) => s + w, 0) <= 0) return evenAllocations(annual)
+  return splitByWeights(Math.abs(annual), weights)
+}
+
+/**
+ * Month-by-month envelope for one category. Without rollover every month starts from its own
+ * allocation; with it, each month's available amount (even when negative) carries into the next.
+ * Carry-over starts fresh each January.
+ */
+export function buildEnvelopeMonths(allocations: number[], spent: number[], rollover: boolean): EnvelopeMonth[] {
+  const months: EnvelopeMonth[] = []
+  let carry = 0
+  for (let i = 0; i < 12; i++) {
+    const allocated = allocations[i] ?? 0
+    const monthSpent = spent[i] ?? 0
+    const carriedOver = rollover ? carry : 0
+    const available = Math.round((carriedOver + allocated - monthSpent) * 100) / 100
+    months.push({ month: i + 1, allocated, spent: Math.round(monthSpent * 100) / 100, carriedOver, available })
+    carry = available
+  }
+  return months
+}
@@ -0,0 +1,177 @@
+import type { DetectedRecurringPayment } from '@/lib/utils/detect-recurring-payments'
+
+export type BudgetForecastMethod = 'run_rate' | 'seasonal' | 'recurring'
+
+export const DEFAULT_BUDGET_FORECAST_METHOD: BudgetForecastMethod = 'run_rate'
+
+export const BUDGET_FORECAST_METHODS: { id: BudgetForecastMethod; label: string; description: string }[] = [
+  {
+    id: 'run_rate',
+    label: 'Run rate',
+    description: 'Spend so far this year, scaled up to a full year.',
+  },
+  {
+    id: 'seasonal',
+    label: 'Seasonal',
+    description: 'Adds what you spent over the rest of the year in previous years, scaled to this year’s pace.',
+  },
+  {
+    id: 'recurring',
+    label: 'Recurring aware',
+    description: 'Adds the remaining charges of detected subscriptions and bills, and scales the rest by run rate.',
+  },
+]
+
+export function isBudgetForecastMethod(value: unknown): value is BudgetForecastMethod {
+  return BUDGET_FORECAST_METHODS.some((m) => m.id === value)
+}
+
+/** Prior years the seasonal method averages over. */
+export const SEASONAL_YEARS = 3
+
+/** Cap on how far this year's pace may scale last years' remaining spend. */
+const MAX_SEASONAL_SCALE = 3
+
+/** One transaction (or one split of it) in GBP, signed like transaction_log: money out is negative. */
+export interface ForecastTransaction {
+  /** YYYY-MM-DD */
+  date: string
+  category: string
+  gbp: number
+  /** merchantGroup key the recurring detector groups on; null for splits, which are never recurring. */
+  recurringKey: string | null
+}
+
+export interface BudgetEstimate {
+  category: string
+  ytd_gbp: number
+  tracking_est_gbp: number
+}
+
+interface EstimateOptions {
+  method: BudgetForecastMethod
+  /** YYYY-MM-DD; the year being forecast is this date's year and YTD runs up to it. */
+  asOf: string
+  /** Detected series (GBP) for the recurring method. */
+  recurring?: DetectedRecurringPayment[]
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100
+
+function isLeapYear(year: number): boolean {
+  return (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0
+}
+
+/** 1-based day of the year for a YYYY-MM-DD date. */
+function dayOfYear(date: string): number {
+  const [y, m, d] = date.split('-').map(Number)
+  return Math.round((Date.UTC(y, m - 1, d) - Date.UTC(y, 0, 1)) / 86400000) + 1
+}
+
+function sumByCategory(transactions: ForecastTransaction[]): Map<string, number> {
+  const sums = new Map<string, number>()
+  for (const tx of transactions) sums.set(tx.category, (sums.get(tx.category) ?? 0) + tx.gbp)
+  return sums
+}
+
+/** Charges a series still has due by the end of the year, counting from its next expected date (even if overdue). */
+function remainingOccurrences(series: DetectedRecurringPayment, yearEnd: string): number {
+  const toDateStr = (d: Date) =>
+    `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`
+  const next = new Date(series.nextExpectedDate)
+  let count = 0
+  while (toDateStr(next) <= yearEnd) {
+    count++
+    if (series.frequency === 'Yearly') next.setFullYear(next.getFullYear() + 1)
+    else next.setMonth(next.getMonth() + 1)
+  }
+  return count
+}
+
+/**
+ * Year-to-date actuals and a full-year estimate per category from transactions (this year's,
+ * plus earlier years for the seasonal and recurring methods).
+ *
+ * - run_rate: YTD / days elapsed × days in the year.
+ * - seasonal: YTD plus the average spend after the same calendar day in up to SEASONAL_YEARS
+ *   prior years with data, scaled by this year's YTD against theirs. Falls back to run rate
+ *   without prior data.
+ * - recurring: YTD, plus each detected series' remaining charges this year (series belong to the
+ *   category most of their transactions are in), plus run rate on the non-recurring part.
+ */
+export function estimateBudgets(
+  transactions: ForecastTransaction[],
+  options: EstimateOptions
+): Map<string, BudgetEstimate> {
+  const { method, asOf } = options
+  const year = Number(asOf.slice(0, 4))
+  const yearStart = `${year}-01-01`
+  const yearEnd = `${year}-12-31`
+  const elapsed = dayOfYear(asOf)
+  const daysInYear = isLeapYear(year) ? 366 : 365
+  const runRateFactor = daysInYear / elapsed
+
+  const thisYear = transactions.filter((tx) => tx.date >= yearStart && tx.date <= asOf)
+  const ytd = sumByCategory(thisYear)
+  const estimates = new Map<string, BudgetEstimate>()
+  const set = (category: string, estimate: number) =>
+    estimates.set(category, { category, ytd_gbp: round2(ytd.get(category) ?? 0), tracking_est_gbp: round2(estimate) })
+
+  if (method === 'seasonal') {
+    const monthDay = asOf.slice(5)
+    const priorYears = Array.from(new Set(transactions.map((tx) => Number(tx.date.slice(0, 4)))))
+      .filter((y) => y < year && y >= year - SEASONAL_YEARS)
+    const prior = transactions.filter((tx) => priorYears.includes(Number(tx.date.slice(0, 4))))
+    const priorYtd = sumByCategory(prior.filter((tx) => tx.date.slice(5) <= monthDay))
+    const priorRest = sumByCategory(prior.filter((tx) => tx.date.slice(5) > monthDay))
+
+    const categories = new Set([...ytd.keys(), ...priorRest.keys()])
+    for (const category of categories) {
+      const actual = ytd.get(category) ?? 0
+      if (priorYears.length === 0) {
+        set(category, actual * runRateFactor)
+        continue
+      }
+      const pastYtd = (priorYtd.get(category) ?? 0) / priorYears.length
+      const pastRest = (priorRest.get(category) ?? 0) / priorYears.length
+      const scale = pastYtd !== 0 && actual !== 0
+        ? Math.min(Math.max(actual / pastYtd, 0), MAX_SEASONAL_SCALE)
+        : 1
+      set(category, actual + pastRest * scale)
+    }
+    return estimates
+  }
+
+  if (method === 'recurring') {
+    const categoryCounts = new Map<string, Map<string, number>>()
+    for (const tx of transactions) {
+      if (!tx.recurringKey) continue
+      const counts = categoryCounts.get(tx.recurringKey) ?? new Map<string, number>()
+      counts.set(tx.category, (counts.get(tx.category) ?? 0) + 1)
+      categoryCounts.set(tx.recurringKey, counts)
+    }
+
+    const seriesKeys = new Set<string>()
+    const upcoming = new Map<string, number>()
+    for (const series of options.recurring ?? []) {
+      const counts = categoryCounts.get(series.counterpartyPattern)
+      if (!counts) continue
+      const category = Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0][0]
+      seriesKeys.add(series.counterpartyPattern)
+      const due = remainingOccurrences(series, yearEnd) * -series.averageAmount
+      upcoming.set(category, (upcoming.get(category) ?? 0) + due)
+    }
+
+    const recurringYtd = sumByCategory(thisYear.filter((tx) => tx.recurringKey && seriesKeys.has(tx.recurringKey)))
+    const categories = new Set([...ytd.keys(), ...upcoming.keys()])
+    for (const category of categories) {
+      const actual = ytd.get(category) ?? 0
+      const other = actual - (recurringYtd.get(category) ?? 0)
+      set(category, actual + other * (runRateFactor - 1) + (upcoming.get(category) ?? 0))
+    }
+    return estimates
+  }
+
+  for (const [category, actual] of ytd) set(category, actual * runRateFactor)
+  return estimates
+}
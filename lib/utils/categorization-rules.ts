@@ -0,0 +1,129 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+import { z } from 'zod'
+import { CategorizationRule } from '@/lib/types'
+import { nativeAmount } from './currency'
+
+/** Category given to imported rows that no rule or source column categorized. */
+export const UNCATEGORIZED = 'Uncategorized'
+
+/** The fields a rule looks at; satisfied by transaction_log rows and not-yet-inserted import rows. */
+export interface CategorizableTransaction {
+  counterparty: string | null
+  amount_usd: number | null
+  amount_gbp: number | null
+  amount_eur?: number | null
+  /** Native amount in `currency`; rows without it fall back to the matching legacy column. */
+  amount?: number | null
+  currency?: string | null
+}
+
+export type RuleInput = Pick<
+  CategorizationRule,
+  'counterparty_pattern' | 'match_type' | 'min_amount' | 'max_amount' | 'currency' | 'category'
+>
+
+/** Request body for creating or dry-running a rule (shared by the rules API routes). */
+export const CategorizationRuleInputSchema = z
+  .object({
+    counterparty_pattern: z.string().trim().min(1).nullable().default(null),
+    match_type: z.enum(['contains', 'regex']).default('contains'),
+    min_amount: z.number().min(0).nullable().default(null),
+    max_amount: z.number().min(0).nullable().default(null),
+    currency: z.string().regex(/^[A-Z]{3}$/, 'Expected an ISO currency code').nullable().default(null),
+    category: z.string().trim().min(1),
+  })
+  .refine((r) => r.counterparty_pattern != null || r.min_amount != null || r.max_amount != null || r.currency != null, {
+    message: 'A rule needs at least one condition',
+  })
+  .refine((r) => r.min_amount == null || r.max_amount == null || r.min_amount <= r.max_amount, {
+    message: 'min_amount must not exceed max_amount',
+    path: ['max_amount'],
+  })
+  .refine(
+    (r) => {
+      try {
+        compileRulePattern(r)
+        return true
+      } catch {
+        return false
+      }
+    },
+    { message: 'Invalid regular expression', path: ['counterparty_pattern'] }
+  )
+
+/**
+ * Fetch the user's active rules in evaluation order (priority ascending, then oldest first).
+ * Returns [] on error so callers fall back to uncategorized rather than failing the write.
+ */
+export async function fetchCategorizationRules(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<CategorizationRule[]> {
+  const { data, error } = await supabase
+    .from('categorization_rules')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('is_active', true)
+    .order('priority', { ascending: true })
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    console.error('fetchCategorizationRules: select error', error)
+    return []
+  }
+  return (data ?? []) as CategorizationRule[]
+}
+
+/** Throws when a regex rule's pattern does not compile; used to validate rules before saving. */
+export function compileRulePattern(rule: Pick<RuleInput, 'counterparty_pattern' | 'match_type'>): RegExp | null {
+  if (!rule.counterparty_pattern) return null
+  if (rule.match_type === 'regex') return new RegExp(rule.counterparty_pattern, 'i')
+  const escaped = rule.counterparty_pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  return new RegExp(escaped, 'i')
+}
+
+/** Whether a single rule matches a transaction. Invalid regex patterns never match. */
+export function ruleMatches(rule: RuleInput, tx: CategorizableTransaction): boolean {
+  if (rule.counterparty_pattern) {
+    let pattern: RegExp | null
+    try {
+      pattern = compileRulePattern(rule)
+    } catch {
+      return false
+    }
+    if (!pattern || !pattern.test(tx.counterparty ?? '')) return false
+  }
+
+  if (rule.currency != null || rule.min_amount != null || rule.max_amount != null) {
+    const native = nativeAmount(tx)
+    if (!native) return false
+    if (rule.currency != null && native.currency !== rule.currency) return false
+    const abs = Math.abs(native.amount)
+    if (rule.min_amount != null && abs < rule.min_amount) return false
+    if (rule.max_amount != null && abs > rule.max_amount) return false
+  }
+
+  return true
+}
+
+/** Category from the first matching rule (rules must already be in evaluation order), or null. */
+export function categorizeTransaction(
+  rules: RuleInput[],
+  tx: CategorizableTransaction
+): string | null {
+  for (const rule of rules) {
+    if (ruleMatches(rule, tx)) return rule.category
+  }
+  return null
+}
+
+/**
+ * Dry-run a rule on history: rows the rule matches whose category would change.
+ * Evaluates the rule on its own, as if it were the first rule.
+ */
+export function dryRunRule<T extends CategorizableTransaction & { category: string }>(
+  rule: RuleInput,
+  transactions: T[]
+): T[] {
+  return transactions.filter((tx) => tx.category !== rule.category && ruleMatches(rule, tx))
+}
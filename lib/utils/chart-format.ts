@@ -1,8 +1,10 @@
+import { getCurrencySymbol } from './currency'
+
 /**
  * Short format for chart axis/tooltips on mobile (e.g. £10k, $1.2M).
  */
 export function formatChartNumber(value: number, currency: string): string {
-  const symbol = currency === 'USD' ? '$' : '£'
+  const symbol = getCurrencySymbol(currency)
   const abs = Math.abs(value)
   if (abs >= 1_000_000) {
     return `${symbol}${(value / 1_000_000).toFixed(1)}M`
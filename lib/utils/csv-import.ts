@@ -0,0 +1,357 @@
+import type { CsvColumnMapping, CsvDateFormat, CsvDecimalSeparator } from '@/lib/types'
+import { parseCurrencyCode, type CurrencyCode, type DisplayCurrency } from './currency'
+
+export interface ParsedCsvTransaction {
+  /** 1-based row number in the source file (including header/preamble), for error messages. */
+  rowNumber: number
+  date: string
+  category: string
+  counterparty: string | null
+  amount: number
+  currency: CurrencyCode
+}
+
+export interface CsvRowError {
+  rowNumber: number
+  reason: string
+}
+
+export interface CsvParseResult {
+  transactions: ParsedCsvTransaction[]
+  errors: CsvRowError[]
+}
+
+export const DEFAULT_CSV_MAPPING: CsvColumnMapping = {
+  date: null,
+  category: null,
+  counterparty: null,
+  amount: null,
+  debit: null,
+  credit: null,
+  currency: null,
+  dateFormat: 'auto',
+  decimalSeparator: 'auto',
+  signConvention: 'signed',
+  defaultCurrency: 'USD',
+  defaultCategory: 'Uncategorized',
+  skipRows: 0,
+}
+
+/**
+ * Parse CSV text into rows of cells. Handles quoted fields (including embedded
+ * delimiters, newlines and "" escapes) and auto-detects comma, semicolon or tab delimiters.
+ */
+export function parseCsvText(text: string): string[][] {
+  const input = text.replace(/^\uFEFF/, '')
+  const firstLine = input.split(/\r?\n/, 1)[0] ?? ''
+  const delimiter = [',', ';', '\t'].reduce((best, d) =>
+    firstLine.split(d).length > firstLine.split(best).length ? d : best
+  , ',')
+
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i]
+    if (inQuotes) {
+      if (ch === '"') {
+        if (input[i + 1] === '"') {
+          field += '"'
+          i++
+        } else {
+          inQuotes = false
+        }
+      } else {
+        field += ch
+      }
+      continue
+    }
+    if (ch === '"') {
+      inQuotes = true
+    } else if (ch === delimiter) {
+      row.push(field)
+      field = ''
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && input[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += ch
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  // Drop fully empty lines (trailing newline, blank separators in bank exports)
+  return rows.filter((r) => r.some((cell) => cell.trim() !== ''))
+}
+
+/**
+ * Guess a column mapping from header names. Only fills columns it recognises;
+ * everything else keeps the defaults so the user can map it in the dialog.
+ */
+export function guessCsvMapping(headers: string[]): CsvColumnMapping {
+  const normalized = headers.map((h) => h.toLowerCase().trim())
+  const find = (patterns: RegExp[]): number | null => {
+    for (const pattern of patterns) {
+      const idx = normalized.findIndex((h) => pattern.test(h))
+      if (idx !== -1) return idx
+    }
+    return null
+  }
+
+  const mapping: CsvColumnMapping = {
+    ...DEFAULT_CSV_MAPPING,
+    date: find([/^(transaction |posted |posting )?date$/, /date/]),
+    category: find([/^category$/, /category/, /^type$/]),
+    counterparty: find([/^(counterparty|payee|merchant|description|name)$/, /description|payee|merchant|narrative|details/]),
+    amount: find([/^amount$/, /amount/, /^value$/]),
+    debit: find([/^(debit|paid out|money out|withdrawal)s?( amount)?$/, /debit|paid out|money out/]),
+    credit: find([/^(credit|paid in|money in|deposit)s?( amount)?$/, /credit|paid in|money in/]),
+    currency: find([/^(currency|ccy)$/, /currency/]),
+  }
+  if (mapping.amount === null && mapping.debit !== null && mapping.credit !== null) {
+    mapping.signConvention = 'debit_credit'
+  }
+  return mapping
+}
+
+/** Currency symbols, codes and spaces, which an amount cell may carry around the number. */
+function stripAmountDecoration(raw: string): string {
+  return raw.replace(/(GBP|USD|EUR)/gi, '').replace(/[£$€\s]/g, '')
+}
+
+/**
+ * The decimal separator one amount shows, or null when it cannot tell: no separator, or a single
+ * one followed by exactly three digits ("1,234" is 1234 in a UK export and 1.234 in a German one).
+ */
+function amountDecimalSeparator(raw: string): Exclude<CsvDecimalSeparator, 'auto'> | null {
+  const s = stripAmountDecoration(raw)
+  const dot = s.lastIndexOf('.')
+  const comma = s.lastIndexOf(',')
+  if (dot >= 0 && comma >= 0) return dot > comma ? '.' : ','
+  if (dot < 0 && comma < 0) return null
+  const sep = dot >= 0 ? '.' : ','
+  // A repeated separator groups thousands, so the other one is the decimal
+  if (s.split(sep).length > 2) return sep === '.' ? ',' : '.'
+  return /[.,]\d{3}\)?-?$/.test(s) ? null : sep
+}
+
+/** True when an amount has a separator that could be either decimal or thousands. */
+function isAmbiguousAmount(raw: string): boolean {
+  return /[.,]/.test(stripAmountDecoration(raw)) && amountDecimalSeparator(raw) === null
+}
+
+/**
+ * Pick the decimal separator for a whole file from the first amount that shows it (like
+ * detectCsvDateFormat). Null when no amount does; ambiguous amounts are then refused.
+ */
+export function detectCsvDecimalSeparator(values: string[]): Exclude<CsvDecimalSeparator, 'auto'> | null {
+  for (const value of values) {
+    const sep = amountDecimalSeparator(value.trim())
+    if (sep) return sep
+  }
+  return null
+}
+
+/**
+ * Parse an amount cell: strips currency symbols, thousands separators and spaces,
+ * treats (123.45) and trailing minus (123.45-) as negative. With decimalSeparator null the
+ * separator is read from the value itself, and an ambiguous value ("1,234") is refused.
+ * Returns null when not numeric.
+ */
+export function parseCsvAmount(
+  raw: string | undefined,
+  decimalSeparator: Exclude<CsvDecimalSeparator, 'auto'> | null = '.'
+): number | null {
+  if (raw == null) return null
+  let s = raw.trim()
+  if (!s) return null
+  let negative = false
+  if (/^\(.*\)$/.test(s)) {
+    negative = true
+    s = s.slice(1, -1)
+  }
+  if (s.endsWith('-')) {
+    negative = true
+    s = s.slice(0, -1)
+  }
+  s = stripAmountDecoration(s)
+  const sep = decimalSeparator ?? amountDecimalSeparator(s)
+  if (sep === null && /[.,]/.test(s)) return null
+  s = sep === ',' ? s.replace(/\./g, '').replace(',', '.') : s.replace(/,/g, '')
+  if (s.startsWith('-')) {
+    negative = !negative
+    s = s.slice(1)
+  } else if (s.startsWith('+')) {
+    s = s.slice(1)
+  }
+  if (!/^\d*\.?\d+$/.test(s)) return null
+  const num = parseFloat(s)
+  return negative ? -num : num
+}
+
+const ISO_DATE = /^(\d{4})-(\d{1,2})-(\d{1,2})/
+const SLASH_DATE = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4})$/
+
+/**
+ * Pick DD/MM vs MM/DD for a whole file by looking for a day part above 12.
+ * Falls back to DD/MM for GBP and EUR exports and MM/DD otherwise when every date is ambiguous.
+ */
+export function detectCsvDateFormat(
+  values: string[],
+  defaultCurrency: DisplayCurrency
+): Exclude<CsvDateFormat, 'auto'> {
+  let sawSlash = false
+  for (const value of values) {
+    const v = value.trim()
+    if (ISO_DATE.test(v)) continue
+    const m = v.match(SLASH_DATE)
+    if (!m) continue
+    sawSlash = true
+    if (parseInt(m[1], 10) > 12) return 'DD/MM/YYYY'
+    if (parseInt(m[2], 10) > 12) return 'MM/DD/YYYY'
+  }
+  if (!sawSlash) return 'YYYY-MM-DD'
+  return defaultCurrency === 'USD' ? 'MM/DD/YYYY' : 'DD/MM/YYYY'
+}
+
+/** Parse a date cell in the given format to YYYY-MM-DD, or null when invalid. */
+export function parseCsvDate(raw: string | undefined, format: Exclude<CsvDateFormat, 'auto'>): string | null {
+  if (!raw) return null
+  const v = raw.trim()
+  let year: number
+  let month: number
+  let day: number
+  const iso = v.match(ISO_DATE)
+  if (iso) {
+    year = parseInt(iso[1], 10)
+    month = parseInt(iso[2], 10)
+    day = parseInt(iso[3], 10)
+  } else {
+    const m = v.match(SLASH_DATE)
+    if (!m || format === 'YYYY-MM-DD') return null
+    const [a, b] = [parseInt(m[1], 10), parseInt(m[2], 10)]
+    day = format === 'DD/MM/YYYY' ? a : b
+    month = format === 'DD/MM/YYYY' ? b : a
+    year = parseInt(m[3], 10)
+    if (m[3].length === 2) year += 2000
+  }
+  const date = new Date(Date.UTC(year, month - 1, day))
+  if (
+    isNaN(date.getTime()) ||
+    date.getUTCFullYear() !== year ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day
+  ) {
+    return null
+  }
+  return date.toISOString().split('T')[0]
+}
+
+/**
+ * Currency from a currency cell (a symbol or any ISO code), else from a £/$/€ symbol in the amount
+ * cell, else the default.
+ */
+function detectCurrency(
+  currencyCell: string | undefined,
+  amountCells: (string | undefined)[],
+  fallback: DisplayCurrency
+): CurrencyCode {
+  const c = (currencyCell ?? '').trim().toUpperCase()
+  if (c === '£') return 'GBP'
+  if (c === '$') return 'USD'
+  if (c === '€') return 'EUR'
+  const code = parseCurrencyCode(c)
+  if (code) return code
+  const joined = amountCells.filter(Boolean).join(' ')
+  if (joined.includes('£') || /GBP/i.test(joined)) return 'GBP'
+  if (joined.includes('$') || /USD/i.test(joined)) return 'USD'
+  if (joined.includes('€') || /EUR/i.test(joined)) return 'EUR'
+  return fallback
+}
+
+/**
+ * Apply a column mapping to raw CSV rows (header row included at rows[mapping.skipRows]).
+ * Returns transactions in app sign convention (expenses negative) plus per-row errors.
+ */
+export function parseCsvTransactions(rows: string[][], mapping: CsvColumnMapping): CsvParseResult {
+  const headerIndex = mapping.skipRows
+  const dataRows = rows.slice(headerIndex + 1)
+  const transactions: ParsedCsvTransaction[] = []
+  const errors: CsvRowError[] = []
+
+  if (mapping.date === null) {
+    return { transactions, errors: [{ rowNumber: headerIndex + 1, reason: 'No date column mapped' }] }
+  }
+  if (mapping.signConvention === 'debit_credit' ? mapping.debit === null && mapping.credit === null : mapping.amount === null) {
+    return { transactions, errors: [{ rowNumber: headerIndex + 1, reason: 'No amount column mapped' }] }
+  }
+
+  const dateFormat = mapping.dateFormat === 'auto'
+    ? detectCsvDateFormat(dataRows.map((r) => r[mapping.date!] ?? ''), mapping.defaultCurrency)
+    : mapping.dateFormat
+  const amountColumns = mapping.signConvention === 'debit_credit' ? [mapping.debit, mapping.credit] : [mapping.amount]
+  const decimalSeparator = (mapping.decimalSeparator ?? 'auto') === 'auto'
+    ? detectCsvDecimalSeparator(dataRows.flatMap((r) => amountColumns.map((c) => (c === null ? '' : r[c] ?? ''))))
+    : (mapping.decimalSeparator as Exclude<CsvDecimalSeparator, 'auto'>)
+
+  dataRows.forEach((row, i) => {
+    const rowNumber = headerIndex + i + 2
+    const cell = (idx: number | null) => (idx === null ? undefined : row[idx])
+
+    const date = parseCsvDate(cell(mapping.date), dateFormat)
+    if (!date) {
+      errors.push({ rowNumber, reason: `Invalid date "${cell(mapping.date) ?? ''}"` })
+      return
+    }
+
+    let amount: number | null
+    if (mapping.signConvention === 'debit_credit') {
+      const debit = parseCsvAmount(cell(mapping.debit), decimalSeparator)
+      const credit = parseCsvAmount(cell(mapping.credit), decimalSeparator)
+      amount = debit == null && credit == null ? null : (credit ?? 0) - Math.abs(debit ?? 0)
+    } else {
+      const parsed = parseCsvAmount(cell(mapping.amount), decimalSeparator)
+      amount = parsed == null ? null : mapping.signConvention === 'inverted' ? -parsed : parsed
+    }
+    if (amount == null || amount === 0) {
+      const raw = mapping.signConvention === 'debit_credit'
+        ? `${cell(mapping.debit) ?? ''}/${cell(mapping.credit) ?? ''}`
+        : cell(mapping.amount) ?? ''
+      const ambiguous = decimalSeparator === null && amountColumns.some((c) => isAmbiguousAmount(cell(c) ?? ''))
+      errors.push({
+        rowNumber,
+        reason: ambiguous
+          ? `Ambiguous amount "${raw}": set the decimal separator`
+          : `Invalid or zero amount "${raw}"`,
+      })
+      return
+    }
+
+    const counterparty = (cell(mapping.counterparty) ?? '').trim() || null
+    const category = (cell(mapping.category) ?? '').trim() || mapping.defaultCategory
+    const currency = detectCurrency(
+      cell(mapping.currency),
+      [cell(mapping.amount), cell(mapping.debit), cell(mapping.credit)],
+      mapping.defaultCurrency
+    )
+
+    transactions.push({
+      rowNumber,
+      date,
+      category,
+      counterparty,
+      amount: Math.round(amount * 100) / 100,
+      currency,
+    })
+  })
+
+  return { transactions, errors }
+}
@@ -0,0 +1,119 @@
+/** Currencies the dashboard can display and report in. */
+export type DisplayCurrency = 'GBP' | 'USD' | 'EUR'
+
+/** ISO 4217 code of a row's native currency (any currency, not only the display ones). */
+export type CurrencyCode = string
+
+export const DISPLAY_CURRENCIES: { id: DisplayCurrency; symbol: string; label: string }[] = [
+  { id: 'GBP', symbol: '£', label: '£ GBP' },
+  { id: 'USD', symbol: '$', label: '$ USD' },
+  { id: 'EUR', symbol: '€', label: '€ EUR' },
+]
+
+/** Used when fx_rates and fx_rate_current have no EURUSD rate. */
+export const FALLBACK_EURUSD = 1.08
+
+export function isDisplayCurrency(value: unknown): value is DisplayCurrency {
+  return value === 'GBP' || value === 'USD' || value === 'EUR'
+}
+
+export function isCurrencyCode(value: unknown): value is CurrencyCode {
+  return typeof value === 'string' && /^[A-Z]{3}$/.test(value)
+}
+
+export function getCurrencySymbol(currency: string): string {
+  return DISPLAY_CURRENCIES.find((c) => c.id === currency)?.symbol ?? '£'
+}
+
+/**
+ * Parse a sheet/import currency cell: the ISO code it starts with (any case, e.g. "usd", "CHF ",
+ * "GBP (sterling)"), or null when it is blank or does not start with three letters.
+ */
+export function parseCurrencyCode(raw: string | null | undefined): CurrencyCode | null {
+  const match = /^([A-Z]{3})/.exec((raw ?? '').trim().toUpperCase())
+  return match ? match[1] : null
+}
+
+/** Rates against the dollar, as stored in fx_rates / fx_rate_current (and fx_quotes). */
+export interface FxRates {
+  /** USD per 1 GBP */
+  gbpusd: number
+  /** USD per 1 EUR */
+  eurusd: number
+  /** USD per 1 unit of other currencies (CHF, CAD, ...), from fx_quotes */
+  others?: Record<CurrencyCode, number>
+  /** Date of the GBPUSD quote (YYYY-MM-DD); null when no rate is stored and the default is in use */
+  asOf?: string | null
+}
+
+function usdPer(currency: string, rates: FxRates): number | null {
+  switch (currency.toUpperCase()) {
+    case 'USD':
+      return 1
+    case 'GBP':
+      return rates.gbpusd
+    case 'EUR':
+      return rates.eurusd
+    default:
+      return rates.others?.[currency.toUpperCase()] ?? null
+  }
+}
+
+/** Whether `rates` can convert `currency` (convertCurrency passes it through unchanged otherwise). */
+export function hasFxRate(currency: string, rates: FxRates): boolean {
+  return !!usdPer(currency, rates)
+}
+
+/**
+ * Convert between currencies through the dollar (GBP→EUR is GBPUSD / EURUSD).
+ * Amounts in a currency without a rate are returned unchanged.
+ */
+export function convertCurrency(amount: number, from: string, to: string, rates: FxRates): number {
+  if (from.toUpperCase() === to.toUpperCase()) return amount
+  const fromUsd = usdPer(from, rates)
+  const toUsd = usdPer(to, rates)
+  if (!fromUsd || !toUsd) return amount
+  return (amount * fromUsd) / toUsd
+}
+
+/**
+ * Display value of a figure stored as GBP and USD columns (and EUR, for transactions): the
+ * matching column when it is set, otherwise the USD column converted (or GBP when USD is missing).
+ */
+export function amountFromGbpUsd(
+  gbp: number | null | undefined,
+  usd: number | null | undefined,
+  to: DisplayCurrency,
+  rates: FxRates,
+  eur?: number | null
+): number {
+  if (to === 'GBP') return gbp ?? (usd != null ? convertCurrency(usd, 'USD', 'GBP', rates) : 0)
+  if (to === 'USD') return usd ?? (gbp != null ? convertCurrency(gbp, 'GBP', 'USD', rates) : 0)
+  if (eur != null) return eur
+  if (usd != null) return convertCurrency(usd, 'USD', to, rates)
+  return gbp != null ? convertCurrency(gbp, 'GBP', to, rates) : 0
+}
+
+/** A money row in either shape: native amount + currency, or the legacy per-currency columns. */
+export interface MoneyColumns {
+  amount?: number | null
+  currency?: string | null
+  amount_usd?: number | null
+  amount_gbp?: number | null
+  amount_eur?: number | null
+}
+
+/**
+ * Native amount and currency of a row: `amount` in `currency` when set, else the legacy column
+ * matching the currency (blank currency means USD), else whichever of USD / GBP is filled.
+ */
+export function nativeAmount(row: MoneyColumns): { amount: number; currency: CurrencyCode } | null {
+  const currency = (row.currency ?? '').trim().toUpperCase() || 'USD'
+  if (row.amount != null) return { amount: row.amount, currency }
+  if (currency === 'GBP' && row.amount_gbp != null) return { amount: row.amount_gbp, currency: 'GBP' }
+  if (currency === 'EUR' && row.amount_eur != null) return { amount: row.amount_eur, currency: 'EUR' }
+  if (currency === 'USD' && row.amount_usd != null) return { amount: row.amount_usd, currency: 'USD' }
+  if (row.amount_usd != null) return { amount: row.amount_usd, currency: 'USD' }
+  if (row.amount_gbp != null) return { amount: row.amount_gbp, currency: 'GBP' }
+  return null
+}
@@ -0,0 +1,146 @@
+import { TransactionLog } from '@/lib/types'
+import { nativeAmount } from './currency'
+
+export interface DuplicateCandidate {
+  /** Stable key for the pair (sorted row fingerprints); survives sheet re-sync, unlike row ids. */
+  pairKey: string
+  a: TransactionLog
+  b: TransactionLog
+  /** 0..1 weighted score of amount, date and counterparty similarity. */
+  score: number
+  daysApart: number
+  counterpartySimilarity: number
+}
+
+export interface DetectDuplicatesOptions {
+  /** Maximum days between the two rows. Default 3 (card authorisation vs settlement date). */
+  maxDaysApart?: number
+  /** Minimum score to report a pair. Default 0.6. */
+  minScore?: number
+  /** Pair keys the user has dismissed. */
+  dismissedPairKeys?: Set<string>
+}
+
+const AMOUNT_WEIGHT = 0.4
+const DATE_WEIGHT = 0.3
+const COUNTERPARTY_WEIGHT = 0.3
+
+/** Relative difference under which amounts count as "similar" (e.g. FX rounding between sources). */
+const AMOUNT_TOLERANCE = 0.01
+
+/**
+ * Normalize a counterparty for comparison: lowercase, drop digits/punctuation and
+ * card-processor noise ("*", "ltd", "inc", "pos", ...) so "AMZN Mktp UK*2X4" ~ "amzn mktp uk".
+ */
+export function normalizeCounterparty(value: string | null | undefined): string {
+  return (value ?? '')
+    .toLowerCase()
+    .replace(/[^a-z\s]/g, ' ')
+    .split(/\s+/)
+    .filter((w) => w.length > 1 && !['ltd', 'inc', 'llc', 'plc', 'pos', 'the', 'co', 'com'].includes(w))
+    .join(' ')
+}
+
+/** Stable content fingerprint for a row (row ids change on every sheet sync). */
+export function transactionFingerprint(tx: TransactionLog): string {
+  return [
+    tx.data_source ?? 'google_sheet',
+    tx.date.split('T')[0],
+    normalizeCounterparty(tx.counterparty),
+    tx.amount_usd ?? '',
+    tx.amount_gbp ?? '',
+  ].join('|')
+}
+
+export function duplicatePairKey(a: TransactionLog, b: TransactionLog): string {
+  return [transactionFingerprint(a), transactionFingerprint(b)].sort().join('||')
+}
+
+function amountScore(a: TransactionLog, b: TransactionLog): number {
+  const x = nativeAmount(a)
+  const y = nativeAmount(b)
+  if (!x || !y || x.currency !== y.currency) return 0
+  if (Math.sign(x.amount) !== Math.sign(y.amount)) return 0
+  if (x.amount === y.amount) return 1
+  const diff = Math.abs(x.amount - y.amount) / Math.max(Math.abs(x.amount), Math.abs(y.amount))
+  return diff <= AMOUNT_TOLERANCE ? 0.7 : 0
+}
+
+function bigrams(s: string): string[] {
+  const compact = s.replace(/\s/g, '')
+  const result: string[] = []
+  for (let i = 0; i < compact.length - 1; i++) result.push(compact.slice(i, i + 2))
+  return result
+}
+
+/** Counterparty similarity in 0..1: exact, prefix/containment, then bigram Dice coefficient. */
+export function counterpartySimilarity(a: string | null, b: string | null): number {
+  const x = normalizeCounterparty(a)
+  const y = normalizeCounterparty(b)
+  if (!x && !y) return 0.5 // both blank: neither evidence for nor against
+  if (!x || !y) return 0
+  if (x === y) return 1
+  const shorter = x.length <= y.length ? x : y
+  const longer = x.length <= y.length ? y : x
+  if (shorter.length >= 4 && longer.includes(shorter)) return 0.85
+  const bx = bigrams(x)
+  const by = bigrams(y)
+  if (bx.length === 0 || by.length === 0) return 0
+  const counts = new Map<string, number>()
+  bx.forEach((g) => counts.set(g, (counts.get(g) ?? 0) + 1))
+  let overlap = 0
+  by.forEach((g) => {
+    const n = counts.get(g) ?? 0
+    if (n > 0) {
+      overlap++
+      counts.set(g, n - 1)
+    }
+  })
+  return (2 * overlap) / (bx.length + by.length)
+}
+
+function dayNumber(date: string): number {
+  return Math.floor(new Date(date.split('T')[0] + 'T00:00:00Z').getTime() / 86400000)
+}
+
+/**
+ * Find likely duplicate transactions: same-currency amounts within 1%, dates within
+ * `maxDaysApart`, and similar counterparties. Pairs where both rows come from the sheet
+ * are skipped (the sheet may legitimately repeat rows, and those can only be fixed there).
+ * Returns candidates sorted by score, highest first.
+ */
+export function detectDuplicateTransactions(
+  transactions: TransactionLog[],
+  options: DetectDuplicatesOptions = {}
+): DuplicateCandidate[] {
+  const { maxDaysApart = 3, minScore = 0.6, dismissedPairKeys } = options
+  const sorted = transactions
+    .filter((tx) => tx.date && nativeAmount(tx))
+    .map((tx) => ({ tx, day: dayNumber(tx.date) }))
+    .sort((p, q) => p.day - q.day)
+
+  const candidates: DuplicateCandidate[] = []
+  for (let i = 0; i < sorted.length; i++) {
+    for (let j = i + 1; j < sorted.length && sorted[j].day - sorted[i].day <= maxDaysApart; j++) {
+      const a = sorted[i].tx
+      const b = sorted[j].tx
+      const sourceA = a.data_source ?? 'google_sheet'
+      const sourceB = b.data_source ?? 'google_sheet'
+      if (sourceA === 'google_sheet' && sourceB === 'google_sheet') continue
+
+      const amount = amountScore(a, b)
+      if (amount === 0) continue
+      const daysApart = sorted[j].day - sorted[i].day
+      const date = 1 - daysApart / (maxDaysApart + 1)
+      const similarity = counterpartySimilarity(a.counterparty, b.counterparty)
+      const score = AMOUNT_WEIGHT * amount + DATE_WEIGHT * date + COUNTERPARTY_WEIGHT * similarity
+      if (score < minScore) continue
+
+      const pairKey = duplicatePairKey(a, b)
+      if (dismissedPairKeys?.has(pairKey)) continue
+      candidates.push({ pairKey, a, b, score, daysApart, counterpartySimilarity: similarity })
+    }
+  }
+
+  return candidates.sort((x, y) => y.score - x.score)
+}
@@ -0,0 +1,130 @@
+import { TransactionLog } from '@/lib/types'
+import { counterpartySimilarity, transactionFingerprint } from '@/lib/utils/detect-duplicate-transactions'
+import { nativeAmount } from '@/lib/utils/currency'
+
+export interface TransferCandidate {
+  /** Stable key for the pair (leg fingerprints, out leg first); survives sheet re-sync. */
+  pairKey: string
+  /** Money leaving (negative amount). */
+  out: TransactionLog
+  /** Money arriving (positive amount). */
+  in: TransactionLog
+  daysApart: number
+  /** USD per GBP implied by a cross-currency pair; null for same-currency pairs. */
+  impliedRate: number | null
+  /**
+   * Same-currency pair with no transfer wording: equal and opposite amounts alone are weak
+   * evidence, so it is only suggested and does not count as a transfer until the user confirms.
+   */
+  suggested: boolean
+}
+
+export interface DetectTransfersOptions {
+  /** Maximum days between the legs. Default 3 (transfers can take a few working days to land). */
+  maxDaysApart?: number
+  /** GBPUSD rate (USD per 1 GBP) for a date, used to check cross-currency pairs. */
+  getRate: (date: string) => number
+  /** Allowed relative gap between the implied and market rate (spread and fees). Default 2%. */
+  rateTolerance?: number
+  /** Pair keys the user unpaired; never suggested again. */
+  rejectedPairKeys?: Set<string>
+  /** Fingerprints of rows already in a pair; each row can be in one transfer only. */
+  pairedFingerprints?: Set<string>
+}
+
+/** Counterparty wording that marks a movement between own accounts. */
+const TRANSFER_PATTERN = /\b(transfer|tfr|trf|xfer|wise|transferwise|revolut|fx|exchange|top ?up|savings|own account|internal)\b/i
+
+/** Money coming in under these categories is income, never the other leg of a transfer. */
+const NON_TRANSFER_CATEGORIES = new Set(['Income', 'Gift Money'])
+
+/** Same-currency legs must match to the penny; there is no FX to blur them. */
+const SAME_CURRENCY_TOLERANCE = 0.005
+
+function dayNumber(date: string): number {
+  return Math.floor(new Date(date.split('T')[0] + 'T00:00:00Z').getTime() / 86400000)
+}
+
+export function transferPairKey(out: TransactionLog, incoming: TransactionLog): string {
+  return `${transactionFingerprint(out)}>>${transactionFingerprint(incoming)}`
+}
+
+export function looksLikeTransfer(tx: Pick<TransactionLog, 'counterparty'>): boolean {
+  return TRANSFER_PATTERN.test(tx.counterparty ?? '')
+}
+
+/**
+ * Find internal transfers: a negative and a positive row within `maxDaysApart` days whose
+ * amounts match, either exactly in the same currency or, across GBP/USD, within
+ * `rateTolerance` of the fx_rates rate for the outgoing day. Same-counterparty pairs that
+ * don't read as a transfer are skipped (that is a purchase and its refund). Each row joins at
+ * most one pair; the best match (transfer wording, then fewest days, then closest amount) wins.
+ */
+export function detectInternalTransfers(
+  transactions: TransactionLog[],
+  options: DetectTransfersOptions
+): TransferCandidate[] {
+  const { maxDaysApart = 3, getRate, rateTolerance = 0.02, rejectedPairKeys, pairedFingerprints } = options
+
+  const legs = transactions
+    .filter(
+      (tx) =>
+        tx.date &&
+        !NON_TRANSFER_CATEGORIES.has(tx.category) &&
+        !pairedFingerprints?.has(transactionFingerprint(tx))
+    )
+    .map((tx) => ({ tx, native: nativeAmount(tx), day: dayNumber(tx.date) }))
+    .filter((l): l is typeof l & { native: NonNullable<typeof l.native> } => l.native != null && l.native.amount !== 0)
+  const outs = legs.filter((l) => l.native.amount < 0)
+  const ins = legs.filter((l) => l.native.amount > 0).sort((p, q) => p.day - q.day)
+
+  const scored: (TransferCandidate & { rank: number })[] = []
+  for (const o of outs) {
+    for (const i of ins) {
+      if (i.day > o.day + maxDaysApart) break
+      const daysApart = Math.abs(i.day - o.day)
+      if (daysApart > maxDaysApart) continue
+
+      const sent = -o.native.amount
+      const received = i.native.amount
+      let impliedRate: number | null = null
+      let amountGap: number
+      if (o.native.currency === i.native.currency) {
+        amountGap = Math.abs(sent - received)
+        if (amountGap > SAME_CURRENCY_TOLERANCE) continue
+      } else {
+        // getRate is GBPUSD, so only GBP <-> USD pairs can be checked across currencies
+        if (![o.native.currency, i.native.currency].every((c) => c === 'GBP' || c === 'USD')) continue
+        impliedRate = o.native.currency === 'GBP' ? received / sent : sent / received
+        const rate = getRate(o.tx.date)
+        amountGap = Math.abs(impliedRate / rate - 1)
+        if (amountGap > rateTolerance) continue
+      }
+
+      const worded = looksLikeTransfer(o.tx) || looksLikeTransfer(i.tx)
+      if (!worded && counterpartySimilarity(o.tx.counterparty, i.tx.counterparty) >= 0.6) continue
+
+      const pairKey = transferPairKey(o.tx, i.tx)
+      if (rejectedPairKeys?.has(pairKey)) continue
+      scored.push({
+        pairKey,
+        out: o.tx,
+        in: i.tx,
+        daysApart,
+        impliedRate,
+        suggested: !worded && impliedRate == null,
+        rank: (worded ? 0 : 100) + daysApart + amountGap,
+      })
+    }
+  }
+
+  const used = new Set<string>()
+  const candidates: TransferCandidate[] = []
+  for (const { rank, ...c } of scored.sort((a, b) => a.rank - b.rank)) {
+    if (used.has(c.out.id) || used.has(c.in.id)) continue
+    used.add(c.out.id)
+    used.add(c.in.id)
+    candidates.push(c)
+  }
+  return candidates
+}
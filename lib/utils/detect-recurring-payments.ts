@@ -1,8 +1,15 @@
 import { TransactionLog } from '@/lib/types'
+import { merchantGroup } from '@/lib/utils/merchants'
+import type { DisplayCurrency } from '@/lib/utils/currency'
 
 export interface DetectedRecurringPayment {
+  /** Group key: the merchant id, or the first 5 letters of the counterparty for unresolved rows. */
   counterpartyPattern: string
+  /** Canonical merchant name, or the most common counterparty for unresolved rows. */
   counterpartyName: string
+  merchantId: string | null
+  /** First 5 letters of the most common counterparty: the group key before merchants, still honored by ignore preferences. */
+  legacyPattern: string
   frequency: 'Monthly' | 'Yearly'
   averageAmount: number
   nextExpectedDate: Date
@@ -14,7 +21,8 @@ const EXCLUDED_CATEGORIES = ['Excluded', 'Income', 'Gift Money', 'Other Income']
 
 /**
  * Detects recurring payments from transaction log data
- * Groups by first 5 letters of counterparty (normalized to lowercase)
+ * Groups by canonical merchant (merchant_id); rows without a merchant fall back to
+ * the first 5 letters of counterparty (normalized to lowercase)
  * Identifies monthly (25-37 day intervals) and yearly (365 day intervals) patterns
  * 
  * Data window: Analyzes transactions from the last 30 months (2.5 years) to ensure
@@ -30,8 +38,9 @@ const EXCLUDED_CATEGORIES = ['Excluded', 'Income', 'Gift Money', 'Other Income']
  */
 export function detectRecurringPayments(
   transactions: TransactionLog[],
-  currency: 'GBP' | 'USD',
-  fxRate: number = 1
+  currency: DisplayCurrency,
+  fxRate: number = 1,
+  eurUsdRate: number = 1
 ): DetectedRecurringPayment[] {
   // Filter to last 30 months (2.5 years) to detect annual recurring payments
   // Annual payments need at least 2 transactions to detect pattern, so we need to look back
@@ -49,14 +58,13 @@ export function detectRecurringPayments(
     return txDate >= thirtyMonthsAgo
   })
 
-  // Group by first 5 letters of counterparty (normalized to lowercase)
+  // Group by merchant, falling back to first 5 letters of counterparty
   const groupedTransactions = new Map<string, TransactionLog[]>()
 
   filteredTransactions.forEach((tx) => {
     if (!tx.counterparty) return
 
-    const normalized = tx.counterparty.toLowerCase().trim()
-    const pattern = normalized.substring(0, 5)
+    const pattern = merchantGroup(tx, 5).key
 
     if (!groupedTransactions.has(pattern)) {
       groupedTransactions.set(pattern, [])
@@ -106,12 +114,20 @@ export function detectRecurringPayments(
         } else if (tx.amount_gbp != null && tx.amount_gbp < 0) {
           return Math.abs(tx.amount_gbp * fxRate)
         }
-      } else {
+      } else if (currency === 'GBP') {
         if (tx.amount_gbp != null && tx.amount_gbp < 0) {
           return Math.abs(tx.amount_gbp)
         } else if (tx.amount_usd != null && tx.amount_usd < 0) {
           return Math.abs(tx.amount_usd / fxRate)
         }
+      } else if (currency === 'EUR') {
+        if (tx.amount_eur != null && tx.amount_eur < 0) {
+          return Math.abs(tx.amount_eur)
+        } else if (tx.amount_usd != null && tx.amount_usd < 0) {
+          return Math.abs(tx.amount_usd / eurUsdRate)
+        } else if (tx.amount_gbp != null && tx.amount_gbp < 0) {
+          return Math.abs((tx.amount_gbp * fxRate) / eurUsdRate)
+        }
       }
       return 0
     }).filter(amt => amt > 0)
@@ -236,7 +252,8 @@ export function detectRecurringPayments(
 
     if (!frequency) return
 
-    // Get the most common counterparty name (for display)
+    // Display the canonical merchant name; otherwise the most common counterparty
+    const merchantId = sortedTxs[0].merchant_id ?? null
     const counterpartyCounts = new Map<string, number>()
     sortedTxs.forEach((tx) => {
       const name = tx.counterparty || ''
@@ -244,6 +261,7 @@ export function detectRecurringPayments(
     })
     const mostCommonCounterparty = Array.from(counterpartyCounts.entries())
       .sort((a, b) => b[1] - a[1])[0][0]
+    const displayName = merchantId ? merchantGroup(sortedTxs[0]).name : mostCommonCounterparty
 
     // Calculate next expected date (already have lastDate from Live Check above)
     const nextExpectedDate = new Date(lastDate)
@@ -251,7 +269,9 @@ export function detectRecurringPayments(
 
     recurringPayments.push({
       counterpartyPattern: pattern,
-      counterpartyName: mostCommonCounterparty,
+      counterpartyName: displayName,
+      merchantId,
+      legacyPattern: mostCommonCounterparty.toLowerCase().trim().substring(0, 5),
       frequency,
       averageAmount,
       nextExpectedDate,
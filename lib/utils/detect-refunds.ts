@@ -0,0 +1,103 @@
+import { TransactionLog } from '@/lib/types'
+import { counterpartySimilarity, transactionFingerprint } from '@/lib/utils/detect-duplicate-transactions'
+import { nativeAmount } from '@/lib/utils/currency'
+
+export interface RefundCandidate {
+  /** Stable key for the pair (purchase fingerprint first); survives sheet re-sync. */
+  pairKey: string
+  purchase: TransactionLog
+  refund: TransactionLog
+  daysApart: number
+}
+
+export interface DetectRefundsOptions {
+  /** Maximum days from purchase to refund. Default 120 (typical return windows plus processing). */
+  maxDaysApart?: number
+  /** How far below the purchase amount a refund may be (partial refunds, restocking fees). Default 20%. */
+  amountTolerance?: number
+  /** Pair keys the user unlinked; never suggested again. */
+  rejectedPairKeys?: Set<string>
+  /** Fingerprints of rows that cannot take part: already matched, or legs of an internal transfer. */
+  excludedFingerprints?: Set<string>
+}
+
+/** Positive rows in these categories are earnings, not refunds. */
+const INCOME_CATEGORIES = ['Income', 'Gift Money', 'Other Income']
+
+/** Counterparty similarity needed when either row has no resolved merchant. */
+const MIN_COUNTERPARTY_SIMILARITY = 0.75
+
+/** A refund may exceed the purchase by this much (FX or rounding on the card side). */
+const OVER_REFUND_TOLERANCE = 0.01
+
+function dayNumber(date: string): number {
+  return Math.floor(new Date(date.split('T')[0] + 'T00:00:00Z').getTime() / 86400000)
+}
+
+export function refundPairKey(purchase: TransactionLog, refund: TransactionLog): string {
+  return `${transactionFingerprint(purchase)}<<${transactionFingerprint(refund)}`
+}
+
+/**
+ * Match refunds to the purchases they reverse: a positive row and an earlier negative row
+ * (up to `maxDaysApart` days before) at the same merchant, in the same currency, where the
+ * refund is between (1 - amountTolerance) and 1x the purchase. Each row joins at most one
+ * pair; the closest amount wins, then the most recent purchase.
+ */
+export function detectRefunds(transactions: TransactionLog[], options: DetectRefundsOptions = {}): RefundCandidate[] {
+  const { maxDaysApart = 120, amountTolerance = 0.2, rejectedPairKeys, excludedFingerprints } = options
+
+  const rows = transactions
+    .filter((tx) => tx.date && !excludedFingerprints?.has(transactionFingerprint(tx)))
+    .map((tx) => ({ tx, native: nativeAmount(tx), day: dayNumber(tx.date) }))
+    .filter((r): r is typeof r & { native: NonNullable<typeof r.native> } => r.native != null && r.native.amount !== 0)
+  const purchases = rows.filter((r) => r.native.amount < 0).sort((a, b) => a.day - b.day)
+  const refunds = rows.filter((r) => r.native.amount > 0 && !INCOME_CATEGORIES.includes(r.tx.category))
+
+  const scored: (RefundCandidate & { rank: number })[] = []
+  for (const r of refunds) {
+    for (const p of purchases) {
+      if (p.day > r.day) break
+      const daysApart = r.day - p.day
+      if (daysApart > maxDaysApart) continue
+      if (p.native.currency !== r.native.currency) continue
+
+      const ratio = r.native.amount / -p.native.amount
+      if (ratio > 1 + OVER_REFUND_TOLERANCE || ratio < 1 - amountTolerance) continue
+
+      const sameMerchant = p.tx.merchant_id && r.tx.merchant_id
+        ? p.tx.merchant_id === r.tx.merchant_id
+        : counterpartySimilarity(p.tx.counterparty, r.tx.counterparty) >= MIN_COUNTERPARTY_SIMILARITY
+      if (!sameMerchant) continue
+
+      const pairKey = refundPairKey(p.tx, r.tx)
+      if (rejectedPairKeys?.has(pairKey)) continue
+      // Amount closeness dominates; days only break ties between equally close purchases
+      scored.push({ pairKey, purchase: p.tx, refund: r.tx, daysApart, rank: Math.abs(1 - ratio) * 1000 + daysApart })
+    }
+  }
+
+  const used = new Set<string>()
+  const candidates: RefundCandidate[] = []
+  for (const { rank, ...c } of scored.sort((a, b) => a.rank - b.rank)) {
+    if (used.has(c.purchase.id) || used.has(c.refund.id)) continue
+    used.add(c.purchase.id)
+    used.add(c.refund.id)
+    candidates.push(c)
+  }
+  return candidates
+}
+
+/**
+ * Move matched refunds to their purchase's date, so monthly views net the refund against the
+ * month the money was spent. Unmatched rows are returned unchanged.
+ */
+export function attributeRefundsToPurchaseDate<T extends Pick<TransactionLog, 'id' | 'date'>>(
+  transactions: T[],
+  purchaseDateByRefundId: Map<string, string>
+): T[] {
+  return transactions.map((tx) => {
+    const purchaseDate = purchaseDateByRefundId.get(tx.id)
+    return purchaseDate ? { ...tx, date: purchaseDate } : tx
+  })
+}
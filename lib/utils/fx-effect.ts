@@ -0,0 +1,87 @@
+import type { AccountBalance } from '@/lib/types'
+import { convertCurrency, type CurrencyCode, type DisplayCurrency, type FxRates } from './currency'
+
+/**
+ * yoy_net_worth rows whose figure is a balance at a point in time (the rest are flows over the year).
+ * Every row, Year Start included, converts at current rates so the rows add up to Year End; the
+ * currency part of the change is shown separately as the FX effect.
+ */
+export const YOY_YEAR_START = 'Year Start'
+export const YOY_YEAR_END = 'Year End'
+
+/** Date the Year Start balance is taken at: the prior year's closing day (YYYY-MM-DD). */
+export function yearStartDate(year: number = new Date().getFullYear()): string {
+  return `${year - 1}-12-31`
+}
+
+/**
+ * Native balances per currency as of a date: each account's latest account_balances row on or
+ * before `asOf` (rows without one are left out), summed by currency.
+ */
+export function balancesByCurrencyAsOf(
+  rows: Pick<AccountBalance, 'institution' | 'account_name' | 'currency' | 'balance_total_local' | 'date_updated'>[],
+  asOf: string
+): Record<CurrencyCode, number> {
+  const latest = new Map<string, (typeof rows)[number]>()
+  for (const row of rows) {
+    const date = row.date_updated.split('T')[0]
+    if (date > asOf) continue
+    const key = `${row.institution}\u0000${row.account_name}`
+    const current = latest.get(key)
+    if (!current || date > current.date_updated.split('T')[0]) latest.set(key, row)
+  }
+
+  const totals: Record<CurrencyCode, number> = {}
+  for (const row of Array.from(latest.values())) {
+    const currency = (row.currency || 'USD').toUpperCase()
+    totals[currency] = (totals[currency] ?? 0) + (Number(row.balance_total_local) || 0)
+  }
+  return totals
+}
+
+export interface FxEffectBreakdown {
+  /** Change in display value from rates moving, holding the opening native balances fixed. */
+  fxEffect: number
+  byCurrency: { currency: CurrencyCode; opening: number; effect: number }[]
+}
+
+/**
+ * FX effect on net worth over a period, in the display currency: each currency's opening native
+ * balance revalued at the closing rates minus its value at the opening rates. What is left of the
+ * net change is real growth (flows and returns in the assets' own currencies).
+ */
+export function computeFxEffect(
+  openingByCurrency: Record<CurrencyCode, number>,
+  startRates: FxRates,
+  endRates: FxRates,
+  to: DisplayCurrency
+): FxEffectBreakdown {
+  const byCurrency = Object.entries(openingByCurrency)
+    .filter(([, opening]) => opening !== 0)
+    .map(([currency, opening]) => ({
+      currency,
+      opening,
+      effect: convertCurrency(opening, currency, to, endRates) - convertCurrency(opening, currency, to, startRates),
+    }))
+    .sort((a, b) => Math.abs(b.effect) - Math.abs(a.effect))
+  return { fxEffect: byCurrency.reduce((sum, c) => sum + c.effect, 0), byCurrency }
+}
+
+/**
+ * Scale holdings so they are worth `total` (display currency) at `rates`, keeping their currency
+ * mix. Used when no balances predate the period and the current mix stands in for the opening one.
+ */
+export function scaleHoldingsToTotal(
+  holdings: Record<CurrencyCode, number>,
+  total: number,
+  rates: FxRates,
+  to: DisplayCurrency
+): Record<CurrencyCode, number> {
+  const value = Object.entries(holdings).reduce(
+    (sum, [currency, amount]) => sum + convertCurrency(amount, currency, to, rates),
+    0
+  )
+  if (value === 0) return {}
+  const factor = total / value
+  return Object.fromEntries(Object.entries(holdings).map(([currency, amount]) => [currency, amount * factor]))
+}
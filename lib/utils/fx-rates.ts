@@ -1,6 +1,24 @@
 import { SupabaseClient } from '@supabase/supabase-js'
+import type { FxQuote } from '@/lib/types'
+import { FALLBACK_EURUSD, nativeAmount, type CurrencyCode, type FxRates, type MoneyColumns } from './currency'
 
-export type FxRatesRow = { date: string; gbpusd_rate: number | null }
+export type FxRatesRow = { date: string; gbpusd_rate?: number | null; eurusd_rate?: number | null }
+
+/** Which fx_rates column to read: USD per 1 GBP or USD per 1 EUR. */
+export type FxRateColumn = 'gbpusd_rate' | 'eurusd_rate'
+
+/** Used when fx_rate_current and fx_rates are both empty. */
+const FALLBACK_GBPUSD = 1.27
+
+/** A current rate older than this many days is flagged as stale (allows for weekends and holidays). */
+export const FX_STALE_AFTER_DAYS = 5
+
+/** True when the rate in use is the built-in default or its quote is older than FX_STALE_AFTER_DAYS. */
+export function isFxRateStale(asOf: string | null | undefined, today: Date = new Date()): boolean {
+  if (!asOf) return true
+  const ageMs = today.getTime() - new Date(`${asOf.split('T')[0]}T00:00:00Z`).getTime()
+  return ageMs > (FX_STALE_AFTER_DAYS + 1) * 24 * 60 * 60 * 1000
+}
 
 /** Year -> GBPUSD rate at end of that year (for annual trends) */
 export type RatesByYear = Record<number, number>
@@ -10,16 +28,18 @@ export type RatesByMonthOffset = { current: number; minus1: number; minus2: numb
 
 /**
  * Fetch historical FX rates from fx_rates table for dates <= maxDate.
- * Returns a map of date string (YYYY-MM-DD) to gbpusd_rate (USD per 1 GBP).
+ * Returns a map of date string (YYYY-MM-DD) to gbpusd_rate (USD per 1 GBP), or eurusd_rate with
+ * column 'eurusd_rate'.
  * Used to get rate for a specific date: use the rate for that date, or the most recent prior date.
  */
 export async function fetchFxRatesUpTo(
   supabase: SupabaseClient,
-  maxDate: string
+  maxDate: string,
+  column: FxRateColumn = 'gbpusd_rate'
 ): Promise<Map<string, number>> {
   const { data, error } = await supabase
     .from('fx_rates')
-    .select('date, gbpusd_rate')
+    .select(`date, ${column}`)
     .lte('date', maxDate)
     .order('date', { ascending: false })
 
@@ -27,7 +47,7 @@ export async function fetchFxRatesUpTo(
 
   const map = new Map<string, number>()
   ;(data as FxRatesRow[]).forEach((row) => {
-    const rate = row.gbpusd_rate
+    const rate = row[column]
     if (rate != null && rate > 0) {
       const d = typeof row.date === 'string' ? row.date.split('T')[0] : row.date
       if (!map.has(d)) map.set(d, rate)
@@ -38,16 +58,17 @@ export async function fetchFxRatesUpTo(
 
 /**
  * Fetch FX rates for a date range (minDate <= date <= maxDate).
- * Returns a map of date string to gbpusd_rate.
+ * Returns a map of date string to gbpusd_rate (or the given column).
  */
 export async function fetchFxRatesForRange(
   supabase: SupabaseClient,
   minDate: string,
-  maxDate: string
+  maxDate: string,
+  column: FxRateColumn = 'gbpusd_rate'
 ): Promise<Map<string, number>> {
   const { data, error } = await supabase
     .from('fx_rates')
-    .select('date, gbpusd_rate')
+    .select(`date, ${column}`)
     .gte('date', minDate)
     .lte('date', maxDate)
     .order('date', { ascending: true })
@@ -56,7 +77,7 @@ export async function fetchFxRatesForRange(
 
   const map = new Map<string, number>()
   ;(data as FxRatesRow[]).forEach((row) => {
-    const rate = row.gbpusd_rate
+    const rate = row[column]
     if (rate != null && rate > 0) {
       const d = typeof row.date === 'string' ? row.date.split('T')[0] : row.date
       map.set(d, rate)
@@ -78,11 +99,255 @@ export function buildGetRateForDate(
   return (dateStr: string) => {
     const d = dateStr.split('T')[0]
     if (ratesByDate.has(d)) return ratesByDate.get(d)!
-    const prior = sortedDates.filter((x) => x <= d).pop()
+    // Binary search for the last date <= d (the full daily history can be thousands of dates)
+    let lo = 0
+    let hi = sortedDates.length - 1
+    let prior: string | null = null
+    while (lo <= hi) {
+      const mid = (lo + hi) >> 1
+      if (sortedDates[mid] <= d) {
+        prior = sortedDates[mid]
+        lo = mid + 1
+      } else {
+        hi = mid - 1
+      }
+    }
     return prior != null ? ratesByDate.get(prior)! : fallbackRate
   }
 }
 
+/**
+ * buildGetRateForDate for both rates: GBPUSD and EURUSD as of a date (each from its own map),
+ * falling back to the current rates.
+ */
+export function buildGetRatesForDate(
+  gbpusdByDate: Map<string, number>,
+  eurusdByDate: Map<string, number>,
+  fallback: FxRates
+): (dateStr: string) => FxRates {
+  const gbpusdFor = buildGetRateForDate(gbpusdByDate, fallback.gbpusd)
+  const eurusdFor = buildGetRateForDate(eurusdByDate, fallback.eurusd)
+  return (dateStr: string) => ({ gbpusd: gbpusdFor(dateStr), eurusd: eurusdFor(dateStr) })
+}
+
+/** Full GBPUSD and EURUSD history from fx_rates, as date -> rate maps (for buildGetRatesForDate). */
+export async function fetchFxRateHistory(
+  supabase: SupabaseClient
+): Promise<{ gbpusd: Map<string, number>; eurusd: Map<string, number> }> {
+  const gbpusd = new Map<string, number>()
+  const eurusd = new Map<string, number>()
+  // fx_rates is daily, so page past the 1000-row response limit
+  for (let page = 0; ; page++) {
+    const { data, error } = await supabase
+      .from('fx_rates')
+      .select('date, gbpusd_rate, eurusd_rate')
+      .order('date', { ascending: true })
+      .range(page * 1000, (page + 1) * 1000 - 1)
+    if (error) throw error
+    for (const row of (data ?? []) as FxRatesRow[]) {
+      const d = String(row.date).split('T')[0]
+      if (Number(row.gbpusd_rate) > 0) gbpusd.set(d, Number(row.gbpusd_rate))
+      if (Number(row.eurusd_rate) > 0) eurusd.set(d, Number(row.eurusd_rate))
+    }
+    if (!data || data.length < 1000) break
+  }
+  return { gbpusd, eurusd }
+}
+
+/**
+ * Current GBPUSD and EURUSD rates from fx_rate_current, with the date they are from (asOf).
+ * Without a current row GBPUSD falls back to the latest in fx_rates, then to a default (asOf
+ * null); sheets without a current EURUSD column fall back the same way. Other currencies get
+ * their latest rate against USD from fx_quotes.
+ */
+export async function fetchCurrentFxRates(supabase: SupabaseClient): Promise<FxRates> {
+  const [{ data }, others] = await Promise.all([
+    supabase
+      .from('fx_rate_current')
+      .select('date, gbpusd_rate, eurusd_rate')
+      .order('date', { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+    fetchLatestUsdQuotes(supabase),
+  ])
+  if (Number(data?.gbpusd_rate) > 0 && Number(data?.eurusd_rate) > 0) {
+    return { gbpusd: Number(data?.gbpusd_rate), eurusd: Number(data?.eurusd_rate), others, asOf: String(data?.date).split('T')[0] }
+  }
+
+  const [{ data: latestGbp }, { data: latestEur }] = await Promise.all([
+    supabase
+      .from('fx_rates')
+      .select('date, gbpusd_rate')
+      .not('gbpusd_rate', 'is', null)
+      .order('date', { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+    supabase
+      .from('fx_rates')
+      .select('eurusd_rate')
+      .not('eurusd_rate', 'is', null)
+      .order('date', { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+  ])
+  const current = Number(data?.gbpusd_rate) > 0 ? data : Number(latestGbp?.gbpusd_rate) > 0 ? latestGbp : null
+  return {
+    gbpusd: current ? Number(current.gbpusd_rate) : FALLBACK_GBPUSD,
+    eurusd: Number(latestEur?.eurusd_rate) > 0 ? Number(latestEur?.eurusd_rate) : FALLBACK_EURUSD,
+    others,
+    asOf: current ? String(current.date).split('T')[0] : null,
+  }
+}
+
+/** USD per 1 unit of `currency` from an fx_quotes row quoted against USD (either direction). */
+function usdPerUnit(row: FxQuote, currency: CurrencyCode): number | null {
+  const rate = Number(row.rate)
+  if (!(rate > 0)) return null
+  if (row.base === currency && row.quote === 'USD') return rate
+  if (row.base === 'USD' && row.quote === currency) return 1 / rate
+  return null
+}
+
+/** The other side of an fx_quotes row against USD, or null when neither side is USD. */
+function nonUsdSide(row: FxQuote): CurrencyCode | null {
+  if (row.quote === 'USD') return row.base
+  if (row.base === 'USD') return row.quote
+  return null
+}
+
+/** Latest USD per 1 unit for each currency in fx_quotes other than GBP and EUR (those use fx_rates). */
+async function fetchLatestUsdQuotes(supabase: SupabaseClient): Promise<Record<CurrencyCode, number>> {
+  const { data, error } = await supabase
+    .from('fx_quotes')
+    .select('date, base, quote, rate')
+    .or('quote.eq.USD,base.eq.USD')
+    .not('base', 'in', '(GBP,EUR)')
+    .not('quote', 'in', '(GBP,EUR)')
+    .order('date', { ascending: false })
+    .limit(1000)
+  if (error) return {}
+
+  const latest: Record<CurrencyCode, number> = {}
+  for (const row of (data ?? []) as FxQuote[]) {
+    const currency = nonUsdSide(row)
+    if (!currency || latest[currency] != null) continue
+    const rate = usdPerUnit(row, currency)
+    if (rate != null) latest[currency] = rate
+  }
+  return latest
+}
+
+/**
+ * Fetch fx_quotes against USD for the given currencies with date <= maxDate.
+ * Returns currency -> (date -> USD per 1 unit), in the shape buildGetRateForDate takes.
+ */
+export async function fetchUsdQuotesUpTo(
+  supabase: SupabaseClient,
+  currencies: CurrencyCode[],
+  maxDate: string
+): Promise<Map<CurrencyCode, Map<string, number>>> {
+  const byCurrency = new Map<CurrencyCode, Map<string, number>>()
+  const wanted = currencies.filter((c) => c !== 'USD')
+  if (wanted.length === 0) return byCurrency
+
+  const list = wanted.join(',')
+  const { data, error } = await supabase
+    .from('fx_quotes')
+    .select('date, base, quote, rate')
+    .or(`and(base.in.(${list}),quote.eq.USD),and(base.eq.USD,quote.in.(${list}))`)
+    .lte('date', maxDate)
+    .order('date', { ascending: true })
+  if (error) throw error
+
+  for (const row of (data ?? []) as FxQuote[]) {
+    const currency = nonUsdSide(row)
+    if (!currency) continue
+    const rate = usdPerUnit(row, currency)
+    if (rate == null) continue
+    if (!byCurrency.has(currency)) byCurrency.set(currency, new Map())
+    byCurrency.get(currency)!.set(row.date.split('T')[0], rate)
+  }
+  return byCurrency
+}
+
+/** fx_quotes rows mirroring fx_rates / fx_rate_current rows (GBPUSD and EURUSD per date). */
+export function fxQuotesFromRateRows(rows: FxRatesRow[]): FxQuote[] {
+  const quotes: FxQuote[] = []
+  for (const row of rows) {
+    const date = String(row.date).split('T')[0]
+    if (Number(row.gbpusd_rate) > 0) quotes.push({ date, base: 'GBP', quote: 'USD', rate: Number(row.gbpusd_rate) })
+    if (Number(row.eurusd_rate) > 0) quotes.push({ date, base: 'EUR', quote: 'USD', rate: Number(row.eurusd_rate) })
+  }
+  return quotes
+}
+
+/** Upsert fx_quotes rows in batches, keyed by (date, base, quote). Returns the last error, if any. */
+export async function upsertFxQuotes(supabase: SupabaseClient, quotes: FxQuote[]): Promise<Error | null> {
+  let lastError: Error | null = null
+  for (let i = 0; i < quotes.length; i += 1000) {
+    const { error } = await supabase
+      .from('fx_quotes')
+      .upsert(quotes.slice(i, i + 1000), { onConflict: 'date,base,quote' })
+    if (error) lastError = error
+  }
+  return lastError
+}
+
+/**
+ * Record each row's native amount (`amount`, from the legacy column of its currency when missing)
+ * and give non-USD rows without amount_usd one at the rate on or before their date, so manual and
+ * imported spend in EUR, CHF, CAD... counts in the USD and GBP totals like sheet rows do. GBP rows
+ * keep amount_gbp only, as before; rows in a currency with no rate yet keep amount_usd null.
+ */
+export async function fillMoneyColumns<
+  T extends MoneyColumns & { date: string; currency: string | null; amount_usd: number | null },
+>(supabase: SupabaseClient, rows: T[]): Promise<(T & { amount: number | null })[]> {
+  const withNative = rows.map((r) => ({ ...r, amount: r.amount ?? nativeAmount(r)?.amount ?? null }))
+  const code = (r: T) => (r.currency ?? '').trim().toUpperCase()
+  const needsUsd = (r: T & { amount: number | null }) =>
+    r.amount != null && r.amount_usd == null && !['', 'USD', 'GBP'].includes(code(r))
+  const usdRows = withNative.filter(needsUsd)
+  if (usdRows.length === 0) return withNative
+
+  const maxDate = usdRows.reduce((max, r) => (r.date > max ? r.date : max), '')
+  const others = Array.from(new Set(usdRows.map(code))).filter((c) => c !== 'EUR')
+  const [eurByDate, quotesByCurrency, current] = await Promise.all([
+    fetchFxRatesUpTo(supabase, maxDate, 'eurusd_rate'),
+    fetchUsdQuotesUpTo(supabase, others, maxDate),
+    fetchCurrentFxRates(supabase),
+  ])
+  const rateFor = new Map<CurrencyCode, (dateStr: string) => number>()
+  rateFor.set('EUR', buildGetRateForDate(eurByDate, current.eurusd))
+  for (const c of others) {
+    const byDate = quotesByCurrency.get(c) ?? new Map<string, number>()
+    // Dates before the first quote use the current rate (or, failing that, the earliest quote)
+    const fallback = current.others?.[c] ?? byDate.values().next().value
+    if (fallback != null) rateFor.set(c, buildGetRateForDate(byDate, fallback))
+  }
+
+  return withNative.map((r) => {
+    if (!needsUsd(r)) return r
+    const rate = rateFor.get(code(r))?.(r.date)
+    return rate != null ? { ...r, amount_usd: Math.round(r.amount! * rate * 100) / 100 } : r
+  })
+}
+
+/** USD value of a single native amount at the rate on or before `date`; null when the currency has no rate. */
+export async function usdValueOn(
+  supabase: SupabaseClient,
+  amount: number,
+  currency: CurrencyCode,
+  date: string
+): Promise<number | null> {
+  if (currency === 'USD') return amount
+  if (currency === 'GBP') {
+    const gbpusd = buildGetRateForDate(await fetchFxRatesUpTo(supabase, date), (await fetchCurrentFxRates(supabase)).gbpusd)
+    return Math.round(amount * gbpusd(date) * 100) / 100
+  }
+  const [row] = await fillMoneyColumns(supabase, [{ date, currency, amount, amount_usd: null }])
+  return row.amount_usd
+}
+
 /** Last day of year as YYYY-MM-DD */
 export function endOfYear(year: number): string {
   return `${year}-12-31`
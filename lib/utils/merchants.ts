@@ -0,0 +1,88 @@
+import { Merchant, TransactionLog } from '@/lib/types'
+import { normalizeCounterparty } from '@/lib/utils/detect-duplicate-transactions'
+
+type MerchantAliases = Pick<Merchant, 'id' | 'alias_patterns'>
+
+interface AliasMatcher {
+  merchantId: string
+  /** Longer aliases are more specific and win ties ("amazon prime" over "amazon"). */
+  specificity: number
+  test: (raw: string, normalized: string) => boolean
+}
+
+/** `/pattern/` aliases are regular expressions; anything else is a plain-word alias. */
+function regexSource(alias: string): string | null {
+  const m = alias.trim().match(/^\/(.+)\/$/)
+  return m ? m[1] : null
+}
+
+/** Whether an alias is usable: a compilable /regex/, or plain text with at least one word left after normalization. */
+export function isValidAlias(alias: string): boolean {
+  const source = regexSource(alias)
+  if (source == null) return normalizeCounterparty(alias) !== ''
+  try {
+    new RegExp(source, 'i')
+    return true
+  } catch {
+    return false
+  }
+}
+
+function compileAlias(merchantId: string, alias: string): AliasMatcher | null {
+  const source = regexSource(alias)
+  if (source != null) {
+    let pattern: RegExp
+    try {
+      pattern = new RegExp(source, 'i')
+    } catch {
+      return null
+    }
+    return { merchantId, specificity: source.length, test: (raw) => pattern.test(raw) }
+  }
+  const words = normalizeCounterparty(alias)
+  if (!words) return null
+  // Whole-word match so "uber" matches "uber eats" but not "ubereats"
+  return { merchantId, specificity: words.length, test: (_raw, normalized) => ` ${normalized} `.includes(` ${words} `) }
+}
+
+/**
+ * Build a resolver from counterparty to merchant id. When several aliases match,
+ * the longest (most specific) wins. Blank counterparties resolve to null.
+ */
+export function buildMerchantResolver(merchants: MerchantAliases[]): (counterparty: string | null) => string | null {
+  const matchers = merchants
+    .flatMap((m) => m.alias_patterns.map((alias) => compileAlias(m.id, alias)))
+    .filter((m): m is AliasMatcher => m != null)
+    .sort((a, b) => b.specificity - a.specificity)
+
+  return (counterparty) => {
+    const raw = (counterparty ?? '').trim()
+    const normalized = normalizeCounterparty(raw)
+    if (!normalized) return null
+    return matchers.find((m) => m.test(raw, normalized))?.merchantId ?? null
+  }
+}
+
+/** Display name for an auto-created merchant: the normalized counterparty in title case. */
+export function merchantNameFromCounterparty(counterparty: string): string {
+  return normalizeCounterparty(counterparty)
+    .split(' ')
+    .map((w) => w.charAt(0).toUpperCase() + w.slice(1))
+    .join(' ')
+}
+
+/**
+ * Group key and display name for merchant-level views. Uses the resolved merchant when
+ * present, otherwise falls back to the first `prefixLength` characters of the counterparty
+ * (rows synced before merchants were resolved).
+ */
+export function merchantGroup(
+  tx: Pick<TransactionLog, 'counterparty' | 'merchant_id' | 'merchant'>,
+  prefixLength = 7
+): { key: string; name: string } {
+  const counterparty = tx.counterparty || 'Unknown'
+  if (tx.merchant_id) {
+    return { key: tx.merchant_id, name: tx.merchant?.name ?? counterparty }
+  }
+  return { key: counterparty.toLowerCase().substring(0, prefixLength).trim(), name: counterparty }
+}
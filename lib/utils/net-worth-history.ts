@@ -0,0 +1,211 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+import type { AccountBalance, HistoricalNetWorth } from '@/lib/types'
+import { convertCurrency, hasFxRate, type CurrencyCode, type FxRates } from './currency'
+import {
+  buildGetRateForDate,
+  buildGetRatesForDate,
+  endOfMonth,
+  fetchCurrentFxRates,
+  fetchFxRateHistory,
+  fetchUsdQuotesUpTo,
+} from './fx-rates'
+
+export type NetWorthInterval = 'daily' | 'monthly'
+
+/** Same entities as historical_net_worth: Trust accounts count as Trust beyond their personal share. */
+export type NetWorthEntity = 'Personal' | 'Family' | 'Trust'
+
+export interface NetWorthAmount {
+  gbp: number
+  usd: number
+}
+
+export interface NetWorthPoint {
+  /** YYYY-MM-DD */
+  date: string
+  total: NetWorthAmount
+  byEntity: Record<NetWorthEntity, NetWorthAmount>
+  /** By account category (Cash, Brokerage, ...). */
+  byCategory: Record<string, NetWorthAmount>
+  /** Native balance per account currency, before conversion. */
+  byCurrency: Record<CurrencyCode, number>
+  /** Native balance per currency with no exchange rate on the date; left out of every total. */
+  unconverted: Record<CurrencyCode, number>
+}
+
+export type BalanceSnapshot = Pick<
+  AccountBalance,
+  | 'date_updated'
+  | 'institution'
+  | 'account_name'
+  | 'category'
+  | 'currency'
+  | 'balance_personal_local'
+  | 'balance_family_local'
+  | 'balance_total_local'
+>
+
+const BALANCE_COLUMNS =
+  'date_updated, institution, account_name, category, currency, balance_personal_local, balance_family_local, balance_total_local'
+
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`)
+  d.setUTCDate(d.getUTCDate() + days)
+  return d.toISOString().split('T')[0]
+}
+
+/** Dates of the series: every day, or every month end, from start to end (end is always included). */
+export function netWorthPointDates(start: string, end: string, interval: NetWorthInterval): string[] {
+  const dates: string[] = []
+  if (interval === 'daily') {
+    for (let date = start; date <= end; date = addDays(date, 1)) dates.push(date)
+    return dates
+  }
+  let year = Number(start.slice(0, 4))
+  let month = Number(start.slice(5, 7))
+  for (let date = endOfMonth(year, month); date < end; date = endOfMonth(year, month)) {
+    dates.push(date)
+    month = month === 12 ? 1 : month + 1
+    if (month === 1) year++
+  }
+  if (start <= end) dates.push(end)
+  return dates
+}
+
+function emptyAmount(): NetWorthAmount {
+  return { gbp: 0, usd: 0 }
+}
+
+/**
+ * Net worth at each date from dated per-account balances: every account (institution + account
+ * name) counts at its latest balance on or before the date, so balances carry forward until the
+ * next snapshot. Amounts are converted to GBP and USD at the rates in effect on each date;
+ * balances in a currency with no rate are kept in `unconverted` instead of being added at par.
+ */
+export function buildNetWorthHistory(
+  balances: BalanceSnapshot[],
+  dates: string[],
+  ratesOn: (date: string) => FxRates
+): NetWorthPoint[] {
+  const byAccount = new Map<string, BalanceSnapshot[]>()
+  for (const row of balances) {
+    const key = `${row.institution}\u0000${row.account_name}`
+    if (!byAccount.has(key)) byAccount.set(key, [])
+    byAccount.get(key)!.push(row)
+  }
+  const accounts = Array.from(byAccount.values()).map((rows) =>
+    rows.sort((a, b) => a.date_updated.localeCompare(b.date_updated))
+  )
+  // Index of each account's balance in effect; dates are ascending, so pointers only move forward
+  const cursor = accounts.map(() => -1)
+
+  return dates.map((date) => {
+    const rates = ratesOn(date)
+    const point: NetWorthPoint = {
+      date,
+      total: emptyAmount(),
+      byEntity: { Personal: emptyAmount(), Family: emptyAmount(), Trust: emptyAmount() },
+      byCategory: {},
+      byCurrency: {},
+      unconverted: {},
+    }
+    const add = (target: NetWorthAmount, amount: number, currency: string) => {
+      target.gbp += convertCurrency(amount, currency, 'GBP', rates)
+      target.usd += convertCurrency(amount, currency, 'USD', rates)
+    }
+
+    accounts.forEach((rows, i) => {
+      while (cursor[i] + 1 < rows.length && rows[cursor[i] + 1].date_updated.split('T')[0] <= date) cursor[i]++
+      if (cursor[i] < 0) return
+      const row = rows[cursor[i]]
+      const currency = (row.currency || 'USD').toUpperCase()
+      const total = Number(row.balance_total_local) || 0
+      const personal = Number(row.balance_personal_local) || 0
+      const family = Number(row.balance_family_local) || 0
+
+      point.byCurrency[currency] = (point.byCurrency[currency] ?? 0) + total
+      if (!hasFxRate(currency, rates)) {
+        point.unconverted[currency] = (point.unconverted[currency] ?? 0) + total
+        return
+      }
+      add(point.total, total, currency)
+      point.byCategory[row.category] ??= emptyAmount()
+      add(point.byCategory[row.category], total, currency)
+      add(point.byEntity.Personal, personal, currency)
+      // As on the dashboard, Trust accounts' non-personal share is Trust rather than Family
+      if (row.category === 'Trust') add(point.byEntity.Trust, total - personal, currency)
+      else add(point.byEntity.Family, family, currency)
+    })
+    return point
+  })
+}
+
+/** Rates by date for every currency in `currencies`: fx_rates for GBP/EUR, fx_quotes for the rest. */
+async function fetchRatesOn(db: SupabaseClient, currencies: CurrencyCode[], maxDate: string) {
+  const others = currencies.filter((c) => !['USD', 'GBP', 'EUR'].includes(c))
+  const [history, current, quotes] = await Promise.all([
+    fetchFxRateHistory(db),
+    fetchCurrentFxRates(db),
+    fetchUsdQuotesUpTo(db, others, maxDate),
+  ])
+  const datedRates = buildGetRatesForDate(history.gbpusd, history.eurusd, current)
+  const otherRates = others.flatMap((c) => {
+    const fallback = current.others?.[c]
+    return fallback != null ? [[c, buildGetRateForDate(quotes.get(c) ?? new Map(), fallback)] as const] : []
+  })
+  return (date: string): FxRates => ({
+    ...datedRates(date),
+    others: Object.fromEntries(otherRates.map(([c, rateFor]) => [c, rateFor(date)])),
+  })
+}
+
+/**
+ * Net worth series computed from account_balances (see buildNetWorthHistory), for users whose
+ * sheet has no Historical Net Worth tab. Starts at the earliest balance unless `start` is given;
+ * ends today. userId scopes the query for admin clients; with a user client RLS scopes it too.
+ */
+export async function computeNetWorthHistory(
+  db: SupabaseClient,
+  options: { userId?: string; start?: string; end?: string; interval?: NetWorthInterval } = {}
+): Promise<NetWorthPoint[]> {
+  const end = options.end ?? new Date().toISOString().split('T')[0]
+  const balances: BalanceSnapshot[] = []
+  for (let page = 0; ; page++) {
+    let query = db.from('account_balances').select(BALANCE_COLUMNS).lte('date_updated', `${end}T23:59:59`)
+    if (options.userId) query = query.eq('user_id', options.userId)
+    const { data, error } = await query.order('date_updated', { ascending: true }).range(page * 1000, (page + 1) * 1000 - 1)
+    if (error) throw error
+    balances.push(...((data ?? []) as BalanceSnapshot[]))
+    if (!data || data.length < 1000) break
+  }
+  if (balances.length === 0) return []
+
+  const earliest = balances[0].date_updated.split('T')[0]
+  const start = options.start && options.start > earliest ? options.start : earliest
+  const currencies = Array.from(new Set(balances.map((b) => (b.currency || 'USD').toUpperCase())))
+  const ratesOn = await fetchRatesOn(db, currencies, end)
+  return buildNetWorthHistory(balances, netWorthPointDates(start, end, options.interval ?? 'monthly'), ratesOn)
+}
+
+/** Currencies left out of any point of the series for want of an exchange rate. */
+export function unconvertedCurrencies(points: NetWorthPoint[]): CurrencyCode[] {
+  return Array.from(new Set(points.flatMap((p) => Object.keys(p.unconverted)))).sort()
+}
+
+/**
+ * The series in historical_net_worth's shape (one row per entity at the last point of each year),
+ * so views built on that table can fall back to it.
+ */
+export function historicalNetWorthRows(points: NetWorthPoint[]): HistoricalNetWorth[] {
+  const lastByYear = new Map<string, NetWorthPoint>()
+  for (const point of points) lastByYear.set(point.date.slice(0, 4), point)
+  return Array.from(lastByYear.values()).flatMap((point) =>
+    (Object.keys(point.byEntity) as NetWorthEntity[]).map((entity) => ({
+      id: `computed-${point.date}-${entity}`,
+      date: point.date,
+      category: entity,
+      amount_gbp: point.byEntity[entity].gbp,
+      amount_usd: point.byEntity[entity].usd,
+    }))
+  )
+}
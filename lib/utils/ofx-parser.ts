@@ -0,0 +1,193 @@
+/**
+ * Parser for OFX/QFX bank statements. Handles both SGML OFX 1.x (leaf tags without
+ * closing tags, colon-separated header) and XML OFX 2.x (<?xml?> prolog, closed tags).
+ */
+
+export interface OfxTransaction {
+  /** Financial institution transaction id; unique per account, used for de-duplication. */
+  fitId: string
+  type: string
+  /** YYYY-MM-DD */
+  date: string
+  /** Signed amount: negative for debits (matches transaction_log convention). */
+  amount: number
+  name: string | null
+  memo: string | null
+}
+
+export interface OfxStatement {
+  /** <FI><ORG> from the sign-on response, when present. */
+  org: string | null
+  bankId: string | null
+  accountId: string
+  /** CHECKING / SAVINGS / CREDITLINE etc., or CREDITCARD for credit card statements. */
+  accountType: string
+  currency: string
+  transactions: OfxTransaction[]
+  /** Closing <LEDGERBAL>; null when the statement has none. */
+  ledgerBalance: { amount: number; asOf: string } | null
+}
+
+interface OfxNode {
+  name: string
+  value: string | null
+  children: OfxNode[]
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+}
+
+/**
+ * Build an element tree from the <OFX> body. A tag followed by text is a leaf
+ * (its closing tag is optional in SGML); a tag followed directly by another tag
+ * is an aggregate closed by its matching </TAG>.
+ */
+function buildTree(text: string): OfxNode {
+  const start = text.search(/<OFX>/i)
+  if (start === -1) throw new Error('Not an OFX file: missing <OFX> element')
+  const body = text.slice(start)
+
+  const root: OfxNode = { name: 'ROOT', value: null, children: [] }
+  const stack: OfxNode[] = [root]
+  const tagPattern = /<(\/?)([A-Za-z0-9.]+)[^>]*>([^<]*)/g
+  let lastLeaf: OfxNode | null = null
+  let match: RegExpExecArray | null
+
+  while ((match = tagPattern.exec(body)) !== null) {
+    const [, closing, rawName, rawText] = match
+    const name = rawName.toUpperCase()
+    const text = rawText.trim()
+
+    if (closing) {
+      // XML-style close of a leaf we already recorded
+      if (lastLeaf && lastLeaf.name === name) {
+        lastLeaf = null
+        continue
+      }
+      const idx = stack.map((n) => n.name).lastIndexOf(name)
+      if (idx > 0) stack.length = idx
+      lastLeaf = null
+      continue
+    }
+
+    const node: OfxNode = { name, value: null, children: [] }
+    stack[stack.length - 1].children.push(node)
+    if (text) {
+      node.value = decodeEntities(text)
+      lastLeaf = node
+    } else {
+      stack.push(node)
+      lastLeaf = null
+    }
+  }
+
+  return root
+}
+
+function child(node: OfxNode | undefined, name: string): OfxNode | undefined {
+  return node?.children.find((c) => c.name === name)
+}
+
+function childValue(node: OfxNode | undefined, name: string): string | null {
+  return child(node, name)?.value ?? null
+}
+
+function findAll(node: OfxNode, name: string): OfxNode[] {
+  const found: OfxNode[] = []
+  for (const c of node.children) {
+    if (c.name === name) found.push(c)
+    found.push(...findAll(c, name))
+  }
+  return found
+}
+
+/** OFX datetime (YYYYMMDD[HHMMSS[.XXX]][[offset:TZ]]) to YYYY-MM-DD. */
+export function parseOfxDate(raw: string | null): string | null {
+  if (!raw) return null
+  const m = raw.trim().match(/^(\d{4})(\d{2})(\d{2})/)
+  if (!m) return null
+  const [, y, mo, d] = m
+  const date = new Date(Date.UTC(parseInt(y, 10), parseInt(mo, 10) - 1, parseInt(d, 10)))
+  if (isNaN(date.getTime())) return null
+  return `${y}-${mo}-${d}`
+}
+
+/**
+ * OFX amounts may use a comma decimal separator in some European exports. With both separators
+ * present the last one is the decimal ("1,234.56", "-1.234,56"); a lone comma is the decimal
+ * unless it repeats ("1,234,567").
+ */
+function parseOfxAmount(raw: string | null): number | null {
+  if (!raw) return null
+  const compact = raw.trim().replace(/\s/g, '')
+  const decimalComma = compact.includes('.')
+    ? compact.lastIndexOf(',') > compact.lastIndexOf('.')
+    : (compact.match(/,/g) ?? []).length === 1
+  const normalized = decimalComma ? compact.replace(/\./g, '').replace(',', '.') : compact.replace(/,/g, '')
+  const num = parseFloat(normalized)
+  return isNaN(num) ? null : num
+}
+
+function parseStatement(stmt: OfxNode, org: string | null, isCreditCard: boolean): OfxStatement {
+  const acct = child(stmt, isCreditCard ? 'CCACCTFROM' : 'BANKACCTFROM')
+  const accountId = childValue(acct, 'ACCTID')
+  if (!accountId) throw new Error('OFX statement is missing ACCTID')
+
+  const transactions: OfxTransaction[] = []
+  for (const trn of findAll(child(stmt, 'BANKTRANLIST') ?? stmt, 'STMTTRN')) {
+    const fitId = childValue(trn, 'FITID')
+    const date = parseOfxDate(childValue(trn, 'DTPOSTED'))
+    const amount = parseOfxAmount(childValue(trn, 'TRNAMT'))
+    if (!fitId || !date || amount == null) continue
+    const payee = child(trn, 'PAYEE')
+    transactions.push({
+      fitId,
+      type: childValue(trn, 'TRNTYPE') ?? 'OTHER',
+      date,
+      amount,
+      name: childValue(trn, 'NAME') ?? childValue(payee, 'NAME'),
+      memo: childValue(trn, 'MEMO'),
+    })
+  }
+
+  const ledger = child(stmt, 'LEDGERBAL')
+  const balAmt = parseOfxAmount(childValue(ledger, 'BALAMT'))
+  const balDate = parseOfxDate(childValue(ledger, 'DTASOF'))
+
+  return {
+    org,
+    bankId: childValue(acct, 'BANKID'),
+    accountId,
+    accountType: isCreditCard ? 'CREDITCARD' : (childValue(acct, 'ACCTTYPE') ?? 'CHECKING'),
+    currency: (childValue(stmt, 'CURDEF') ?? 'USD').toUpperCase(),
+    transactions,
+    ledgerBalance: balAmt != null && balDate ? { amount: balAmt, asOf: balDate } : null,
+  }
+}
+
+/** Parse an OFX/QFX file into one entry per bank or credit card statement it contains. */
+export function parseOfx(text: string): OfxStatement[] {
+  const root = buildTree(text)
+  const ofx = child(root, 'OFX')
+  if (!ofx) throw new Error('Not an OFX file: missing <OFX> element')
+
+  const org = childValue(child(child(child(ofx, 'SIGNONMSGSRSV1'), 'SONRS'), 'FI'), 'ORG')
+  const statements = [
+    ...findAll(ofx, 'STMTRS').map((s) => parseStatement(s, org, false)),
+    ...findAll(ofx, 'CCSTMTRS').map((s) => parseStatement(s, org, true)),
+  ]
+  if (statements.length === 0) throw new Error('No bank or credit card statements found in OFX file')
+  return statements
+}
+
+/** Display label for a statement's account, e.g. "CHECKING ••1234". */
+export function ofxAccountLabel(statement: OfxStatement): string {
+  return `${statement.accountType} ••${statement.accountId.slice(-4)}`
+}
@@ -0,0 +1,80 @@
+/** A column a sheet tab's transform reads, as laid out in the template sheet. */
+export interface SheetColumn {
+  /** Column in the template layout (0 = A); transforms read this index. */
+  index: number
+  /** Database field it feeds; the key in a user's header mapping. */
+  field: string
+  /** Header text in the template sheet. */
+  header: string
+}
+
+/**
+ * Where each template column sits in the user's tab: template index → the user's index.
+ * Columns the user did not map keep their template position.
+ */
+export type SheetColumnPositions = Map<number, number>
+
+function normalizeHeader(value: unknown): string {
+  return String(value ?? '').toLowerCase().replace(/[_\s]+/g, ' ').trim()
+}
+
+/**
+ * Guess the header mapping from a tab's first row: a column matches a header equal to its
+ * template header or its field name (ignoring case, spaces and underscores). Columns with no
+ * matching header are left out, so they keep their template position.
+ */
+export function detectSheetColumns(columns: SheetColumn[], headerRow: unknown[]): Record<string, string> {
+  const headers = headerRow.map(normalizeHeader)
+  const detected: Record<string, string> = {}
+  for (const column of columns) {
+    const idx = [normalizeHeader(column.header), normalizeHeader(column.field)]
+      .map((name) => headers.indexOf(name))
+      .find((i) => i !== -1)
+    if (idx !== undefined) detected[column.field] = String(headerRow[idx]).trim()
+  }
+  return detected
+}
+
+/**
+ * Find each mapped header in the tab's first row. Mapped headers that are not there are returned
+ * in `missing`, since reading the template column instead would feed the wrong data.
+ */
+export function resolveSheetColumns(
+  columns: SheetColumn[],
+  headerRow: unknown[],
+  mapping: Record<string, string>
+): { positions: SheetColumnPositions; missing: string[] } {
+  const headers = headerRow.map(normalizeHeader)
+  const positions: SheetColumnPositions = new Map()
+  const missing: string[] = []
+  for (const column of columns) {
+    const header = mapping[column.field]
+    if (!header) {
+      positions.set(column.index, column.index)
+      continue
+    }
+    const idx = headers.indexOf(normalizeHeader(header))
+    if (idx === -1) missing.push(`"${header}" (${column.field})`)
+    else positions.set(column.index, idx)
+  }
+  return { positions, missing }
+}
+
+/** Rearrange a row of the user's tab into the template layout the transform reads. */
+export function toTemplateLayout(row: any[], positions: SheetColumnPositions): any[] {
+  const out: any[] = []
+  positions.forEach((from, to) => {
+    out[to] = row[from]
+  })
+  return out
+}
+
+/** Rearrange a template-layout row (e.g. from write-back) into the user's tab layout. */
+export function fromTemplateLayout(row: any[], positions: SheetColumnPositions): any[] {
+  const out: any[] = []
+  positions.forEach((to, from) => {
+    if (from < row.length) out[to] = row[from]
+  })
+  // Columns between mapped ones are written blank
+  return Array.from(out, (cell) => cell ?? '')
+}
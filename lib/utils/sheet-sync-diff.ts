@@ -0,0 +1,152 @@
+export type SheetRow = Record<string, any>
+
+export interface SheetRowChange {
+  /** Key columns joined with ' · ', for display. */
+  key: string
+  before: SheetRow
+  after: SheetRow
+  /** Columns whose value differs. */
+  columns: string[]
+}
+
+export interface SheetTableDiff {
+  sheet: string
+  table: string
+  added: number
+  removed: number
+  changed: number
+  unchanged: number
+  /** Up to `sampleSize` rows of each kind, for the preview. */
+  samples: {
+    added: SheetRow[]
+    removed: SheetRow[]
+    changed: SheetRowChange[]
+  }
+  /** Set when the sheet tab could not be read; counts are zero. */
+  error?: string
+}
+
+export interface DiffSheetRowsOptions {
+  /** Columns that identify a row. Rows sharing a key are matched in order. */
+  key: string[]
+  /** Columns compared on matched rows. Default: the incoming rows' columns (stored rows' when none come in). */
+  columns?: string[]
+  /**
+   * Whether an existing row with no incoming match is deleted by sync. `true` for
+   * delete-then-insert tables, `false` for upserts; a function for tables that prune selectively.
+   */
+  removeUnmatched: boolean | ((row: SheetRow) => boolean)
+  sampleSize?: number
+}
+
+/** Columns sync manages itself; never compared or shown. */
+const BOOKKEEPING_COLUMNS = new Set(['id', 'user_id', 'data_source', 'created_at', 'updated_at'])
+
+/** Numbers this close are equal (sheet floats vs numeric columns). */
+const NUMBER_TOLERANCE = 1e-6
+
+/**
+ * Normalize a value so a transformed sheet cell and its stored column compare equal:
+ * Dates and ISO timestamps become YYYY-MM-DD, numeric strings become numbers, blanks become null.
+ */
+export function normalizeSheetValue(value: unknown): string | number | boolean | null {
+  if (value == null) return null
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value.toISOString().split('T')[0]
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null
+  if (typeof value === 'boolean') return value
+  const s = String(value).trim()
+  if (s === '') return null
+  if (/^\d{4}-\d{2}-\d{2}(T|$)/.test(s)) return s.slice(0, 10)
+  const n = Number(s)
+  return isNaN(n) ? s : n
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  const x = normalizeSheetValue(a)
+  const y = normalizeSheetValue(b)
+  if (typeof x === 'number' && typeof y === 'number') return Math.abs(x - y) < NUMBER_TOLERANCE
+  return x === y
+}
+
+function rowKey(row: SheetRow, key: string[]): string {
+  return key.map((k) => String(normalizeSheetValue(row[k]) ?? '')).join(' · ')
+}
+
+/** Keep only compared columns, normalized, so sample rows serialize cleanly. */
+function displayRow(row: SheetRow, columns: string[]): SheetRow {
+  const out: SheetRow = {}
+  for (const c of columns) out[c] = normalizeSheetValue(row[c])
+  return out
+}
+
+/**
+ * Row-level diff between the rows sync would write (`incoming`) and what is stored
+ * (`existing`). Rows are matched by `key`; matched rows whose compared columns differ are
+ * changes, unmatched incoming rows are adds, and unmatched existing rows are removes when
+ * `removeUnmatched` says sync would delete them.
+ */
+export function diffSheetRows(
+  sheet: string,
+  table: string,
+  incoming: SheetRow[],
+  existing: SheetRow[],
+  options: DiffSheetRowsOptions
+): SheetTableDiff {
+  const { key, removeUnmatched, sampleSize = 20 } = options
+  const columns = options.columns
+    ?? Array.from(new Set((incoming.length > 0 ? incoming : existing).flatMap((r) => Object.keys(r))))
+      .filter((c) => !BOOKKEEPING_COLUMNS.has(c))
+
+  const existingByKey = new Map<string, SheetRow[]>()
+  for (const row of existing) {
+    const k = rowKey(row, key)
+    const bucket = existingByKey.get(k)
+    if (bucket) bucket.push(row)
+    else existingByKey.set(k, [row])
+  }
+
+  const diff: SheetTableDiff = {
+    sheet,
+    table,
+    added: 0,
+    removed: 0,
+    changed: 0,
+    unchanged: 0,
+    samples: { added: [], removed: [], changed: [] },
+  }
+
+  for (const row of incoming) {
+    const k = rowKey(row, key)
+    const match = existingByKey.get(k)?.shift()
+    if (!match) {
+      diff.added++
+      if (diff.samples.added.length < sampleSize) diff.samples.added.push(displayRow(row, columns))
+      continue
+    }
+    const changedColumns = columns.filter((c) => !sameValue(row[c], match[c]))
+    if (changedColumns.length === 0) {
+      diff.unchanged++
+      continue
+    }
+    diff.changed++
+    if (diff.samples.changed.length < sampleSize) {
+      diff.samples.changed.push({
+        key: k,
+        before: displayRow(match, columns),
+        after: displayRow(row, columns),
+        columns: changedColumns,
+      })
+    }
+  }
+
+  for (const rows of Array.from(existingByKey.values())) {
+    for (const row of rows) {
+      const removed = typeof removeUnmatched === 'function' ? removeUnmatched(row) : removeUnmatched
+      if (!removed) continue
+      diff.removed++
+      if (diff.samples.removed.length < sampleSize) diff.samples.removed.push(displayRow(row, columns))
+    }
+  }
+
+  return diff
+}
@@ -0,0 +1,120 @@
+import type { SheetColumnPositions } from './sheet-column-mapping'
+
+/** A cell the sheet sync could not read as intended. */
+export interface SheetValidationIssue {
+  sheet: string
+  /** Spreadsheet row number (the header is row 1). */
+  row: number
+  /** Column letter, e.g. "D". */
+  column: string
+  /** Database column the cell feeds. */
+  field: string
+  /** The cell as it appears in the sheet ('' when blank). */
+  value: string
+  reason: string
+  /** True when the whole row was left out of the sync because of this row's issues. */
+  rowSkipped: boolean
+}
+
+/**
+ * Typed cell access for a SheetConfig transform. Every read that cannot parse its cell records
+ * an issue against the row and returns the transform's fallback, so a bad cell is reported
+ * instead of silently becoming 0, NaN or a dropped row.
+ */
+export interface SheetRowReader {
+  /** Trimmed text, or '' when blank. */
+  text(index: number): string
+  /** Trimmed text, or null when blank. */
+  optionalText(index: number): string | null
+  /** Number; blank is 0. Unparseable cells are reported and read as 0. */
+  number(index: number, field: string): number
+  /** Number, or null when blank. Unparseable cells are reported and read as null. */
+  optionalNumber(index: number, field: string): number | null
+  /** Date, or null (reported) when blank or unparseable. */
+  date(index: number, field: string): Date | null
+  /** Record a problem a transform found itself (e.g. a missing required field). */
+  issue(index: number, field: string, reason: string): void
+}
+
+export function columnLetter(index: number): string {
+  let letter = ''
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letter = String.fromCharCode(65 + ((n - 1) % 26)) + letter
+  }
+  return letter
+}
+
+function rawCell(row: any[], index: number): string {
+  const value = row[index]
+  return value == null ? '' : String(value).trim()
+}
+
+/**
+ * Parse a sheet number the way it is typed: thousands separators, currency symbols and spaces
+ * are ignored and (123) means -123. Returns null when anything else is left over, so "1,2O0"
+ * is rejected rather than read as 1.
+ */
+export function parseSheetNumber(raw: string): number | null {
+  let s = raw.replace(/[£$€,\s]/g, '')
+  let sign = 1
+  if (/^\(.*\)$/.test(s)) {
+    sign = -1
+    s = s.slice(1, -1)
+  }
+  if (!/^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?%?$/i.test(s)) return null
+  const n = parseFloat(s)
+  return Number.isFinite(n) ? sign * n : null
+}
+
+/**
+ * Reader for one data row. `row` is in the template layout; `positions` maps its columns back to
+ * the user's tab (when they mapped their own headers) so issues name the column they see.
+ */
+export function createSheetRowReader(
+  sheet: string,
+  rowNumber: number,
+  row: any[],
+  issues: SheetValidationIssue[],
+  positions?: SheetColumnPositions
+): SheetRowReader {
+  const issue = (index: number, field: string, reason: string) => {
+    issues.push({
+      sheet,
+      row: rowNumber,
+      column: columnLetter(positions?.get(index) ?? index),
+      field,
+      value: rawCell(row, index),
+      reason,
+      rowSkipped: false,
+    })
+  }
+
+  const readNumber = (index: number, field: string, fallback: number | null) => {
+    const raw = rawCell(row, index)
+    if (!raw) return fallback
+    const n = parseSheetNumber(raw)
+    if (n == null) issue(index, field, 'Not a number')
+    return n ?? fallback
+  }
+
+  return {
+    text: (index) => rawCell(row, index),
+    optionalText: (index) => rawCell(row, index) || null,
+    number: (index, field) => readNumber(index, field, 0) as number,
+    optionalNumber: (index, field) => readNumber(index, field, null),
+    date: (index, field) => {
+      const raw = rawCell(row, index)
+      if (!raw) {
+        issue(index, field, 'Missing date')
+        return null
+      }
+      const date = new Date(raw)
+      if (isNaN(date.getTime())) {
+        issue(index, field, 'Not a valid date')
+        return null
+      }
+      return date
+    },
+    issue,
+  }
+}
@@ -0,0 +1,40 @@
+import { createHash } from 'crypto'
+
+export interface SheetTransactionRow {
+  date: Date | string
+  category: string
+  counterparty: string | null
+  amount_usd: number | null
+  amount_gbp: number | null
+  amount_eur?: number | null
+  currency: string | null
+}
+
+function dateKey(date: Date | string): string {
+  return date instanceof Date ? date.toISOString().split('T')[0] : String(date).split('T')[0]
+}
+
+/**
+ * Content hash per sheet transaction row, used by incremental sync to tell which rows changed.
+ * Identical rows get an occurrence number ("#0", "#1", ...) so two same-day coffees stay two rows,
+ * and removing one of them deletes exactly one.
+ */
+export function transactionContentHashes(rows: SheetTransactionRow[]): string[] {
+  const occurrences = new Map<string, number>()
+  return rows.map((row) => {
+    const content = JSON.stringify([
+      dateKey(row.date),
+      row.category ?? '',
+      row.counterparty ?? '',
+      row.amount_usd ?? null,
+      row.amount_gbp ?? null,
+      row.currency ?? null,
+      // Only rows with an EUR amount hash it, so rows synced before column G keep their hashes
+      ...(row.amount_eur != null ? [row.amount_eur] : []),
+    ])
+    const hash = createHash('sha1').update(content).digest('hex')
+    const n = occurrences.get(hash) ?? 0
+    occurrences.set(hash, n + 1)
+    return `${hash}#${n}`
+  })
+}
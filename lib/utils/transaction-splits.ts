@@ -0,0 +1,30 @@
+import { TransactionLog } from '@/lib/types'
+import { nativeAmount } from '@/lib/utils/currency'
+
+export interface SplitInput {
+  category: string
+  amount: number
+  note?: string | null
+}
+
+/** Allocations may differ from the parent by at most this much (rounding when splitting by hand). */
+const SPLIT_TOLERANCE = 0.005
+
+/**
+ * Check that splits can replace a transaction: at least two, none zero, and summing to the
+ * parent's amount in its own currency. Returns an error message, or null when valid.
+ */
+export function validateSplits(
+  parent: Pick<TransactionLog, 'amount' | 'amount_usd' | 'amount_gbp' | 'amount_eur' | 'currency'>,
+  splits: SplitInput[]
+): string | null {
+  const native = nativeAmount(parent)
+  if (!native || native.amount === 0) return 'Transaction has no amount to split'
+  if (splits.length < 2) return 'A split needs at least two parts'
+  if (splits.some((s) => s.amount === 0)) return 'Split amounts cannot be zero'
+  const total = splits.reduce((sum, s) => sum + s.amount, 0)
+  if (Math.abs(total - native.amount) > SPLIT_TOLERANCE) {
+    return `Splits add up to ${total.toFixed(2)} but the transaction is ${native.amount.toFixed(2)} ${native.currency}`
+  }
+  return null
+}
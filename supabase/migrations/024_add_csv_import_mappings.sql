@@ -0,0 +1,18 @@
+-- Saved CSV column mappings per bank so re-imports of the same export format are one click.
+-- mapping holds the CsvColumnMapping JSON (column indices, date format, sign convention, currency).
+CREATE TABLE IF NOT EXISTS csv_import_mappings (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    bank_name TEXT NOT NULL,
+    mapping JSONB NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT csv_import_mappings_user_bank_key UNIQUE (user_id, bank_name)
+);
+
+ALTER TABLE csv_import_mappings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "user_own_data" ON csv_import_mappings
+  FOR ALL TO authenticated USING (user_id = current_user_id()) WITH CHECK (user_id = current_user_id());
+
+COMMENT ON TABLE csv_import_mappings IS 'Per-bank CSV column mappings used by the transaction import dialog';
@@ -0,0 +1,23 @@
+-- OFX/QFX statement import: new 'ofx' data source and an external id for de-duplication.
+
+-- 1. Allow 'ofx' as a data source on the tables the importer writes to
+ALTER TABLE transaction_log DROP CONSTRAINT IF EXISTS transaction_log_data_source_check;
+ALTER TABLE transaction_log
+  ADD CONSTRAINT transaction_log_data_source_check
+  CHECK (data_source IN ('google_sheet', 'plaid', 'csv', 'manual', 'ofx'));
+
+ALTER TABLE account_balances DROP CONSTRAINT IF EXISTS account_balances_data_source_check;
+ALTER TABLE account_balances
+  ADD CONSTRAINT account_balances_data_source_check
+  CHECK (data_source IN ('google_sheet', 'plaid', 'csv', 'manual', 'ofx'));
+
+-- 2. Source-provided transaction id (OFX: "<ACCTID>:<FITID>"). NULLs are distinct in a
+--    UNIQUE constraint, so sheet/manual rows without an id are unaffected; re-importing an
+--    overlapping statement upserts with ignoreDuplicates and never double-counts.
+ALTER TABLE transaction_log ADD COLUMN IF NOT EXISTS external_id TEXT;
+
+ALTER TABLE transaction_log DROP CONSTRAINT IF EXISTS transaction_log_user_external_id_key;
+ALTER TABLE transaction_log
+  ADD CONSTRAINT transaction_log_user_external_id_key UNIQUE (user_id, external_id);
+
+COMMENT ON COLUMN transaction_log.external_id IS 'Source transaction id for file/aggregator imports (e.g. OFX ACCTID:FITID); NULL for sheet and manual rows';
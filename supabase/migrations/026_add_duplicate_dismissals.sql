@@ -0,0 +1,15 @@
+-- Duplicate transaction review: pairs the user marked "not a duplicate".
+-- Keyed by row content fingerprints rather than ids, because sheet sync deletes and
+-- re-inserts google_sheet rows with new ids on every run.
+CREATE TABLE IF NOT EXISTS transaction_duplicate_dismissals (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    pair_key TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT transaction_duplicate_dismissals_user_pair_key UNIQUE (user_id, pair_key)
+);
+
+ALTER TABLE transaction_duplicate_dismissals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "user_own_data" ON transaction_duplicate_dismissals
+  FOR ALL TO authenticated USING (user_id = current_user_id()) WITH CHECK (user_id = current_user_id());
@@ -0,0 +1,26 @@
+-- Rule-based auto-categorization: ordered rules matching counterparty (contains/regex),
+-- absolute amount range and currency. First active match (lowest priority) wins.
+CREATE TABLE IF NOT EXISTS categorization_rules (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    priority INTEGER NOT NULL DEFAULT 0,
+    counterparty_pattern TEXT,
+    match_type TEXT NOT NULL DEFAULT 'contains' CHECK (match_type IN ('contains', 'regex')),
+    min_amount NUMERIC(15, 2),
+    max_amount NUMERIC(15, 2),
+    currency TEXT CHECK (currency IN ('USD', 'GBP')),
+    category TEXT NOT NULL,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE categorization_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "user_own_data" ON categorization_rules
+  FOR ALL TO authenticated USING (user_id = current_user_id()) WITH CHECK (user_id = current_user_id());
+
+CREATE INDEX IF NOT EXISTS idx_categorization_rules_user_priority ON categorization_rules(user_id, priority);
+
+-- Opt-in: categorize sheet rows with a blank category during sync
+ALTER TABLE user_profiles
+  ADD COLUMN IF NOT EXISTS apply_rules_on_sync BOOLEAN NOT NULL DEFAULT FALSE;
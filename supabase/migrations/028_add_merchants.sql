@@ -0,0 +1,25 @@
+-- Merchant directory: canonical merchant names with alias patterns, so "AMZN Mktp UK*2X",
+-- "Amazon.co.uk" and "AMAZON PRIME" can all resolve to one merchant.
+-- Alias patterns are plain words matched against the normalized counterparty, or /regex/
+-- matched against the raw counterparty. Unmatched counterparties get an auto-created merchant.
+CREATE TABLE IF NOT EXISTS merchants (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    alias_patterns TEXT[] NOT NULL DEFAULT '{}',
+    is_auto BOOLEAN NOT NULL DEFAULT FALSE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT merchants_user_name UNIQUE (user_id, name)
+);
+
+ALTER TABLE merchants ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "user_own_data" ON merchants
+  FOR ALL TO authenticated USING (user_id = current_user_id()) WITH CHECK (user_id = current_user_id());
+
+-- Resolved after every sync/import; sheet rows are re-inserted on sync, so this is re-filled each time
+ALTER TABLE transaction_log
+  ADD COLUMN IF NOT EXISTS merchant_id UUID REFERENCES merchants(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_transaction_log_merchant_id ON transaction_log(merchant_id);
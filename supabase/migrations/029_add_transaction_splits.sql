@@ -0,0 +1,96 @@
+-- Split transactions: child allocations of one transaction_log row, each with its own
+-- category and note. Allocations are in the parent's own currency and must sum to it
+-- (enforced by the API).
+-- parent_key is the parent's content fingerprint: sheet sync re-inserts google_sheet rows
+-- with new ids (transaction_id goes NULL), and the app re-links splits by parent_key.
+CREATE TABLE IF NOT EXISTS transaction_splits (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    transaction_id UUID REFERENCES transaction_log(id) ON DELETE SET NULL,
+    parent_key TEXT NOT NULL,
+    position INTEGER NOT NULL DEFAULT 0,
+    category TEXT NOT NULL,
+    amount NUMERIC(15, 2) NOT NULL,
+    note TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE transaction_splits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "user_own_data" ON transaction_splits
+  FOR ALL TO authenticated USING (user_id = current_user_id()) WITH CHECK (user_id = current_user_id());
+
+CREATE INDEX IF NOT EXISTS idx_transaction_splits_transaction_id ON transaction_splits(transaction_id);
+CREATE INDEX IF NOT EXISTS idx_transaction_splits_user_parent_key ON transaction_splits(user_id, parent_key);
+
+-- One row per allocation: unsplit transactions pass through, split ones become one row per
+-- split with the parent's amounts scaled by the split's share. id is always the parent id.
+-- security_invoker so the caller's RLS on transaction_log/transaction_splits applies.
+CREATE OR REPLACE VIEW transaction_log_allocated WITH (security_invoker = true) AS
+SELECT
+  t.id,
+  s.id AS split_id,
+  t.user_id,
+  t.date,
+  COALESCE(s.category, t.category) AS category,
+  t.category AS parent_category,
+  t.counterparty,
+  t.counterparty_dedup,
+  CASE WHEN s.id IS NULL THEN t.amount_usd ELSE ROUND(t.amount_usd * s.amount / p.native_amount, 2) END AS amount_usd,
+  CASE WHEN s.id IS NULL THEN t.amount_gbp ELSE ROUND(t.amount_gbp * s.amount / p.native_amount, 2) END AS amount_gbp,
+  t.currency,
+  t.data_source,
+  t.external_id,
+  t.merchant_id,
+  s.note AS split_note,
+  t.created_at
+FROM transaction_log t
+CROSS JOIN LATERAL (
+  -- Same rule as the app: the row's own currency side, else whichever side is set
+  SELECT NULLIF(
+    CASE
+      WHEN UPPER(TRIM(COALESCE(t.currency, ''))) = 'GBP' AND t.amount_gbp IS NOT NULL THEN t.amount_gbp
+      ELSE COALESCE(t.amount_usd, t.amount_gbp)
+    END, 0) AS native_amount
+) p
+LEFT JOIN transaction_splits s ON s.transaction_id = t.id AND p.native_amount IS NOT NULL;
+
+-- Net burn respects splits: a split allocated partly to Income/Excluded only counts the rest.
+CREATE OR REPLACE FUNCTION get_cash_runway_net_burn(p_start date, p_end date)
+RETURNS TABLE (gbp_net numeric, usd_net numeric)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    COALESCE(SUM(CASE WHEN UPPER(TRIM(COALESCE(currency, ''))) = 'GBP' THEN amount_gbp END), 0),
+    COALESCE(SUM(CASE WHEN currency IS NULL OR UPPER(TRIM(currency)) = 'USD' THEN amount_usd END), 0)
+  FROM transaction_log_allocated
+  WHERE date >= p_start AND date <= p_end
+    AND category NOT IN ('Income', 'Excluded', 'Gift Money');
+$$;
+
+-- Budget YTD comes from the sheet, which counts a split transaction under its parent
+-- category. Returns per-category GBP corrections: minus the parent, plus each split.
+-- USD-only rows are converted at the current rate.
+CREATE OR REPLACE FUNCTION get_split_budget_adjustments(p_start date, p_end date)
+RETURNS TABLE (category text, ytd_gbp_delta numeric)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH rate AS (
+    SELECT COALESCE((SELECT gbpusd_rate FROM fx_rate_current ORDER BY date DESC LIMIT 1), 1) AS gbpusd
+  ),
+  allocations AS (
+    SELECT a.category, a.parent_category, COALESCE(a.amount_gbp, a.amount_usd / rate.gbpusd) AS gbp
+    FROM transaction_log_allocated a, rate
+    WHERE a.split_id IS NOT NULL AND a.date >= p_start AND a.date <= p_end
+  )
+  SELECT category, SUM(delta)
+  FROM (
+    SELECT category, gbp AS delta FROM allocations
+    UNION ALL
+    SELECT parent_category, -gbp FROM allocations
+  ) d
+  GROUP BY category
+  HAVING SUM(delta) <> 0;
+$$;
@@ -0,0 +1,31 @@
+-- Free-form tags on transactions (e.g. "Trip: Lisbon 2026", "Reimbursable"), many-to-many.
+-- Like transaction_splits, links carry the transaction's content fingerprint (parent_key) so
+-- they survive sheet sync re-inserting google_sheet rows with new ids.
+CREATE TABLE IF NOT EXISTS tags (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(user_id, name)
+);
+
+CREATE TABLE IF NOT EXISTS transaction_tags (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    tag_id UUID NOT NULL REFERENCES tags(id) ON DELETE CASCADE,
+    transaction_id UUID REFERENCES transaction_log(id) ON DELETE SET NULL,
+    parent_key TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(tag_id, transaction_id)
+);
+
+ALTER TABLE tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE transaction_tags ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "user_own_data" ON tags
+  FOR ALL TO authenticated USING (user_id = current_user_id()) WITH CHECK (user_id = current_user_id());
+CREATE POLICY "user_own_data" ON transaction_tags
+  FOR ALL TO authenticated USING (user_id = current_user_id()) WITH CHECK (user_id = current_user_id());
+
+CREATE INDEX IF NOT EXISTS idx_transaction_tags_transaction_id ON transaction_tags(transaction_id);
+CREATE INDEX IF NOT EXISTS idx_transaction_tags_user_parent_key ON transaction_tags(user_id, parent_key);
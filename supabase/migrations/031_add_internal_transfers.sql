@@ -0,0 +1,108 @@
+-- Internal transfers: an outgoing and an incoming transaction_log row that are one movement
+-- between the user's own accounts (possibly GBP <-> USD). Paired rows are left out of burn,
+-- budget YTD and income vs expenses.
+-- Legs are kept by content fingerprint (out_key / in_key) as well as id, because sheet sync
+-- re-inserts google_sheet rows with new ids; the app re-links ids after each sync.
+-- status: auto = paired by detection, confirmed = user accepted, rejected = user unpaired
+-- (kept so detection does not pair the same rows again).
+CREATE TABLE IF NOT EXISTS transaction_transfers (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    pair_key TEXT NOT NULL,
+    out_key TEXT NOT NULL,
+    in_key TEXT NOT NULL,
+    out_transaction_id UUID REFERENCES transaction_log(id) ON DELETE SET NULL,
+    in_transaction_id UUID REFERENCES transaction_log(id) ON DELETE SET NULL,
+    status TEXT NOT NULL DEFAULT 'auto' CHECK (status IN ('auto', 'confirmed', 'rejected')),
+    implied_rate NUMERIC(12, 6),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT transaction_transfers_user_pair_key UNIQUE (user_id, pair_key)
+);
+
+ALTER TABLE transaction_transfers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "user_own_data" ON transaction_transfers
+  FOR ALL TO authenticated USING (user_id = current_user_id()) WITH CHECK (user_id = current_user_id());
+
+CREATE INDEX IF NOT EXISTS idx_transaction_transfers_out_id ON transaction_transfers(out_transaction_id);
+CREATE INDEX IF NOT EXISTS idx_transaction_transfers_in_id ON transaction_transfers(in_transaction_id);
+
+-- Same view as 029 plus is_transfer (appended, so CREATE OR REPLACE keeps existing columns).
+CREATE OR REPLACE VIEW transaction_log_allocated WITH (security_invoker = true) AS
+SELECT
+  t.id,
+  s.id AS split_id,
+  t.user_id,
+  t.date,
+  COALESCE(s.category, t.category) AS category,
+  t.category AS parent_category,
+  t.counterparty,
+  t.counterparty_dedup,
+  CASE WHEN s.id IS NULL THEN t.amount_usd ELSE ROUND(t.amount_usd * s.amount / p.native_amount, 2) END AS amount_usd,
+  CASE WHEN s.id IS NULL THEN t.amount_gbp ELSE ROUND(t.amount_gbp * s.amount / p.native_amount, 2) END AS amount_gbp,
+  t.currency,
+  t.data_source,
+  t.external_id,
+  t.merchant_id,
+  s.note AS split_note,
+  t.created_at,
+  EXISTS (
+    SELECT 1 FROM transaction_transfers x
+    WHERE x.status <> 'rejected' AND (x.out_transaction_id = t.id OR x.in_transaction_id = t.id)
+  ) AS is_transfer
+FROM transaction_log t
+CROSS JOIN LATERAL (
+  SELECT NULLIF(
+    CASE
+      WHEN UPPER(TRIM(COALESCE(t.currency, ''))) = 'GBP' AND t.amount_gbp IS NOT NULL THEN t.amount_gbp
+      ELSE COALESCE(t.amount_usd, t.amount_gbp)
+    END, 0) AS native_amount
+) p
+LEFT JOIN transaction_splits s ON s.transaction_id = t.id AND p.native_amount IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION get_cash_runway_net_burn(p_start date, p_end date)
+RETURNS TABLE (gbp_net numeric, usd_net numeric)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    COALESCE(SUM(CASE WHEN UPPER(TRIM(COALESCE(currency, ''))) = 'GBP' THEN amount_gbp END), 0),
+    COALESCE(SUM(CASE WHEN currency IS NULL OR UPPER(TRIM(currency)) = 'USD' THEN amount_usd END), 0)
+  FROM transaction_log_allocated
+  WHERE date >= p_start AND date <= p_end
+    AND category NOT IN ('Income', 'Excluded', 'Gift Money')
+    AND NOT is_transfer;
+$$;
+
+-- Replaces get_split_budget_adjustments: per-category GBP corrections to the sheet's budget
+-- figures for splits (minus the parent category, plus each split) and transfers (removed).
+-- Only sheet rows count, since only they are in the sheet's YTD. USD-only rows are converted
+-- at the current rate.
+DROP FUNCTION IF EXISTS get_split_budget_adjustments(date, date);
+
+CREATE OR REPLACE FUNCTION get_budget_ytd_adjustments(p_start date, p_end date)
+RETURNS TABLE (category text, ytd_gbp_delta numeric)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH rate AS (
+    SELECT COALESCE((SELECT gbpusd_rate FROM fx_rate_current ORDER BY date DESC LIMIT 1), 1) AS gbpusd
+  ),
+  adjusted AS (
+    SELECT a.category, a.parent_category, a.split_id, a.is_transfer,
+      COALESCE(a.amount_gbp, a.amount_usd / rate.gbpusd) AS gbp
+    FROM transaction_log_allocated a, rate
+    WHERE (a.split_id IS NOT NULL OR a.is_transfer)
+      AND COALESCE(a.data_source, 'google_sheet') = 'google_sheet'
+      AND a.date >= p_start AND a.date <= p_end
+  )
+  SELECT category, SUM(delta)
+  FROM (
+    SELECT category, gbp AS delta FROM adjusted WHERE NOT is_transfer
+    UNION ALL
+    SELECT parent_category, -gbp FROM adjusted
+  ) d
+  GROUP BY category
+  HAVING SUM(delta) <> 0;
+$$;
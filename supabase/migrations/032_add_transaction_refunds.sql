@@ -0,0 +1,26 @@
+-- Refund matching: a positive transaction_log row linked to the earlier purchase it reverses,
+-- so a return can be netted against the purchase (and its month) instead of reading as income.
+-- Same shape as transaction_transfers: legs are kept by content fingerprint as well as id so
+-- pairs survive sheet sync re-inserting google_sheet rows, and unlinked pairs stay as
+-- 'rejected' so detection does not link them again.
+CREATE TABLE IF NOT EXISTS transaction_refunds (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    pair_key TEXT NOT NULL,
+    purchase_key TEXT NOT NULL,
+    refund_key TEXT NOT NULL,
+    purchase_transaction_id UUID REFERENCES transaction_log(id) ON DELETE SET NULL,
+    refund_transaction_id UUID REFERENCES transaction_log(id) ON DELETE SET NULL,
+    status TEXT NOT NULL DEFAULT 'auto' CHECK (status IN ('auto', 'rejected')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT transaction_refunds_user_pair_key UNIQUE (user_id, pair_key)
+);
+
+ALTER TABLE transaction_refunds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "user_own_data" ON transaction_refunds
+  FOR ALL TO authenticated USING (user_id = current_user_id()) WITH CHECK (user_id = current_user_id());
+
+CREATE INDEX IF NOT EXISTS idx_transaction_refunds_purchase_id ON transaction_refunds(purchase_transaction_id);
+CREATE INDEX IF NOT EXISTS idx_transaction_refunds_refund_id ON transaction_refunds(refund_transaction_id);
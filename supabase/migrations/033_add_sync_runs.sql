@@ -0,0 +1,24 @@
+-- Sync run history: one row per Google Sheet sync (manual refresh, daily cron or the onboarding
+-- sync of the sample sheet) with its duration, totals and the per-sheet results, so a tab that
+-- starts failing or a run that dropped rows can be traced. sync_metadata keeps last_sync_at.
+CREATE TABLE IF NOT EXISTS sync_runs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    trigger TEXT NOT NULL CHECK (trigger IN ('manual', 'cron', 'onboarding')),
+    started_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    duration_ms INTEGER NOT NULL,
+    success BOOLEAN NOT NULL,
+    error TEXT,
+    rows_processed INTEGER NOT NULL DEFAULT 0,
+    rows_skipped INTEGER NOT NULL DEFAULT 0,
+    -- [{ sheet, success, error?, rowsProcessed, rowsSkipped }]
+    results JSONB NOT NULL DEFAULT '[]'::jsonb,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE sync_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "user_own_data" ON sync_runs
+  FOR ALL TO authenticated USING (user_id = current_user_id()) WITH CHECK (user_id = current_user_id());
+
+CREATE INDEX IF NOT EXISTS idx_sync_runs_user_started ON sync_runs(user_id, started_at DESC);
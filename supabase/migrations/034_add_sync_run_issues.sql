@@ -0,0 +1,6 @@
+-- Row-level validation issues from the sheet transforms (bad numbers, bad or missing dates,
+-- unknown currencies), kept on the sync run that found them for the Data issues page.
+-- issue_count is the full count; issues holds the first 1000.
+ALTER TABLE sync_runs ADD COLUMN IF NOT EXISTS issue_count INTEGER NOT NULL DEFAULT 0;
+-- [{ sheet, row, column, field, value, reason, rowSkipped }]
+ALTER TABLE sync_runs ADD COLUMN IF NOT EXISTS issues JSONB NOT NULL DEFAULT '[]'::jsonb;
@@ -0,0 +1,98 @@
+-- Versioned snapshots of the tables sheet sync deletes and re-inserts, taken before each sync
+-- writes, so a bad sync can be rolled back. `tables` maps table name to its rows (google_sheet
+-- rows only for budget_targets and debt). Restoring takes a snapshot of the current state first,
+-- so a restore can itself be undone. Snapshots older than the user's retention are pruned.
+CREATE TABLE IF NOT EXISTS sync_snapshots (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    reason TEXT NOT NULL CHECK (reason IN ('sync', 'restore')),
+    taken_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    row_count INTEGER NOT NULL DEFAULT 0,
+    tables JSONB NOT NULL DEFAULT '{}'::jsonb,
+    restored_at TIMESTAMP WITH TIME ZONE
+);
+
+ALTER TABLE sync_snapshots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "user_own_data" ON sync_snapshots
+  FOR ALL TO authenticated USING (user_id = current_user_id()) WITH CHECK (user_id = current_user_id());
+
+CREATE INDEX IF NOT EXISTS idx_sync_snapshots_user_taken ON sync_snapshots(user_id, taken_at DESC);
+
+ALTER TABLE sync_runs
+  ADD COLUMN IF NOT EXISTS snapshot_id UUID REFERENCES sync_snapshots(id) ON DELETE SET NULL;
+
+ALTER TABLE user_profiles
+  ADD COLUMN IF NOT EXISTS snapshot_retention_days INTEGER NOT NULL DEFAULT 30
+  CHECK (snapshot_retention_days BETWEEN 1 AND 365);
+
+-- Copy the user's delete-then-insert tables into a new snapshot and return its id.
+-- SECURITY INVOKER: RLS limits authenticated callers to their own rows; cron uses the admin client.
+CREATE OR REPLACE FUNCTION create_sync_snapshot(p_user_id uuid, p_reason text DEFAULT 'sync')
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_table text;
+  v_rows jsonb;
+  v_tables jsonb := '{}'::jsonb;
+  v_count integer := 0;
+  v_id uuid;
+BEGIN
+  FOREACH v_table IN ARRAY ARRAY[
+    'budget_targets', 'debt', 'annual_trends', 'monthly_trends',
+    'investment_return', 'yoy_net_worth', 'recurring_payments'
+  ] LOOP
+    EXECUTE format(
+      'SELECT COALESCE(jsonb_agg(to_jsonb(t)), ''[]''::jsonb) FROM %I t WHERE t.user_id = $1%s',
+      v_table,
+      CASE WHEN v_table IN ('budget_targets', 'debt') THEN ' AND t.data_source = ''google_sheet''' ELSE '' END
+    ) INTO v_rows USING p_user_id;
+    v_tables := v_tables || jsonb_build_object(v_table, v_rows);
+    v_count := v_count + jsonb_array_length(v_rows);
+  END LOOP;
+
+  INSERT INTO sync_snapshots (user_id, reason, row_count, tables)
+  VALUES (p_user_id, p_reason, v_count, v_tables)
+  RETURNING id INTO v_id;
+  RETURN v_id;
+END;
+$$;
+
+-- Replace the snapshot's tables with its rows in one transaction. Returns the id of the snapshot
+-- of the state being replaced.
+CREATE OR REPLACE FUNCTION restore_sync_snapshot(p_snapshot_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_snapshot sync_snapshots;
+  v_table text;
+  v_backup_id uuid;
+BEGIN
+  SELECT * INTO v_snapshot FROM sync_snapshots WHERE id = p_snapshot_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Snapshot % not found', p_snapshot_id;
+  END IF;
+
+  v_backup_id := create_sync_snapshot(v_snapshot.user_id, 'restore');
+
+  FOREACH v_table IN ARRAY ARRAY[
+    'budget_targets', 'debt', 'annual_trends', 'monthly_trends',
+    'investment_return', 'yoy_net_worth', 'recurring_payments'
+  ] LOOP
+    CONTINUE WHEN NOT v_snapshot.tables ? v_table;
+    EXECUTE format(
+      'DELETE FROM %I WHERE user_id = $1%s',
+      v_table,
+      CASE WHEN v_table IN ('budget_targets', 'debt') THEN ' AND data_source = ''google_sheet''' ELSE '' END
+    ) USING v_snapshot.user_id;
+    -- Rows keep their original ids; the rows that replaced them were just deleted
+    EXECUTE format('INSERT INTO %I SELECT * FROM jsonb_populate_recordset(NULL::%I, $1)', v_table, v_table)
+      USING v_snapshot.tables -> v_table;
+  END LOOP;
+
+  UPDATE sync_snapshots SET restored_at = NOW() WHERE id = p_snapshot_id;
+  RETURN v_backup_id;
+END;
+$$;
@@ -0,0 +1,41 @@
+-- Incremental transaction sync: each google_sheet row carries a hash of its content (plus an
+-- occurrence number, so identical rows stay distinct). Sync then deletes only rows whose hash
+-- left the sheet and inserts only new hashes, in one transaction, instead of replacing the tab.
+-- Rows synced before this migration have no hash and are replaced once on the next sync.
+ALTER TABLE transaction_log ADD COLUMN IF NOT EXISTS content_hash TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_transaction_log_user_content_hash
+  ON transaction_log(user_id, content_hash) WHERE content_hash IS NOT NULL;
+
+-- Apply a sheet diff atomically. p_rows: [{ date, category, counterparty, counterparty_dedup,
+-- amount_usd, amount_gbp, currency, content_hash }]. Returns the number of rows deleted and inserted.
+CREATE OR REPLACE FUNCTION apply_sheet_transactions(p_user_id uuid, p_delete_hashes text[], p_rows jsonb)
+RETURNS TABLE (deleted integer, inserted integer)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_deleted integer;
+  v_inserted integer;
+BEGIN
+  DELETE FROM transaction_log
+  WHERE user_id = p_user_id
+    AND data_source = 'google_sheet'
+    AND (content_hash IS NULL OR content_hash = ANY(p_delete_hashes));
+  GET DIAGNOSTICS v_deleted = ROW_COUNT;
+
+  INSERT INTO transaction_log (
+    user_id, date, category, counterparty, counterparty_dedup,
+    amount_usd, amount_gbp, currency, data_source, content_hash
+  )
+  SELECT p_user_id, r.date, r.category, r.counterparty, COALESCE(r.counterparty_dedup, ''),
+    r.amount_usd, r.amount_gbp, r.currency, 'google_sheet', r.content_hash
+  FROM jsonb_to_recordset(p_rows) AS r(
+    date date, category text, counterparty text, counterparty_dedup text,
+    amount_usd numeric, amount_gbp numeric, currency text, content_hash text
+  )
+  ON CONFLICT (user_id, content_hash) WHERE content_hash IS NOT NULL DO NOTHING;
+  GET DIAGNOSTICS v_inserted = ROW_COUNT;
+
+  RETURN QUERY SELECT v_deleted, v_inserted;
+END;
+$$;
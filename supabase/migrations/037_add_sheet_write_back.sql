@@ -0,0 +1,11 @@
+-- Opt-in write-back: before each sync, manual transactions, account balances, budgets and kids
+-- accounts are appended to their Google Sheet tab. A written row becomes a google_sheet row, so the
+-- sheet owns it from then on and the sync that reads it back does not duplicate it.
+-- sheet_synced_at records when it was written.
+ALTER TABLE user_profiles
+  ADD COLUMN IF NOT EXISTS sheet_write_back BOOLEAN NOT NULL DEFAULT FALSE;
+
+ALTER TABLE transaction_log ADD COLUMN IF NOT EXISTS sheet_synced_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE account_balances ADD COLUMN IF NOT EXISTS sheet_synced_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE budget_targets ADD COLUMN IF NOT EXISTS sheet_synced_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE kids_accounts ADD COLUMN IF NOT EXISTS sheet_synced_at TIMESTAMP WITH TIME ZONE;
@@ -0,0 +1,20 @@
+-- Per-user sheet layout, so sheets that differ from the template still sync. One row per tab the
+-- user customised: tab_name reads a differently named tab, and columns maps database field to the
+-- header text in the tab's first row (JSON object). Fields left out read the template column.
+CREATE TABLE IF NOT EXISTS sheet_column_mappings (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    sheet_name TEXT NOT NULL,
+    tab_name TEXT,
+    columns JSONB NOT NULL DEFAULT '{}'::jsonb,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT sheet_column_mappings_user_sheet_key UNIQUE (user_id, sheet_name)
+);
+
+ALTER TABLE sheet_column_mappings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "user_own_data" ON sheet_column_mappings
+  FOR ALL TO authenticated USING (user_id = current_user_id()) WITH CHECK (user_id = current_user_id());
+
+COMMENT ON TABLE sheet_column_mappings IS 'Per-user tab names and header-to-field mappings used by Google Sheet sync';
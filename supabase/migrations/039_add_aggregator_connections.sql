@@ -0,0 +1,35 @@
+-- Bank-aggregator connections: one row per linked item (a login at one institution) with the
+-- provider's access token and the transaction cursor, so each sync fetches only what is new.
+-- Rows a connector writes carry the provider id as data_source (sheet sync only touches
+-- google_sheet rows). The access token is never returned by the API.
+CREATE TABLE IF NOT EXISTS aggregator_connections (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    provider TEXT NOT NULL,
+    item_id TEXT NOT NULL,
+    institution TEXT NOT NULL,
+    access_token TEXT NOT NULL,
+    cursor TEXT,
+    status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'error')),
+    last_error TEXT,
+    last_synced_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT aggregator_connections_user_item_key UNIQUE (user_id, provider, item_id)
+);
+
+ALTER TABLE aggregator_connections ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "user_own_data" ON aggregator_connections
+  FOR ALL TO authenticated USING (user_id = current_user_id()) WITH CHECK (user_id = current_user_id());
+
+-- 'mock' is the file-backed offline provider
+ALTER TABLE transaction_log DROP CONSTRAINT IF EXISTS transaction_log_data_source_check;
+ALTER TABLE transaction_log
+  ADD CONSTRAINT transaction_log_data_source_check
+  CHECK (data_source IN ('google_sheet', 'plaid', 'csv', 'manual', 'ofx', 'mock'));
+
+ALTER TABLE account_balances DROP CONSTRAINT IF EXISTS account_balances_data_source_check;
+ALTER TABLE account_balances
+  ADD CONSTRAINT account_balances_data_source_check
+  CHECK (data_source IN ('google_sheet', 'plaid', 'csv', 'manual', 'ofx', 'mock'));
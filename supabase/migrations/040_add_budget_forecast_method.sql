@@ -0,0 +1,7 @@
+-- Budget YTD and full-year tracking are computed in-app from transaction_log instead of read
+-- from the sheet's Tracking/YTD columns. Each user picks the projection: run_rate (YTD scaled to
+-- the year), seasonal (prior years' spend after the same date) or recurring (remaining charges of
+-- detected recurring payments plus run rate on the rest). Snapshots use the same setting.
+ALTER TABLE user_profiles
+  ADD COLUMN IF NOT EXISTS budget_forecast_method TEXT NOT NULL DEFAULT 'run_rate'
+  CHECK (budget_forecast_method IN ('run_rate', 'seasonal', 'recurring'));
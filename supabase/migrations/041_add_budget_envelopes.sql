@@ -0,0 +1,22 @@
+-- Envelope budgeting: a category's annual budget spread over the months of a year. monthly_gbp is
+-- a JSON array of 12 amounts to spend (positive GBP, January first); with rollover, what is left
+-- of a month (or overspent) carries into the next. Keyed by category rather than budget_targets.id
+-- because sheet sync re-inserts budget rows. Categories without a row use an even 1/12 split.
+CREATE TABLE IF NOT EXISTS budget_envelopes (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    category TEXT NOT NULL,
+    year INTEGER NOT NULL,
+    monthly_gbp JSONB NOT NULL CHECK (jsonb_typeof(monthly_gbp) = 'array' AND jsonb_array_length(monthly_gbp) = 12),
+    rollover BOOLEAN NOT NULL DEFAULT FALSE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT budget_envelopes_user_category_year_key UNIQUE (user_id, category, year)
+);
+
+ALTER TABLE budget_envelopes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "user_own_data" ON budget_envelopes
+  FOR ALL TO authenticated USING (user_id = current_user_id()) WITH CHECK (user_id = current_user_id());
+
+COMMENT ON TABLE budget_envelopes IS 'Per-month budget allocations and rollover per category and year';
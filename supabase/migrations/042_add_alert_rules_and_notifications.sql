@@ -0,0 +1,44 @@
+-- Budget alerts: user-defined rules evaluated after every sync, delivering to an in-app inbox.
+-- rule_type decides what threshold means:
+--   budget_percent    - % of the annual budget spent so far (YTD)
+--   forecast_gap      - GBP the forecast gap (budget_history) worsened over lookback_days
+--   z_score           - this month's spend z-score (monthly_trends)
+--   large_transaction - GBP spent in a single transaction
+-- category limits a rule to one category; null means total expenses (or any category).
+CREATE TABLE IF NOT EXISTS alert_rules (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    rule_type TEXT NOT NULL CHECK (rule_type IN ('budget_percent', 'forecast_gap', 'z_score', 'large_transaction')),
+    category TEXT,
+    threshold NUMERIC(15, 2) NOT NULL,
+    lookback_days INTEGER NOT NULL DEFAULT 7 CHECK (lookback_days > 0),
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE alert_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "user_own_data" ON alert_rules
+  FOR ALL TO authenticated USING (user_id = current_user_id()) WITH CHECK (user_id = current_user_id());
+
+-- dedupe_key identifies the condition that fired (rule + category + period, or rule + transaction),
+-- so re-evaluating after the next sync does not notify about the same thing again.
+CREATE TABLE IF NOT EXISTS notifications (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    alert_rule_id UUID REFERENCES alert_rules(id) ON DELETE SET NULL,
+    dedupe_key TEXT NOT NULL,
+    title TEXT NOT NULL,
+    body TEXT,
+    link TEXT,
+    read_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT notifications_user_dedupe_key UNIQUE (user_id, dedupe_key)
+);
+
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "user_own_data" ON notifications
+  FOR ALL TO authenticated USING (user_id = current_user_id()) WITH CHECK (user_id = current_user_id());
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_created ON notifications(user_id, created_at DESC);
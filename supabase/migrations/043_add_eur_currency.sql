@@ -0,0 +1,105 @@
+-- EUR as a display and reporting currency alongside GBP and USD.
+-- fx_rate_current gets the current EURUSD rate (fx_rates already has it per date); EUR
+-- transactions keep their native amount in amount_eur, with amount_usd / amount_gbp as before
+-- (from the sheet, or converted at that day's rate for imports) so existing totals include them.
+ALTER TABLE fx_rate_current
+  ADD COLUMN IF NOT EXISTS eurusd_rate NUMERIC(10, 6);
+
+ALTER TABLE transaction_log
+  ADD COLUMN IF NOT EXISTS amount_eur NUMERIC(15, 2);
+
+COMMENT ON COLUMN transaction_log.currency IS 'Original transaction currency: USD, GBP or EUR. From Transaction Log sheet column F.';
+COMMENT ON COLUMN transaction_log.amount_eur IS 'Amount in EUR for EUR transactions. From Transaction Log sheet column G.';
+
+ALTER TABLE user_profiles DROP CONSTRAINT IF EXISTS user_profiles_default_currency_check;
+ALTER TABLE user_profiles
+  ADD CONSTRAINT user_profiles_default_currency_check CHECK (default_currency IN ('USD', 'GBP', 'EUR'));
+
+ALTER TABLE categorization_rules DROP CONSTRAINT IF EXISTS categorization_rules_currency_check;
+ALTER TABLE categorization_rules
+  ADD CONSTRAINT categorization_rules_currency_check CHECK (currency IN ('USD', 'GBP', 'EUR'));
+
+-- Same view as 031 plus amount_eur (appended); splits of EUR rows are proportioned on the EUR amount.
+CREATE OR REPLACE VIEW transaction_log_allocated WITH (security_invoker = true) AS
+SELECT
+  t.id,
+  s.id AS split_id,
+  t.user_id,
+  t.date,
+  COALESCE(s.category, t.category) AS category,
+  t.category AS parent_category,
+  t.counterparty,
+  t.counterparty_dedup,
+  CASE WHEN s.id IS NULL THEN t.amount_usd ELSE ROUND(t.amount_usd * s.amount / p.native_amount, 2) END AS amount_usd,
+  CASE WHEN s.id IS NULL THEN t.amount_gbp ELSE ROUND(t.amount_gbp * s.amount / p.native_amount, 2) END AS amount_gbp,
+  t.currency,
+  t.data_source,
+  t.external_id,
+  t.merchant_id,
+  s.note AS split_note,
+  t.created_at,
+  EXISTS (
+    SELECT 1 FROM transaction_transfers x
+    WHERE x.status <> 'rejected' AND (x.out_transaction_id = t.id OR x.in_transaction_id = t.id)
+  ) AS is_transfer,
+  CASE WHEN s.id IS NULL THEN t.amount_eur ELSE ROUND(t.amount_eur * s.amount / p.native_amount, 2) END AS amount_eur
+FROM transaction_log t
+CROSS JOIN LATERAL (
+  SELECT NULLIF(
+    CASE
+      WHEN UPPER(TRIM(COALESCE(t.currency, ''))) = 'GBP' AND t.amount_gbp IS NOT NULL THEN t.amount_gbp
+      WHEN UPPER(TRIM(COALESCE(t.currency, ''))) = 'EUR' AND t.amount_eur IS NOT NULL THEN t.amount_eur
+      ELSE COALESCE(t.amount_usd, t.amount_gbp)
+    END, 0) AS native_amount
+) p
+LEFT JOIN transaction_splits s ON s.transaction_id = t.id AND p.native_amount IS NOT NULL;
+
+-- Same as 036 with amount_eur carried through.
+CREATE OR REPLACE FUNCTION apply_sheet_transactions(p_user_id uuid, p_delete_hashes text[], p_rows jsonb)
+RETURNS TABLE (deleted integer, inserted integer)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_deleted integer;
+  v_inserted integer;
+BEGIN
+  DELETE FROM transaction_log
+  WHERE user_id = p_user_id
+    AND data_source = 'google_sheet'
+    AND (content_hash IS NULL OR content_hash = ANY(p_delete_hashes));
+  GET DIAGNOSTICS v_deleted = ROW_COUNT;
+
+  INSERT INTO transaction_log (
+    user_id, date, category, counterparty, counterparty_dedup,
+    amount_usd, amount_gbp, amount_eur, currency, data_source, content_hash
+  )
+  SELECT p_user_id, r.date, r.category, r.counterparty, COALESCE(r.counterparty_dedup, ''),
+    r.amount_usd, r.amount_gbp, r.amount_eur, r.currency, 'google_sheet', r.content_hash
+  FROM jsonb_to_recordset(p_rows) AS r(
+    date date, category text, counterparty text, counterparty_dedup text,
+    amount_usd numeric, amount_gbp numeric, amount_eur numeric, currency text, content_hash text
+  )
+  ON CONFLICT (user_id, content_hash) WHERE content_hash IS NOT NULL DO NOTHING;
+  GET DIAGNOSTICS v_inserted = ROW_COUNT;
+
+  RETURN QUERY SELECT v_deleted, v_inserted;
+END;
+$$;
+
+-- Cash runway gets an EUR pool (EUR transactions were in neither the GBP nor the USD sum).
+DROP FUNCTION IF EXISTS get_cash_runway_net_burn(date, date);
+
+CREATE OR REPLACE FUNCTION get_cash_runway_net_burn(p_start date, p_end date)
+RETURNS TABLE (gbp_net numeric, usd_net numeric, eur_net numeric)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    COALESCE(SUM(CASE WHEN UPPER(TRIM(COALESCE(currency, ''))) = 'GBP' THEN amount_gbp END), 0),
+    COALESCE(SUM(CASE WHEN currency IS NULL OR UPPER(TRIM(currency)) = 'USD' THEN amount_usd END), 0),
+    COALESCE(SUM(CASE WHEN UPPER(TRIM(COALESCE(currency, ''))) = 'EUR' THEN amount_eur END), 0)
+  FROM transaction_log_allocated
+  WHERE date >= p_start AND date <= p_end
+    AND category NOT IN ('Income', 'Excluded', 'Gift Money')
+    AND NOT is_transfer;
+$$;
@@ -0,0 +1,182 @@
+-- Native money model: each money row carries its own amount and ISO 4217 currency, and conversion
+-- goes through fx_quotes, keyed by (date, base, quote), instead of the GBPUSD / EURUSD columns.
+-- The amount_usd / amount_gbp (/ amount_eur), annual_budget_gbp / annual_budget_usd and balance_usd
+-- columns stay as a compatibility layer while components move over: the app still fills them on
+-- write (converted at the row's date), and transaction_log_allocated derives them from the native
+-- amount for rows written without them (e.g. CHF imports made before a CHF rate was known).
+
+-- 1. Generic FX rates: 1 base = rate quote, per day. Global like fx_rates.
+CREATE TABLE IF NOT EXISTS fx_quotes (
+    date DATE NOT NULL,
+    base TEXT NOT NULL CHECK (base ~ '^[A-Z]{3}$'),
+    quote TEXT NOT NULL CHECK (quote ~ '^[A-Z]{3}$'),
+    rate NUMERIC(18, 8) NOT NULL CHECK (rate > 0),
+    PRIMARY KEY (date, base, quote),
+    CHECK (base <> quote)
+);
+
+ALTER TABLE fx_quotes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "authenticated_full_access" ON fx_quotes
+  FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+CREATE INDEX IF NOT EXISTS idx_fx_quotes_pair_date ON fx_quotes(base, quote, date DESC);
+
+COMMENT ON TABLE fx_quotes IS 'FX rates by (date, base, quote): 1 base = rate quote. Filled from fx_rates / fx_rate_current on sync.';
+
+INSERT INTO fx_quotes (date, base, quote, rate)
+SELECT date, 'GBP', 'USD', gbpusd_rate FROM fx_rates WHERE gbpusd_rate > 0
+ON CONFLICT DO NOTHING;
+INSERT INTO fx_quotes (date, base, quote, rate)
+SELECT date, 'EUR', 'USD', eurusd_rate FROM fx_rates WHERE eurusd_rate > 0
+ON CONFLICT DO NOTHING;
+INSERT INTO fx_quotes (date, base, quote, rate)
+SELECT date, 'GBP', 'USD', gbpusd_rate FROM fx_rate_current WHERE gbpusd_rate > 0
+ON CONFLICT DO NOTHING;
+INSERT INTO fx_quotes (date, base, quote, rate)
+SELECT date, 'EUR', 'USD', eurusd_rate FROM fx_rate_current WHERE eurusd_rate > 0
+ON CONFLICT DO NOTHING;
+
+-- Rate from p_base to p_quote as of p_date: the latest quote on or before the date (else the
+-- earliest after it), direct or inverted, else crossed through USD. NULL when there is no quote.
+CREATE OR REPLACE FUNCTION fx_rate(p_base text, p_quote text, p_date date)
+RETURNS numeric
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_rate numeric;
+BEGIN
+  IF p_base IS NULL OR p_quote IS NULL THEN
+    RETURN NULL;
+  END IF;
+  IF p_base = p_quote THEN
+    RETURN 1;
+  END IF;
+
+  SELECT CASE WHEN q.base = p_base THEN q.rate ELSE 1 / q.rate END INTO v_rate
+  FROM fx_quotes q
+  WHERE (q.base = p_base AND q.quote = p_quote) OR (q.base = p_quote AND q.quote = p_base)
+  ORDER BY (q.date <= p_date) DESC,
+    CASE WHEN q.date <= p_date THEN q.date END DESC NULLS LAST,
+    q.date ASC
+  LIMIT 1;
+
+  IF v_rate IS NOT NULL OR p_base = 'USD' OR p_quote = 'USD' THEN
+    RETURN v_rate;
+  END IF;
+  RETURN fx_rate(p_base, 'USD', p_date) * fx_rate('USD', p_quote, p_date);
+END;
+$$;
+
+-- 2. Native amount + currency per row
+ALTER TABLE transaction_log ADD COLUMN IF NOT EXISTS amount NUMERIC(15, 2);
+
+UPDATE transaction_log SET amount = CASE UPPER(TRIM(COALESCE(currency, '')))
+    WHEN 'GBP' THEN amount_gbp
+    WHEN 'EUR' THEN amount_eur
+    ELSE amount_usd
+  END
+WHERE amount IS NULL;
+
+COMMENT ON COLUMN transaction_log.amount IS 'Amount in the transaction currency (currency column; NULL currency means USD).';
+COMMENT ON COLUMN transaction_log.currency IS 'ISO 4217 code of the transaction currency. From Transaction Log sheet column F.';
+
+ALTER TABLE budget_targets
+  ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'GBP' CHECK (currency ~ '^[A-Z]{3}$'),
+  ADD COLUMN IF NOT EXISTS annual_budget NUMERIC(15, 2);
+
+UPDATE budget_targets SET annual_budget = annual_budget_gbp WHERE annual_budget IS NULL;
+
+ALTER TABLE kids_accounts
+  ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'USD' CHECK (currency ~ '^[A-Z]{3}$'),
+  ADD COLUMN IF NOT EXISTS balance NUMERIC(15, 2);
+
+UPDATE kids_accounts SET balance = balance_usd WHERE balance IS NULL;
+
+-- balance_usd is now derived (and unknown until the account currency has a rate)
+ALTER TABLE kids_accounts ALTER COLUMN balance_usd DROP NOT NULL;
+
+-- account_balances was already native (balance_*_local + currency); open it to any ISO code
+ALTER TABLE account_balances DROP CONSTRAINT IF EXISTS account_balances_currency_check;
+ALTER TABLE account_balances
+  ADD CONSTRAINT account_balances_currency_check CHECK (currency ~ '^[A-Z]{3}$');
+
+ALTER TABLE categorization_rules DROP CONSTRAINT IF EXISTS categorization_rules_currency_check;
+ALTER TABLE categorization_rules
+  ADD CONSTRAINT categorization_rules_currency_check CHECK (currency ~ '^[A-Z]{3}$');
+
+-- 3. Compatibility view: same as 043 plus amount (native, appended). Legacy columns fall back to
+-- the native amount converted at the transaction date; splits are proportioned on the native amount.
+CREATE OR REPLACE VIEW transaction_log_allocated WITH (security_invoker = true) AS
+SELECT
+  t.id,
+  s.id AS split_id,
+  t.user_id,
+  t.date,
+  COALESCE(s.category, t.category) AS category,
+  t.category AS parent_category,
+  t.counterparty,
+  t.counterparty_dedup,
+  CASE WHEN s.id IS NULL THEN c.amount_usd ELSE ROUND(c.amount_usd * s.amount / p.native_amount, 2) END AS amount_usd,
+  CASE WHEN s.id IS NULL THEN c.amount_gbp ELSE ROUND(c.amount_gbp * s.amount / p.native_amount, 2) END AS amount_gbp,
+  t.currency,
+  t.data_source,
+  t.external_id,
+  t.merchant_id,
+  s.note AS split_note,
+  t.created_at,
+  EXISTS (
+    SELECT 1 FROM transaction_transfers x
+    WHERE x.status <> 'rejected' AND (x.out_transaction_id = t.id OR x.in_transaction_id = t.id)
+  ) AS is_transfer,
+  CASE WHEN s.id IS NULL THEN t.amount_eur ELSE ROUND(t.amount_eur * s.amount / p.native_amount, 2) END AS amount_eur,
+  CASE WHEN s.id IS NULL THEN p.native_amount ELSE s.amount END AS amount
+FROM transaction_log t
+CROSS JOIN LATERAL (
+  SELECT
+    COALESCE(t.amount_usd, ROUND(t.amount * fx_rate(UPPER(TRIM(t.currency)), 'USD', t.date), 2)) AS amount_usd,
+    COALESCE(t.amount_gbp, ROUND(t.amount * fx_rate(UPPER(TRIM(t.currency)), 'GBP', t.date), 2)) AS amount_gbp
+) c
+CROSS JOIN LATERAL (
+  SELECT NULLIF(
+    CASE
+      WHEN t.amount IS NOT NULL THEN t.amount
+      WHEN UPPER(TRIM(COALESCE(t.currency, ''))) = 'GBP' AND t.amount_gbp IS NOT NULL THEN t.amount_gbp
+      WHEN UPPER(TRIM(COALESCE(t.currency, ''))) = 'EUR' AND t.amount_eur IS NOT NULL THEN t.amount_eur
+      ELSE COALESCE(t.amount_usd, t.amount_gbp)
+    END, 0) AS native_amount
+) p
+LEFT JOIN transaction_splits s ON s.transaction_id = t.id AND p.native_amount IS NOT NULL;
+
+-- Same as 043 with the native amount carried through.
+CREATE OR REPLACE FUNCTION apply_sheet_transactions(p_user_id uuid, p_delete_hashes text[], p_rows jsonb)
+RETURNS TABLE (deleted integer, inserted integer)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_deleted integer;
+  v_inserted integer;
+BEGIN
+  DELETE FROM transaction_log
+  WHERE user_id = p_user_id
+    AND data_source = 'google_sheet'
+    AND (content_hash IS NULL OR content_hash = ANY(p_delete_hashes));
+  GET DIAGNOSTICS v_deleted = ROW_COUNT;
+
+  INSERT INTO transaction_log (
+    user_id, date, category, counterparty, counterparty_dedup,
+    amount_usd, amount_gbp, amount_eur, amount, currency, data_source, content_hash
+  )
+  SELECT p_user_id, r.date, r.category, r.counterparty, COALESCE(r.counterparty_dedup, ''),
+    r.amount_usd, r.amount_gbp, r.amount_eur, r.amount, r.currency, 'google_sheet', r.content_hash
+  FROM jsonb_to_recordset(p_rows) AS r(
+    date date, category text, counterparty text, counterparty_dedup text,
+    amount_usd numeric, amount_gbp numeric, amount_eur numeric, amount numeric, currency text, content_hash text
+  )
+  ON CONFLICT (user_id, content_hash) WHERE content_hash IS NOT NULL DO NOTHING;
+  GET DIAGNOSTICS v_inserted = ROW_COUNT;
+
+  RETURN QUERY SELECT v_deleted, v_inserted;
+END;
+$$;
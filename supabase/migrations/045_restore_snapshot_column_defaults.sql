@@ -0,0 +1,56 @@
+-- restore_sync_snapshot inserted jsonb_populate_recordset(...) with SELECT *, which turns every key
+-- a snapshot lacks into NULL. Snapshots taken before a column was added (budget_targets.currency,
+-- NOT NULL) then failed to restore. Rows are now inserted with an explicit column list: a column
+-- missing from the stored row takes its default, a column present keeps the stored value.
+CREATE OR REPLACE FUNCTION restore_sync_snapshot(p_snapshot_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_snapshot sync_snapshots;
+  v_table text;
+  v_backup_id uuid;
+  v_columns text;
+  v_values text;
+BEGIN
+  SELECT * INTO v_snapshot FROM sync_snapshots WHERE id = p_snapshot_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Snapshot % not found', p_snapshot_id;
+  END IF;
+
+  v_backup_id := create_sync_snapshot(v_snapshot.user_id, 'restore');
+
+  FOREACH v_table IN ARRAY ARRAY[
+    'budget_targets', 'debt', 'annual_trends', 'monthly_trends',
+    'investment_return', 'yoy_net_worth', 'recurring_payments'
+  ] LOOP
+    CONTINUE WHEN NOT v_snapshot.tables ? v_table;
+    EXECUTE format(
+      'DELETE FROM %I WHERE user_id = $1%s',
+      v_table,
+      CASE WHEN v_table IN ('budget_targets', 'debt') THEN ' AND data_source = ''google_sheet''' ELSE '' END
+    ) USING v_snapshot.user_id;
+
+    SELECT
+      string_agg(quote_ident(c.column_name), ', ' ORDER BY c.ordinal_position),
+      string_agg(
+        CASE WHEN c.column_default IS NULL THEN format('r.%I', c.column_name)
+             ELSE format('CASE WHEN e.value ? %L THEN r.%I ELSE %s END', c.column_name, c.column_name, c.column_default)
+        END,
+        ', ' ORDER BY c.ordinal_position
+      )
+    INTO v_columns, v_values
+    FROM information_schema.columns c
+    WHERE c.table_schema = 'public' AND c.table_name = v_table AND c.is_generated = 'NEVER';
+
+    -- Rows keep their original ids; the rows that replaced them were just deleted
+    EXECUTE format(
+      'INSERT INTO %I (%s) SELECT %s FROM jsonb_array_elements($1) e CROSS JOIN LATERAL jsonb_populate_record(NULL::%I, e.value) r',
+      v_table, v_columns, v_values, v_table
+    ) USING v_snapshot.tables -> v_table;
+  END LOOP;
+
+  UPDATE sync_snapshots SET restored_at = NOW() WHERE id = p_snapshot_id;
+  RETURN v_backup_id;
+END;
+$$;
@@ -0,0 +1,67 @@
+-- Same-currency pairs with no transfer wording (equal and opposite amounts a few days apart) are
+-- weak evidence: a salary and a rent payment of the same size would be paired. Detection now
+-- stores them as 'suggested', which is_transfer ignores until the user confirms the pair.
+-- status: auto = paired by detection (transfer wording, or across currencies), suggested = weak
+-- match awaiting review, confirmed = user accepted, rejected = user unpaired.
+ALTER TABLE transaction_transfers DROP CONSTRAINT IF EXISTS transaction_transfers_status_check;
+ALTER TABLE transaction_transfers
+  ADD CONSTRAINT transaction_transfers_status_check CHECK (status IN ('auto', 'suggested', 'confirmed', 'rejected'));
+
+-- Existing auto pairs detection would no longer make: same-currency without transfer wording on
+-- either leg, or with an Income / Gift Money leg
+UPDATE transaction_transfers x
+SET status = 'suggested', updated_at = NOW()
+WHERE x.status = 'auto'
+  AND (
+    (x.implied_rate IS NULL AND NOT EXISTS (
+      SELECT 1 FROM transaction_log t
+      WHERE t.id IN (x.out_transaction_id, x.in_transaction_id)
+        AND t.counterparty ~* '\m(transfer|tfr|trf|xfer|wise|transferwise|revolut|fx|exchange|top ?up|savings|own account|internal)\M'
+    ))
+    OR EXISTS (
+      SELECT 1 FROM transaction_log t
+      WHERE t.id IN (x.out_transaction_id, x.in_transaction_id) AND t.category IN ('Income', 'Gift Money')
+    )
+  );
+
+-- Same view as 044; is_transfer counts auto and confirmed pairs only.
+CREATE OR REPLACE VIEW transaction_log_allocated WITH (security_invoker = true) AS
+SELECT
+  t.id,
+  s.id AS split_id,
+  t.user_id,
+  t.date,
+  COALESCE(s.category, t.category) AS category,
+  t.category AS parent_category,
+  t.counterparty,
+  t.counterparty_dedup,
+  CASE WHEN s.id IS NULL THEN c.amount_usd ELSE ROUND(c.amount_usd * s.amount / p.native_amount, 2) END AS amount_usd,
+  CASE WHEN s.id IS NULL THEN c.amount_gbp ELSE ROUND(c.amount_gbp * s.amount / p.native_amount, 2) END AS amount_gbp,
+  t.currency,
+  t.data_source,
+  t.external_id,
+  t.merchant_id,
+  s.note AS split_note,
+  t.created_at,
+  EXISTS (
+    SELECT 1 FROM transaction_transfers x
+    WHERE x.status IN ('auto', 'confirmed') AND (x.out_transaction_id = t.id OR x.in_transaction_id = t.id)
+  ) AS is_transfer,
+  CASE WHEN s.id IS NULL THEN t.amount_eur ELSE ROUND(t.amount_eur * s.amount / p.native_amount, 2) END AS amount_eur,
+  CASE WHEN s.id IS NULL THEN p.native_amount ELSE s.amount END AS amount
+FROM transaction_log t
+CROSS JOIN LATERAL (
+  SELECT
+    COALESCE(t.amount_usd, ROUND(t.amount * fx_rate(UPPER(TRIM(t.currency)), 'USD', t.date), 2)) AS amount_usd,
+    COALESCE(t.amount_gbp, ROUND(t.amount * fx_rate(UPPER(TRIM(t.currency)), 'GBP', t.date), 2)) AS amount_gbp
+) c
+CROSS JOIN LATERAL (
+  SELECT NULLIF(
+    CASE
+      WHEN t.amount IS NOT NULL THEN t.amount
+      WHEN UPPER(TRIM(COALESCE(t.currency, ''))) = 'GBP' AND t.amount_gbp IS NOT NULL THEN t.amount_gbp
+      WHEN UPPER(TRIM(COALESCE(t.currency, ''))) = 'EUR' AND t.amount_eur IS NOT NULL THEN t.amount_eur
+      ELSE COALESCE(t.amount_usd, t.amount_gbp)
+    END, 0) AS native_amount
+) p
+LEFT JOIN transaction_splits s ON s.transaction_id = t.id AND p.native_amount IS NOT NULL;
@@ -0,0 +1,8 @@
+-- aggregator_connections.access_token was readable by the signed-in user through the user_own_data
+-- policy (RLS filters rows, not columns), so a leaked session also leaked the bank token. SELECT
+-- is now granted column by column without access_token; only the service role reads it, when a
+-- connection syncs. Users can still insert and update the token. New columns need adding here.
+REVOKE SELECT ON aggregator_connections FROM anon, authenticated;
+GRANT SELECT (
+  id, user_id, provider, item_id, institution, cursor, status, last_error, last_synced_at, created_at, updated_at
+) ON aggregator_connections TO authenticated;
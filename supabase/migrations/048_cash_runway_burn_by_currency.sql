@@ -0,0 +1,18 @@
+-- Cash runway burn per currency. 043 summed fixed GBP, USD and EUR pools, so transactions in any
+-- other currency (CHF, CAD, SGD, ...) were left out of burn. One row per transaction currency now,
+-- summed on the native amount (NULL currency means USD, as in transaction_log).
+DROP FUNCTION IF EXISTS get_cash_runway_net_burn(date, date);
+
+CREATE OR REPLACE FUNCTION get_cash_runway_net_burn(p_start date, p_end date)
+RETURNS TABLE (currency text, net numeric)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT UPPER(TRIM(COALESCE(NULLIF(TRIM(currency), ''), 'USD'))), COALESCE(SUM(amount), 0)
+  FROM transaction_log_allocated
+  WHERE date >= p_start AND date <= p_end
+    AND category NOT IN ('Income', 'Excluded', 'Gift Money')
+    AND NOT is_transfer
+    AND amount IS NOT NULL
+  GROUP BY 1;
+$$;
@@ -0,0 +1,19 @@
+-- Since 047 users cannot select aggregator_connections.access_token, and syncing read it with the
+-- service role, so every user-initiated sync needed SUPABASE_SERVICE_ROLE_KEY. This function hands
+-- the signed-in user the token of one of their own connections, and nothing else; the column
+-- itself stays out of their grants.
+CREATE OR REPLACE FUNCTION public.get_aggregator_access_token(p_connection_id uuid)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT access_token
+  FROM aggregator_connections
+  WHERE id = p_connection_id
+    AND user_id = current_user_id();
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_aggregator_access_token(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_aggregator_access_token(uuid) TO authenticated;